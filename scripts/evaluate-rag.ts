@@ -0,0 +1,113 @@
+#!/usr/bin/env ts-node
+
+/**
+ * RAG 평가 스크립트
+ *
+ * 정답 데이터셋(eval/rag-docs.golden.json)의 질문을 RagService로 질의하여
+ * 검색 지표(recall@k, MRR, 적중률)와 답변 지표(키워드 포함률, LLM 채점 충실도)를 계산하고
+ * JSON, 마크다운 보고서(eval/reports/<label>.json, .md)를 저장합니다.
+ *
+ * 평가 전에 rag-docs를 증분 인덱싱하므로, 청킹 설정을 바꾼 뒤에는
+ * pnpm run index-docs로 전체 인덱싱을 다시 한 다음 평가하세요.
+ *
+ * 사용법:
+ *   pnpm run eval
+ *   EVAL_LABEL=baseline pnpm run eval
+ *   EVAL_JUDGE=false EVAL_K=6 pnpm run eval
+ *
+ * 두 실행 결과 비교:
+ *   diff eval/reports/baseline.md eval/reports/new-prompt.md
+ */
+
+// 환경 변수 로드 (제일 먼저 실행)
+import * as dotenv from 'dotenv';
+dotenv.config();
+
+import { NestFactory } from '@nestjs/core';
+import { AppModule } from '../src/app.module';
+import { RagService } from '../src/rag/services/rag.service';
+import { EvaluationService } from '../src/rag/services/evaluation.service';
+import * as path from 'path';
+
+async function evaluate() {
+  console.log('📏 RAG 평가 시작...\n');
+
+  // 환경 변수 확인
+  // (OpenAI 임베딩이나 LLM을 사용할 때만 필요)
+  const embeddingProvider = process.env.EMBEDDING_PROVIDER || 'openai';
+  const llmProvider = process.env.LLM_PROVIDER || 'openai';
+  if (
+    (embeddingProvider === 'openai' || llmProvider === 'openai') &&
+    !process.env.OPENAI_API_KEY
+  ) {
+    console.error('❌ 오류: OPENAI_API_KEY 환경 변수가 설정되지 않았습니다.');
+    console.error('💡 해결 방법: .env 파일에 다음을 추가하세요:');
+    console.error('   OPENAI_API_KEY=your_openai_api_key_here\n');
+    process.exit(1);
+  }
+
+  const datasetPath =
+    process.env.EVAL_DATASET_PATH ||
+    path.join(process.cwd(), 'eval', 'rag-docs.golden.json');
+  const reportDir =
+    process.env.EVAL_REPORT_DIR || path.join(process.cwd(), 'eval', 'reports');
+  const label =
+    process.env.EVAL_LABEL || new Date().toISOString().replace(/[:.]/g, '-');
+
+  try {
+    // NestJS 애플리케이션 컨텍스트 생성
+    const app = await NestFactory.createApplicationContext(AppModule, {
+      logger: ['error', 'warn', 'log'],
+    });
+
+    const ragService = app.get(RagService);
+    const evaluationService = app.get(EvaluationService);
+
+    // 데이터셋 로드 (인덱싱 전에 형식 오류 확인)
+    const dataset = evaluationService.loadDataset(datasetPath);
+    console.log(
+      `📋 데이터셋: ${datasetPath} (${dataset.questions.length}개 질문)`,
+    );
+
+    // 평가 대상 문서 인덱싱 (변경된 파일만)
+    const ragDocsPath = path.join(process.cwd(), 'rag-docs');
+    await ragService.incrementalIndexDirectory(ragDocsPath, true);
+
+    // 평가 실행
+    const report = await evaluationService.evaluate(dataset);
+    const files = evaluationService.writeReport(report, reportDir, label);
+
+    const { summary } = report;
+    const format = (score: number | null) =>
+      score === null ? '-' : score.toFixed(3);
+
+    console.log('');
+    console.log('━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━');
+    console.log('✅ 평가 완료!');
+    console.log('━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━');
+    console.log(`❓ 질문: ${summary.questions}개 (오류 ${summary.errors}개)`);
+    console.log(`🔎 recall@${report.config.k}: ${format(summary.recallAtK)}`);
+    console.log(`🥇 MRR: ${format(summary.mrr)}`);
+    console.log(`🎯 적중률: ${format(summary.hitRate)}`);
+    console.log(`🏢 회사 감지 정확도: ${format(summary.entityAccuracy)}`);
+    console.log(`🔑 키워드 포함률: ${format(summary.keywordCoverage)}`);
+    console.log(`⚖️  충실도: ${format(summary.faithfulness)}`);
+    console.log('');
+    console.log('📝 보고서:');
+    console.log(`  - ${files.jsonPath}`);
+    console.log(`  - ${files.markdownPath}`);
+    console.log('');
+
+    // 애플리케이션 종료
+    await app.close();
+
+    process.exit(0);
+  } catch (error) {
+    console.error('\n❌ 평가 실패:', error.message);
+    console.error(error.stack);
+    process.exit(1);
+  }
+}
+
+// 스크립트 실행
+evaluate();
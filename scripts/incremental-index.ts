@@ -18,13 +18,16 @@ dotenv.config();
 import { NestFactory } from '@nestjs/core';
 import { AppModule } from '../src/app.module';
 import { RagService } from '../src/rag/services/rag.service';
+import { EmbeddingService } from '../src/rag/services/embedding.service';
 import * as path from 'path';
 
 async function incrementalIndex() {
   console.log('🔄 증분 인덱싱 시작...\n');
 
   // 환경 변수 확인
-  if (!process.env.OPENAI_API_KEY) {
+  // (OpenAI 임베딩을 사용할 때만 필요)
+  const embeddingProvider = process.env.EMBEDDING_PROVIDER || 'openai';
+  if (embeddingProvider === 'openai' && !process.env.OPENAI_API_KEY) {
     console.error('❌ 오류: OPENAI_API_KEY 환경 변수가 설정되지 않았습니다.');
     console.error('💡 해결 방법: .env 파일에 다음을 추가하세요:');
     console.error('   OPENAI_API_KEY=your_openai_api_key_here\n');
@@ -39,6 +42,7 @@ async function incrementalIndex() {
     
     // RagService 가져오기
     const ragService = app.get(RagService);
+    const embeddingService = app.get(EmbeddingService);
     
     // rag-docs 디렉토리 경로
     const ragDocsPath = path.join(process.cwd(), 'rag-docs');
@@ -68,13 +72,36 @@ async function incrementalIndex() {
     console.log(`  - 마지막 인덱싱: ${stats.lastIndexedAt || '없음'}`);
     console.log('');
     
-    // 비용 절감 효과
-    const savedFiles = result.skipped;
-    if (savedFiles > 0) {
+    // 임베딩 캐시 효과 (이번 실행)
+    if (stats.embeddingCache) {
+      const { hits, misses, entries } = stats.embeddingCache;
+      console.log('🧠 임베딩 캐시:');
+      console.log(`  - 캐시 적중: ${hits}개 청크 (다시 임베딩하지 않음)`);
+      console.log(`  - 새로 임베딩: ${misses}개 청크`);
+      console.log(`  - 저장된 벡터: ${entries}개`);
+      console.log('');
+    }
+    
+    // 임베딩 API 사용량 (이번 실행)
+    const usage = embeddingService.getUsage();
+    if (usage.requests > 0) {
+      console.log('💸 임베딩 API 사용량:');
+      console.log(`  - 요청: ${usage.requests}회 (재시도 ${usage.retries}회)`);
+      console.log(`  - 토큰: ${usage.tokens}개`);
+      console.log(`  - 비용: $${usage.cost.toFixed(6)}`);
+      console.log('');
+    }
+    
+    // 비용 절감 효과 (스킵된 파일과 캐시 적중으로 임베딩하지 않은 토큰)
+    const savedTokens =
+      result.skippedTokens + (stats.embeddingCache?.savedTokens ?? 0);
+    if (savedTokens > 0) {
       console.log('💰 비용 절감:');
-      console.log(`  - 재처리 스킵: ${savedFiles}개 파일`);
-      console.log(`  - 예상 절감 청크: ~${savedFiles * 15}개`);
-      console.log(`  - 예상 절감 비용: ~$${(savedFiles * 15 * 0.0001).toFixed(4)}`);
+      console.log(`  - 재처리 스킵: ${result.skipped}개 파일 (${result.skippedTokens}개 토큰)`);
+      if (stats.embeddingCache) {
+        console.log(`  - 캐시 적중: ${stats.embeddingCache.savedTokens}개 토큰`);
+      }
+      console.log(`  - 절감 비용: $${embeddingService.estimateCost(savedTokens).toFixed(6)}`);
       console.log('');
     }
     
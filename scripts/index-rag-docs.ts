@@ -24,7 +24,9 @@ async function indexDocuments() {
   console.log('🚀 RAG 문서 인덱싱 시작...\n');
 
   // 환경 변수 확인
-  if (!process.env.OPENAI_API_KEY) {
+  // (OpenAI 임베딩을 사용할 때만 필요)
+  const embeddingProvider = process.env.EMBEDDING_PROVIDER || 'openai';
+  if (embeddingProvider === 'openai' && !process.env.OPENAI_API_KEY) {
     console.error('❌ 오류: OPENAI_API_KEY 환경 변수가 설정되지 않았습니다.');
     console.error('💡 해결 방법: .env 파일에 다음을 추가하세요:');
     console.error('   OPENAI_API_KEY=your_openai_api_key_here\n');
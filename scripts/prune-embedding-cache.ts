@@ -0,0 +1,101 @@
+#!/usr/bin/env ts-node
+
+/**
+ * 임베딩 캐시 정리 스크립트
+ *
+ * 임베딩 캐시 파일(EMBEDDING_CACHE_PATH, 기본값: .embedding-cache.jsonl)에서
+ * 오래 사용하지 않은 벡터와 현재 임베딩 모델이 아닌 모델의 벡터를 삭제합니다.
+ *
+ * 서버가 실행 중이면 서버가 종료할 때 메모리의 캐시를 다시 저장하므로,
+ * 서버를 멈춘 상태에서 실행하세요.
+ * (애플리케이션 모듈을 띄우지 않고 캐시 파일과 임베딩 설정만 사용합니다.)
+ *
+ * 사용법:
+ *   pnpm run prune-embedding-cache
+ *   EMBEDDING_CACHE_PRUNE_MAX_AGE_DAYS=7 pnpm run prune-embedding-cache
+ *   EMBEDDING_CACHE_PRUNE_MAX_ENTRIES=50000 pnpm run prune-embedding-cache
+ *   EMBEDDING_CACHE_PRUNE_OTHER_MODELS=false pnpm run prune-embedding-cache
+ */
+
+// 환경 변수 로드 (제일 먼저 실행)
+import * as dotenv from 'dotenv';
+dotenv.config();
+
+import * as fs from 'fs';
+import * as path from 'path';
+import {
+  EmbeddingCache,
+  embeddingCacheModelKey,
+} from '../src/rag/embeddings/embedding-cache';
+import { createEmbeddingProvider } from '../src/rag/embeddings/embedding-providers';
+
+function pruneEmbeddingCache() {
+  console.log('🧹 임베딩 캐시 정리 시작...\n');
+
+  // 환경 변수 확인
+  // (OpenAI 임베딩을 사용할 때만 필요)
+  const embeddingProvider = process.env.EMBEDDING_PROVIDER || 'openai';
+  if (embeddingProvider === 'openai' && !process.env.OPENAI_API_KEY) {
+    console.error('❌ 오류: OPENAI_API_KEY 환경 변수가 설정되지 않았습니다.');
+    console.error('💡 해결 방법: .env 파일에 다음을 추가하세요:');
+    console.error('   OPENAI_API_KEY=your_openai_api_key_here\n');
+    process.exit(1);
+  }
+
+  const maxAgeDays = parseInt(
+    process.env.EMBEDDING_CACHE_PRUNE_MAX_AGE_DAYS || '30',
+    10,
+  );
+  const maxEntries = process.env.EMBEDDING_CACHE_PRUNE_MAX_ENTRIES
+    ? parseInt(process.env.EMBEDDING_CACHE_PRUNE_MAX_ENTRIES, 10)
+    : undefined;
+  const pruneOtherModels =
+    process.env.EMBEDDING_CACHE_PRUNE_OTHER_MODELS !== 'false';
+
+  try {
+    // 서버와 같은 설정으로 캐시 파일 경로와 현재 모델 키 결정
+    // (Qdrant 연결이나 인덱싱 감시 없이 캐시 파일만 다룸)
+    const cachePath =
+      process.env.EMBEDDING_CACHE_PATH ||
+      path.join(process.cwd(), '.embedding-cache.jsonl');
+    if (!fs.existsSync(cachePath)) {
+      throw new Error(
+        `임베딩 캐시 파일이 없습니다: ${cachePath} (EMBEDDING_CACHE_PATH 설정을 확인하세요)`,
+      );
+    }
+
+    const cache = new EmbeddingCache(cachePath);
+    const before = cache.getStats();
+    const modelKey = embeddingCacheModelKey(
+      createEmbeddingProvider(embeddingProvider),
+    );
+    console.log(`📁 캐시 파일: ${before.path} (${before.entries}개 벡터)`);
+    console.log(`🧠 현재 모델: ${modelKey}`);
+    console.log(
+      `⚙️  조건: ${maxAgeDays}일 이상 미사용${maxEntries !== undefined ? `, 최대 ${maxEntries}개` : ''}${pruneOtherModels ? ', 다른 모델의 벡터' : ''}`,
+    );
+
+    const result = cache.prune({
+      maxAgeDays,
+      maxEntries,
+      keepModel: pruneOtherModels ? modelKey : undefined,
+    });
+
+    console.log('');
+    console.log('━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━');
+    console.log('✅ 임베딩 캐시 정리 완료!');
+    console.log('━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━');
+    console.log(`🗑️  삭제된 벡터: ${result.removed}개`);
+    console.log(`📦 남은 벡터: ${result.remaining}개`);
+    console.log('');
+
+    process.exit(0);
+  } catch (error) {
+    console.error('\n❌ 임베딩 캐시 정리 실패:', (error as Error).message);
+    console.error((error as Error).stack);
+    process.exit(1);
+  }
+}
+
+// 스크립트 실행
+pruneEmbeddingCache();
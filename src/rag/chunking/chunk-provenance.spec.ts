@@ -0,0 +1,75 @@
+import { Document } from '@langchain/core/documents';
+import { addChunkProvenance, getPageNumber } from './chunk-provenance';
+
+describe('chunk-provenance', () => {
+  it('should record chunk index and character offsets of each chunk', () => {
+    const source = new Document({
+      pageContent:
+        '첫 번째 문장입니다.\n\n두 번째   문장입니다. 세 번째 문장입니다.',
+      metadata: { fileName: 'a.txt' },
+    });
+    const chunks = addChunkProvenance(source, [
+      new Document({ pageContent: '첫 번째 문장입니다.', metadata: {} }),
+      // 문장 분할기처럼 공백을 정리한 청크
+      new Document({
+        pageContent: '두 번째 문장입니다. 세 번째 문장입니다.',
+        metadata: {},
+      }),
+    ]);
+
+    expect(chunks.map((chunk) => chunk.metadata)).toEqual([
+      { chunkIndex: 0, startOffset: 0, endOffset: 11 },
+      { chunkIndex: 1, startOffset: 13, endOffset: 38 },
+    ]);
+    expect(source.pageContent.slice(13, 38)).toBe(
+      '두 번째   문장입니다. 세 번째 문장입니다.',
+    );
+  });
+
+  it('should locate overlapping chunks after the previous chunk', () => {
+    const source = new Document({ pageContent: 'abc abc abc', metadata: {} });
+    const chunks = addChunkProvenance(source, [
+      new Document({ pageContent: 'abc abc', metadata: {} }),
+      new Document({ pageContent: 'abc abc', metadata: {} }),
+    ]);
+
+    expect(chunks[1].metadata.startOffset).toBe(4);
+  });
+
+  it('should compute PDF page numbers and drop page offsets from chunks', () => {
+    const source = new Document({
+      pageContent: '1페이지 내용\n\n2페이지 내용',
+      metadata: { pageOffsets: [0, 9] },
+    });
+    const [first, second] = addChunkProvenance(source, [
+      new Document({ pageContent: '1페이지 내용', metadata: {} }),
+      new Document({ pageContent: '2페이지 내용', metadata: {} }),
+    ]);
+
+    expect(first.metadata.pageNumber).toBe(1);
+    expect(second.metadata.pageNumber).toBe(2);
+    expect(second.metadata.pageOffsets).toBeUndefined();
+  });
+
+  it('should keep offsets recorded by the splitter', () => {
+    const source = new Document({ pageContent: 'body', metadata: {} });
+    const [chunk] = addChunkProvenance(source, [
+      new Document({
+        pageContent: '헤더\nbody',
+        metadata: { startOffset: 0, endOffset: 4 },
+      }),
+    ]);
+
+    expect(chunk.metadata).toEqual({
+      chunkIndex: 0,
+      startOffset: 0,
+      endOffset: 4,
+    });
+  });
+
+  it('getPageNumber should return the page containing the offset', () => {
+    expect(getPageNumber([0, 100, 250], 0)).toBe(1);
+    expect(getPageNumber([0, 100, 250], 249)).toBe(2);
+    expect(getPageNumber([0, 100, 250], 300)).toBe(3);
+  });
+});
@@ -0,0 +1,144 @@
+import { Document } from '@langchain/core/documents';
+
+/**
+ * 청크 출처 정보 (청크 metadata에 기록)
+ */
+export interface ChunkProvenance {
+  /** 원본 문서 내 청크 순번 (0부터) */
+  chunkIndex: number;
+  /** 원본 문서 텍스트에서 청크가 시작하는 위치 (문자 단위, 포함) */
+  startOffset?: number;
+  /** 원본 문서 텍스트에서 청크가 끝나는 위치 (문자 단위, 미포함) */
+  endOffset?: number;
+  /** 청크가 시작하는 PDF 페이지 번호 (1부터) */
+  pageNumber?: number;
+}
+
+/**
+ * 원본 문서 metadata에서 청크로 복사하지 않는 키
+ *
+ * pageOffsets: DocumentLoaderService가 PDF 페이지 시작 위치를 전달할 때 사용
+ */
+const SOURCE_ONLY_KEYS = ['pageOffsets'];
+
+/**
+ * 분할된 청크에 출처 정보 추가
+ *
+ * @param source - 분할 전 원본 문서
+ * @param chunks - 원본 문서를 분할한 청크 (원본 순서)
+ * @returns 출처 정보가 metadata에 추가된 청크
+ *
+ * - 분할기가 startOffset/endOffset을 기록하지 않았으면 원본 텍스트에서 청크 위치를 찾습니다.
+ *   (공백 차이는 무시하며, 찾지 못하면 위치를 기록하지 않습니다)
+ * - 원본 metadata.pageOffsets(페이지별 시작 위치)가 있으면 시작 위치로 페이지 번호를 계산합니다.
+ */
+export function addChunkProvenance(
+  source: Document,
+  chunks: Document[],
+): Document[] {
+  const locator = new ChunkLocator(source.pageContent);
+  const pageOffsets = source.metadata.pageOffsets as number[] | undefined;
+
+  return chunks.map((chunk, chunkIndex) => {
+    const metadata: Record<string, any> = { ...chunk.metadata, chunkIndex };
+    for (const key of SOURCE_ONLY_KEYS) {
+      delete metadata[key];
+    }
+
+    if (typeof metadata.startOffset !== 'number') {
+      const span = locator.locate(chunk.pageContent);
+      if (span) {
+        metadata.startOffset = span.start;
+        metadata.endOffset = span.end;
+      }
+    }
+
+    if (pageOffsets && typeof metadata.startOffset === 'number') {
+      metadata.pageNumber = getPageNumber(pageOffsets, metadata.startOffset);
+    }
+
+    return new Document({ pageContent: chunk.pageContent, metadata });
+  });
+}
+
+/**
+ * 시작 위치가 속한 페이지 번호 계산
+ *
+ * @param pageOffsets - 페이지별 시작 위치 (오름차순)
+ * @param offset - 문자 위치
+ * @returns 페이지 번호 (1부터)
+ */
+export function getPageNumber(pageOffsets: number[], offset: number): number {
+  let page = 1;
+  for (let i = 0; i < pageOffsets.length; i++) {
+    if (pageOffsets[i] <= offset) {
+      page = i + 1;
+    }
+  }
+  return page;
+}
+
+/**
+ * 원본 텍스트에서 청크 위치 찾기
+ *
+ * 공백 연속을 하나의 공백으로 정규화하여 비교하므로
+ * 분할기가 공백을 정리한 청크(문장 분할 등)도 찾을 수 있습니다.
+ * 오버랩이 있는 청크는 원본 순서대로 나오므로 직전 청크의 시작 위치 이후부터 찾습니다.
+ *
+ * 청크 앞에 헤더를 붙이는 분할기는 헤더를 뺀 본문으로 직접 위치를 찾아
+ * metadata.startOffset/endOffset에 기록합니다.
+ */
+export class ChunkLocator {
+  /** 정규화된 원본 텍스트 */
+  private readonly normalized: string;
+  /** 정규화된 텍스트의 각 문자에 대응하는 원본 위치 */
+  private readonly positions: number[];
+  /** 다음 검색 시작 위치 (정규화 기준) */
+  private cursor = 0;
+
+  constructor(text: string) {
+    const chars: string[] = [];
+    this.positions = [];
+
+    for (let i = 0; i < text.length; i++) {
+      if (/\s/.test(text[i])) {
+        if (chars.length > 0 && chars[chars.length - 1] === ' ') {
+          continue;
+        }
+        chars.push(' ');
+      } else {
+        chars.push(text[i]);
+      }
+      this.positions.push(i);
+    }
+
+    this.normalized = chars.join('');
+  }
+
+  /**
+   * 청크의 원본 위치 찾기
+   *
+   * @param chunkText - 청크 텍스트
+   * @returns 원본 텍스트 기준 [start, end) 위치 (찾지 못하면 null)
+   */
+  locate(chunkText: string): { start: number; end: number } | null {
+    const target = chunkText.replace(/\s+/g, ' ').trim();
+    if (!target) {
+      return null;
+    }
+
+    let index = this.normalized.indexOf(target, this.cursor);
+    if (index < 0) {
+      index = this.normalized.indexOf(target);
+    }
+    if (index < 0) {
+      return null;
+    }
+
+    this.cursor = index + 1;
+    return {
+      start: this.positions[index],
+      end: this.positions[index + target.length - 1] + 1,
+    };
+  }
+}
@@ -0,0 +1,129 @@
+import { Document } from '@langchain/core/documents';
+import {
+  createDocumentSplitter,
+  matchesFilePattern,
+  parseChunkingConfig,
+  resolveChunkingStrategy,
+} from './chunking-strategy';
+import { KoreanSentenceSplitter } from './korean-sentence-splitter';
+import { MarkdownHeadingSplitter } from './markdown-heading-splitter';
+
+describe('chunking-strategy', () => {
+  describe('matchesFilePattern', () => {
+    it('should match file names when the pattern has no directory', () => {
+      expect(matchesFilePattern('*.json', 'rag-docs/kakao.json')).toBe(true);
+      expect(matchesFilePattern('*.{md,markdown}', 'docs/API.md')).toBe(true);
+      expect(matchesFilePattern('*.{md,markdown}', 'notes.txt')).toBe(false);
+    });
+
+    it('should match relative paths when the pattern has a directory', () => {
+      expect(matchesFilePattern('rag-docs/**/*.pdf', 'rag-docs/a/b.pdf')).toBe(
+        true,
+      );
+      expect(matchesFilePattern('rag-docs/**/*.pdf', 'rag-docs/b.pdf')).toBe(
+        true,
+      );
+      expect(matchesFilePattern('rag-docs/*.pdf', 'other/b.pdf')).toBe(false);
+    });
+  });
+
+  describe('parseChunkingConfig / resolveChunkingStrategy', () => {
+    const config = parseChunkingConfig({
+      default: { strategy: 'recursive-character', chunkSize: 1000 },
+      rules: [
+        { pattern: '*.json', strategy: 'json-structural' },
+        { pattern: '*.pdf', strategy: 'korean-sentence', chunkSize: 500 },
+      ],
+    });
+
+    it('should use the first matching rule and fill missing values from default', () => {
+      expect(resolveChunkingStrategy(config, '/tmp/policy.pdf')).toEqual({
+        strategy: 'korean-sentence',
+        chunkSize: 500,
+        chunkOverlap: 200,
+      });
+      expect(resolveChunkingStrategy(config, 'a.json').strategy).toBe(
+        'json-structural',
+      );
+    });
+
+    it('should fall back to default without a file path or matching rule', () => {
+      expect(resolveChunkingStrategy(config).strategy).toBe(
+        'recursive-character',
+      );
+      expect(resolveChunkingStrategy(config, 'a.docx').strategy).toBe(
+        'recursive-character',
+      );
+    });
+
+    it('should reject unknown strategies and invalid sizes', () => {
+      expect(() =>
+        parseChunkingConfig({ rules: [{ pattern: '*.md', strategy: 'x' }] }),
+      ).toThrow('전략이 올바르지 않습니다');
+      expect(() =>
+        parseChunkingConfig({
+          default: { chunkSize: 100, chunkOverlap: 100 },
+        }),
+      ).toThrow('chunkOverlap');
+      expect(() => parseChunkingConfig({ rules: [{}] })).toThrow('pattern');
+    });
+  });
+
+  describe('KoreanSentenceSplitter', () => {
+    it('should not cut sentences in the middle', async () => {
+      const splitter = new KoreanSentenceSplitter({
+        chunkSize: 40,
+        chunkOverlap: 0,
+      });
+      const chunks = await splitter.splitText(
+        '회원 정보는 탈퇴 시까지 보관합니다. 거래 기록은 5년간 보관합니다. 위치정보는 즉시 파기합니까? 네, 즉시 파기합니다.',
+      );
+
+      expect(chunks).toEqual([
+        '회원 정보는 탈퇴 시까지 보관합니다. 거래 기록은 5년간 보관합니다.',
+        '위치정보는 즉시 파기합니까? 네, 즉시 파기합니다.',
+      ]);
+    });
+  });
+
+  describe('MarkdownHeadingSplitter', () => {
+    it('should split by heading and record the heading path', async () => {
+      const splitter = new MarkdownHeadingSplitter();
+      const chunks = await splitter.splitDocuments([
+        new Document({
+          pageContent: [
+            '# 보안 조치',
+            '개요',
+            '## 암호화',
+            'AES-256',
+            '```',
+            '# 코드 주석',
+            '```',
+            '## 접근 통제',
+            '최소 권한',
+          ].join('\n'),
+          metadata: { fileName: 'security.md' },
+        }),
+      ]);
+
+      expect(chunks.map((chunk) => chunk.metadata.section as string)).toEqual([
+        '보안 조치',
+        '보안 조치 > 암호화',
+        '보안 조치 > 접근 통제',
+      ]);
+      expect(chunks[1].pageContent).toContain('# 코드 주석');
+    });
+  });
+
+  describe('createDocumentSplitter', () => {
+    it('should throw for unknown strategies', () => {
+      expect(() =>
+        createDocumentSplitter({
+          strategy: 'unknown' as never,
+          chunkSize: 100,
+          chunkOverlap: 0,
+        }),
+      ).toThrow('지원하지 않는 청킹 전략');
+    });
+  });
+});
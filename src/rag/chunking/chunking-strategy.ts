@@ -0,0 +1,266 @@
+import * as path from 'path';
+import { Document } from '@langchain/core/documents';
+import { RecursiveCharacterTextSplitter } from '@langchain/textsplitters';
+import { TokenCountUtil } from '../utils/token-count.util';
+import { JsonStructuralSplitter } from './json-structural-splitter';
+import { KoreanSentenceSplitter } from './korean-sentence-splitter';
+import { MarkdownHeadingSplitter } from './markdown-heading-splitter';
+
+/**
+ * 지원하는 청킹 전략
+ *
+ * - recursive-character: 문단 → 문장 → 단어 순으로 재귀 분할 (글자 수 기준)
+ * - markdown-heading: 마크다운 제목 단위 분할
+ * - korean-sentence: 한국어 문장 단위 분할
+ * - token-count: 토큰 수 기준 재귀 분할 (chunkSize/chunkOverlap 단위가 토큰)
+ * - json-structural: JSON 섹션/배열 원소 단위 분할
+ */
+export const CHUNKING_STRATEGIES = [
+  'recursive-character',
+  'markdown-heading',
+  'korean-sentence',
+  'token-count',
+  'json-structural',
+] as const;
+
+export type ChunkingStrategyName = (typeof CHUNKING_STRATEGIES)[number];
+
+/**
+ * 청킹 전략 설정
+ */
+export interface ChunkingStrategyConfig {
+  /** 전략 이름 */
+  strategy: ChunkingStrategyName;
+  /** 청크 최대 크기 (token-count는 토큰 수, 그 외는 글자 수) */
+  chunkSize: number;
+  /** 청크 간 오버랩 크기 (json-structural은 사용하지 않음) */
+  chunkOverlap: number;
+}
+
+/**
+ * 파일 패턴별 청킹 규칙
+ */
+export interface ChunkingRule extends Partial<ChunkingStrategyConfig> {
+  /**
+   * 파일 glob 패턴 (*, **, ?, {a,b} 지원)
+   *
+   * "/"가 없으면 파일 이름과, 있으면 작업 디렉토리 기준 상대 경로와 비교합니다.
+   * 예: "*.json", "*.{md,markdown}", "rag-docs/**\/*.pdf"
+   */
+  pattern: string;
+}
+
+/**
+ * 청킹 설정 파일 형식 (chunking.config.json)
+ *
+ * rules는 위에서부터 검사하여 처음 일치하는 규칙을 사용하고,
+ * 규칙에 없는 값은 default 값을 사용합니다.
+ */
+export interface ChunkingConfig {
+  default: ChunkingStrategyConfig;
+  rules: ChunkingRule[];
+}
+
+/**
+ * 문서 분할기 (LangChain TextSplitter와 같은 splitDocuments 인터페이스)
+ */
+export interface DocumentSplitter {
+  splitDocuments(documents: Document[]): Promise<Document[]>;
+}
+
+/**
+ * 설정 파일이 없을 때 사용하는 기본 청킹 설정
+ */
+export const DEFAULT_CHUNKING_CONFIG: ChunkingConfig = {
+  default: {
+    strategy: 'recursive-character',
+    chunkSize: 1000,
+    chunkOverlap: 200,
+  },
+  rules: [{ pattern: '*.json', strategy: 'json-structural' }],
+};
+
+/**
+ * 전략 설정에 맞는 문서 분할기 생성
+ *
+ * @param config - 청킹 전략 설정
+ * @returns 문서 분할기
+ * @throws Error - 지원하지 않는 전략인 경우
+ */
+export function createDocumentSplitter(
+  config: ChunkingStrategyConfig,
+): DocumentSplitter {
+  const { chunkSize, chunkOverlap } = config;
+
+  switch (config.strategy) {
+    case 'recursive-character':
+      return new RecursiveCharacterTextSplitter({ chunkSize, chunkOverlap });
+
+    case 'markdown-heading':
+      return new MarkdownHeadingSplitter({ chunkSize, chunkOverlap });
+
+    case 'korean-sentence':
+      return new KoreanSentenceSplitter({ chunkSize, chunkOverlap });
+
+    case 'token-count':
+      return new RecursiveCharacterTextSplitter({
+        chunkSize,
+        chunkOverlap,
+        lengthFunction: (text: string) => TokenCountUtil.countTokens(text),
+      });
+
+    case 'json-structural':
+      return new JsonStructuralSplitter({ chunkSize });
+
+    default:
+      throw new Error(
+        `지원하지 않는 청킹 전략입니다: ${config.strategy as string} (${CHUNKING_STRATEGIES.join(', ')} 중 선택)`,
+      );
+  }
+}
+
+/**
+ * 청킹 설정 검증
+ *
+ * @param input - 설정 파일 내용
+ * @returns 검증된 설정 (default가 없으면 기본 설정의 default 사용)
+ * @throws Error - 형식이 올바르지 않거나 지원하지 않는 전략이 있는 경우
+ */
+export function parseChunkingConfig(input: unknown): ChunkingConfig {
+  if (typeof input !== 'object' || input === null || Array.isArray(input)) {
+    throw new Error('청킹 설정은 default, rules를 가진 객체여야 합니다.');
+  }
+
+  const config = input as Partial<ChunkingConfig>;
+  const defaults = {
+    ...DEFAULT_CHUNKING_CONFIG.default,
+    ...config.default,
+  };
+  validateStrategyConfig(defaults, 'default');
+
+  const rules = config.rules ?? [];
+  if (!Array.isArray(rules)) {
+    throw new Error('청킹 설정의 rules는 배열이어야 합니다.');
+  }
+
+  rules.forEach((rule, index) => {
+    if (typeof rule?.pattern !== 'string' || !rule.pattern) {
+      throw new Error(`청킹 설정 rules[${index}]에 pattern이 없습니다.`);
+    }
+    validateStrategyConfig({ ...defaults, ...rule }, `rules[${index}]`);
+  });
+
+  return { default: defaults, rules };
+}
+
+/**
+ * 파일에 적용할 청킹 전략 설정 찾기
+ *
+ * @param config - 청킹 설정
+ * @param filePath - 파일 경로 (없으면 default 사용)
+ * @returns 처음 일치하는 규칙과 default를 합친 전략 설정
+ */
+export function resolveChunkingStrategy(
+  config: ChunkingConfig,
+  filePath?: string,
+): ChunkingStrategyConfig {
+  const rule = filePath
+    ? config.rules.find((item) => matchesFilePattern(item.pattern, filePath))
+    : undefined;
+
+  if (!rule) {
+    return { ...config.default };
+  }
+
+  return {
+    strategy: rule.strategy ?? config.default.strategy,
+    chunkSize: rule.chunkSize ?? config.default.chunkSize,
+    chunkOverlap: rule.chunkOverlap ?? config.default.chunkOverlap,
+  };
+}
+
+/**
+ * 파일 경로가 glob 패턴과 일치하는지 확인
+ *
+ * @param pattern - glob 패턴 ("/"가 없으면 파일 이름과 비교)
+ * @param filePath - 파일 경로 (절대 경로면 작업 디렉토리 기준 상대 경로로 변환)
+ * @returns 일치 여부 (대소문자 구분 없음)
+ */
+export function matchesFilePattern(pattern: string, filePath: string): boolean {
+  const relativePath = (
+    path.isAbsolute(filePath)
+      ? path.relative(process.cwd(), filePath)
+      : filePath
+  )
+    .split(path.sep)
+    .join('/');
+  const target = pattern.includes('/')
+    ? relativePath
+    : path.posix.basename(relativePath);
+
+  return globToRegExp(pattern).test(target);
+}
+
+/**
+ * glob 패턴을 정규식으로 변환
+ */
+function globToRegExp(pattern: string): RegExp {
+  let source = '';
+  let braceDepth = 0;
+
+  for (let i = 0; i < pattern.length; i++) {
+    const char = pattern[i];
+
+    if (char === '*' && pattern[i + 1] === '*') {
+      // "**/"는 0개 이상의 디렉토리
+      source += pattern[i + 2] === '/' ? '(?:.*/)?' : '.*';
+      i += pattern[i + 2] === '/' ? 2 : 1;
+    } else if (char === '*') {
+      source += '[^/]*';
+    } else if (char === '?') {
+      source += '[^/]';
+    } else if (char === '{') {
+      source += '(?:';
+      braceDepth++;
+    } else if (char === '}' && braceDepth > 0) {
+      source += ')';
+      braceDepth--;
+    } else if (char === ',' && braceDepth > 0) {
+      source += '|';
+    } else {
+      source += char.replace(/[.+^$(){}|[\]\\]/g, '\\$&');
+    }
+  }
+
+  return new RegExp(`^${source}$`, 'i');
+}
+
+/**
+ * 전략 설정 값 검증
+ */
+function validateStrategyConfig(
+  config: ChunkingStrategyConfig,
+  location: string,
+): void {
+  if (!CHUNKING_STRATEGIES.includes(config.strategy)) {
+    throw new Error(
+      `청킹 설정 ${location}의 전략이 올바르지 않습니다: ${config.strategy} (${CHUNKING_STRATEGIES.join(', ')} 중 선택)`,
+    );
+  }
+
+  if (!Number.isInteger(config.chunkSize) || config.chunkSize <= 0) {
+    throw new Error(
+      `청킹 설정 ${location}의 chunkSize는 양의 정수여야 합니다.`,
+    );
+  }
+
+  if (
+    !Number.isInteger(config.chunkOverlap) ||
+    config.chunkOverlap < 0 ||
+    config.chunkOverlap >= config.chunkSize
+  ) {
+    throw new Error(
+      `청킹 설정 ${location}의 chunkOverlap은 0 이상 chunkSize 미만의 정수여야 합니다.`,
+    );
+  }
+}
@@ -0,0 +1,95 @@
+import { Document } from '@langchain/core/documents';
+import { JsonStructuralSplitter } from './json-structural-splitter';
+
+describe('JsonStructuralSplitter', () => {
+  const metadata = {
+    fileType: '.json',
+    company_name: '카카오',
+    company_name_en: 'Kakao Corp',
+  };
+
+  const content = [
+    'metadata.company_name: 카카오',
+    'metadata.certifications[0]: ISMS-P',
+    'data_retention.retention_periods[0].data_type: 회원 정보',
+    'data_retention.retention_periods[0].period: 회원 탈퇴 시까지',
+    'data_retention.retention_periods[1].data_type: 거래 기록',
+    'data_retention.retention_periods[1].period: 5년',
+    'data_retention.destruction.timing: 보유기간 만료 후 5일 이내',
+    'third_party.data_sharing[0].items[0]: 이름',
+    'third_party.data_sharing[0].items[1]: 전화번호',
+  ].join('\n');
+
+  it('should emit one chunk per top-level section or object array element', async () => {
+    const splitter = new JsonStructuralSplitter();
+    const chunks = await splitter.splitDocuments([
+      new Document({ pageContent: content, metadata }),
+    ]);
+
+    expect(chunks.map((chunk) => chunk.metadata.section as string)).toEqual([
+      'metadata',
+      'data_retention.retention_periods[0]',
+      'data_retention.retention_periods[1]',
+      'data_retention',
+      'third_party.data_sharing[0]',
+    ]);
+  });
+
+  it('should carry the company metadata and header in every chunk', async () => {
+    const splitter = new JsonStructuralSplitter();
+    const chunks = await splitter.splitDocuments([
+      new Document({ pageContent: content, metadata }),
+    ]);
+    const sharing = chunks[chunks.length - 1];
+
+    expect(sharing.metadata.company_name).toBe('카카오');
+    expect(sharing.pageContent).toBe(
+      [
+        '회사: 카카오 (Kakao Corp)',
+        '섹션: third_party.data_sharing[0]',
+        'third_party.data_sharing[0].items[0]: 이름',
+        'third_party.data_sharing[0].items[1]: 전화번호',
+      ].join('\n'),
+    );
+  });
+
+  it('should split oversized sections and repeat the header', async () => {
+    const lines = Array.from(
+      { length: 20 },
+      (_, index) => `security_measures.notes.item_${index}: 보안 조치 설명`,
+    );
+    const splitter = new JsonStructuralSplitter({ chunkSize: 200 });
+    const chunks = await splitter.splitDocuments([
+      new Document({ pageContent: lines.join('\n'), metadata }),
+    ]);
+
+    expect(chunks.length).toBeGreaterThan(1);
+    for (const chunk of chunks) {
+      expect(chunk.pageContent.length).toBeLessThanOrEqual(200);
+      expect(chunk.pageContent).toMatch(
+        /^회사: 카카오 \(Kakao Corp\)\n섹션: security_measures\n/,
+      );
+      expect(chunk.metadata.section).toBe('security_measures');
+    }
+
+    const body = chunks
+      .flatMap((chunk) => chunk.pageContent.split('\n').slice(2))
+      .join('\n');
+    expect(body).toBe(lines.join('\n'));
+  });
+
+  it('should keep continuation lines of multi-line values in the same section', () => {
+    const splitter = new JsonStructuralSplitter();
+    const sections = splitter.splitSections(
+      'additional_info.note: 첫 줄\n둘째 줄\ncontact.email: privacy@example.com',
+    );
+
+    expect(sections).toEqual([
+      {
+        path: 'additional_info',
+        lines: ['additional_info.note: 첫 줄', '둘째 줄'],
+      },
+      { path: 'contact', lines: ['contact.email: privacy@example.com'] },
+    ]);
+  });
+});
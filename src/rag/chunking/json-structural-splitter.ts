@@ -0,0 +1,200 @@
+import { Document } from '@langchain/core/documents';
+import { RecursiveCharacterTextSplitter } from '@langchain/textsplitters';
+import { ChunkLocator } from './chunk-provenance';
+
+/**
+ * JSON 구조 기반 분할기 설정
+ */
+export interface JsonStructuralSplitterOptions {
+  /** 청크 최대 크기 (헤더 포함, 기본값 1000) */
+  chunkSize?: number;
+}
+
+/**
+ * 섹션 (같은 경로 접두사를 가진 줄 묶음)
+ */
+interface JsonSection {
+  /** 섹션 경로 (예: data_retention.retention_periods[2]) */
+  path: string;
+  /** 섹션에 속한 "경로: 값" 줄 */
+  lines: string[];
+}
+
+/**
+ * "경로: 값" 줄의 경로 부분
+ * (예: "third_party.data_sharing[0].items[1]: 이름" → "third_party.data_sharing[0].items[1]")
+ */
+const LINE_PATH_PATTERN = /^([^\s:.[\]]+(?:\.[^\s:.[\]]+|\[\d+\])*):(?: |$)/;
+
+/**
+ * JSON 구조 기반 분할기
+ *
+ * DocumentLoaderService가 JSON을 "경로: 값" 줄로 펼친 텍스트를
+ * 최상위 섹션 단위로 분할합니다.
+ * 객체 배열은 원소마다 별도 섹션으로 나눕니다. (예: data_retention.retention_periods[2])
+ *
+ * - 청크 앞에 회사명과 섹션 경로 헤더를 붙여 청크만으로 출처를 알 수 있게 합니다.
+ * - 청크 metadata에 섹션 경로(section, jsonPath)와 원본 위치(startOffset, endOffset)를 기록합니다.
+ * - chunkSize를 넘는 섹션은 줄 단위로 나누고 각 청크에 헤더를 반복합니다.
+ */
+export class JsonStructuralSplitter {
+  private readonly chunkSize: number;
+
+  constructor(options: JsonStructuralSplitterOptions = {}) {
+    this.chunkSize = options.chunkSize ?? 1000;
+  }
+
+  /**
+   * 문서를 섹션 단위 청크로 분할
+   *
+   * @param documents - JSON에서 변환된 문서 배열
+   * @returns 분할된 문서 배열 (metadata에 section, jsonPath, 원본 위치 추가)
+   */
+  async splitDocuments(documents: Document[]): Promise<Document[]> {
+    const chunks: Document[] = [];
+
+    for (const document of documents) {
+      const header = this.createCompanyHeader(document.metadata);
+      const locator = new ChunkLocator(document.pageContent);
+
+      for (const section of this.splitSections(document.pageContent)) {
+        const sectionHeader = section.path
+          ? `${header}섹션: ${section.path}\n`
+          : header;
+
+        for (const body of await this.packLines(
+          section.lines,
+          this.chunkSize - sectionHeader.length,
+        )) {
+          const span = locator.locate(body);
+
+          chunks.push(
+            new Document({
+              pageContent: sectionHeader + body,
+              metadata: {
+                ...document.metadata,
+                ...(section.path
+                  ? { section: section.path, jsonPath: section.path }
+                  : {}),
+                ...(span
+                  ? { startOffset: span.start, endOffset: span.end }
+                  : {}),
+              },
+            }),
+          );
+        }
+      }
+    }
+
+    return chunks;
+  }
+
+  /**
+   * 펼쳐진 텍스트를 섹션으로 분리
+   *
+   * @param text - "경로: 값" 줄로 이루어진 텍스트
+   * @returns 섹션 목록 (텍스트에 나온 순서)
+   *
+   * 경로가 없는 줄(여러 줄 문자열 값의 나머지 줄)은 바로 앞 줄의 섹션에 포함합니다.
+   */
+  splitSections(text: string): JsonSection[] {
+    const sections: JsonSection[] = [];
+    let current: JsonSection | null = null;
+
+    for (const line of text.split('\n')) {
+      if (!line.trim()) {
+        continue;
+      }
+
+      const match = LINE_PATH_PATTERN.exec(line);
+      // 경로가 없는 줄은 앞 줄의 섹션에 포함 (첫 줄이면 경로 없는 섹션)
+      const sectionPath: string = match
+        ? getSectionPath(match[1])
+        : (current?.path ?? '');
+
+      if (!current || current.path !== sectionPath) {
+        current = { path: sectionPath, lines: [] };
+        sections.push(current);
+      }
+
+      current.lines.push(line);
+    }
+
+    return sections;
+  }
+
+  /**
+   * 회사명 헤더 생성 (metadata.company_name이 없으면 빈 문자열)
+   */
+  private createCompanyHeader(metadata: Record<string, any>): string {
+    const name = metadata.company_name as string | undefined;
+    if (!name) {
+      return '';
+    }
+
+    const nameEn = metadata.company_name_en as string | undefined;
+    return `회사: ${nameEn ? `${name} (${nameEn})` : name}\n`;
+  }
+
+  /**
+   * 줄을 최대 크기 이하의 본문으로 묶기
+   *
+   * @param lines - 섹션의 줄
+   * @param maxLength - 본문 최대 길이 (헤더 제외)
+   * @returns 청크 본문 목록
+   *
+   * 한 줄이 최대 크기보다 길면 문자 단위로 나눕니다.
+   */
+  private async packLines(
+    lines: string[],
+    maxLength: number,
+  ): Promise<string[]> {
+    const limit = Math.max(maxLength, 1);
+    const bodies: string[] = [];
+    let current = '';
+
+    for (const line of lines) {
+      const pieces =
+        line.length > limit
+          ? await new RecursiveCharacterTextSplitter({
+              chunkSize: limit,
+              chunkOverlap: 0,
+            }).splitText(line)
+          : [line];
+
+      for (const piece of pieces) {
+        if (current && current.length + 1 + piece.length > limit) {
+          bodies.push(current);
+          current = '';
+        }
+        current = current ? `${current}\n${piece}` : piece;
+      }
+    }
+
+    if (current) {
+      bodies.push(current);
+    }
+
+    return bodies;
+  }
+}
+
+/**
+ * 줄 경로에서 섹션 경로 추출
+ *
+ * @param linePath - 줄의 전체 경로
+ * @returns 첫 번째 객체 배열 원소까지의 경로, 없으면 최상위 키
+ *
+ * 예:
+ * - "data_retention.retention_periods[2].period" → "data_retention.retention_periods[2]"
+ * - "data_retention.destruction.timing" → "data_retention"
+ * - "metadata.certifications[0]" → "metadata" (값 배열은 섹션으로 나누지 않음)
+ */
+function getSectionPath(linePath: string): string {
+  const objectElement = /^[^[]*?\[\d+\](?=\.)/.exec(linePath);
+  if (objectElement) {
+    return objectElement[0];
+  }
+
+  return linePath.split(/[.[]/)[0];
+}
@@ -0,0 +1,54 @@
+import {
+  RecursiveCharacterTextSplitter,
+  TextSplitter,
+} from '@langchain/textsplitters';
+
+/**
+ * 문장 경계
+ *
+ * - 마침표/물음표/느낌표/말줄임표 뒤의 공백 ("~합니다. ", "~인가요? ")
+ * - 줄바꿈
+ */
+const SENTENCE_BOUNDARY = /(?<=[.!?。…])\s+|\n+/;
+
+/**
+ * 한국어 문장 단위 분할기
+ *
+ * 텍스트를 문장으로 나눈 뒤 chunkSize를 넘지 않도록 문장을 묶습니다.
+ * 문장 중간에서 잘리지 않으므로 "~합니다." 형식의 서술형 문서(PDF, TXT)에 적합하며,
+ * 오버랩도 문장 단위로 적용됩니다.
+ * chunkSize보다 긴 문장은 문자 단위로 나눕니다.
+ */
+export class KoreanSentenceSplitter extends TextSplitter {
+  async splitText(text: string): Promise<string[]> {
+    const sentences: string[] = [];
+    const fallback = new RecursiveCharacterTextSplitter({
+      chunkSize: this.chunkSize,
+      chunkOverlap: 0,
+      lengthFunction: this.lengthFunction,
+    });
+
+    for (const sentence of this.splitSentences(text)) {
+      if ((await this.lengthFunction(sentence)) > this.chunkSize) {
+        sentences.push(...(await fallback.splitText(sentence)));
+      } else {
+        sentences.push(sentence);
+      }
+    }
+
+    return await this.mergeSplits(sentences, ' ');
+  }
+
+  /**
+   * 텍스트를 문장으로 분리
+   *
+   * @param text - 분리할 텍스트
+   * @returns 공백을 정리한 문장 목록
+   */
+  splitSentences(text: string): string[] {
+    return text
+      .split(SENTENCE_BOUNDARY)
+      .map((sentence) => sentence.replace(/\s+/g, ' ').trim())
+      .filter((sentence) => sentence.length > 0);
+  }
+}
@@ -0,0 +1,137 @@
+import { Document } from '@langchain/core/documents';
+import { RecursiveCharacterTextSplitter } from '@langchain/textsplitters';
+import { ChunkLocator } from './chunk-provenance';
+
+/**
+ * 마크다운 제목 기반 분할기 설정
+ */
+export interface MarkdownHeadingSplitterOptions {
+  /** 청크 최대 크기 (기본값 1000) */
+  chunkSize?: number;
+  /** 큰 섹션을 나눌 때의 오버랩 크기 (기본값 200) */
+  chunkOverlap?: number;
+}
+
+/**
+ * 마크다운 제목 줄 (예: "## 개인정보 보유 기간")
+ */
+const HEADING_PATTERN = /^(#{1,6})\s+(.+?)\s*#*\s*$/;
+
+/**
+ * 코드 블록 경계 줄 (코드 블록 안의 "#"은 제목이 아님)
+ */
+const CODE_FENCE_PATTERN = /^\s*(```|~~~)/;
+
+/**
+ * 마크다운 제목 기반 분할기
+ *
+ * 마크다운 문서를 제목(#, ##, ...) 단위 섹션으로 분할합니다.
+ * - 청크 metadata.section에 상위 제목 경로를 기록합니다. (예: "보안 조치 > 암호화")
+ * - 청크 metadata에 원본 위치(startOffset, endOffset)를 기록합니다. (붙인 제목 경로 제외)
+ * - chunkSize를 넘는 섹션은 마크다운 구분자로 나누고,
+ *   제목이 잘린 청크 앞에는 제목 경로를 붙입니다.
+ */
+export class MarkdownHeadingSplitter {
+  private readonly textSplitter: RecursiveCharacterTextSplitter;
+
+  constructor(options: MarkdownHeadingSplitterOptions = {}) {
+    this.textSplitter = RecursiveCharacterTextSplitter.fromLanguage(
+      'markdown',
+      {
+        chunkSize: options.chunkSize ?? 1000,
+        chunkOverlap: options.chunkOverlap ?? 200,
+      },
+    );
+  }
+
+  /**
+   * 문서를 제목 단위 청크로 분할
+   *
+   * @param documents - 마크다운 문서 배열
+   * @returns 분할된 문서 배열 (metadata에 section 추가)
+   */
+  async splitDocuments(documents: Document[]): Promise<Document[]> {
+    const chunks: Document[] = [];
+
+    for (const document of documents) {
+      const locator = new ChunkLocator(document.pageContent);
+
+      for (const section of this.splitSections(document.pageContent)) {
+        const sectionPath = section.headings.join(' > ');
+        const metadata = sectionPath
+          ? { ...document.metadata, section: sectionPath }
+          : { ...document.metadata };
+
+        for (const text of await this.textSplitter.splitText(section.text)) {
+          // 제목 줄이 없는 후속 청크에는 제목 경로를 붙여 문맥 유지
+          const pageContent =
+            sectionPath && !HEADING_PATTERN.test(text.split('\n')[0])
+              ? `${sectionPath}\n\n${text}`
+              : text;
+
+          const span = locator.locate(text);
+
+          chunks.push(
+            new Document({
+              pageContent,
+              metadata: span
+                ? { ...metadata, startOffset: span.start, endOffset: span.end }
+                : metadata,
+            }),
+          );
+        }
+      }
+    }
+
+    return chunks;
+  }
+
+  /**
+   * 마크다운 텍스트를 제목 단위 섹션으로 분리
+   *
+   * @param text - 마크다운 텍스트
+   * @returns 섹션 목록 (제목 경로와 본문, 제목 줄 포함)
+   */
+  splitSections(text: string): { headings: string[]; text: string }[] {
+    const sections: { headings: string[]; text: string }[] = [];
+    const headingStack: { level: number; title: string }[] = [];
+    let lines: string[] = [];
+    let inCodeBlock = false;
+
+    const flush = () => {
+      const sectionText = lines.join('\n').trim();
+      if (sectionText) {
+        sections.push({
+          headings: headingStack.map((heading) => heading.title),
+          text: sectionText,
+        });
+      }
+      lines = [];
+    };
+
+    for (const line of text.split('\n')) {
+      if (CODE_FENCE_PATTERN.test(line)) {
+        inCodeBlock = !inCodeBlock;
+      }
+
+      const match = inCodeBlock ? null : HEADING_PATTERN.exec(line);
+      if (match) {
+        flush();
+
+        const level = match[1].length;
+        while (
+          headingStack.length > 0 &&
+          headingStack[headingStack.length - 1].level >= level
+        ) {
+          headingStack.pop();
+        }
+        headingStack.push({ level, title: match[2] });
+      }
+
+      lines.push(line);
+    }
+
+    flush();
+    return sections;
+  }
+}
@@ -0,0 +1,57 @@
+import { Document } from '@langchain/core/documents';
+import { extractCitations, formatContextPassage } from './citations';
+
+describe('citations', () => {
+  const documents = [
+    new Document({
+      pageContent: '회원 정보: 회원 탈퇴 시까지',
+      metadata: {
+        fileName: 'kakao.json',
+        chunkIndex: 4,
+        startOffset: 120,
+        endOffset: 135,
+        section: 'data_retention.retention_periods[0]',
+        jsonPath: 'data_retention.retention_periods[0]',
+      },
+    }),
+    new Document({
+      pageContent: '비밀번호는 8자 이상이어야 합니다.',
+      metadata: { fileName: 'policy.pdf', pageNumber: 3, chunkIndex: 7 },
+    }),
+  ];
+
+  describe('formatContextPassage', () => {
+    it('should number passages and describe their source', () => {
+      expect(formatContextPassage(documents[1], 2)).toBe(
+        '[2] (policy.pdf, 3페이지)\n비밀번호는 8자 이상이어야 합니다.',
+      );
+    });
+  });
+
+  describe('extractCitations', () => {
+    it('should map markers to source spans in order of appearance', () => {
+      const citations = extractCitations(
+        '비밀번호는 8자 이상입니다 [2]. 회원 정보는 탈퇴 시까지 보관합니다 [1, 2].',
+        documents,
+      );
+
+      expect(citations.map((citation) => citation.marker)).toEqual([2, 1]);
+      expect(citations[1]).toEqual({
+        marker: 1,
+        fileName: 'kakao.json',
+        filePath: undefined,
+        chunkIndex: 4,
+        startOffset: 120,
+        endOffset: 135,
+        pageNumber: undefined,
+        section: 'data_retention.retention_periods[0]',
+        jsonPath: 'data_retention.retention_periods[0]',
+        text: '회원 정보: 회원 탈퇴 시까지',
+      });
+    });
+
+    it('should ignore markers without a matching passage', () => {
+      expect(extractCitations('근거 없음 [3] [0]', documents)).toEqual([]);
+    });
+  });
+});
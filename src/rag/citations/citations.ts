@@ -0,0 +1,135 @@
+import { Document } from '@langchain/core/documents';
+
+/**
+ * 참조 문서의 원본 위치
+ */
+export interface SourceSpan {
+  /** 파일 이름 */
+  fileName?: string;
+  /** 파일 경로 */
+  filePath?: string;
+  /** 원본 문서 내 청크 순번 */
+  chunkIndex?: number;
+  /** 원본 문서 텍스트에서의 시작 위치 (문자 단위, 포함) */
+  startOffset?: number;
+  /** 원본 문서 텍스트에서의 끝 위치 (문자 단위, 미포함) */
+  endOffset?: number;
+  /** PDF 페이지 번호 */
+  pageNumber?: number;
+  /** 섹션 (마크다운 제목 경로 또는 JSON 섹션) */
+  section?: string;
+  /** JSON 경로 (JSON 문서) */
+  jsonPath?: string;
+  /** 청크 텍스트 */
+  text: string;
+}
+
+/**
+ * 답변의 인용 표시([1])와 참조 문서 위치의 매핑
+ */
+export interface Citation extends SourceSpan {
+  /** 인용 번호 (컨텍스트 문서 번호, sourceDocuments[marker - 1]) */
+  marker: number;
+}
+
+/**
+ * 인용 표시 패턴 ("[1]", "[1, 3]")
+ */
+const CITATION_PATTERN = /\[(\d+(?:\s*,\s*\d+)*)\]/g;
+
+/**
+ * 컨텍스트 문서 하나를 번호가 붙은 단락으로 변환
+ *
+ * @param document - 참조 문서
+ * @param marker - 인용 번호 (1부터)
+ * @returns "[1] (파일명, 위치)\n내용" 형식의 단락
+ */
+export function formatContextPassage(
+  document: Document,
+  marker: number,
+): string {
+  const label = describeSource(document);
+  return `[${marker}]${label ? ` (${label})` : ''}\n${document.pageContent}`;
+}
+
+/**
+ * 답변에서 인용 표시를 찾아 참조 문서 위치로 변환
+ *
+ * @param answer - LLM 답변
+ * @param documents - 컨텍스트로 사용한 문서 (번호 순서)
+ * @returns 답변에 나온 순서의 인용 목록 (같은 번호는 한 번만, 범위를 벗어난 번호는 제외)
+ */
+export function extractCitations(
+  answer: string,
+  documents: Document[],
+): Citation[] {
+  const markers = new Set<number>();
+
+  for (const match of answer.matchAll(CITATION_PATTERN)) {
+    for (const value of match[1].split(',')) {
+      const marker = parseInt(value.trim(), 10);
+      if (marker >= 1 && marker <= documents.length) {
+        markers.add(marker);
+      }
+    }
+  }
+
+  return toCitations([...markers], documents);
+}
+
+/**
+ * 인용 번호를 참조 문서 위치로 변환
+ *
+ * @param markers - 인용 번호 (1부터, 중복 없음)
+ * @param documents - 컨텍스트로 사용한 문서 (번호 순서)
+ * @returns 번호 순서 그대로의 인용 목록 (범위를 벗어난 번호는 제외)
+ */
+export function toCitations(
+  markers: number[],
+  documents: Document[],
+): Citation[] {
+  return markers
+    .filter((marker) => marker >= 1 && marker <= documents.length)
+    .map((marker) => ({
+      marker,
+      ...toSourceSpan(documents[marker - 1]),
+    }));
+}
+
+/**
+ * 참조 문서의 출처 정보 추출
+ *
+ * @param document - 참조 문서 (ChunkingService가 기록한 출처 metadata 사용)
+ * @returns 원본 위치 (기록되지 않은 값은 생략)
+ */
+export function toSourceSpan(document: Document): SourceSpan {
+  const metadata = document.metadata;
+
+  return {
+    fileName: metadata.fileName as string | undefined,
+    filePath: metadata.filePath as string | undefined,
+    chunkIndex: metadata.chunkIndex as number | undefined,
+    startOffset: metadata.startOffset as number | undefined,
+    endOffset: metadata.endOffset as number | undefined,
+    pageNumber: metadata.pageNumber as number | undefined,
+    section: metadata.section as string | undefined,
+    jsonPath: metadata.jsonPath as string | undefined,
+    text: document.pageContent,
+  };
+}
+
+/**
+ * 프롬프트에 표시할 출처 설명 (파일명, 페이지, 섹션)
+ */
+function describeSource(document: Document): string {
+  const metadata = document.metadata;
+  const parts = [
+    (metadata.fileName ?? metadata.source) as string | undefined,
+    typeof metadata.pageNumber === 'number'
+      ? `${metadata.pageNumber}페이지`
+      : undefined,
+    metadata.section as string | undefined,
+  ];
+
+  return parts.filter(Boolean).join(', ');
+}
@@ -1,5 +1,9 @@
 import { Test, TestingModule } from '@nestjs/testing';
 import { RagController } from './rag.controller';
+import { RagService } from '../services/rag.service';
+import { ConversationService } from '../services/conversation.service';
+import { IndexingJobService } from '../services/indexing-job.service';
+import { IndexingWatcherService } from '../services/indexing-watcher.service';
 
 describe('RagController', () => {
   let controller: RagController;
@@ -7,6 +11,12 @@ describe('RagController', () => {
   beforeEach(async () => {
     const module: TestingModule = await Test.createTestingModule({
       controllers: [RagController],
+      providers: [
+        { provide: RagService, useValue: {} },
+        { provide: ConversationService, useValue: {} },
+        { provide: IndexingJobService, useValue: {} },
+        { provide: IndexingWatcherService, useValue: {} },
+      ],
     }).compile();
 
     controller = module.get<RagController>(RagController);
@@ -2,38 +2,86 @@ import {
   Controller,
   Post,
   Get,
+  Delete,
+  Put,
   Body,
+  Param,
   Query,
   UseInterceptors,
   UploadedFile,
+  Res,
 } from '@nestjs/common';
 import { FileInterceptor } from '@nestjs/platform-express';
-import { RagService } from '../services/rag.service';
+import type { Response } from 'express';
+import { Document } from '@langchain/core/documents';
+import { RagQueryOptions, RagService } from '../services/rag.service';
+import { ConversationService } from '../services/conversation.service';
+import { IndexingJobService } from '../services/indexing-job.service';
+import { IndexingWatcherService } from '../services/indexing-watcher.service';
+import { IndexingJob } from '../jobs/indexing-job';
+import { MetadataFilter, parseMetadataFilter } from '../stores/metadata-filter';
+import {
+  parseRetrievalWeights,
+  RetrievalWeights,
+} from '../retrieval/reciprocal-rank-fusion';
+import { parseRerankOptions, RerankOptions } from '../rerankers/reranker';
+import {
+  parseQueryExpansionOptions,
+  QueryExpansionOptions,
+} from '../retrieval/query-expander';
+import { AnswerFormat, parseAnswerFormat } from '../llm/structured-answer';
+import { parsePromptTemplateInput } from '../prompts/prompt-template';
 import { diskStorage } from 'multer';
 import { extname } from 'path';
 
+/**
+ * 질의 요청 본문 (POST /rag/query, /rag/query/stream)
+ *
+ * 클라이언트가 보낸 값이므로 toQueryOptions에서 형식을 검증합니다.
+ * GET /rag/query/stream의 JSON 쿼리 파라미터는 파싱하지 못하면 문자열 그대로 전달됩니다.
+ */
+interface QueryRequestBody {
+  question: string;
+  model?: string;
+  temperature?: number;
+  /** 메타데이터 필터 (객체 또는 JSON 문자열) */
+  filter?: MetadataFilter | string;
+  weights?: Partial<RetrievalWeights> | string;
+  rerank?: RerankOptions | string;
+  minScore?: number;
+  expansion?: QueryExpansionOptions | string;
+  format?: AnswerFormat;
+  /** 프롬프트 템플릿 이름 */
+  prompt?: string;
+}
+
 /**
  * RAG API 컨트롤러
- * 
+ *
  * RAG 서비스의 HTTP 엔드포인트를 제공합니다.
  * - 문서 추가 (텍스트 또는 파일 업로드)
- * - 질의응답
+ * - 질의응답 (단발성 / 멀티턴 대화)
  * - 유사 문서 검색
  */
 @Controller('rag')
 export class RagController {
-  constructor(private readonly ragService: RagService) {}
+  constructor(
+    private readonly ragService: RagService,
+    private readonly conversationService: ConversationService,
+    private readonly indexingJobService: IndexingJobService,
+    private readonly indexingWatcherService: IndexingWatcherService,
+  ) {}
 
   /**
    * 텍스트 문서 추가
-   * 
+   *
    * POST /rag/documents
-   * 
+   *
    * 요청 본문:
    * {
    *   "texts": ["문서 내용 1", "문서 내용 2", ...]
    * }
-   * 
+   *
    * 텍스트 배열을 받아서 벡터 스토어에 추가합니다.
    */
   @Post('documents')
@@ -44,12 +92,12 @@ export class RagController {
 
   /**
    * 파일 업로드로 문서 추가
-   * 
+   *
    * POST /rag/upload
-   * 
+   *
    * multipart/form-data 형식으로 파일을 업로드합니다.
    * 파일 필드명: 'file'
-   * 
+   *
    * 업로드된 파일은 ./uploads 디렉토리에 저장된 후
    * 내용을 읽어서 벡터 스토어에 추가합니다.
    */
@@ -60,8 +108,12 @@ export class RagController {
         destination: './uploads', // 파일 저장 디렉토리
         filename: (req, file, cb) => {
           // 고유한 파일명 생성 (타임스탬프 + 랜덤 숫자)
-          const uniqueSuffix = Date.now() + '-' + Math.round(Math.random() * 1e9);
-          cb(null, file.fieldname + '-' + uniqueSuffix + extname(file.originalname));
+          const uniqueSuffix =
+            Date.now() + '-' + Math.round(Math.random() * 1e9);
+          cb(
+            null,
+            file.fieldname + '-' + uniqueSuffix + extname(file.originalname),
+          );
         },
       }),
     }),
@@ -74,64 +126,353 @@ export class RagController {
     try {
       // 업로드된 파일을 읽어서 벡터 스토어에 추가
       await this.ragService.loadDocumentFromFile(file.path);
-      return { message: '파일이 성공적으로 처리되었습니다.', filename: file.filename };
+      return {
+        message: '파일이 성공적으로 처리되었습니다.',
+        filename: file.filename,
+      };
     } catch (error) {
-      return { error: error.message };
+      return { error: (error as Error).message };
     }
   }
 
   /**
    * 질문에 대한 답변 생성
-   * 
+   *
    * POST /rag/query
-   * 
+   *
    * 요청 본문:
    * {
-   *   "question": "질문 내용"
+   *   "question": "질문 내용",
+   *   "model": "gpt-4o-mini",  // 선택, LLM_ALLOWED_MODELS에 있는 모델만 허용
+   *   "temperature": 0.3,      // 선택, 0 ~ LLM_MAX_OVERRIDE_TEMPERATURE 범위만 허용
+   *   "filter": {              // 선택, 메타데이터 필터 (검색 전에 적용)
+   *     "industry": { "in": ["핀테크", "인터넷 전문은행"] },
+   *     "certifications": { "contains": "ISMS-P" },
+   *     "last_updated": { "gte": "2024-06-01" }
+   *   },
+   *   "weights": {             // 선택, 하이브리드 검색 가중치 (0이면 해당 검색 제외)
+   *     "vector": 1,
+   *     "keyword": 0.5
+   *   },
+   *   "rerank": {              // 선택, 재순위화 (none, company-match, mmr, llm)
+   *     "reranker": "mmr",
+   *     "candidateK": 10,      // 검색 단계 후보 수
+   *     "finalK": 4            // 컨텍스트로 사용할 문서 수
+   *   },
+   *   "minScore": 0.3,         // 선택, 최소 벡터 유사도 (-1 ~ 1, 기본값 MIN_SIMILARITY_SCORE)
+   *   "expansion": {           // 선택, 검색어 확장
+   *     "queries": 3,          // LLM으로 생성할 검색어 수 (0 ~ 5)
+   *     "hyde": true           // 가상 답변 단락으로도 검색
+   *   },
+   *   "format": "json",        // 선택, "text"(기본값) 또는 "json" (구조화된 답변)
+   *   "prompt": "default"      // 선택, 프롬프트 템플릿 이름 (GET /rag/prompts)
    * }
-   * 
+   *
    * 응답:
    * {
-   *   "answer": "생성된 답변",
-   *   "sources": [참조된 문서들]
+   *   "status": "answered",     // 기준을 넘는 문서가 없으면 "insufficient_context" (LLM 미호출)
+   *   "answer": "생성된 답변",    // format이 json이면 StructuredAnswerDto 객체
+   *   "mode": "standard",       // 회사가 2개 이상 감지되면 "comparison"
+   *   "entities": ["카카오"],    // 질문에서 감지된 회사
+   *   "sources": [참조된 문서들],  // 답변의 [1]은 sources[0], 각 문서에 score(유사도)와 rerankScore 포함
+   *   "reranker": "company-match", // 사용한 재순위화 방식 (비교 모드는 없음)
+   *   "prompt": { "name": "default", "version": 1 }, // 답변 생성에 사용한 프롬프트 템플릿
+   *   "insufficientContext": { "minScore": 0.3, "bestScore": 0.21 }, // insufficient_context일 때만
+   *   "expandedQueries": [       // 검색에 사용한 검색어 (비교 모드는 없음)
+   *     { "kind": "original", "text": "탈퇴하면 내 정보 언제 지워짐?" },
+   *     { "kind": "paraphrase", "text": "회원 탈퇴 시 개인정보 파기 시점" }
+   *   ],
+   *   "citations": [             // 답변에 나온 인용 번호별 원본 위치
+   *     { "marker": 1, "fileName": "kakao.json", "chunkIndex": 3,
+   *       "startOffset": 1520, "endOffset": 1804, "jsonPath": "data_retention", "text": "..." }
+   *   ]
    * }
-   * 
+   *
    * RAG 파이프라인을 통해 관련 문서를 검색하고 답변을 생성합니다.
+   * "카카오와 네이버의 비밀번호 정책 비교해줘"처럼 여러 회사가 감지되면
+   * 회사별로 문서를 고르게 검색하여 비교 표 형식으로 답변합니다.
    */
   @Post('query')
-  async query(@Body() body: { question: string }) {
+  async query(@Body() body: QueryRequestBody) {
     try {
-      const result = await this.ragService.query(body.question);
+      const result = await this.ragService.query(
+        body.question,
+        this.toQueryOptions(body),
+      );
       return {
-        answer: result.answer,
+        status: result.status,
+        answer: result.structuredAnswer ?? result.answer,
+        mode: result.mode,
+        entities: result.entities,
         // 참조된 문서들의 일부만 반환 (처음 200자)
-        sources: result.sourceDocuments?.map((doc) => ({
-          content: doc.pageContent.substring(0, 200) + '...',
-          metadata: doc.metadata,
-        })),
+        sources: result.sourceDocuments?.map((doc, index) =>
+          this.toSource(doc, {
+            score: result.similarityScores[index],
+            rerankScore: result.rerankScores?.[index],
+          }),
+        ),
+        reranker: result.reranker,
+        prompt: result.prompt,
+        insufficientContext: result.insufficientContext,
+        expandedQueries: result.expandedQueries,
+        citations: result.citations,
+      };
+    } catch (error) {
+      return { error: (error as Error).message };
+    }
+  }
+
+  /**
+   * 여러 회사의 정책 비교
+   *
+   * POST /rag/compare
+   *
+   * 요청 본문:
+   * {
+   *   "companies": ["카카오", "네이버", "배민"],  // 2개 이상, 별칭/영문 이름 가능
+   *   "topics": ["비밀번호 정책", "보관 기간"],   // 1개 이상
+   *   "model": "gpt-4o-mini",                    // 선택
+   *   "temperature": 0.3,                        // 선택
+   *   "filter": { ... },                         // 선택, 메타데이터 필터
+   *   "weights": { "vector": 1, "keyword": 1 },  // 선택, 하이브리드 검색 가중치
+   *   "minScore": 0.3,                           // 선택, 최소 벡터 유사도
+   *   "format": "json"                           // 선택, 구조화된 답변
+   * }
+   *
+   * 응답:
+   * {
+   *   "status": "answered",    // 기준을 넘는 문서가 없으면 "insufficient_context"
+   *   "answer": "비교 항목별 마크다운 표 (각 칸에 [1] 형식의 출처 표시)",
+   *   "mode": "comparison",
+   *   "entities": ["카카오", "네이버", "우아한형제들"],
+   *   "sources": [참조된 문서들],  // [1]은 sources[0], 각 문서에 score(유사도) 포함
+   *   "citations": [답변의 인용 번호별 원본 위치]
+   * }
+   */
+  @Post('compare')
+  async compare(
+    @Body()
+    body: Omit<QueryRequestBody, 'question'> & {
+      companies: string[];
+      topics: string[];
+    },
+  ) {
+    try {
+      const result = await this.ragService.compare(
+        body.companies,
+        body.topics,
+        this.toQueryOptions(body),
+      );
+      return {
+        status: result.status,
+        answer: result.structuredAnswer ?? result.answer,
+        mode: result.mode,
+        entities: result.entities,
+        sources: result.sourceDocuments?.map((doc, index) =>
+          this.toSource(doc, { score: result.similarityScores[index] }),
+        ),
+        prompt: result.prompt,
+        insufficientContext: result.insufficientContext,
+        citations: result.citations,
+      };
+    } catch (error) {
+      return { error: (error as Error).message };
+    }
+  }
+
+  /**
+   * 질문에 대한 답변 스트리밍 (Server-Sent Events)
+   *
+   * POST /rag/query/stream
+   *
+   * 요청 본문은 POST /rag/query와 같습니다. (format: "json"은 지원하지 않음)
+   *
+   * 응답 (text/event-stream):
+   * event: sources  → { "status": "answered", "sources": [참조된 문서들], "mode": "standard", "entities": [감지된 회사], "reranker": "company-match" }
+   * event: token    → { "text": "답변 조각" } (여러 번, insufficient_context이면 고정 문구 한 번)
+   * event: done     → { "timing": { "retrievalMs", "generationMs", "totalMs" }, "usage": 토큰 사용량, "citations": [인용 위치] }
+   * event: error    → { "error": "오류 메시지" } (실패 시)
+   */
+  @Post('query/stream')
+  async queryStream(@Body() body: QueryRequestBody, @Res() res: Response) {
+    await this.streamQuery(res, body);
+  }
+
+  /**
+   * 질문에 대한 답변 스트리밍 (Server-Sent Events, EventSource용)
+   *
+   * GET /rag/query/stream?question=질문내용&model=gpt-4o-mini&temperature=0.3&filter={"company_name":"토스"}&rerank={"reranker":"mmr"}&minScore=0.5
+   *
+   * 브라우저 EventSource는 GET만 지원하므로 쿼리 파라미터로 질문을 받습니다.
+   * filter, weights, rerank, expansion은 JSON 문자열로, temperature와 minScore는 숫자로 전달합니다.
+   * 응답 형식은 POST /rag/query/stream과 같습니다.
+   */
+  @Get('query/stream')
+  async queryStreamGet(
+    @Query('question') question: string,
+    @Query('model') model: string | undefined,
+    @Query('temperature') temperature: string | undefined,
+    @Query('filter') filter: string | undefined,
+    @Query('weights') weights: string | undefined,
+    @Query('rerank') rerank: string | undefined,
+    @Query('minScore') minScore: string | undefined,
+    @Query('expansion') expansion: string | undefined,
+    @Query('prompt') prompt: string | undefined,
+    @Res() res: Response,
+  ) {
+    await this.streamQuery(res, {
+      question,
+      model,
+      temperature: this.parseNumberQuery(temperature),
+      filter,
+      weights: this.parseJsonQuery<Partial<RetrievalWeights>>(weights),
+      rerank: this.parseJsonQuery<RerankOptions>(rerank),
+      minScore: this.parseNumberQuery(minScore),
+      expansion: this.parseJsonQuery<QueryExpansionOptions>(expansion),
+      prompt,
+    });
+  }
+
+  /**
+   * 대화 세션 생성
+   *
+   * POST /rag/conversations
+   *
+   * 응답:
+   * {
+   *   "conversationId": "세션 ID",
+   *   "createdAt": "2025-01-01T00:00:00.000Z"
+   * }
+   *
+   * 이후 질문은 POST /rag/conversations/:id/messages로 보냅니다.
+   */
+  @Post('conversations')
+  async createConversation() {
+    try {
+      const conversation = await this.conversationService.createConversation();
+      return {
+        conversationId: conversation.id,
+        createdAt: conversation.createdAt,
       };
     } catch (error) {
-      return { error: error.message };
+      return { error: (error as Error).message };
+    }
+  }
+
+  /**
+   * 대화 세션 조회
+   *
+   * GET /rag/conversations/:id
+   *
+   * 세션의 전체 메시지 히스토리를 반환합니다.
+   */
+  @Get('conversations/:id')
+  async getConversation(@Param('id') id: string) {
+    try {
+      return await this.conversationService.getConversation(id);
+    } catch (error) {
+      return { error: (error as Error).message };
+    }
+  }
+
+  /**
+   * 대화 세션 삭제
+   *
+   * DELETE /rag/conversations/:id
+   */
+  @Delete('conversations/:id')
+  async deleteConversation(@Param('id') id: string) {
+    try {
+      const deleted = await this.conversationService.deleteConversation(id);
+      return deleted
+        ? { success: true, message: '대화 세션이 삭제되었습니다.' }
+        : { success: false, error: `대화 세션을 찾을 수 없습니다: ${id}` };
+    } catch (error) {
+      return { success: false, error: (error as Error).message };
+    }
+  }
+
+  /**
+   * 대화 세션에 질문 보내기
+   *
+   * POST /rag/conversations/:id/messages
+   *
+   * 요청 본문:
+   * {
+   *   "question": "그럼 토스는?",
+   *   "model": "gpt-4o-mini",  // 선택
+   *   "temperature": 0.3       // 선택
+   * }
+   *
+   * 응답:
+   * {
+   *   "conversationId": "세션 ID",
+   *   "answer": "생성된 답변",
+   *   "standaloneQuestion": "토스의 비밀번호 정책은 무엇인가요?",
+   *   "sources": [참조된 문서들],
+   *   "citations": [답변의 인용 번호별 원본 위치],
+   *   "prompt": { "name": "default", "version": 1 }  // 답변 생성에 사용한 프롬프트 템플릿
+   * }
+   *
+   * 후속 질문은 이전 대화를 반영한 독립 질문으로 재작성된 뒤 검색에 사용되고,
+   * 답변 생성 프롬프트에는 이전 대화가 함께 포함됩니다.
+   */
+  @Post('conversations/:id/messages')
+  async sendConversationMessage(
+    @Param('id') id: string,
+    @Body() body: { question: string; model?: string; temperature?: number },
+  ) {
+    try {
+      const reply = await this.conversationService.sendMessage(
+        id,
+        body.question,
+        { model: body.model, temperature: body.temperature },
+      );
+      return {
+        conversationId: reply.conversationId,
+        answer: reply.answer,
+        standaloneQuestion: reply.standaloneQuestion,
+        sources: reply.sourceDocuments?.map((doc) => this.toSource(doc)),
+        citations: reply.citations,
+        prompt: reply.prompt,
+      };
+    } catch (error) {
+      return { error: (error as Error).message };
     }
   }
 
   /**
    * 유사 문서 검색
-   * 
-   * GET /rag/search?q=검색어&k=결과개수
-   * 
+   *
+   * GET /rag/search?q=검색어&k=결과개수&filter={"company_name":"카카오"}&vectorWeight=1&keywordWeight=0.5
+   *
    * 쿼리 파라미터:
    * - q: 검색할 쿼리 텍스트 (필수)
    * - k: 반환할 문서 개수 (선택, 기본값: 4)
-   * 
-   * 벡터 유사도 검색을 통해 쿼리와 유사한 문서들을 반환합니다.
+   * - filter: 메타데이터 필터 JSON (선택, POST /rag/query의 filter와 같은 형식)
+   * - vectorWeight: 벡터 검색 가중치 (선택, 기본값: HYBRID_VECTOR_WEIGHT)
+   * - keywordWeight: BM25 키워드 검색 가중치 (선택, 기본값: HYBRID_KEYWORD_WEIGHT)
+   *
+   * 벡터 유사도 검색과 BM25 키워드 검색 결과를
+   * Reciprocal Rank Fusion으로 병합하여 반환합니다.
    */
   @Get('search')
-  async search(@Query('q') query: string, @Query('k') k?: string) {
+  async search(
+    @Query('q') query: string,
+    @Query('k') k?: string,
+    @Query('filter') filter?: string,
+    @Query('vectorWeight') vectorWeight?: string,
+    @Query('keywordWeight') keywordWeight?: string,
+  ) {
     try {
       const documents = await this.ragService.similaritySearch(
         query,
         k ? parseInt(k) : 4, // k 파라미터가 있으면 파싱, 없으면 기본값 4
+        parseMetadataFilter(filter),
+        parseRetrievalWeights({
+          ...(vectorWeight !== undefined && { vector: vectorWeight }),
+          ...(keywordWeight !== undefined && { keyword: keywordWeight }),
+        }),
       );
       return {
         documents: documents.map((doc) => ({
@@ -140,114 +481,262 @@ export class RagController {
         })),
       };
     } catch (error) {
-      return { error: error.message };
+      return { error: (error as Error).message };
     }
   }
 
   /**
    * 디렉토리의 모든 문서 인덱싱 (전체 재인덱싱)
-   * 
+   *
    * POST /rag/index-directory
-   * 
+   *
    * 요청 본문:
    * {
    *   "dirPath": "rag-docs",
    *   "recursive": true  // 선택, 기본값: true
    * }
-   * 
+   *
    * 응답:
    * {
    *   "success": true,
-   *   "filesProcessed": 11,
-   *   "message": "11개 파일이 성공적으로 인덱싱되었습니다."
+   *   "jobId": "5b0e6c1e-...",
+   *   "state": "queued",
+   *   "message": "인덱싱 작업이 등록되었습니다. GET /rag/jobs/5b0e6c1e-...로 진행 상황을 확인하세요."
    * }
-   * 
-   * 지정된 디렉토리의 모든 파일을 읽어서 벡터 스토어에 추가합니다.
+   *
+   * 지정된 디렉토리의 모든 파일을 읽어서 벡터 스토어에 추가하는 작업을 등록합니다.
    * JSON, PDF, TXT, MD 등 다양한 형식을 지원합니다.
+   * 인덱싱은 백그라운드에서 실행되며, 진행 상황은 GET /rag/jobs/:id로 조회합니다.
    */
   @Post('index-directory')
-  async indexDirectory(
-    @Body() body: { dirPath: string; recursive?: boolean },
-  ) {
+  indexDirectory(@Body() body: { dirPath: string; recursive?: boolean }) {
     try {
       const recursive = body.recursive !== undefined ? body.recursive : true;
-      const filesProcessed = await this.ragService.loadDocumentsFromDirectory(
+      const job = this.indexingJobService.enqueue(
+        'full',
         body.dirPath,
         recursive,
       );
 
-      return {
-        success: true,
-        filesProcessed,
-        message: `${filesProcessed}개 파일이 성공적으로 인덱싱되었습니다.`,
-      };
+      return this.toJobAccepted(job);
     } catch (error) {
       return {
         success: false,
-        error: error.message,
+        error: (error as Error).message,
       };
     }
   }
 
   /**
    * 디렉토리의 문서 증분 업데이트 (변경된 파일만 재인덱싱)
-   * 
+   *
    * POST /rag/incremental-index
-   * 
+   *
    * 요청 본문:
    * {
    *   "dirPath": "rag-docs",
    *   "recursive": true  // 선택, 기본값: true
    * }
-   * 
+   *
    * 응답:
    * {
    *   "success": true,
-   *   "added": 2,        // 새로 추가된 파일
-   *   "updated": 3,      // 변경되어 재인덱싱된 파일
-   *   "skipped": 6,      // 변경 없어서 스킵된 파일
-   *   "deleted": 0,      // 삭제된 파일
-   *   "total": 11,       // 전체 파일 수
-   *   "message": "증분 인덱싱 완료: 추가 2개, 업데이트 3개, 스킵 6개"
+   *   "jobId": "5b0e6c1e-...",
+   *   "state": "queued",
+   *   "message": "인덱싱 작업이 등록되었습니다. GET /rag/jobs/5b0e6c1e-...로 진행 상황을 확인하세요."
    * }
-   * 
-   * 파일 해시를 비교하여 변경된 파일만 재인덱싱합니다.
+   *
+   * 파일 해시를 비교하여 변경된 파일만 재인덱싱하는 작업을 등록합니다.
    * 이전에 인덱싱된 파일은 스킵하여 시간과 비용을 절약합니다.
+   * 작업이 끝나면 GET /rag/jobs/:id의 result에 추가/업데이트/스킵/삭제 파일 수가 기록됩니다.
    */
   @Post('incremental-index')
-  async incrementalIndex(
-    @Body() body: { dirPath: string; recursive?: boolean },
-  ) {
+  incrementalIndex(@Body() body: { dirPath: string; recursive?: boolean }) {
     try {
       const recursive = body.recursive !== undefined ? body.recursive : true;
-      const result = await this.ragService.incrementalIndexDirectory(
+      const job = this.indexingJobService.enqueue(
+        'incremental',
         body.dirPath,
         recursive,
       );
 
+      return this.toJobAccepted(job);
+    } catch (error) {
+      return {
+        success: false,
+        error: (error as Error).message,
+      };
+    }
+  }
+
+  /**
+   * 인덱싱 작업 목록 조회
+   *
+   * GET /rag/jobs
+   *
+   * 응답:
+   * {
+   *   "success": true,
+   *   "jobs": [
+   *     {
+   *       "id": "5b0e6c1e-...",
+   *       "kind": "incremental",
+   *       "collection": "qdrant:rag-documents",
+   *       "state": "running",
+   *       "progress": { "totalFiles": 11, "processedFiles": 4, "failedFiles": 0, "currentFile": "rag-docs/naver-privacy-policy.json" },
+   *       "errorCount": 0,
+   *       "createdAt": "2025-01-01T00:00:00.000Z"
+   *     }
+   *   ]
+   * }
+   *
+   * 최근에 등록한 작업부터 반환합니다. 파일별 상태와 오류는 GET /rag/jobs/:id로 조회합니다.
+   */
+  @Get('jobs')
+  getJobs() {
+    try {
       return {
         success: true,
-        ...result,
-        message: `증분 인덱싱 완료: 추가 ${result.added}개, 업데이트 ${result.updated}개, 스킵 ${result.skipped}개`,
+        jobs: this.indexingJobService.getJobs().map((job) => ({
+          id: job.id,
+          kind: job.kind,
+          collection: job.collection,
+          dirPath: job.dirPath,
+          state: job.state,
+          cancelRequested: job.cancelRequested,
+          progress: job.progress,
+          errorCount: job.errors.length,
+          createdAt: job.createdAt,
+          startedAt: job.startedAt,
+          finishedAt: job.finishedAt,
+        })),
       };
     } catch (error) {
       return {
         success: false,
-        error: error.message,
+        error: (error as Error).message,
       };
     }
   }
 
+  /**
+   * 인덱싱 작업 조회
+   *
+   * GET /rag/jobs/:id
+   *
+   * 응답:
+   * {
+   *   "success": true,
+   *   "job": {
+   *     "id": "5b0e6c1e-...",
+   *     "kind": "incremental",
+   *     "state": "failed",            // queued, running, succeeded, failed, cancelled
+   *     "progress": { "totalFiles": 11, "processedFiles": 11, "failedFiles": 1 },
+   *     "files": [{ "filePath": "rag-docs/kakao-privacy-policy.json", "status": "updated" }, ...],
+   *     "errors": [{ "filePath": "rag-docs/broken.pdf", "message": "...", "occurredAt": "..." }],
+   *     "result": { "added": 0, "updated": 1, "skipped": 9, "deleted": 0, "total": 10 }
+   *   }
+   * }
+   */
+  @Get('jobs/:id')
+  getJob(@Param('id') id: string) {
+    try {
+      return {
+        success: true,
+        job: this.indexingJobService.getJob(id),
+      };
+    } catch (error) {
+      return {
+        success: false,
+        error: (error as Error).message,
+      };
+    }
+  }
+
+  /**
+   * 인덱싱 작업 취소
+   *
+   * DELETE /rag/jobs/:id
+   *
+   * 대기 중인 작업은 바로 취소되고, 실행 중인 작업은 처리 중인 파일이 끝나면 취소됩니다.
+   * (응답의 cancelRequested가 true이고 state는 잠시 running으로 남음)
+   * 이미 종료된 작업은 취소할 수 없습니다.
+   */
+  @Delete('jobs/:id')
+  cancelJob(@Param('id') id: string) {
+    try {
+      return {
+        success: true,
+        job: this.indexingJobService.cancelJob(id),
+      };
+    } catch (error) {
+      return {
+        success: false,
+        error: (error as Error).message,
+      };
+    }
+  }
+
+  /**
+   * 감시 모드 상태 조회
+   *
+   * GET /rag/watch
+   *
+   * 응답:
+   * {
+   *   "success": true,
+   *   "watch": {
+   *     "enabled": true,
+   *     "debounceMs": 1000,
+   *     "directories": [
+   *       {
+   *         "dirPath": "rag-docs",
+   *         "watching": true,
+   *         "pendingChanges": 0,
+   *         "lastChangeAt": "2025-01-01T00:00:00.000Z",
+   *         "lastJobId": "5b0e6c1e-..."
+   *       }
+   *     ]
+   *   }
+   * }
+   *
+   * 감시 모드는 INDEX_WATCH=true로 켭니다. 변경된 파일은 watch 작업으로 인덱싱되며,
+   * 처리 결과는 lastJobId로 GET /rag/jobs/:id에서 조회합니다.
+   */
+  @Get('watch')
+  getWatchStatus() {
+    return {
+      success: true,
+      watch: this.indexingWatcherService.getStatus(),
+    };
+  }
+
   /**
    * 인덱싱 통계 조회
-   * 
+   *
    * GET /rag/stats
-   * 
+   *
    * 응답:
    * {
    *   "totalFiles": 11,
    *   "totalChunks": 204,
-   *   "lastIndexedAt": "2024-12-14T08:30:00.000Z"
+   *   "lastIndexedAt": "2024-12-14T08:30:00.000Z",
+   *   "embeddingCache": {          // 임베딩 캐시를 사용하지 않으면 null
+   *     "path": "/app/.embedding-cache.jsonl",
+   *     "entries": 204,
+   *     "hits": 198,               // 서버 시작 이후 캐시에서 찾은 청크 수
+   *     "misses": 6,               // 서버 시작 이후 새로 임베딩한 청크 수
+   *     "savedTokens": 41200,      // 캐시 적중으로 임베딩하지 않은 토큰 수
+   *     "hitRate": 0.97
+   *   },
+   *   "embeddingUsage": {          // 서버 시작 이후 임베딩 API 사용량 (local 제공자는 모두 0)
+   *     "requests": 3,
+   *     "texts": 7,
+   *     "tokens": 1450,
+   *     "retries": 1,              // 요청 한도 초과(429) 등으로 다시 시도한 횟수
+   *     "pricePer1kTokens": 0.0001,
+   *     "cost": 0.000145           // USD
+   *   }
    * }
    */
   @Get('stats')
@@ -261,23 +750,167 @@ export class RagController {
     } catch (error) {
       return {
         success: false,
-        error: error.message,
+        error: (error as Error).message,
+      };
+    }
+  }
+
+  /**
+   * 엔티티(회사) 카탈로그 조회
+   *
+   * GET /rag/entities
+   *
+   * 응답:
+   * {
+   *   "success": true,
+   *   "entities": [
+   *     {
+   *       "name": "우아한형제들",
+   *       "nameEn": "Woowa Brothers",
+   *       "aliases": ["배달의민족", "배민"],
+   *       "documentCount": 1
+   *     }
+   *   ]
+   * }
+   *
+   * 인덱싱된 문서의 회사명과 별칭 설정(entity-aliases.json)으로 만든 목록이며,
+   * 질문에서 회사명을 감지하는 데 사용됩니다.
+   */
+  @Get('entities')
+  getEntities() {
+    try {
+      return {
+        success: true,
+        entities: this.ragService.getEntities(),
+      };
+    } catch (error) {
+      return {
+        success: false,
+        error: (error as Error).message,
+      };
+    }
+  }
+
+  /**
+   * 프롬프트 템플릿 목록 조회
+   *
+   * GET /rag/prompts
+   *
+   * 응답:
+   * {
+   *   "success": true,
+   *   "prompts": [
+   *     {
+   *       "name": "default",
+   *       "version": 2,
+   *       "language": "ko",
+   *       "description": "개인정보 처리방침 전문가 답변 (마크다운 섹션 구성)",
+   *       "variables": ["context", "history", "question"],
+   *       "updatedAt": "2025-01-01T00:00:00.000Z"
+   *     }
+   *   ]
+   * }
+   *
+   * 템플릿 본문은 GET /rag/prompts/:name으로 조회합니다.
+   */
+  @Get('prompts')
+  getPrompts() {
+    try {
+      return {
+        success: true,
+        prompts: this.ragService.getPrompts().map((prompt) => ({
+          name: prompt.name,
+          version: prompt.version,
+          language: prompt.language,
+          description: prompt.description,
+          variables: prompt.variables,
+          updatedAt: prompt.updatedAt,
+        })),
+      };
+    } catch (error) {
+      return {
+        success: false,
+        error: (error as Error).message,
+      };
+    }
+  }
+
+  /**
+   * 프롬프트 템플릿 조회
+   *
+   * GET /rag/prompts/:name?version=1
+   *
+   * version을 생략하면 현재 버전을 반환합니다.
+   * 이전 버전과 비교할 때 사용합니다.
+   */
+  @Get('prompts/:name')
+  getPrompt(@Param('name') name: string, @Query('version') version?: string) {
+    try {
+      return {
+        success: true,
+        prompt: this.ragService.getPrompt(
+          name,
+          version !== undefined ? parseInt(version, 10) : undefined,
+        ),
+      };
+    } catch (error) {
+      return {
+        success: false,
+        error: (error as Error).message,
+      };
+    }
+  }
+
+  /**
+   * 프롬프트 템플릿 추가 또는 수정
+   *
+   * PUT /rag/prompts/:name
+   *
+   * 요청 본문:
+   * {
+   *   "template": "... {context} ... {question} ...",  // {context}, {question} 필수, {history} 선택
+   *   "language": "ko",                             // 선택
+   *   "description": "보험 약관 전문가 답변"          // 선택
+   * }
+   *
+   * 응답:
+   * {
+   *   "success": true,
+   *   "prompt": { "name": "insurance", "version": 1, ... }
+   * }
+   *
+   * 저장할 때마다 버전이 1씩 올라가고, 이전 버전은 history/에 보관됩니다.
+   */
+  @Put('prompts/:name')
+  savePrompt(@Param('name') name: string, @Body() body: unknown) {
+    try {
+      return {
+        success: true,
+        prompt: this.ragService.savePrompt(
+          name,
+          parsePromptTemplateInput(body),
+        ),
+      };
+    } catch (error) {
+      return {
+        success: false,
+        error: (error as Error).message,
       };
     }
   }
 
   /**
    * 인덱싱 히스토리 초기화
-   * 
+   *
    * POST /rag/reset-history
-   * 
+   *
    * 인덱싱 히스토리를 모두 삭제합니다.
    * 다음 증분 인덱싱 시 모든 파일이 새로 추가됩니다.
    */
   @Post('reset-history')
   async resetHistory() {
     try {
-      this.ragService.clearIndexingHistory();
+      await this.ragService.clearIndexingHistory();
       return {
         success: true,
         message: '인덱싱 히스토리가 초기화되었습니다.',
@@ -285,8 +918,181 @@ export class RagController {
     } catch (error) {
       return {
         success: false,
-        error: error.message,
+        error: (error as Error).message,
       };
     }
   }
+
+  /**
+   * RAG 스트리밍 결과를 SSE 이벤트로 전송
+   *
+   * @param res - Express 응답 객체
+   * @param body - 질의 요청
+   *
+   * 클라이언트가 연결을 끊으면 답변 생성을 중단합니다.
+   */
+  private async streamQuery(
+    res: Response,
+    body: QueryRequestBody,
+  ): Promise<void> {
+    res.setHeader('Content-Type', 'text/event-stream');
+    res.setHeader('Cache-Control', 'no-cache');
+    res.setHeader('Connection', 'keep-alive');
+    res.flushHeaders();
+
+    let closed = false;
+    res.on('close', () => {
+      closed = true;
+    });
+
+    const send = (event: string, data: unknown) => {
+      res.write(`event: ${event}\ndata: ${JSON.stringify(data)}\n\n`);
+    };
+
+    try {
+      for await (const event of this.ragService.queryStream(
+        body.question,
+        this.toQueryOptions(body),
+      )) {
+        if (closed) {
+          break;
+        }
+
+        switch (event.type) {
+          case 'sources':
+            send('sources', {
+              status: event.status,
+              sources: event.sourceDocuments.map((doc, index) =>
+                this.toSource(doc, {
+                  score: event.similarityScores[index],
+                  rerankScore: event.rerankScores?.[index],
+                }),
+              ),
+              mode: event.mode,
+              entities: event.entities,
+              reranker: event.reranker,
+              insufficientContext: event.insufficientContext,
+              expandedQueries: event.expandedQueries,
+              prompt: event.prompt,
+            });
+            break;
+          case 'token':
+            send('token', { text: event.text });
+            break;
+          case 'done':
+            send('done', {
+              timing: event.timing,
+              usage: event.usage,
+              citations: event.citations,
+            });
+            break;
+        }
+      }
+    } catch (error) {
+      if (!closed) {
+        send('error', { error: (error as Error).message });
+      }
+    }
+
+    res.end();
+  }
+
+  /**
+   * 질의 요청을 RAG 질의 옵션으로 변환
+   *
+   * @throws Error - temperature, filter, weights, rerank, minScore, expansion, format, prompt 형식이 올바르지 않은 경우
+   */
+  private toQueryOptions(
+    body: Omit<QueryRequestBody, 'question'>,
+  ): RagQueryOptions {
+    const { temperature, minScore, prompt } = body;
+    if (
+      temperature !== undefined &&
+      (typeof temperature !== 'number' || !Number.isFinite(temperature))
+    ) {
+      throw new Error('temperature는 숫자여야 합니다.');
+    }
+    if (
+      minScore !== undefined &&
+      (typeof minScore !== 'number' || !(minScore >= -1 && minScore <= 1))
+    ) {
+      throw new Error('minScore는 -1 ~ 1 사이의 숫자여야 합니다.');
+    }
+    if (prompt !== undefined && typeof prompt !== 'string') {
+      throw new Error('prompt는 프롬프트 템플릿 이름(문자열)이어야 합니다.');
+    }
+
+    return {
+      llm: { model: body.model, temperature },
+      filter: parseMetadataFilter(body.filter),
+      weights: parseRetrievalWeights(body.weights),
+      rerank: parseRerankOptions(body.rerank),
+      minScore,
+      expansion: parseQueryExpansionOptions(body.expansion),
+      format: parseAnswerFormat(body.format),
+      prompt,
+    };
+  }
+
+  /**
+   * JSON 문자열로 받은 쿼리 파라미터 변환
+   *
+   * JSON이 아니면 문자열을 그대로 반환하여 옵션 검증에서 형식 오류를 알리도록 합니다.
+   * (형식은 toQueryOptions에서 검증하고, 오류는 스트림의 error 이벤트로 전달됨)
+   */
+  private parseJsonQuery<T>(value: string | undefined): T | string | undefined {
+    if (value === undefined) {
+      return undefined;
+    }
+
+    try {
+      return JSON.parse(value) as T;
+    } catch {
+      return value;
+    }
+  }
+
+  /**
+   * 숫자로 받은 쿼리 파라미터 변환
+   *
+   * 숫자가 아니면(예: "0.3abc", 빈 문자열) NaN을 반환하여 옵션 검증에서 형식 오류를 알리도록 합니다.
+   */
+  private parseNumberQuery(value: string | undefined): number | undefined {
+    if (value === undefined) {
+      return undefined;
+    }
+
+    return value.trim() === '' ? NaN : Number(value);
+  }
+
+  /**
+   * 등록된 인덱싱 작업을 응답 형식으로 변환
+   */
+  private toJobAccepted(job: IndexingJob) {
+    return {
+      success: true,
+      jobId: job.id,
+      state: job.state,
+      message: `인덱싱 작업이 등록되었습니다. GET /rag/jobs/${job.id}로 진행 상황을 확인하세요.`,
+    };
+  }
+
+  /**
+   * 참조 문서를 응답 형식으로 변환 (내용은 처음 200자만)
+   *
+   * 벡터 유사도(score)와 재순위화 점수(rerankScore)가 있으면 함께 반환합니다.
+   */
+  private toSource(
+    doc: Document,
+    scores: { score?: number; rerankScore?: number } = {},
+  ) {
+    return {
+      content: doc.pageContent.substring(0, 200) + '...',
+      metadata: doc.metadata,
+      ...(scores.score !== undefined && { score: scores.score }),
+      ...(scores.rerankScore !== undefined && {
+        rerankScore: scores.rerankScore,
+      }),
+    };
+  }
 }
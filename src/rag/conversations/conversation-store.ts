@@ -0,0 +1,62 @@
+import { PromptTemplateRef } from '../prompts/prompt-template';
+
+/**
+ * 대화 메시지
+ */
+export interface ConversationMessage {
+  /** 작성자 (user: 사용자 질문, assistant: 생성된 답변) */
+  role: 'user' | 'assistant';
+  /** 메시지 내용 */
+  content: string;
+  /** 검색에 사용한 독립 질문 (후속 질문을 재작성한 경우, user 메시지만) */
+  standaloneQuestion?: string;
+  /** 답변 생성에 사용한 프롬프트 템플릿 (assistant 메시지만) */
+  prompt?: PromptTemplateRef;
+  /** 작성 시간 (ISO 8601) */
+  createdAt: string;
+}
+
+/**
+ * 대화 세션
+ */
+export interface Conversation {
+  /** 세션 ID */
+  id: string;
+  /** 생성 시간 (ISO 8601) */
+  createdAt: string;
+  /** 마지막 메시지 시간 (ISO 8601) */
+  updatedAt: string;
+  /** 주고받은 메시지 (시간순) */
+  messages: ConversationMessage[];
+}
+
+/**
+ * 대화 세션 저장소
+ *
+ * 세션을 어디에 보관할지(메모리, 파일 등)를 추상화합니다.
+ * 외부 저장소(Redis 등)로 교체할 수 있도록 모든 메서드는 Promise를 반환합니다.
+ */
+export interface ConversationStore {
+  /**
+   * 세션 조회
+   *
+   * @param id - 세션 ID
+   * @returns 세션 또는 null (없는 경우)
+   */
+  get(id: string): Promise<Conversation | null>;
+
+  /**
+   * 세션 저장 (없으면 생성, 있으면 덮어쓰기)
+   *
+   * @param conversation - 저장할 세션
+   */
+  save(conversation: Conversation): Promise<void>;
+
+  /**
+   * 세션 삭제
+   *
+   * @param id - 세션 ID
+   * @returns 삭제 여부 (없는 세션이면 false)
+   */
+  delete(id: string): Promise<boolean>;
+}
@@ -0,0 +1,44 @@
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import { FileConversationStore } from './file-conversation-store';
+
+describe('FileConversationStore', () => {
+  let directory: string;
+
+  beforeEach(() => {
+    directory = fs.mkdtempSync(path.join(os.tmpdir(), 'conversations-'));
+  });
+
+  afterEach(() => {
+    fs.rmSync(directory, { recursive: true, force: true });
+  });
+
+  it('should persist conversations across store instances', async () => {
+    await new FileConversationStore(directory).save({
+      id: 'session-1',
+      createdAt: '2025-01-01T00:00:00.000Z',
+      updatedAt: '2025-01-01T00:00:00.000Z',
+      messages: [
+        {
+          role: 'user',
+          content: '질문',
+          createdAt: '2025-01-01T00:00:00.000Z',
+        },
+      ],
+    });
+
+    const store = new FileConversationStore(directory);
+    const conversation = await store.get('session-1');
+
+    expect(conversation?.messages[0].content).toBe('질문');
+    expect(await store.delete('session-1')).toBe(true);
+    expect(await store.get('session-1')).toBeNull();
+  });
+
+  it('should reject ids that escape the directory', async () => {
+    const store = new FileConversationStore(directory);
+
+    await expect(store.get('../secret')).rejects.toThrow();
+  });
+});
@@ -0,0 +1,65 @@
+import * as fs from 'fs';
+import * as path from 'path';
+import { Conversation, ConversationStore } from './conversation-store';
+
+/**
+ * 파일 기반 대화 세션 저장소
+ *
+ * 세션마다 {directory}/{id}.json 파일 하나에 저장하므로
+ * 애플리케이션을 재시작해도 대화를 이어갈 수 있습니다.
+ */
+export class FileConversationStore implements ConversationStore {
+  /**
+   * @param directory - 세션 파일을 저장할 디렉토리
+   */
+  constructor(private readonly directory: string) {}
+
+  async get(id: string): Promise<Conversation | null> {
+    const filePath = this.getFilePath(id);
+
+    try {
+      const content = await fs.promises.readFile(filePath, 'utf-8');
+      return JSON.parse(content) as Conversation;
+    } catch (error) {
+      if ((error as NodeJS.ErrnoException).code === 'ENOENT') {
+        return null;
+      }
+      throw error;
+    }
+  }
+
+  async save(conversation: Conversation): Promise<void> {
+    await fs.promises.mkdir(this.directory, { recursive: true });
+    await fs.promises.writeFile(
+      this.getFilePath(conversation.id),
+      JSON.stringify(conversation, null, 2),
+      'utf-8',
+    );
+  }
+
+  async delete(id: string): Promise<boolean> {
+    try {
+      await fs.promises.unlink(this.getFilePath(id));
+      return true;
+    } catch (error) {
+      if ((error as NodeJS.ErrnoException).code === 'ENOENT') {
+        return false;
+      }
+      throw error;
+    }
+  }
+
+  /**
+   * 세션 파일 경로 반환
+   *
+   * @param id - 세션 ID
+   * @throws Error - 경로 조작 문자가 포함된 ID인 경우
+   */
+  private getFilePath(id: string): string {
+    if (!/^[\w-]+$/.test(id)) {
+      throw new Error(`올바르지 않은 대화 세션 ID입니다: ${id}`);
+    }
+
+    return path.join(this.directory, `${id}.json`);
+  }
+}
@@ -0,0 +1,27 @@
+import { Conversation, ConversationStore } from './conversation-store';
+
+/**
+ * 메모리 기반 대화 세션 저장소 (기본값)
+ *
+ * 프로세스가 종료되면 모든 세션이 사라집니다.
+ */
+export class InMemoryConversationStore implements ConversationStore {
+  /** 세션 ID를 키로 하는 세션 저장소 */
+  private conversations = new Map<string, Conversation>();
+
+  get(id: string): Promise<Conversation | null> {
+    const conversation = this.conversations.get(id);
+
+    // 호출자가 수정해도 저장된 세션이 바뀌지 않도록 복사본 반환
+    return Promise.resolve(conversation ? structuredClone(conversation) : null);
+  }
+
+  save(conversation: Conversation): Promise<void> {
+    this.conversations.set(conversation.id, structuredClone(conversation));
+    return Promise.resolve();
+  }
+
+  delete(id: string): Promise<boolean> {
+    return Promise.resolve(this.conversations.delete(id));
+  }
+}
@@ -0,0 +1,46 @@
+import { Citation } from '../citations/citations';
+
+/**
+ * 구조화된 답변의 기본 정보
+ */
+export interface StructuredAnswerBasicInfoDto {
+  /** 회사명 (문서에 없으면 null) */
+  companyName: string | null;
+  /** 업종 (문서에 없으면 null) */
+  industry: string | null;
+  /** 서비스 유형 (문서에 없으면 null) */
+  serviceType: string | null;
+}
+
+/**
+ * 구조화된 답변의 항목 (주요 내용, 상세 사항)
+ */
+export interface StructuredAnswerItemDto {
+  /** 항목 제목 (예: "비밀번호 정책", "보관 기간") */
+  title: string;
+  /** 항목 내용 */
+  content: string;
+  /** 근거 문서 번호 (sources[n - 1]) */
+  citations: number[];
+}
+
+/**
+ * 구조화된 답변 (POST /rag/query의 format: "json")
+ *
+ * 마크다운 답변의 섹션(기본 정보, 주요 내용, 상세 사항, 관련 정보)을
+ * 필드로 나눈 형식입니다.
+ */
+export interface StructuredAnswerDto {
+  /** 컨텍스트에서 답을 찾았는지 여부 */
+  answerFound: boolean;
+  /** 기본 정보 */
+  basicInfo: StructuredAnswerBasicInfoDto;
+  /** 질문과 관련된 핵심 정보 */
+  mainPoints: StructuredAnswerItemDto[];
+  /** 구체적인 수치, 기간, 방법 등 */
+  details: StructuredAnswerItemDto[];
+  /** 추가로 참고할 만한 관련 정보 */
+  related: string[];
+  /** 항목에 나온 근거 문서 번호별 원본 위치 */
+  citations: Citation[];
+}
@@ -0,0 +1,145 @@
+import {
+  BatchedEmbeddings,
+  EmbeddingBatchOptions,
+  getRetryDelay,
+  isRetryableEmbeddingError,
+  planEmbeddingBatches,
+} from './embedding-batcher';
+import { LocalHashEmbeddings } from './local-hash-embeddings';
+
+describe('BatchedEmbeddings', () => {
+  const options: EmbeddingBatchOptions = {
+    maxTokensPerBatch: 10,
+    maxTextsPerBatch: 3,
+    concurrency: 2,
+    maxRetries: 2,
+    baseDelayMs: 100,
+    maxDelayMs: 1000,
+  };
+  /** 테스트용 토큰 수 (글자 수) */
+  const countTokens = (text: string) => Promise.resolve(text.length);
+
+  let inner: LocalHashEmbeddings;
+  let sleep: jest.Mock;
+
+  beforeEach(() => {
+    inner = new LocalHashEmbeddings({ dimensions: 16 });
+    sleep = jest.fn(() => Promise.resolve());
+  });
+
+  afterEach(() => {
+    jest.restoreAllMocks();
+  });
+
+  it('should split texts by token and text limits', () => {
+    expect(planEmbeddingBatches([4, 4, 4, 1, 1, 1, 1, 12, 2], options)).toEqual(
+      [[0, 1], [2, 3, 4], [5, 6], [7], [8]],
+    );
+  });
+
+  it('should embed batches concurrently and keep input order', async () => {
+    let running = 0;
+    let maxRunning = 0;
+    const embedDocuments = jest
+      .spyOn(inner, 'embedDocuments')
+      .mockImplementation(async (texts: string[]) => {
+        running++;
+        maxRunning = Math.max(maxRunning, running);
+        await new Promise((resolve) => setTimeout(resolve, 10));
+        running--;
+        return texts.map((text) => [text.length]);
+      });
+    const embeddings = new BatchedEmbeddings(
+      inner,
+      options,
+      countTokens,
+      sleep,
+    );
+
+    const texts = ['카카오', '네이버', '쿠팡', '배달의민족', '토스', '당근'];
+    const vectors = await embeddings.embedDocuments(texts);
+
+    expect(vectors).toEqual(texts.map((text) => [text.length]));
+    expect(embedDocuments.mock.calls).toEqual([
+      [['카카오', '네이버', '쿠팡']],
+      [['배달의민족', '토스', '당근']],
+    ]);
+    expect(maxRunning).toBe(2);
+    expect(embeddings.getUsage()).toEqual({
+      requests: 2,
+      texts: 6,
+      tokens: 17,
+      retries: 0,
+    });
+  });
+
+  it('should retry rate limited requests with backoff', async () => {
+    const rateLimited = Object.assign(new Error('Rate limit reached'), {
+      status: 429,
+    });
+    const embedDocuments = jest
+      .spyOn(inner, 'embedDocuments')
+      .mockRejectedValueOnce(rateLimited)
+      .mockRejectedValueOnce(rateLimited);
+    const embeddings = new BatchedEmbeddings(
+      inner,
+      options,
+      countTokens,
+      sleep,
+    );
+
+    const vectors = await embeddings.embedDocuments(['카카오']);
+
+    expect(vectors).toEqual([await inner.embedQuery('카카오')]);
+    expect(embedDocuments).toHaveBeenCalledTimes(3);
+    expect(sleep).toHaveBeenCalledTimes(2);
+    expect(embeddings.getUsage()).toMatchObject({ requests: 1, retries: 2 });
+  });
+
+  it('should give up on non-retryable errors and after max retries', async () => {
+    const unauthorized = Object.assign(new Error('Incorrect API key'), {
+      status: 401,
+    });
+    const unavailable = Object.assign(new Error('Service unavailable'), {
+      status: 503,
+    });
+    jest
+      .spyOn(inner, 'embedDocuments')
+      .mockRejectedValueOnce(unauthorized)
+      .mockRejectedValue(unavailable);
+    const embeddings = new BatchedEmbeddings(
+      inner,
+      options,
+      countTokens,
+      sleep,
+    );
+
+    await expect(embeddings.embedDocuments(['카카오'])).rejects.toBe(
+      unauthorized,
+    );
+    expect(sleep).not.toHaveBeenCalled();
+
+    await expect(embeddings.embedDocuments(['카카오'])).rejects.toBe(
+      unavailable,
+    );
+    expect(sleep).toHaveBeenCalledTimes(options.maxRetries);
+  });
+
+  it('should classify retryable errors', () => {
+    expect(isRetryableEmbeddingError({ status: 429 })).toBe(true);
+    expect(isRetryableEmbeddingError({ status: 500 })).toBe(true);
+    expect(isRetryableEmbeddingError({ status: 400 })).toBe(false);
+    expect(isRetryableEmbeddingError({ code: 'ECONNRESET' })).toBe(true);
+    expect(isRetryableEmbeddingError(new Error('429 Too Many Requests'))).toBe(
+      true,
+    );
+    expect(isRetryableEmbeddingError(new Error('잘못된 입력'))).toBe(false);
+  });
+
+  it('should grow retry delay exponentially up to the limit', () => {
+    expect(getRetryDelay(0, options, 0.999)).toBe(99);
+    expect(getRetryDelay(2, options, 0.5)).toBe(200);
+    expect(getRetryDelay(10, options, 0.999)).toBe(999);
+    expect(getRetryDelay(3, options, 0)).toBe(0);
+  });
+});
@@ -0,0 +1,273 @@
+import { Logger } from '@nestjs/common';
+import { Embeddings } from '@langchain/core/embeddings';
+
+/**
+ * 임베딩 배치 설정
+ */
+export interface EmbeddingBatchOptions {
+  /** 요청 하나에 담을 최대 토큰 수 (이보다 긴 텍스트는 혼자 한 요청) */
+  maxTokensPerBatch: number;
+  /** 요청 하나에 담을 최대 텍스트 수 */
+  maxTextsPerBatch: number;
+  /** 동시에 보낼 최대 요청 수 */
+  concurrency: number;
+  /** 요청 하나의 최대 재시도 횟수 */
+  maxRetries: number;
+  /** 첫 재시도 전 기본 대기 시간 (밀리초, 재시도마다 2배) */
+  baseDelayMs: number;
+  /** 재시도 대기 시간 상한 (밀리초) */
+  maxDelayMs: number;
+}
+
+/**
+ * 임베딩 API 사용량
+ */
+export interface EmbeddingUsage {
+  /** 성공한 요청 수 */
+  requests: number;
+  /** 임베딩한 텍스트 수 */
+  texts: number;
+  /** 임베딩한 토큰 수 */
+  tokens: number;
+  /** 재시도 횟수 */
+  retries: number;
+}
+
+/**
+ * 기본 배치 설정
+ *
+ * OpenAI 임베딩 API의 요청당 입력 수 제한(2048개)과 분당 토큰 제한을 고려한 값입니다.
+ */
+export const DEFAULT_EMBEDDING_BATCH_OPTIONS: EmbeddingBatchOptions = {
+  maxTokensPerBatch: 20000,
+  maxTextsPerBatch: 512,
+  concurrency: 2,
+  maxRetries: 5,
+  baseDelayMs: 500,
+  maxDelayMs: 30000,
+};
+
+/** 재시도할 네트워크 오류 코드 */
+const RETRYABLE_ERROR_CODES = [
+  'ECONNRESET',
+  'ECONNREFUSED',
+  'ETIMEDOUT',
+  'EAI_AGAIN',
+];
+
+/**
+ * 다시 시도하면 성공할 수 있는 오류인지 확인
+ *
+ * @param error - 임베딩 요청 오류
+ * @returns 429(요청 한도 초과), 408, 409, 5xx, 네트워크 오류이면 true
+ */
+export function isRetryableEmbeddingError(error: unknown): boolean {
+  if (typeof error !== 'object' || error === null) {
+    return false;
+  }
+
+  const { status, code, message } = error as {
+    status?: unknown;
+    code?: unknown;
+    message?: unknown;
+  };
+  if (typeof status === 'number') {
+    return status === 408 || status === 409 || status === 429 || status >= 500;
+  }
+  if (typeof code === 'string' && RETRYABLE_ERROR_CODES.includes(code)) {
+    return true;
+  }
+  return typeof message === 'string' && /rate limit|429/i.test(message);
+}
+
+/**
+ * 재시도 대기 시간 계산 (지수 백오프 + full jitter)
+ *
+ * @param attempt - 재시도 순번 (0부터)
+ * @param options - 기본 대기 시간과 상한
+ * @param random - 0 ~ 1 난수 (테스트용)
+ * @returns 0 ~ min(상한, 기본 대기 시간 × 2^attempt) 사이의 대기 시간
+ *
+ * 여러 요청이 한꺼번에 429를 받아도 같은 시각에 다시 몰리지 않도록
+ * 대기 시간 전체를 무작위로 고릅니다.
+ */
+export function getRetryDelay(
+  attempt: number,
+  options: Pick<EmbeddingBatchOptions, 'baseDelayMs' | 'maxDelayMs'>,
+  random: number = Math.random(),
+): number {
+  const ceiling = Math.min(
+    options.maxDelayMs,
+    options.baseDelayMs * 2 ** attempt,
+  );
+  return Math.floor(ceiling * random);
+}
+
+/**
+ * 토큰 수 기준으로 텍스트를 배치로 나누기
+ *
+ * @param tokenCounts - 텍스트별 토큰 수
+ * @param options - 배치당 최대 토큰 수와 텍스트 수
+ * @returns 배치별 텍스트 인덱스 (입력 순서 유지)
+ */
+export function planEmbeddingBatches(
+  tokenCounts: number[],
+  options: Pick<
+    EmbeddingBatchOptions,
+    'maxTokensPerBatch' | 'maxTextsPerBatch'
+  >,
+): number[][] {
+  const batches: number[][] = [];
+  let current: number[] = [];
+  let currentTokens = 0;
+
+  tokenCounts.forEach((tokens, index) => {
+    if (
+      current.length > 0 &&
+      (currentTokens + tokens > options.maxTokensPerBatch ||
+        current.length >= options.maxTextsPerBatch)
+    ) {
+      batches.push(current);
+      current = [];
+      currentTokens = 0;
+    }
+    current.push(index);
+    currentTokens += tokens;
+  });
+
+  if (current.length > 0) {
+    batches.push(current);
+  }
+  return batches;
+}
+
+/**
+ * 배치, 동시 요청 제한, 재시도를 적용한 임베딩 모델
+ *
+ * 문서 임베딩(embedDocuments)은 토큰 수 기준으로 배치를 나누어
+ * 최대 concurrency개씩 동시에 요청하고, 요청 한도 초과(429)나 일시적인 오류는
+ * 지수 백오프와 jitter로 기다렸다가 다시 시도합니다.
+ * 임베딩한 토큰 수를 누적하여 실제 사용량(비용) 계산에 사용합니다.
+ */
+export class BatchedEmbeddings extends Embeddings {
+  private readonly logger = new Logger(BatchedEmbeddings.name);
+
+  /** 누적 사용량 */
+  private readonly usage: EmbeddingUsage = {
+    requests: 0,
+    texts: 0,
+    tokens: 0,
+    retries: 0,
+  };
+
+  /**
+   * @param embeddings - 원래 임베딩 모델
+   * @param options - 배치 설정
+   * @param countTokens - 텍스트의 토큰 수 계산 함수
+   * @param sleep - 대기 함수 (테스트용)
+   */
+  constructor(
+    private readonly embeddings: Embeddings,
+    private readonly options: EmbeddingBatchOptions,
+    private readonly countTokens: (text: string) => Promise<number>,
+    private readonly sleep: (ms: number) => Promise<void> = (ms) =>
+      new Promise((resolve) => setTimeout(resolve, ms)),
+  ) {
+    super({});
+  }
+
+  /**
+   * 여러 텍스트를 벡터로 변환 (배치 처리)
+   *
+   * @param texts - 변환할 텍스트 배열
+   * @returns 벡터 배열의 배열 (입력 순서 유지)
+   * @throws Error - 재시도 후에도 실패한 요청이 있는 경우
+   */
+  async embedDocuments(texts: string[]): Promise<number[][]> {
+    const tokenCounts: number[] = [];
+    for (const text of texts) {
+      tokenCounts.push(await this.countTokens(text));
+    }
+
+    const batches = planEmbeddingBatches(tokenCounts, this.options);
+    const vectors = new Array<number[]>(texts.length);
+
+    // 배치 큐를 concurrency개의 작업자가 나누어 처리
+    let next = 0;
+    const worker = async () => {
+      while (next < batches.length) {
+        const batch = batches[next++];
+        const embedded = await this.withRetry(() =>
+          this.embeddings.embedDocuments(batch.map((index) => texts[index])),
+        );
+        batch.forEach((index, position) => {
+          vectors[index] = embedded[position];
+        });
+
+        this.usage.requests++;
+        this.usage.texts += batch.length;
+        this.usage.tokens += batch.reduce(
+          (sum, index) => sum + tokenCounts[index],
+          0,
+        );
+      }
+    };
+    await Promise.all(
+      Array.from(
+        { length: Math.min(this.options.concurrency, batches.length) },
+        worker,
+      ),
+    );
+
+    return vectors;
+  }
+
+  /**
+   * 단일 텍스트를 벡터로 변환 (재시도 적용)
+   *
+   * @param text - 변환할 텍스트
+   * @returns 벡터 배열
+   */
+  async embedQuery(text: string): Promise<number[]> {
+    const vector = await this.withRetry(() => this.embeddings.embedQuery(text));
+
+    this.usage.requests++;
+    this.usage.texts++;
+    this.usage.tokens += await this.countTokens(text);
+    return vector;
+  }
+
+  /**
+   * 누적 사용량 반환
+   *
+   * @returns 요청 수, 텍스트 수, 토큰 수, 재시도 횟수
+   */
+  getUsage(): EmbeddingUsage {
+    return { ...this.usage };
+  }
+
+  /**
+   * 재시도할 수 있는 오류면 기다렸다가 다시 요청
+   */
+  private async withRetry<T>(request: () => Promise<T>): Promise<T> {
+    for (let attempt = 0; ; attempt++) {
+      try {
+        return await request();
+      } catch (error) {
+        if (
+          attempt >= this.options.maxRetries ||
+          !isRetryableEmbeddingError(error)
+        ) {
+          throw error;
+        }
+
+        const delay = getRetryDelay(attempt, this.options);
+        this.usage.retries++;
+        this.logger.warn(
+          `임베딩 요청 실패, ${delay}ms 후 다시 시도합니다 (${attempt + 1}/${this.options.maxRetries}): ${error.message}`,
+        );
+        await this.sleep(delay);
+      }
+    }
+  }
+}
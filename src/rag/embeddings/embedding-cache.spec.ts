@@ -0,0 +1,117 @@
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import { CachedEmbeddings, EmbeddingCache } from './embedding-cache';
+import { LocalHashEmbeddings } from './local-hash-embeddings';
+
+describe('EmbeddingCache', () => {
+  const model = 'local:local-hash-v1:64';
+  let tempDir: string;
+  let cachePath: string;
+  let inner: LocalHashEmbeddings;
+
+  beforeEach(() => {
+    tempDir = fs.mkdtempSync(path.join(os.tmpdir(), 'embedding-cache-'));
+    cachePath = path.join(tempDir, 'cache', 'embeddings.jsonl');
+    inner = new LocalHashEmbeddings({ dimensions: 64 });
+  });
+
+  afterEach(() => {
+    jest.restoreAllMocks();
+    fs.rmSync(tempDir, { recursive: true, force: true });
+  });
+
+  it('should embed only new or changed chunks', async () => {
+    const embedDocuments = jest.spyOn(inner, 'embedDocuments');
+    const cache = new EmbeddingCache(cachePath);
+    const embeddings = new CachedEmbeddings(inner, cache, model);
+
+    const first = await embeddings.embedDocuments([
+      '카카오',
+      '네이버',
+      '카카오',
+    ]);
+    const second = await embeddings.embedDocuments(['카카오', '쿠팡']);
+
+    expect(embedDocuments.mock.calls).toEqual([
+      [['카카오', '네이버']],
+      [['쿠팡']],
+    ]);
+    expect(first[0]).toEqual(first[2]);
+    expect(second[0]).toEqual(first[0]);
+    expect(second[1]).toEqual(await inner.embedQuery('쿠팡'));
+    expect(cache.getStats()).toMatchObject({
+      entries: 3,
+      hits: 1,
+      misses: 4,
+      hitRate: 0.2,
+    });
+  });
+
+  it('should keep vectors across restarts and skip broken lines', async () => {
+    const embeddings = new CachedEmbeddings(
+      inner,
+      new EmbeddingCache(cachePath),
+      model,
+    );
+    const [vector] = await embeddings.embedDocuments(['카카오']);
+    fs.appendFileSync(cachePath, '{"model":"local:local-h');
+
+    const embedDocuments = jest.spyOn(inner, 'embedDocuments');
+    const restarted = new CachedEmbeddings(
+      inner,
+      new EmbeddingCache(cachePath),
+      model,
+    );
+
+    expect(await restarted.embedDocuments(['카카오'])).toEqual([vector]);
+    expect(embedDocuments).not.toHaveBeenCalled();
+  });
+
+  it('should not share vectors between models', async () => {
+    const cache = new EmbeddingCache(cachePath);
+    await new CachedEmbeddings(inner, cache, model).embedDocuments(['카카오']);
+
+    const embedDocuments = jest.spyOn(inner, 'embedDocuments');
+    await new CachedEmbeddings(inner, cache, 'other:model:64').embedDocuments([
+      '카카오',
+    ]);
+
+    expect(embedDocuments).toHaveBeenCalledWith(['카카오']);
+  });
+
+  it('should prune other models, old entries and excess entries', async () => {
+    jest.useFakeTimers({ now: new Date('2025-01-01T00:00:00.000Z') });
+    try {
+      const cache = new EmbeddingCache(cachePath);
+      await new CachedEmbeddings(inner, cache, 'other:model:64').embedDocuments(
+        ['카카오'],
+      );
+      await new CachedEmbeddings(inner, cache, model).embedDocuments([
+        '오래된',
+      ]);
+
+      jest.setSystemTime(new Date('2025-03-01T00:00:00.000Z'));
+      const embeddings = new CachedEmbeddings(inner, cache, model);
+      await embeddings.embedDocuments(['네이버']);
+      jest.setSystemTime(new Date('2025-03-02T00:00:00.000Z'));
+      await embeddings.embedDocuments(['쿠팡']);
+
+      expect(cache.prune({ keepModel: model, maxAgeDays: 30 })).toEqual({
+        removed: 2,
+        remaining: 2,
+      });
+      expect(cache.prune({ maxEntries: 1 })).toEqual({
+        removed: 1,
+        remaining: 1,
+      });
+
+      // 정리 결과가 파일에 반영됨
+      const reloaded = new EmbeddingCache(cachePath);
+      expect(reloaded.getStats().entries).toBe(1);
+      expect(reloaded.get(model, '쿠팡')).toBeDefined();
+    } finally {
+      jest.useRealTimers();
+    }
+  });
+});
@@ -0,0 +1,350 @@
+import { Embeddings } from '@langchain/core/embeddings';
+import * as fs from 'fs';
+import * as path from 'path';
+import { FileHashUtil } from '../utils/file-hash.util';
+import { EmbeddingModelInfo } from './embedding-providers';
+
+/**
+ * 임베딩 캐시 항목 (캐시 파일의 한 줄)
+ */
+interface EmbeddingCacheEntry {
+  /** 임베딩 모델 키 (embeddingCacheModelKey) */
+  model: string;
+  /** 청크 텍스트의 MD5 해시 */
+  hash: string;
+  /** 벡터 */
+  vector: number[];
+  /** 마지막으로 사용한 시간 (ISO 8601) */
+  lastUsedAt: string;
+}
+
+/**
+ * 임베딩 캐시 통계
+ */
+export interface EmbeddingCacheStats {
+  /** 캐시 파일 경로 */
+  path: string;
+  /** 저장된 벡터 수 */
+  entries: number;
+  /** 캐시에서 찾은 텍스트 수 (프로세스 시작 이후) */
+  hits: number;
+  /** 캐시에 없어서 임베딩한 텍스트 수 (프로세스 시작 이후) */
+  misses: number;
+  /** 캐시 적중으로 임베딩하지 않은 토큰 수 (프로세스 시작 이후) */
+  savedTokens: number;
+  /** 적중률 (조회가 없었으면 null) */
+  hitRate: number | null;
+}
+
+/**
+ * 임베딩 캐시 정리 옵션
+ */
+export interface EmbeddingCachePruneOptions {
+  /** 이 일수 동안 사용하지 않은 항목 삭제 */
+  maxAgeDays?: number;
+  /** 남길 최대 항목 수 (오래 사용하지 않은 항목부터 삭제) */
+  maxEntries?: number;
+  /** 이 모델 키의 항목만 남김 (다른 모델의 항목 삭제) */
+  keepModel?: string;
+}
+
+/**
+ * 임베딩 캐시 정리 결과
+ */
+export interface EmbeddingCachePruneResult {
+  /** 삭제한 항목 수 */
+  removed: number;
+  /** 남은 항목 수 */
+  remaining: number;
+}
+
+/**
+ * 임베딩 모델 키 생성
+ *
+ * 같은 텍스트라도 제공자, 모델, 차원 수가 다르면 벡터가 다르므로 모두 키에 포함합니다.
+ *
+ * @param model - 임베딩 모델 정보
+ * @returns 모델 키 (예: openai:text-embedding-ada-002:1536)
+ */
+export function embeddingCacheModelKey(model: EmbeddingModelInfo): string {
+  return `${model.provider}:${model.model}:${model.dimensions}`;
+}
+
+/**
+ * 임베딩 캐시 (로컬 파일)
+ *
+ * (임베딩 모델, 청크 텍스트 해시)를 키로 벡터를 저장하여
+ * 같은 텍스트를 다시 임베딩하지 않도록 합니다.
+ *
+ * 캐시 파일은 한 줄에 항목 하나를 JSON으로 저장하고(JSON Lines),
+ * 새 벡터는 파일 끝에 추가합니다. 같은 키가 여러 줄이면 마지막 줄을 사용하며,
+ * 쓰다가 중단되어 읽을 수 없는 줄은 건너뜁니다.
+ * 전체 파일은 정리(prune)나 저장(save)할 때만 임시 파일에 쓴 뒤 교체합니다.
+ */
+export class EmbeddingCache {
+  /** 모델 키와 텍스트 해시별 항목 */
+  private readonly entries = new Map<string, EmbeddingCacheEntry>();
+
+  /** 프로세스 시작 이후 적중 수 */
+  private hits = 0;
+
+  /** 프로세스 시작 이후 미스 수 */
+  private misses = 0;
+
+  /** 프로세스 시작 이후 캐시 적중으로 절약한 토큰 수 */
+  private savedTokens = 0;
+
+  /** 파일에 저장하지 않은 사용 시간 변경이 있는지 여부 */
+  private dirty = false;
+
+  /**
+   * @param filePath - 캐시 파일 경로
+   */
+  constructor(private readonly filePath: string) {
+    this.load();
+  }
+
+  /**
+   * 캐시된 벡터 조회
+   *
+   * @param model - 임베딩 모델 키
+   * @param text - 청크 텍스트
+   * @returns 벡터 (없으면 undefined)
+   */
+  get(model: string, text: string): number[] | undefined {
+    const entry = this.entries.get(this.toKey(model, text));
+    if (!entry) {
+      this.misses++;
+      return undefined;
+    }
+
+    this.hits++;
+    entry.lastUsedAt = new Date().toISOString();
+    this.dirty = true;
+    return entry.vector;
+  }
+
+  /**
+   * 벡터 저장 (파일 끝에 추가)
+   *
+   * @param model - 임베딩 모델 키
+   * @param text - 청크 텍스트
+   * @param vector - 벡터
+   */
+  set(model: string, text: string, vector: number[]): void {
+    const entry: EmbeddingCacheEntry = {
+      model,
+      hash: FileHashUtil.calculateTextHash(text),
+      vector,
+      lastUsedAt: new Date().toISOString(),
+    };
+    this.entries.set(this.toKey(model, text), entry);
+
+    fs.mkdirSync(path.dirname(this.filePath), { recursive: true });
+    fs.appendFileSync(this.filePath, JSON.stringify(entry) + '\n', 'utf-8');
+  }
+
+  /**
+   * 캐시 적중으로 절약한 토큰 수 기록
+   *
+   * @param tokens - 임베딩하지 않은 텍스트의 토큰 수
+   */
+  recordSavedTokens(tokens: number): void {
+    this.savedTokens += tokens;
+  }
+
+  /**
+   * 캐시 통계 조회
+   *
+   * @returns 항목 수, 적중/미스 수, 적중률
+   */
+  getStats(): EmbeddingCacheStats {
+    const lookups = this.hits + this.misses;
+
+    return {
+      path: this.filePath,
+      entries: this.entries.size,
+      hits: this.hits,
+      misses: this.misses,
+      savedTokens: this.savedTokens,
+      hitRate: lookups > 0 ? this.hits / lookups : null,
+    };
+  }
+
+  /**
+   * 오래된 항목 정리
+   *
+   * @param options - 정리 조건 (지정한 조건을 모두 적용)
+   * @returns 삭제한 항목 수와 남은 항목 수
+   */
+  prune(options: EmbeddingCachePruneOptions): EmbeddingCachePruneResult {
+    const before = this.entries.size;
+    const cutoff =
+      options.maxAgeDays !== undefined
+        ? new Date(
+            Date.now() - options.maxAgeDays * 24 * 60 * 60 * 1000,
+          ).toISOString()
+        : undefined;
+
+    for (const [key, entry] of this.entries) {
+      if (
+        (options.keepModel !== undefined &&
+          entry.model !== options.keepModel) ||
+        (cutoff !== undefined && entry.lastUsedAt < cutoff)
+      ) {
+        this.entries.delete(key);
+      }
+    }
+
+    if (
+      options.maxEntries !== undefined &&
+      this.entries.size > options.maxEntries
+    ) {
+      const oldest = [...this.entries]
+        .sort(([, a], [, b]) => a.lastUsedAt.localeCompare(b.lastUsedAt))
+        .slice(0, this.entries.size - options.maxEntries);
+      for (const [key] of oldest) {
+        this.entries.delete(key);
+      }
+    }
+
+    this.rewrite();
+
+    return {
+      removed: before - this.entries.size,
+      remaining: this.entries.size,
+    };
+  }
+
+  /**
+   * 사용 시간 변경 저장
+   *
+   * 조회할 때마다 파일을 다시 쓰지 않도록, 종료할 때 한 번 호출합니다.
+   */
+  save(): void {
+    if (this.dirty) {
+      this.rewrite();
+    }
+  }
+
+  /**
+   * 캐시 파일 로드
+   */
+  private load(): void {
+    if (!fs.existsSync(this.filePath)) {
+      return;
+    }
+
+    const lines = fs.readFileSync(this.filePath, 'utf-8').split('\n');
+    for (const line of lines) {
+      if (!line.trim()) {
+        continue;
+      }
+
+      try {
+        const entry = JSON.parse(line) as EmbeddingCacheEntry;
+        if (
+          typeof entry.model === 'string' &&
+          typeof entry.hash === 'string' &&
+          Array.isArray(entry.vector)
+        ) {
+          this.entries.set(`${entry.model}:${entry.hash}`, entry);
+        }
+      } catch {
+        // 쓰다가 중단된 줄은 건너뜀
+      }
+    }
+  }
+
+  /**
+   * 전체 캐시를 임시 파일에 쓴 뒤 교체
+   */
+  private rewrite(): void {
+    const tempPath = `${this.filePath}.${process.pid}.tmp`;
+    const lines = [...this.entries.values()].map(
+      (entry) => JSON.stringify(entry) + '\n',
+    );
+
+    fs.mkdirSync(path.dirname(this.filePath), { recursive: true });
+    fs.writeFileSync(tempPath, lines.join(''), 'utf-8');
+    fs.renameSync(tempPath, this.filePath);
+    this.dirty = false;
+  }
+
+  /**
+   * 캐시 키 생성
+   */
+  private toKey(model: string, text: string): string {
+    return `${model}:${FileHashUtil.calculateTextHash(text)}`;
+  }
+}
+
+/**
+ * 캐시를 거치는 임베딩 모델
+ *
+ * 문서 임베딩(embedDocuments)은 캐시에 없는 텍스트만 원래 모델로 임베딩하고 저장합니다.
+ * 질문 임베딩(embedQuery)은 매번 달라지므로 캐시하지 않습니다.
+ */
+export class CachedEmbeddings extends Embeddings {
+  /**
+   * @param embeddings - 원래 임베딩 모델
+   * @param cache - 임베딩 캐시
+   * @param model - 임베딩 모델 키
+   * @param countTokens - 텍스트의 토큰 수 계산 함수 (선택, 절약한 토큰 수 기록용)
+   */
+  constructor(
+    private readonly embeddings: Embeddings,
+    private readonly cache: EmbeddingCache,
+    private readonly model: string,
+    private readonly countTokens?: (text: string) => Promise<number>,
+  ) {
+    super({});
+  }
+
+  /**
+   * 여러 텍스트를 벡터로 변환 (캐시에 없는 텍스트만 임베딩)
+   *
+   * @param texts - 변환할 텍스트 배열
+   * @returns 벡터 배열의 배열
+   */
+  async embedDocuments(texts: string[]): Promise<number[][]> {
+    const vectors = texts.map((text) => this.cache.get(this.model, text));
+
+    if (this.countTokens) {
+      for (const [index, text] of texts.entries()) {
+        if (vectors[index] !== undefined) {
+          this.cache.recordSavedTokens(await this.countTokens(text));
+        }
+      }
+    }
+
+    // 캐시에 없는 텍스트 (같은 텍스트는 한 번만 임베딩)
+    const missing = [
+      ...new Set(texts.filter((_, index) => vectors[index] === undefined)),
+    ];
+    if (missing.length > 0) {
+      const embedded = await this.embeddings.embedDocuments(missing);
+      const byText = new Map<string, number[]>();
+      missing.forEach((text, index) => {
+        this.cache.set(this.model, text, embedded[index]);
+        byText.set(text, embedded[index]);
+      });
+
+      texts.forEach((text, index) => {
+        vectors[index] ??= byText.get(text);
+      });
+    }
+
+    return vectors as number[][];
+  }
+
+  /**
+   * 단일 텍스트를 벡터로 변환 (캐시하지 않음)
+   *
+   * @param text - 변환할 텍스트
+   * @returns 벡터 배열
+   */
+  embedQuery(text: string): Promise<number[]> {
+    return this.embeddings.embedQuery(text);
+  }
+}
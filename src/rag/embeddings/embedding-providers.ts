@@ -0,0 +1,176 @@
+import { OpenAIEmbeddings } from '@langchain/openai';
+import { Embeddings } from '@langchain/core/embeddings';
+import { LocalHashEmbeddings } from './local-hash-embeddings';
+
+/**
+ * 지원하는 임베딩 제공자 종류
+ */
+export type EmbeddingProviderName = 'openai' | 'openai-compatible' | 'local';
+
+/**
+ * 임베딩 모델 식별 정보
+ *
+ * 벡터 스토어(컬렉션)에 기록되어, 다른 모델의 벡터가 섞이지 않도록 확인하는 데 사용합니다.
+ */
+export interface EmbeddingModelInfo {
+  /** 제공자 이름 */
+  provider: EmbeddingProviderName;
+  /** 모델 이름 */
+  model: string;
+  /** 벡터 차원 수 */
+  dimensions: number;
+}
+
+/**
+ * 임베딩 제공자
+ *
+ * 임베딩 모델 인스턴스와 그 모델의 식별 정보를 함께 가집니다.
+ */
+export interface EmbeddingProvider extends EmbeddingModelInfo {
+  /** 임베딩 모델 인스턴스 */
+  embeddings: Embeddings;
+  /** 1K 토큰당 가격 (USD, 비용 계산용) */
+  pricePer1kTokens: number;
+}
+
+/**
+ * OpenAI 임베딩 모델별 기본 벡터 차원 수
+ */
+const OPENAI_EMBEDDING_DIMENSIONS: Record<string, number> = {
+  'text-embedding-ada-002': 1536,
+  'text-embedding-3-small': 1536,
+  'text-embedding-3-large': 3072,
+};
+
+/**
+ * OpenAI 임베딩 모델별 1K 토큰당 가격 (USD)
+ */
+const OPENAI_EMBEDDING_PRICES: Record<string, number> = {
+  'text-embedding-ada-002': 0.0001,
+  'text-embedding-3-small': 0.00002,
+  'text-embedding-3-large': 0.00013,
+};
+
+/**
+ * 1K 토큰당 가격 결정
+ *
+ * @param defaultPrice - 모델의 기본 가격
+ * @returns EMBEDDING_PRICE_PER_1K_TOKENS 설정값 또는 기본 가격
+ */
+function getPricePer1kTokens(defaultPrice: number): number {
+  const value = process.env.EMBEDDING_PRICE_PER_1K_TOKENS;
+  return value ? parseFloat(value) : defaultPrice;
+}
+
+/**
+ * EMBEDDING_DIMENSIONS 환경 변수 읽기
+ *
+ * @returns 설정된 차원 수 또는 undefined
+ */
+function getConfiguredDimensions(): number | undefined {
+  const value = process.env.EMBEDDING_DIMENSIONS;
+  return value ? parseInt(value, 10) : undefined;
+}
+
+/**
+ * 임베딩 제공자 레지스트리
+ *
+ * 제공자 이름별로 임베딩 제공자를 생성하는 팩토리를 등록합니다.
+ * 설정은 환경 변수에서 읽습니다:
+ * - EMBEDDING_MODEL: 모델 이름
+ * - EMBEDDING_DIMENSIONS: 벡터 차원 수
+ * - EMBEDDING_BASE_URL, EMBEDDING_API_KEY: OpenAI 호환 서버 (openai-compatible)
+ * - EMBEDDING_PRICE_PER_1K_TOKENS: 1K 토큰당 가격 (비용 계산용)
+ *
+ * OpenAI 클라이언트의 자체 재시도는 끄고, 재시도는 EmbeddingService의 배치 처리에서 합니다.
+ */
+const EMBEDDING_PROVIDERS: Record<
+  EmbeddingProviderName,
+  () => EmbeddingProvider
+> = {
+  /** OpenAI Embeddings API */
+  openai: () => {
+    const model = process.env.EMBEDDING_MODEL || 'text-embedding-ada-002';
+    const configuredDimensions = getConfiguredDimensions();
+
+    return {
+      provider: 'openai',
+      model,
+      dimensions:
+        configuredDimensions ?? OPENAI_EMBEDDING_DIMENSIONS[model] ?? 1536,
+      pricePer1kTokens: getPricePer1kTokens(
+        OPENAI_EMBEDDING_PRICES[model] ?? 0,
+      ),
+      embeddings: new OpenAIEmbeddings({
+        model,
+        dimensions: configuredDimensions,
+        openAIApiKey: process.env.OPENAI_API_KEY,
+        maxRetries: 0,
+      }),
+    };
+  },
+
+  /** OpenAI 호환 API 서버 (Ollama, llama.cpp, vLLM 등) */
+  'openai-compatible': () => {
+    const baseURL = process.env.EMBEDDING_BASE_URL;
+    const model = process.env.EMBEDDING_MODEL;
+    const dimensions =
+      getConfiguredDimensions() ??
+      (model ? OPENAI_EMBEDDING_DIMENSIONS[model] : undefined);
+
+    if (!baseURL || !model || !dimensions) {
+      throw new Error(
+        'openai-compatible 임베딩 제공자는 EMBEDDING_BASE_URL, EMBEDDING_MODEL, EMBEDDING_DIMENSIONS 설정이 필요합니다.',
+      );
+    }
+
+    return {
+      provider: 'openai-compatible',
+      model,
+      dimensions,
+      pricePer1kTokens: getPricePer1kTokens(0),
+      embeddings: new OpenAIEmbeddings({
+        model,
+        maxRetries: 0,
+        // 로컬 서버는 API 키를 검사하지 않는 경우가 많음
+        openAIApiKey:
+          process.env.EMBEDDING_API_KEY ||
+          process.env.OPENAI_API_KEY ||
+          'not-needed',
+        configuration: { baseURL },
+      }),
+    };
+  },
+
+  /** 로컬 해싱 임베딩 (오프라인, 테스트용) */
+  local: () => {
+    const dimensions = getConfiguredDimensions() ?? 512;
+
+    return {
+      provider: 'local',
+      model: 'local-hash-v1',
+      dimensions,
+      pricePer1kTokens: 0,
+      embeddings: new LocalHashEmbeddings({ dimensions }),
+    };
+  },
+};
+
+/**
+ * 이름으로 임베딩 제공자 생성
+ *
+ * @param name - 제공자 이름 (openai, openai-compatible, local)
+ * @returns 임베딩 제공자
+ * @throws Error - 지원하지 않는 제공자이거나 필수 설정이 없는 경우
+ */
+export function createEmbeddingProvider(name: string): EmbeddingProvider {
+  const factory = EMBEDDING_PROVIDERS[name as EmbeddingProviderName];
+
+  if (!factory) {
+    throw new Error(
+      `지원하지 않는 임베딩 제공자입니다: ${name} (${Object.keys(EMBEDDING_PROVIDERS).join(', ')} 중 선택)`,
+    );
+  }
+
+  return factory();
+}
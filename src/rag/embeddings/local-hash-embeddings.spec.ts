@@ -0,0 +1,33 @@
+import { LocalHashEmbeddings } from './local-hash-embeddings';
+import { cosineSimilarity } from '../stores/base-vector-store';
+
+describe('LocalHashEmbeddings', () => {
+  const embeddings = new LocalHashEmbeddings({ dimensions: 256 });
+
+  it('should produce vectors of the configured dimension', async () => {
+    const vector = await embeddings.embedQuery('카카오 비밀번호 정책');
+
+    expect(vector).toHaveLength(256);
+  });
+
+  it('should be deterministic', async () => {
+    const [first, second] = await embeddings.embedDocuments([
+      '개인정보 보관 기간',
+      '개인정보 보관 기간',
+    ]);
+
+    expect(first).toEqual(second);
+  });
+
+  it('should place texts sharing words closer together', async () => {
+    const [query, related, unrelated] = await embeddings.embedDocuments([
+      '카카오의 비밀번호 정책',
+      '카카오 비밀번호는 8자 이상',
+      '쿠키 수집 거부 방법',
+    ]);
+
+    expect(cosineSimilarity(query, related)).toBeGreaterThan(
+      cosineSimilarity(query, unrelated),
+    );
+  });
+});
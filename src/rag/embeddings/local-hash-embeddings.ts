@@ -0,0 +1,104 @@
+import { Embeddings, EmbeddingsParams } from '@langchain/core/embeddings';
+
+/**
+ * 로컬 해싱 임베딩 설정 인터페이스
+ */
+export interface LocalHashEmbeddingsParams extends EmbeddingsParams {
+  dimensions?: number; // 벡터 차원 수 (기본값: 512)
+}
+
+/**
+ * 외부 API 없이 동작하는 결정적(deterministic) 해싱 임베딩
+ *
+ * 텍스트를 단어와 글자 bigram 특징으로 나누고,
+ * 각 특징을 해시하여 고정 차원 벡터의 버킷에 TF 가중치를 누적합니다(feature hashing).
+ * 한국어 조사가 붙은 단어("카카오의", "카카오는")도 bigram을 공유하므로 가깝게 배치됩니다.
+ *
+ * 의미 기반 임베딩보다 품질은 낮지만, 같은 입력에 항상 같은 벡터를 반환하므로
+ * 오프라인 개발과 테스트에 사용합니다.
+ */
+export class LocalHashEmbeddings extends Embeddings {
+  /** 벡터 차원 수 */
+  readonly dimensions: number;
+
+  constructor(params: LocalHashEmbeddingsParams = {}) {
+    super(params);
+    this.dimensions = params.dimensions ?? 512;
+  }
+
+  /**
+   * 여러 텍스트를 벡터로 변환
+   *
+   * @param texts - 변환할 텍스트 배열
+   * @returns 벡터 배열의 배열
+   */
+  embedDocuments(texts: string[]): Promise<number[][]> {
+    return Promise.resolve(texts.map((text) => this.embed(text)));
+  }
+
+  /**
+   * 단일 텍스트를 벡터로 변환
+   *
+   * @param text - 변환할 텍스트
+   * @returns 벡터 배열
+   */
+  embedQuery(text: string): Promise<number[]> {
+    return Promise.resolve(this.embed(text));
+  }
+
+  /**
+   * 텍스트를 정규화된 해싱 벡터로 변환
+   */
+  private embed(text: string): number[] {
+    const counts = new Map<string, number>();
+    for (const feature of this.extractFeatures(text)) {
+      counts.set(feature, (counts.get(feature) ?? 0) + 1);
+    }
+
+    const vector = new Array<number>(this.dimensions).fill(0);
+    for (const [feature, count] of counts) {
+      const hash = fnv1a(feature);
+      const bucket = hash % this.dimensions;
+      // 해시 충돌의 편향을 줄이기 위해 부호도 해시로 결정
+      const sign = (hash & 0x80000000) === 0 ? 1 : -1;
+      vector[bucket] += sign * (1 + Math.log(count));
+    }
+
+    const norm = Math.sqrt(
+      vector.reduce((sum, value) => sum + value * value, 0),
+    );
+    return norm === 0 ? vector : vector.map((value) => value / norm);
+  }
+
+  /**
+   * 텍스트에서 단어 특징과 글자 bigram 특징 추출
+   */
+  private extractFeatures(text: string): string[] {
+    const tokens = text.toLowerCase().match(/[\p{L}\p{N}]+/gu) ?? [];
+    const features: string[] = [];
+
+    for (const token of tokens) {
+      features.push(`w:${token}`);
+      for (let i = 0; i < token.length - 1; i++) {
+        features.push(`c:${token.substring(i, i + 2)}`);
+      }
+    }
+
+    return features;
+  }
+}
+
+/**
+ * FNV-1a 32비트 해시
+ *
+ * @param value - 해시할 문자열
+ * @returns 부호 없는 32비트 정수
+ */
+function fnv1a(value: string): number {
+  let hash = 0x811c9dc5;
+  for (let i = 0; i < value.length; i++) {
+    hash ^= value.charCodeAt(i);
+    hash = Math.imul(hash, 0x01000193);
+  }
+  return hash >>> 0;
+}
@@ -0,0 +1,59 @@
+import { EntityInfo, detectEntities } from './entity-matcher';
+
+describe('detectEntities', () => {
+  const entities: EntityInfo[] = [
+    { name: '카카오', nameEn: 'Kakao Corp', aliases: [] },
+    { name: '네이버', nameEn: 'NAVER Corporation', aliases: [] },
+    { name: '삼성전자', nameEn: 'Samsung Electronics', aliases: [] },
+    {
+      name: '비바리퍼블리카',
+      nameEn: 'Viva Republica (Toss)',
+      aliases: [],
+    },
+    {
+      name: '우아한형제들',
+      nameEn: 'Woowa Brothers',
+      aliases: ['배민', '배달의민족'],
+    },
+    { name: 'SK텔레콤', nameEn: 'SK Telecom', aliases: ['SKT'] },
+  ];
+
+  const names = (question: string) =>
+    detectEntities(question, entities).map((entity) => entity.name);
+
+  it('should detect multiple entities in question order', () => {
+    expect(names('네이버와 카카오의 비밀번호 정책 비교해줘')).toEqual([
+      '네이버',
+      '카카오',
+    ]);
+  });
+
+  it('should resolve configured aliases and English names', () => {
+    expect(names('배민 개인정보 보관 기간은?')).toEqual(['우아한형제들']);
+    expect(names('Toss 보안 인증은?')).toEqual(['비바리퍼블리카']);
+    expect(names('skt의 쿠키 정책')).toEqual(['SK텔레콤']);
+  });
+
+  it('should detect partial Korean names', () => {
+    const [entity] = detectEntities('삼성의 비밀번호 정책은?', entities);
+
+    expect(entity.name).toBe('삼성전자');
+    expect(entity.matchType).toBe('partial');
+  });
+
+  it('should tolerate a single typo', () => {
+    const [entity] = detectEntities('네이보 개인정보 보호책임자는?', entities);
+
+    expect(entity.name).toBe('네이버');
+    expect(entity.matchType).toBe('fuzzy');
+  });
+
+  it('should not treat a different syllable as a typo', () => {
+    expect(names('네이트 개인정보 보호책임자는?')).toEqual([]);
+  });
+
+  it('should not match unrelated questions', () => {
+    expect(names('개인정보 보관 기간은 얼마인가요?')).toEqual([]);
+    expect(names('What is the skeleton key policy?')).toEqual([]);
+  });
+});
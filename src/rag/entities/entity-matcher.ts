@@ -0,0 +1,302 @@
+/**
+ * 엔티티(회사) 정보
+ */
+export interface EntityInfo {
+  /** 대표 이름 (문서 metadata.company_name) */
+  name: string;
+  /** 영문 이름 (문서 metadata.company_name_en) */
+  nameEn?: string;
+  /** 별칭 (예: 우아한형제들 → 배민, 배달의민족) */
+  aliases: string[];
+}
+
+/**
+ * 질문에서 감지된 엔티티
+ */
+export interface DetectedEntity {
+  /** 엔티티 대표 이름 */
+  name: string;
+  /** 질문에서 매칭된 부분 */
+  matchedText: string;
+  /** 매칭 방식 */
+  matchType: 'exact' | 'partial' | 'fuzzy';
+  /** 매칭 신뢰도 (exact 1, partial 0.8, fuzzy 0.6) */
+  score: number;
+}
+
+/** 매칭 방식별 신뢰도 */
+const MATCH_SCORES: Record<DetectedEntity['matchType'], number> = {
+  exact: 1,
+  partial: 0.8,
+  fuzzy: 0.6,
+};
+
+/** 영문 이름에서 제거할 법인 접미사 */
+const CORPORATE_SUFFIXES =
+  /\b(corp(oration)?|company|co|inc|ltd|limited|group)\b\.?/gi;
+
+/**
+ * 단어 끝에 붙는 한국어 조사 (긴 것부터 검사)
+ */
+const KOREAN_PARTICLES = [
+  '에서는',
+  '이랑',
+  '하고',
+  '에서',
+  '까지',
+  '부터',
+  '보다',
+  '처럼',
+  '으로',
+  '의',
+  '와',
+  '과',
+  '는',
+  '은',
+  '이',
+  '가',
+  '를',
+  '을',
+  '도',
+  '랑',
+  '로',
+  '에',
+  '만',
+];
+
+/**
+ * 부분 일치로 인정할 최소 길이
+ * (한 글자 토큰은 너무 많은 엔티티와 겹치므로 제외)
+ */
+const MIN_PARTIAL_LENGTH = 2;
+
+/**
+ * 오타 허용(편집 거리 1)을 적용할 최소 길이
+ */
+const MIN_FUZZY_LENGTH = 3;
+
+/** 한글 음절 범위 시작 (가) */
+const HANGUL_SYLLABLE_BASE = 0xac00;
+
+/** 한글 음절 수 (가 ~ 힣) */
+const HANGUL_SYLLABLE_COUNT = 11172;
+
+/**
+ * 엔티티의 검색어 목록 생성
+ *
+ * @param entity - 엔티티 정보
+ * @returns 정규화된 검색어 (대표 이름, 영문 이름, 영문 이름의 괄호 안 이름, 별칭)
+ *
+ * 예: "Viva Republica (Toss)" → "vivarepublica", "toss"
+ */
+export function getEntityTerms(entity: EntityInfo): string[] {
+  const terms = [entity.name, ...entity.aliases];
+
+  if (entity.nameEn) {
+    const parenthesized = entity.nameEn.match(/\(([^)]+)\)/);
+    if (parenthesized) {
+      terms.push(parenthesized[1]);
+    }
+    terms.push(
+      entity.nameEn.replace(/\([^)]*\)/g, '').replace(CORPORATE_SUFFIXES, ''),
+    );
+  }
+
+  return [...new Set(terms.map(normalize))].filter((term) => term.length > 0);
+}
+
+/**
+ * 질문에서 엔티티 감지
+ *
+ * @param question - 사용자 질문
+ * @param entities - 엔티티 카탈로그
+ * @returns 감지된 엔티티 (질문에 나온 순서)
+ *
+ * 매칭 규칙 (엔티티마다 가장 높은 신뢰도 하나만 사용):
+ * 1. exact: 질문에 검색어가 그대로 포함 (영문은 단어 단위)
+ * 2. partial: 질문의 단어(조사 제거)가 검색어의 앞부분 (예: "삼성" → 삼성전자)
+ * 3. fuzzy: 질문의 단어와 검색어의 편집 거리가 1 (예: "카카우" → 카카오)
+ *    한글은 자모 단위로 비교하므로 음절 하나가 통째로 다른 단어는 제외 (예: "네이트" ≠ 네이버)
+ */
+export function detectEntities(
+  question: string,
+  entities: EntityInfo[],
+): DetectedEntity[] {
+  const normalizedQuestion = normalize(question);
+  const words = tokenize(question);
+  const detections: (DetectedEntity & { position: number })[] = [];
+
+  for (const entity of entities) {
+    let best: (DetectedEntity & { position: number }) | null = null;
+
+    for (const term of getEntityTerms(entity)) {
+      const match =
+        matchExact(normalizedQuestion, term) ??
+        matchWords(words, term, normalizedQuestion);
+
+      if (match && (!best || match.score > best.score)) {
+        best = { name: entity.name, ...match };
+      }
+    }
+
+    if (best) {
+      detections.push(best);
+    }
+  }
+
+  return detections
+    .sort((a, b) => a.position - b.position || b.score - a.score)
+    .map(({ name, matchedText, matchType, score }) => ({
+      name,
+      matchedText,
+      matchType,
+      score,
+    }));
+}
+
+/**
+ * 검색어가 질문에 그대로 포함되는지 확인
+ */
+function matchExact(normalizedQuestion: string, term: string) {
+  let position = -1;
+
+  if (/^[a-z0-9]+$/.test(term)) {
+    // 영문/숫자 검색어는 다른 단어의 일부와 매칭되지 않도록 경계 확인
+    // (한글과 붙어 있는 경우는 허용: "lg의", "skt에서")
+    const match = new RegExp(`(^|[^a-z0-9])${term}($|[^a-z0-9])`).exec(
+      normalizedQuestion,
+    );
+    if (match) {
+      position = match.index + match[1].length;
+    }
+  } else {
+    position = normalizedQuestion.indexOf(term);
+  }
+
+  return position >= 0
+    ? {
+        matchedText: term,
+        matchType: 'exact' as const,
+        score: MATCH_SCORES.exact,
+        position,
+      }
+    : null;
+}
+
+/**
+ * 질문의 단어와 검색어의 부분/유사 일치 확인
+ */
+function matchWords(words: string[], term: string, normalizedQuestion: string) {
+  for (const word of words) {
+    if (word.length >= MIN_PARTIAL_LENGTH && term.startsWith(word)) {
+      return {
+        matchedText: word,
+        matchType: 'partial' as const,
+        score: MATCH_SCORES.partial,
+        position: normalizedQuestion.indexOf(word),
+      };
+    }
+  }
+
+  if (term.length < MIN_FUZZY_LENGTH) {
+    return null;
+  }
+
+  const target = decomposeHangul(term);
+  for (const word of words) {
+    const candidate = decomposeHangul(word);
+    if (
+      Math.abs(candidate.length - target.length) <= 1 &&
+      editDistance(candidate, target) <= 1
+    ) {
+      return {
+        matchedText: word,
+        matchType: 'fuzzy' as const,
+        score: MATCH_SCORES.fuzzy,
+        position: normalizedQuestion.indexOf(word),
+      };
+    }
+  }
+
+  return null;
+}
+
+/**
+ * 비교용 정규화 (소문자, 공백/기호 제거)
+ */
+function normalize(text: string): string {
+  return text.toLowerCase().replace(/[\s.,·&()'"-]/g, '');
+}
+
+/**
+ * 질문을 단어로 분리하고 끝의 조사를 제거
+ */
+function tokenize(question: string): string[] {
+  return question
+    .toLowerCase()
+    .split(/[^0-9a-z가-힣]+/)
+    .map(stripParticle)
+    .filter((word) => word.length > 0);
+}
+
+/**
+ * 단어 끝의 한국어 조사 제거
+ */
+function stripParticle(word: string): string {
+  for (const particle of KOREAN_PARTICLES) {
+    if (word.length > particle.length + 1 && word.endsWith(particle)) {
+      return word.slice(0, -particle.length);
+    }
+  }
+  return word;
+}
+
+/**
+ * 한글 음절을 초성/중성/종성 자모로 분해 (한글 외 문자는 그대로)
+ *
+ * 예: "카카우" → "ㅋㅏㅋㅏㅇㅜ" (조합형 자모)
+ */
+function decomposeHangul(text: string): string {
+  let result = '';
+
+  for (const char of text) {
+    const code = char.charCodeAt(0) - HANGUL_SYLLABLE_BASE;
+    if (code < 0 || code >= HANGUL_SYLLABLE_COUNT) {
+      result += char;
+      continue;
+    }
+
+    const final = code % 28;
+    result += String.fromCharCode(0x1100 + Math.floor(code / 588));
+    result += String.fromCharCode(0x1161 + Math.floor((code % 588) / 28));
+    if (final > 0) {
+      result += String.fromCharCode(0x11a7 + final);
+    }
+  }
+
+  return result;
+}
+
+/**
+ * 두 문자열의 편집 거리(Levenshtein) 계산
+ */
+function editDistance(a: string, b: string): number {
+  const previous = Array.from({ length: b.length + 1 }, (_, j) => j);
+
+  for (let i = 1; i <= a.length; i++) {
+    let diagonal = previous[0];
+    previous[0] = i;
+
+    for (let j = 1; j <= b.length; j++) {
+      const above = previous[j];
+      previous[j] = Math.min(
+        previous[j] + 1,
+        previous[j - 1] + 1,
+        diagonal + (a[i - 1] === b[j - 1] ? 0 : 1),
+      );
+      diagonal = above;
+    }
+  }
+
+  return previous[b.length];
+}
@@ -0,0 +1,37 @@
+import {
+  keywordCoverage,
+  mean,
+  rankSources,
+  recallAtK,
+  reciprocalRank,
+} from './eval-metrics';
+
+describe('eval-metrics', () => {
+  it('should rank each source file once by its best chunk', () => {
+    expect(
+      rankSources(['kakao.json', 'kakao.json', undefined, 'naver.json']),
+    ).toEqual(['kakao.json', 'naver.json']);
+  });
+
+  it('should compute recall@k and reciprocal rank', () => {
+    const ranked = ['coupang.json', 'kakao.json', 'naver.json'];
+
+    expect(recallAtK(ranked, ['kakao.json', 'naver.json'], 2)).toBe(0.5);
+    expect(recallAtK(ranked, ['naver.json'], 3)).toBe(1);
+    expect(reciprocalRank(ranked, ['kakao.json', 'naver.json'])).toBe(0.5);
+    expect(reciprocalRank(ranked, ['toss.json'])).toBe(0);
+    expect(recallAtK(ranked, [], 3)).toBeNull();
+  });
+
+  it('should match keywords ignoring case and whitespace', () => {
+    expect(
+      keywordCoverage('비밀번호는 최소 8 자, SMS 인증', ['8자', 'sms', 'OTP']),
+    ).toBeCloseTo(2 / 3);
+    expect(keywordCoverage('답변', [])).toBeNull();
+  });
+
+  it('should average only present values', () => {
+    expect(mean([1, null, 0])).toBe(0.5);
+    expect(mean([null])).toBeNull();
+  });
+});
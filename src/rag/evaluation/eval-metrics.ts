@@ -0,0 +1,102 @@
+/**
+ * 검색 결과에서 원본 파일 순위 목록 생성
+ *
+ * 한 파일의 청크가 여러 개 검색되면 가장 높은 순위만 남깁니다.
+ *
+ * @param fileNames - 검색 순서대로의 청크별 파일 이름
+ * @returns 중복을 제외한 파일 이름 (검색 순서)
+ */
+export function rankSources(fileNames: (string | undefined)[]): string[] {
+  const ranked: string[] = [];
+  for (const fileName of fileNames) {
+    if (fileName && !ranked.includes(fileName)) {
+      ranked.push(fileName);
+    }
+  }
+  return ranked;
+}
+
+/**
+ * recall@k: 상위 k개 파일에 포함된 정답 파일의 비율
+ *
+ * @param ranked - 검색된 파일 순위 목록
+ * @param expected - 정답 파일
+ * @param k - 상위 몇 개까지 볼지
+ * @returns 0 ~ 1 (정답 파일이 없으면 null)
+ */
+export function recallAtK(
+  ranked: string[],
+  expected: string[],
+  k: number,
+): number | null {
+  if (expected.length === 0) {
+    return null;
+  }
+
+  const topK = ranked.slice(0, k);
+  const found = expected.filter((source) => topK.includes(source)).length;
+  return found / expected.length;
+}
+
+/**
+ * 역순위(reciprocal rank): 첫 번째 정답 파일 순위의 역수
+ *
+ * 질문별 값의 평균이 MRR(Mean Reciprocal Rank)입니다.
+ *
+ * @param ranked - 검색된 파일 순위 목록
+ * @param expected - 정답 파일
+ * @returns 0 ~ 1 (정답 파일이 검색되지 않았으면 0, 정답 파일이 없으면 null)
+ */
+export function reciprocalRank(
+  ranked: string[],
+  expected: string[],
+): number | null {
+  if (expected.length === 0) {
+    return null;
+  }
+
+  const index = ranked.findIndex((source) => expected.includes(source));
+  return index === -1 ? 0 : 1 / (index + 1);
+}
+
+/**
+ * 답변에 들어 있는 기대 키워드의 비율
+ *
+ * 대소문자와 공백 차이는 무시합니다. ("8 자" = "8자")
+ *
+ * @param answer - 생성된 답변
+ * @param keywords - 기대 키워드
+ * @returns 0 ~ 1 (기대 키워드가 없으면 null)
+ */
+export function keywordCoverage(
+  answer: string,
+  keywords: string[],
+): number | null {
+  if (keywords.length === 0) {
+    return null;
+  }
+
+  const normalizedAnswer = normalize(answer);
+  const found = keywords.filter((keyword) =>
+    normalizedAnswer.includes(normalize(keyword)),
+  ).length;
+  return found / keywords.length;
+}
+
+/**
+ * 값이 있는 항목의 평균 (모두 null이면 null)
+ */
+export function mean(values: (number | null)[]): number | null {
+  const present = values.filter((value): value is number => value !== null);
+  if (present.length === 0) {
+    return null;
+  }
+  return present.reduce((sum, value) => sum + value, 0) / present.length;
+}
+
+/**
+ * 비교용 정규화 (소문자, 공백 제거)
+ */
+function normalize(text: string): string {
+  return text.toLowerCase().replace(/\s+/g, '');
+}
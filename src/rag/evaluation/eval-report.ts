@@ -0,0 +1,181 @@
+import { PromptTemplateRef } from '../prompts/prompt-template';
+
+/**
+ * 질문별 평가 결과
+ *
+ * 점수는 0 ~ 1이며, 계산할 수 없는 항목(정답 데이터가 없거나 채점하지 않음)은 null입니다.
+ */
+export interface EvalQuestionResult {
+  /** 질문 ID */
+  id: string;
+  /** 질문 */
+  question: string;
+  /** 답변 상태 (answered, insufficient_context, 오류이면 error) */
+  status: string;
+  /** 감지된 회사 */
+  entities: string[];
+  /** 기대한 회사를 모두 감지했는지 여부 */
+  entityMatch: boolean | null;
+  /** 검색된 원본 파일 (순위순, 중복 제외) */
+  retrievedSources: string[];
+  /** recall@k */
+  recall: number | null;
+  /** 역순위 (첫 번째 정답 파일 순위의 역수) */
+  reciprocalRank: number | null;
+  /** 상위 k개에 정답 파일이 하나라도 있는지 여부 */
+  hit: boolean | null;
+  /** 답변에 들어 있는 기대 키워드 비율 */
+  keywordCoverage: number | null;
+  /** 답변에 없는 기대 키워드 */
+  missingKeywords: string[];
+  /** LLM 채점 충실도 */
+  faithfulness: number | null;
+  /** 문서에서 확인되지 않는 주장 */
+  unsupportedClaims: string[];
+  /** 답변 생성에 사용한 프롬프트 템플릿 */
+  prompt?: PromptTemplateRef;
+  /** 생성된 답변 */
+  answer: string;
+  /** 오류 메시지 (질의에 실패한 경우) */
+  error?: string;
+}
+
+/**
+ * 전체 평가 지표 (질문별 값의 평균)
+ */
+export interface EvalSummary {
+  /** 평가한 질문 수 */
+  questions: number;
+  /** 질의에 실패한 질문 수 */
+  errors: number;
+  /** 평균 recall@k */
+  recallAtK: number | null;
+  /** MRR (Mean Reciprocal Rank) */
+  mrr: number | null;
+  /** 적중률 (상위 k개에 정답 파일이 있는 질문 비율) */
+  hitRate: number | null;
+  /** 회사 감지 정확도 */
+  entityAccuracy: number | null;
+  /** 평균 키워드 포함률 */
+  keywordCoverage: number | null;
+  /** 평균 충실도 */
+  faithfulness: number | null;
+}
+
+/**
+ * 평가 보고서
+ */
+export interface EvalReport {
+  /** 데이터셋 이름 */
+  dataset: string;
+  /** 평가 시간 (ISO 8601) */
+  generatedAt: string;
+  /** 평가 설정 (k, 채점 여부, 주요 환경 변수) */
+  config: {
+    k: number;
+    judge: boolean;
+    settings: Record<string, string>;
+  };
+  /** 전체 지표 */
+  summary: EvalSummary;
+  /** 질문별 결과 (데이터셋 순서) */
+  results: EvalQuestionResult[];
+}
+
+/**
+ * 마크다운 보고서 생성
+ *
+ * 실행 간 diff로 비교할 수 있도록 데이터셋 순서대로, 소수점 셋째 자리까지 씁니다.
+ *
+ * @param report - 평가 보고서
+ * @returns 마크다운 텍스트
+ */
+export function renderMarkdownReport(report: EvalReport): string {
+  const { summary, config } = report;
+  const lines = [
+    `# RAG 평가 보고서: ${report.dataset}`,
+    '',
+    `- 평가 시간: ${report.generatedAt}`,
+    `- k: ${config.k}`,
+    `- LLM 충실도 채점: ${config.judge ? '사용' : '사용 안 함'}`,
+    ...Object.entries(config.settings).map(
+      ([key, value]) => `- ${key}: ${value}`,
+    ),
+    '',
+    '## 요약',
+    '',
+    '| 지표 | 값 |',
+    '|------|----|',
+    `| 질문 수 | ${summary.questions} |`,
+    `| 오류 | ${summary.errors} |`,
+    `| recall@${config.k} | ${formatScore(summary.recallAtK)} |`,
+    `| MRR | ${formatScore(summary.mrr)} |`,
+    `| 적중률 | ${formatScore(summary.hitRate)} |`,
+    `| 회사 감지 정확도 | ${formatScore(summary.entityAccuracy)} |`,
+    `| 키워드 포함률 | ${formatScore(summary.keywordCoverage)} |`,
+    `| 충실도 | ${formatScore(summary.faithfulness)} |`,
+    '',
+    '## 질문별 결과',
+    '',
+    `| ID | 상태 | recall@${config.k} | RR | 회사 | 키워드 | 충실도 | 프롬프트 |`,
+    '|----|------|------|----|------|--------|--------|----------|',
+    ...report.results.map((result) =>
+      [
+        '',
+        result.id,
+        result.status,
+        formatScore(result.recall),
+        formatScore(result.reciprocalRank),
+        result.entityMatch === null ? '-' : result.entityMatch ? 'O' : 'X',
+        formatScore(result.keywordCoverage),
+        formatScore(result.faithfulness),
+        result.prompt ? `${result.prompt.name} v${result.prompt.version}` : '-',
+        '',
+      ]
+        .join(' | ')
+        .trim(),
+    ),
+  ];
+
+  const issues = report.results.filter(
+    (result) =>
+      result.error ||
+      result.hit === false ||
+      result.entityMatch === false ||
+      result.missingKeywords.length > 0 ||
+      result.unsupportedClaims.length > 0,
+  );
+  if (issues.length > 0) {
+    lines.push('', '## 확인할 질문', '');
+    for (const result of issues) {
+      lines.push(`### ${result.id}`, '', `- 질문: ${result.question}`);
+      if (result.error) {
+        lines.push(`- 오류: ${result.error}`);
+      }
+      if (result.hit === false || result.entityMatch === false) {
+        lines.push(
+          `- 감지된 회사: ${result.entities.join(', ') || '없음'}`,
+          `- 검색된 파일: ${result.retrievedSources.join(', ') || '없음'}`,
+        );
+      }
+      if (result.missingKeywords.length > 0) {
+        lines.push(
+          `- 답변에 없는 키워드: ${result.missingKeywords.join(', ')}`,
+        );
+      }
+      for (const claim of result.unsupportedClaims) {
+        lines.push(`- 근거 없는 주장: ${claim}`);
+      }
+      lines.push('');
+    }
+  }
+
+  return `${lines.join('\n').trimEnd()}\n`;
+}
+
+/**
+ * 점수 표시 (없으면 -)
+ */
+function formatScore(score: number | null): string {
+  return score === null ? '-' : score.toFixed(3);
+}
@@ -0,0 +1,34 @@
+import {
+  FaithfulnessJudge,
+  parseFaithfulnessVerdict,
+} from './faithfulness-judge';
+
+describe('FaithfulnessJudge', () => {
+  it('should parse the score and unsupported claims', () => {
+    expect(
+      parseFaithfulnessVerdict(
+        '점수: 6\n근거 없는 주장:\n- 비밀번호를 90일마다 변경해야 합니다.\n- 2단계 인증이 필수입니다.',
+      ),
+    ).toEqual({
+      score: 0.6,
+      unsupportedClaims: [
+        '비밀번호를 90일마다 변경해야 합니다.',
+        '2단계 인증이 필수입니다.',
+      ],
+    });
+    expect(
+      parseFaithfulnessVerdict('점수: 10\n근거 없는 주장:\n- 없음'),
+    ).toEqual({ score: 1, unsupportedClaims: [] });
+  });
+
+  it('should record a null score when the response cannot be parsed', async () => {
+    const judge = new FaithfulnessJudge({
+      generateWithPrompt: () => Promise.resolve('판단할 수 없습니다.'),
+    });
+
+    await expect(judge.judge('[1] 문서', '답변')).resolves.toEqual({
+      score: null,
+      unsupportedClaims: [],
+    });
+  });
+});
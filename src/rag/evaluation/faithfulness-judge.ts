@@ -0,0 +1,125 @@
+import { Logger } from '@nestjs/common';
+import { LLMOverrides } from '../llm/llm-providers';
+
+/**
+ * 충실도(faithfulness) 채점 프롬프트
+ *
+ * 변수: {context}, {answer}
+ */
+const FAITHFULNESS_PROMPT = `다음 답변이 제공된 문서의 내용에만 근거하고 있는지 평가해주세요.
+
+- 답변의 각 주장이 문서에서 확인되는지 확인하세요.
+- 문서에 없는 내용, 문서와 다른 수치나 기간은 근거 없는 주장입니다.
+- 답변이 "문서에서 찾을 수 없다"고 답한 부분은 근거 없는 주장이 아닙니다.
+
+## 문서
+
+{context}
+
+## 답변
+
+{answer}
+
+다음 형식으로만 답해주세요.
+
+점수: (0 ~ 10, 10이면 모든 주장이 문서에 근거함)
+근거 없는 주장:
+- (근거 없는 주장, 없으면 이 목록을 비워두세요)`;
+
+/** 점수 줄 ("점수: 8", "Score: 7.5") */
+const SCORE_PATTERN = /(?:점수|score)\s*[:：]\s*(\d+(?:\.\d+)?)/i;
+
+/** 근거 없는 주장 목록 시작 줄 */
+const UNSUPPORTED_HEADER_PATTERN = /근거\s*없는\s*주장\s*[:：]/;
+
+/** 목록 항목 ("- 주장", "* 주장", "1. 주장") */
+const LIST_ITEM_PATTERN = /^\s*(?:[-*•]|\d+[.)])\s*(.+)$/;
+
+/**
+ * 충실도 채점 결과
+ */
+export interface FaithfulnessVerdict {
+  /** 충실도 (0 ~ 1, 채점 결과를 해석하지 못했으면 null) */
+  score: number | null;
+  /** 문서에서 확인되지 않는 주장 */
+  unsupportedClaims: string[];
+}
+
+/**
+ * 채점에 사용할 텍스트 생성기
+ */
+export interface JudgeLLM {
+  generateWithPrompt(
+    prompt: string,
+    variables: Record<string, string>,
+    overrides?: LLMOverrides,
+  ): Promise<string>;
+}
+
+/**
+ * LLM 충실도 채점기 (LLM-as-a-judge)
+ *
+ * 답변과 답변 생성에 사용한 참조 문서를 함께 보내 답변이 문서에 근거하는지 0~10점으로 채점받습니다.
+ * 채점에 실패하거나 응답을 해석하지 못하면 점수를 null로 기록하고 평가를 계속합니다.
+ */
+export class FaithfulnessJudge {
+  private readonly logger = new Logger(FaithfulnessJudge.name);
+
+  constructor(
+    private readonly llm: JudgeLLM,
+    private readonly overrides?: LLMOverrides,
+  ) {}
+
+  /**
+   * 답변의 충실도 채점
+   *
+   * @param context - 답변 생성에 사용한 참조 문서
+   * @param answer - 생성된 답변
+   * @returns 충실도 점수와 근거 없는 주장
+   */
+  async judge(context: string, answer: string): Promise<FaithfulnessVerdict> {
+    try {
+      const response = await this.llm.generateWithPrompt(
+        FAITHFULNESS_PROMPT,
+        { context, answer },
+        this.overrides,
+      );
+
+      const verdict = parseFaithfulnessVerdict(response);
+      if (verdict.score === null) {
+        this.logger.warn('충실도 채점 결과를 해석할 수 없습니다.');
+      }
+      return verdict;
+    } catch (error) {
+      this.logger.warn(`충실도 채점 실패: ${error.message}`);
+      return { score: null, unsupportedClaims: [] };
+    }
+  }
+}
+
+/**
+ * LLM 채점 응답 해석
+ *
+ * @param response - "점수: N" 줄과 "근거 없는 주장:" 목록이 있는 응답
+ * @returns 0 ~ 1로 환산한 점수와 근거 없는 주장 (점수가 없으면 null)
+ */
+export function parseFaithfulnessVerdict(
+  response: string,
+): FaithfulnessVerdict {
+  const match = SCORE_PATTERN.exec(response);
+  const score = match ? Math.min(parseFloat(match[1]), 10) / 10 : null;
+
+  const unsupportedClaims: string[] = [];
+  const headerMatch = UNSUPPORTED_HEADER_PATTERN.exec(response);
+  if (headerMatch) {
+    const list = response.slice(headerMatch.index + headerMatch[0].length);
+    for (const line of list.split('\n')) {
+      const claim = LIST_ITEM_PATTERN.exec(line)?.[1].trim();
+      if (claim && !/^(없음|none)\.?$/i.test(claim)) {
+        unsupportedClaims.push(claim);
+      }
+    }
+  }
+
+  return { score, unsupportedClaims };
+}
@@ -0,0 +1,120 @@
+/**
+ * 평가 질문 (정답 데이터 한 건)
+ */
+export interface GoldenQuestion {
+  /** 질문 ID (보고서에서 실행 간 비교에 사용, 데이터셋 안에서 고유) */
+  id: string;
+  /** 질문 */
+  question: string;
+  /** 질문에서 감지되어야 하는 회사 (카탈로그의 대표 이름) */
+  expectedCompanies: string[];
+  /** 답변에 들어 있어야 하는 사실/키워드 (예: "8자", "1577-3754") */
+  expectedKeywords: string[];
+  /** 검색되어야 하는 원본 파일 이름 (metadata.fileName) */
+  expectedSources: string[];
+}
+
+/**
+ * 평가 데이터셋 (golden question set)
+ */
+export interface GoldenDataset {
+  /** 데이터셋 이름 */
+  name: string;
+  /** 설명 */
+  description?: string;
+  /** 평가 질문 */
+  questions: GoldenQuestion[];
+}
+
+/**
+ * 데이터셋 파일 내용 검증
+ *
+ * @param input - 파일에서 읽은 값
+ * @returns 검증된 데이터셋 (생략된 배열 항목은 빈 배열)
+ * @throws Error - 형식이 올바르지 않거나 질문 ID가 중복된 경우 (오류 위치 포함)
+ */
+export function parseGoldenDataset(input: unknown): GoldenDataset {
+  if (!isObject(input)) {
+    throw new Error('평가 데이터셋은 JSON 객체여야 합니다.');
+  }
+  if (typeof input.name !== 'string' || !input.name) {
+    throw new Error(
+      '평가 데이터셋의 name은 비어 있지 않은 문자열이어야 합니다.',
+    );
+  }
+  if (
+    input.description !== undefined &&
+    typeof input.description !== 'string'
+  ) {
+    throw new Error('평가 데이터셋의 description은 문자열이어야 합니다.');
+  }
+  if (!Array.isArray(input.questions) || input.questions.length === 0) {
+    throw new Error(
+      '평가 데이터셋의 questions는 비어 있지 않은 배열이어야 합니다.',
+    );
+  }
+
+  const ids = new Set<string>();
+  const questions = input.questions.map((item: unknown, index) => {
+    const path = `questions[${index}]`;
+    if (!isObject(item)) {
+      throw new Error(`${path}는 객체여야 합니다.`);
+    }
+    if (typeof item.id !== 'string' || !item.id) {
+      throw new Error(`${path}.id는 비어 있지 않은 문자열이어야 합니다.`);
+    }
+    if (ids.has(item.id)) {
+      throw new Error(`평가 질문 ID가 중복되었습니다: ${item.id}`);
+    }
+    ids.add(item.id);
+    if (typeof item.question !== 'string' || !item.question.trim()) {
+      throw new Error(`${path}.question은 비어 있지 않은 문자열이어야 합니다.`);
+    }
+
+    return {
+      id: item.id,
+      question: item.question,
+      expectedCompanies: parseStringArray(
+        item.expectedCompanies,
+        `${path}.expectedCompanies`,
+      ),
+      expectedKeywords: parseStringArray(
+        item.expectedKeywords,
+        `${path}.expectedKeywords`,
+      ),
+      expectedSources: parseStringArray(
+        item.expectedSources,
+        `${path}.expectedSources`,
+      ),
+    };
+  });
+
+  return {
+    name: input.name,
+    description: input.description,
+    questions,
+  };
+}
+
+/**
+ * 문자열 배열 검증 (없으면 빈 배열)
+ */
+function parseStringArray(value: unknown, name: string): string[] {
+  if (value === undefined || value === null) {
+    return [];
+  }
+  if (
+    !Array.isArray(value) ||
+    value.some((item) => typeof item !== 'string' || !item)
+  ) {
+    throw new Error(`${name}는 비어 있지 않은 문자열의 배열이어야 합니다.`);
+  }
+  return value as string[];
+}
+
+/**
+ * 일반 객체 여부
+ */
+function isObject(value: unknown): value is Record<string, unknown> {
+  return typeof value === 'object' && value !== null && !Array.isArray(value);
+}
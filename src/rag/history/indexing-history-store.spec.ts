@@ -0,0 +1,204 @@
+import { spawnSync } from 'child_process';
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import { FileIndexInfo, IndexingHistoryStore } from './indexing-history-store';
+import { JsonIndexingHistoryStore } from './json-indexing-history-store';
+import { SqliteIndexingHistoryStore } from './sqlite-indexing-history-store';
+
+/** 테스트용 인덱싱 정보 */
+const info = (hash: string): FileIndexInfo => ({
+  hash,
+  modifiedTime: '2025-01-01T00:00:00.000Z',
+  chunkCount: 3,
+  chunkingStrategy: 'recursive-character',
+  indexedAt: '2025-01-01T00:00:00.000Z',
+});
+
+/** 두 프로세스가 같은 저장소를 쓰는 경우를 두 인스턴스로 확인 */
+const sharedStoreTests = (open: () => IndexingHistoryStore) => {
+  it('should keep collections apart and merge writes from other writers', async () => {
+    const first = open();
+    const second = open();
+
+    await first.put('qdrant:kakao', 'rag-docs/kakao.json', info('a'));
+    const merged = await second.put(
+      'qdrant:kakao',
+      'rag-docs/naver.json',
+      info('b'),
+    );
+    await second.put('faiss:vectorstore', 'rag-docs/kakao.json', info('c'));
+
+    expect([...merged.keys()]).toEqual([
+      'rag-docs/kakao.json',
+      'rag-docs/naver.json',
+    ]);
+    expect(first.load('faiss:vectorstore').get('rag-docs/kakao.json')).toEqual(
+      info('c'),
+    );
+
+    expect([
+      ...(await first.remove('qdrant:kakao', 'rag-docs/kakao.json')).keys(),
+    ]).toEqual(['rag-docs/naver.json']);
+    await first.clear('qdrant:kakao');
+    expect(second.load('qdrant:kakao').size).toBe(0);
+    expect(second.load('faiss:vectorstore').size).toBe(1);
+
+    first.close();
+    second.close();
+  });
+};
+
+describe('JsonIndexingHistoryStore', () => {
+  let tempDir: string;
+  let filePath: string;
+
+  const open = (lockTimeoutMs = 1000) =>
+    new JsonIndexingHistoryStore(filePath, {
+      legacyCollection: 'qdrant:rag-documents',
+      lockTimeoutMs,
+      staleLockMs: 30000,
+    });
+
+  beforeEach(() => {
+    tempDir = fs.mkdtempSync(path.join(os.tmpdir(), 'indexing-history-'));
+    filePath = path.join(tempDir, '.indexing-history.json');
+  });
+
+  afterEach(() => {
+    jest.restoreAllMocks();
+    fs.rmSync(tempDir, { recursive: true, force: true });
+  });
+
+  sharedStoreTests(() => open());
+
+  it('should migrate a version 1 file into the current collection', async () => {
+    fs.writeFileSync(
+      filePath,
+      JSON.stringify({ 'rag-docs/kakao.json': info('a') }),
+    );
+
+    const store = open();
+
+    expect(
+      store.load('qdrant:rag-documents').get('rag-docs/kakao.json'),
+    ).toEqual(info('a'));
+
+    // 다음 기록할 때 현재 버전으로 저장
+    await store.put('qdrant:rag-documents', 'rag-docs/naver.json', info('b'));
+    expect(JSON.parse(fs.readFileSync(filePath, 'utf-8'))).toEqual({
+      version: 2,
+      collections: {
+        'qdrant:rag-documents': {
+          'rag-docs/kakao.json': info('a'),
+          'rag-docs/naver.json': info('b'),
+        },
+      },
+    });
+  });
+
+  it('should refuse to start from an unreadable or newer file', () => {
+    fs.writeFileSync(filePath, '{"rag-docs/kakao.json": {"hash"');
+    expect(() => open()).toThrow('인덱싱 히스토리 파일을 읽을 수 없습니다');
+
+    fs.writeFileSync(filePath, JSON.stringify({ version: 3, collections: {} }));
+    expect(() => open()).toThrow('지원하지 않는 인덱싱 히스토리 버전입니다: 3');
+  });
+
+  it('should wait for a live lock without blocking the event loop', async () => {
+    const store = open(100);
+    const lockPath = `${filePath}.lock`;
+    fs.writeFileSync(
+      lockPath,
+      JSON.stringify({ pid: process.pid, hostname: os.hostname() }),
+    );
+
+    let ticks = 0;
+    const timer = setInterval(() => ticks++, 10);
+    try {
+      await expect(store.put('memory', 'kakao.txt', info('a'))).rejects.toThrow(
+        '인덱싱 히스토리 잠금을 얻지 못했습니다',
+      );
+    } finally {
+      clearInterval(timer);
+    }
+
+    expect(ticks).toBeGreaterThan(2);
+    expect(fs.existsSync(lockPath)).toBe(true);
+  });
+
+  it('should take over a lock left by an exited process', async () => {
+    const store = open(100);
+    const lockPath = `${filePath}.lock`;
+    fs.writeFileSync(
+      lockPath,
+      JSON.stringify({
+        pid: spawnSync(process.execPath, ['-e', '']).pid,
+        hostname: os.hostname(),
+      }),
+    );
+
+    expect((await store.put('memory', 'kakao.txt', info('a'))).size).toBe(1);
+    expect(fs.readdirSync(tempDir)).toEqual(['.indexing-history.json']);
+  });
+
+  it('should not release a lock that another process has taken over', async () => {
+    const store = open();
+    const lockPath = `${filePath}.lock`;
+    const otherLock = JSON.stringify({ pid: 1, hostname: 'other', token: 'x' });
+
+    // 기록하는 동안 다른 프로세스가 잠금을 가져간 경우
+    jest
+      .spyOn(
+        JsonIndexingHistoryStore.prototype as unknown as {
+          write: () => void;
+        },
+        'write',
+      )
+      .mockImplementationOnce(() => {
+        fs.writeFileSync(lockPath, otherLock);
+      });
+    await store.put('memory', 'kakao.txt', info('a'));
+
+    expect(fs.readFileSync(lockPath, 'utf-8')).toBe(otherLock);
+  });
+});
+
+// node:sqlite가 없는 Node.js(22.5 미만)에서는 아래 SQLite 테스트 대신 설정 오류만 확인
+(SqliteIndexingHistoryStore.isSupported() ? describe.skip : describe)(
+  'SqliteIndexingHistoryStore without node:sqlite',
+  () => {
+    it('should fail with the required Node.js version', () => {
+      expect(
+        () =>
+          new SqliteIndexingHistoryStore(
+            path.join(os.tmpdir(), '.indexing-history.sqlite'),
+            1000,
+          ),
+      ).toThrow('SQLite 히스토리 저장소는 Node.js 22.13 이상');
+    });
+  },
+);
+
+(SqliteIndexingHistoryStore.isSupported() ? describe : describe.skip)(
+  'SqliteIndexingHistoryStore',
+  () => {
+    let tempDir: string;
+
+    beforeEach(() => {
+      tempDir = fs.mkdtempSync(path.join(os.tmpdir(), 'indexing-history-'));
+    });
+
+    afterEach(() => {
+      fs.rmSync(tempDir, { recursive: true, force: true });
+    });
+
+    sharedStoreTests(
+      () =>
+        new SqliteIndexingHistoryStore(
+          path.join(tempDir, '.indexing-history.sqlite'),
+          1000,
+        ),
+    );
+  },
+);
@@ -0,0 +1,78 @@
+/**
+ * 파일 인덱싱 정보
+ */
+export interface FileIndexInfo {
+  /** 파일 내용의 MD5 해시 */
+  hash: string;
+  /** 파일 수정 시간 */
+  modifiedTime: string;
+  /** 생성된 청크 수 */
+  chunkCount: number;
+  /** 사용한 청킹 전략 (전략 도입 전 기록에는 없음) */
+  chunkingStrategy?: string;
+  /** 인덱싱된 시간 */
+  indexedAt: string;
+}
+
+/**
+ * 인덱싱 히스토리 저장소
+ *
+ * 히스토리를 어디에 보관할지(JSON 파일, SQLite 등)를 추상화합니다.
+ * 기록은 컬렉션(벡터 스토어 종류와 컬렉션 이름)별로 나누어 저장하므로
+ * 여러 컬렉션이 한 프로젝트의 저장소를 함께 사용할 수 있습니다.
+ *
+ * 변경 메서드는 각각 하나의 트랜잭션으로, 다른 인덱서 프로세스와 동시에 실행되어도
+ * 서로의 기록을 덮어쓰지 않으며 중간에 종료되어도 이전 상태나 변경 후 상태만 남습니다.
+ * 조회(load)는 동기로 동작하고, 변경은 다른 프로세스의 잠금을 기다리는 동안
+ * 이벤트 루프를 막지 않도록 Promise를 반환합니다.
+ */
+export interface IndexingHistoryStore {
+  /** 저장 위치 (로그용) */
+  readonly location: string;
+
+  /**
+   * 컬렉션의 기록 조회
+   *
+   * @param collection - 컬렉션 이름
+   * @returns 파일 경로를 키로 하는 인덱싱 정보 Map
+   */
+  load(collection: string): Map<string, FileIndexInfo>;
+
+  /**
+   * 파일 기록 추가/업데이트
+   *
+   * @param collection - 컬렉션 이름
+   * @param filePath - 파일 경로
+   * @param info - 인덱싱 정보
+   * @returns 변경 후 컬렉션의 기록 (다른 프로세스의 변경 포함)
+   */
+  put(
+    collection: string,
+    filePath: string,
+    info: FileIndexInfo,
+  ): Promise<Map<string, FileIndexInfo>>;
+
+  /**
+   * 파일 기록 삭제
+   *
+   * @param collection - 컬렉션 이름
+   * @param filePath - 파일 경로
+   * @returns 변경 후 컬렉션의 기록 (다른 프로세스의 변경 포함)
+   */
+  remove(
+    collection: string,
+    filePath: string,
+  ): Promise<Map<string, FileIndexInfo>>;
+
+  /**
+   * 컬렉션의 기록 전체 삭제 (다른 컬렉션의 기록은 유지)
+   *
+   * @param collection - 컬렉션 이름
+   */
+  clear(collection: string): Promise<void>;
+
+  /**
+   * 저장소 닫기
+   */
+  close(): void;
+}
@@ -0,0 +1,194 @@
+import * as fs from 'fs';
+import { FileLockUtil } from '../utils/file-lock.util';
+import { FileIndexInfo, IndexingHistoryStore } from './indexing-history-store';
+
+/** JSON 히스토리 파일의 현재 스키마 버전 */
+const JSON_HISTORY_VERSION = 2;
+
+/**
+ * JSON 히스토리 파일 (버전 2)
+ *
+ * 버전 1은 버전 필드 없이 { [filePath]: FileIndexInfo } 형태였습니다.
+ */
+interface JsonHistoryFile {
+  /** 스키마 버전 */
+  version: number;
+  /** 컬렉션별, 파일 경로별 인덱싱 정보 */
+  collections: Record<string, Record<string, FileIndexInfo>>;
+}
+
+/**
+ * JSON 히스토리 저장소 옵션
+ */
+export interface JsonIndexingHistoryStoreOptions {
+  /** 버전 1 파일(컬렉션 구분 없음)의 기록을 옮길 컬렉션 */
+  legacyCollection: string;
+  /** 잠금 최대 대기 시간 (밀리초) */
+  lockTimeoutMs: number;
+  /** 이보다 오래된 잠금은 중단된 프로세스가 남긴 것으로 보고 제거 (밀리초) */
+  staleLockMs: number;
+}
+
+/**
+ * JSON 파일 기반 인덱싱 히스토리 저장소
+ *
+ * - 변경할 때마다 잠금 파일({filePath}.lock)을 만든 뒤 파일을 다시 읽어 변경을 적용하므로
+ *   여러 인덱서 프로세스가 동시에 기록해도 다른 프로세스의 기록을 덮어쓰지 않습니다.
+ *   잠금은 비동기로 기다리므로 기다리는 동안에도 서버의 다른 요청은 계속 처리됩니다.
+ * - 임시 파일에 쓰고 디스크에 반영(fsync)한 뒤 이름을 바꾸므로(rename)
+ *   쓰는 도중 종료되어도 파일이 깨지지 않습니다.
+ * - 이전 버전 파일은 읽을 때 현재 버전으로 변환하고, 다음에 기록할 때 현재 버전으로 저장합니다.
+ * - 읽을 수 없는 파일은 빈 히스토리로 대체하지 않고 오류를 냅니다.
+ *   (빈 히스토리로 시작하면 모든 파일을 새 파일로 보고 다시 인덱싱하게 됨)
+ */
+export class JsonIndexingHistoryStore implements IndexingHistoryStore {
+  /** 잠금 파일 경로 */
+  private readonly lockPath: string;
+
+  /**
+   * @param filePath - 히스토리 파일 경로
+   * @param options - 이전 버전 변환과 잠금 설정
+   * @throws Error - 파일을 읽을 수 없거나 지원하지 않는 버전인 경우
+   */
+  constructor(
+    private readonly filePath: string,
+    private readonly options: JsonIndexingHistoryStoreOptions,
+  ) {
+    this.lockPath = `${filePath}.lock`;
+
+    // 파일 형식과 버전 확인
+    this.read();
+  }
+
+  get location(): string {
+    return this.filePath;
+  }
+
+  load(collection: string): Map<string, FileIndexInfo> {
+    return this.toMap(this.read(), collection);
+  }
+
+  put(
+    collection: string,
+    filePath: string,
+    info: FileIndexInfo,
+  ): Promise<Map<string, FileIndexInfo>> {
+    return this.update(collection, (records) => {
+      records[filePath] = info;
+    });
+  }
+
+  remove(
+    collection: string,
+    filePath: string,
+  ): Promise<Map<string, FileIndexInfo>> {
+    return this.update(collection, (records) => {
+      delete records[filePath];
+    });
+  }
+
+  async clear(collection: string): Promise<void> {
+    await this.update(collection, (records) => {
+      for (const filePath of Object.keys(records)) {
+        delete records[filePath];
+      }
+    });
+  }
+
+  close(): void {
+    // 열어 둔 자원 없음
+  }
+
+  /**
+   * 잠금을 잡고 최신 파일에 변경을 적용한 뒤 저장
+   */
+  private update(
+    collection: string,
+    change: (records: Record<string, FileIndexInfo>) => void,
+  ): Promise<Map<string, FileIndexInfo>> {
+    const lockOptions = { description: '인덱싱 히스토리', ...this.options };
+
+    return FileLockUtil.withLock(this.lockPath, lockOptions, () => {
+      const data = this.read();
+      const records = data.collections[collection] ?? {};
+      change(records);
+
+      if (Object.keys(records).length > 0) {
+        data.collections[collection] = records;
+      } else {
+        delete data.collections[collection];
+      }
+      this.write(data);
+
+      return this.toMap(data, collection);
+    });
+  }
+
+  /**
+   * 히스토리 파일 읽기 (이전 버전이면 현재 버전으로 변환)
+   *
+   * @throws Error - 파일을 읽을 수 없거나 지원하지 않는 버전인 경우
+   */
+  private read(): JsonHistoryFile {
+    if (!fs.existsSync(this.filePath)) {
+      return { version: JSON_HISTORY_VERSION, collections: {} };
+    }
+
+    let parsed: unknown;
+    try {
+      parsed = JSON.parse(fs.readFileSync(this.filePath, 'utf-8'));
+    } catch (error) {
+      throw new Error(
+        `인덱싱 히스토리 파일을 읽을 수 없습니다: ${this.filePath} (${error.message}) 파일을 복구하거나 삭제한 뒤 다시 실행하세요.`,
+      );
+    }
+    if (typeof parsed !== 'object' || parsed === null) {
+      throw new Error(
+        `인덱싱 히스토리 파일 형식이 올바르지 않습니다: ${this.filePath}`,
+      );
+    }
+
+    const { version } = parsed as { version?: unknown };
+    if (version === undefined) {
+      return this.migrateFromV1(parsed);
+    }
+    if (version !== JSON_HISTORY_VERSION) {
+      throw new Error(
+        `지원하지 않는 인덱싱 히스토리 버전입니다: ${JSON.stringify(version)} (${this.filePath}, 지원 버전: ${JSON_HISTORY_VERSION})`,
+      );
+    }
+    return parsed as JsonHistoryFile;
+  }
+
+  /**
+   * 버전 1 → 2 변환 (컬렉션 구분 없는 기록을 현재 컬렉션의 기록으로 옮김)
+   */
+  private migrateFromV1(parsed: object): JsonHistoryFile {
+    const records = parsed as Record<string, FileIndexInfo>;
+
+    return {
+      version: JSON_HISTORY_VERSION,
+      collections:
+        Object.keys(records).length > 0
+          ? { [this.options.legacyCollection]: records }
+          : {},
+    };
+  }
+
+  /**
+   * 임시 파일에 쓰고 디스크에 반영한 뒤 교체
+   */
+  private write(data: JsonHistoryFile): void {
+    FileLockUtil.writeFileAtomic(this.filePath, JSON.stringify(data, null, 2));
+  }
+
+  /**
+   * 파일의 컬렉션 기록을 Map으로 변환
+   */
+  private toMap(
+    data: JsonHistoryFile,
+    collection: string,
+  ): Map<string, FileIndexInfo> {
+    return new Map(Object.entries(data.collections[collection] ?? {}));
+  }
+}
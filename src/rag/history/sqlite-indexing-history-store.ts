@@ -0,0 +1,258 @@
+import type { DatabaseSync } from 'node:sqlite';
+import * as fs from 'fs';
+import * as path from 'path';
+import { FileIndexInfo, IndexingHistoryStore } from './indexing-history-store';
+
+/** 잠금을 다시 시도하기 전 대기 시간 (밀리초) */
+const LOCK_RETRY_MS = 20;
+
+/**
+ * 스키마 마이그레이션 (순서대로 적용, 인덱스 + 1이 적용 후 버전)
+ *
+ * 적용한 버전은 PRAGMA user_version에 기록합니다.
+ * 스키마를 바꿀 때는 기존 항목을 고치지 말고 끝에 추가합니다.
+ */
+const SQLITE_HISTORY_MIGRATIONS: string[] = [
+  // 버전 1: 컬렉션별 파일 인덱싱 기록
+  `CREATE TABLE indexing_history (
+    collection TEXT NOT NULL,
+    file_path TEXT NOT NULL,
+    hash TEXT NOT NULL,
+    modified_time TEXT NOT NULL,
+    chunk_count INTEGER NOT NULL,
+    chunking_strategy TEXT,
+    indexed_at TEXT NOT NULL,
+    PRIMARY KEY (collection, file_path)
+  )`,
+];
+
+/**
+ * indexing_history 테이블의 행
+ */
+interface IndexingHistoryRow {
+  file_path: string;
+  hash: string;
+  modified_time: string;
+  chunk_count: number;
+  chunking_strategy: string | null;
+  indexed_at: string;
+}
+
+/**
+ * SQLite 기반 인덱싱 히스토리 저장소
+ *
+ * Node.js 내장 SQLite(node:sqlite)를 사용하므로 별도 패키지가 필요 없지만
+ * Node.js 22.13 이상(22.5 ~ 22.12는 --experimental-sqlite 옵션)이 필요합니다.
+ *
+ * - 변경은 BEGIN IMMEDIATE 트랜잭션으로 실행하므로 여러 인덱서 프로세스가
+ *   동시에 기록해도 SQLite가 순서대로 처리합니다.
+ *   다른 프로세스가 기록 중이면 이벤트 루프를 막지 않도록 비동기로 기다렸다가
+ *   다시 시도합니다. (최대 lockTimeoutMs, 시작할 때의 마이그레이션만 동기로 대기)
+ * - WAL 모드를 사용하므로 기록하는 동안에도 다른 프로세스가 읽을 수 있고,
+ *   중간에 종료되면 커밋하지 않은 변경은 버려집니다.
+ */
+export class SqliteIndexingHistoryStore implements IndexingHistoryStore {
+  /** 데이터베이스 연결 */
+  private readonly db: DatabaseSync;
+
+  /**
+   * @param filePath - 데이터베이스 파일 경로
+   * @param lockTimeoutMs - 다른 프로세스의 잠금 최대 대기 시간 (밀리초)
+   * @throws Error - node:sqlite를 사용할 수 없거나 지원하지 않는 스키마 버전인 경우
+   */
+  constructor(
+    private readonly filePath: string,
+    private readonly lockTimeoutMs: number,
+  ) {
+    const sqlite = SqliteIndexingHistoryStore.loadSqlite();
+
+    fs.mkdirSync(path.dirname(filePath), { recursive: true });
+    this.db = new sqlite.DatabaseSync(filePath);
+    this.db.exec(`PRAGMA busy_timeout = ${lockTimeoutMs}`);
+    this.db.exec('PRAGMA journal_mode = WAL');
+
+    this.migrate();
+
+    // 이후의 잠금 대기는 transaction에서 비동기로 처리
+    this.db.exec('PRAGMA busy_timeout = 0');
+  }
+
+  /**
+   * 현재 Node.js에서 SQLite 저장소를 사용할 수 있는지 확인
+   */
+  static isSupported(): boolean {
+    try {
+      SqliteIndexingHistoryStore.loadSqlite();
+      return true;
+    } catch {
+      return false;
+    }
+  }
+
+  get location(): string {
+    return this.filePath;
+  }
+
+  load(collection: string): Map<string, FileIndexInfo> {
+    const rows = this.db
+      .prepare(
+        'SELECT * FROM indexing_history WHERE collection = ? ORDER BY file_path',
+      )
+      .all(collection) as unknown as IndexingHistoryRow[];
+
+    return new Map(
+      rows.map((row) => [
+        row.file_path,
+        {
+          hash: row.hash,
+          modifiedTime: row.modified_time,
+          chunkCount: row.chunk_count,
+          chunkingStrategy: row.chunking_strategy ?? undefined,
+          indexedAt: row.indexed_at,
+        },
+      ]),
+    );
+  }
+
+  put(
+    collection: string,
+    filePath: string,
+    info: FileIndexInfo,
+  ): Promise<Map<string, FileIndexInfo>> {
+    return this.transaction(() => {
+      this.db
+        .prepare(
+          `INSERT INTO indexing_history
+             (collection, file_path, hash, modified_time, chunk_count, chunking_strategy, indexed_at)
+           VALUES (?, ?, ?, ?, ?, ?, ?)
+           ON CONFLICT (collection, file_path) DO UPDATE SET
+             hash = excluded.hash,
+             modified_time = excluded.modified_time,
+             chunk_count = excluded.chunk_count,
+             chunking_strategy = excluded.chunking_strategy,
+             indexed_at = excluded.indexed_at`,
+        )
+        .run(
+          collection,
+          filePath,
+          info.hash,
+          info.modifiedTime,
+          info.chunkCount,
+          info.chunkingStrategy ?? null,
+          info.indexedAt,
+        );
+      return this.load(collection);
+    });
+  }
+
+  remove(
+    collection: string,
+    filePath: string,
+  ): Promise<Map<string, FileIndexInfo>> {
+    return this.transaction(() => {
+      this.db
+        .prepare(
+          'DELETE FROM indexing_history WHERE collection = ? AND file_path = ?',
+        )
+        .run(collection, filePath);
+      return this.load(collection);
+    });
+  }
+
+  async clear(collection: string): Promise<void> {
+    await this.transaction(() => {
+      this.db
+        .prepare('DELETE FROM indexing_history WHERE collection = ?')
+        .run(collection);
+    });
+  }
+
+  close(): void {
+    this.db.close();
+  }
+
+  /**
+   * 적용하지 않은 스키마 마이그레이션 적용
+   *
+   * @throws Error - 이 버전보다 새 스키마의 데이터베이스인 경우
+   */
+  private migrate(): void {
+    this.runInTransaction(() => {
+      const { user_version: version } = this.db
+        .prepare('PRAGMA user_version')
+        .get() as { user_version: number };
+
+      if (version > SQLITE_HISTORY_MIGRATIONS.length) {
+        throw new Error(
+          `지원하지 않는 인덱싱 히스토리 버전입니다: ${version} (${this.filePath}, 지원 버전: ${SQLITE_HISTORY_MIGRATIONS.length})`,
+        );
+      }
+
+      SQLITE_HISTORY_MIGRATIONS.slice(version).forEach((sql) =>
+        this.db.exec(sql),
+      );
+      this.db.exec(`PRAGMA user_version = ${SQLITE_HISTORY_MIGRATIONS.length}`);
+    });
+  }
+
+  /**
+   * 쓰기 트랜잭션으로 실행 (다른 프로세스가 기록 중이면 기다렸다가 다시 시도)
+   *
+   * @throws Error - lockTimeoutMs 안에 잠금을 얻지 못한 경우
+   */
+  private async transaction<T>(action: () => T): Promise<T> {
+    const deadline = Date.now() + this.lockTimeoutMs;
+
+    for (;;) {
+      try {
+        return this.runInTransaction(action);
+      } catch (error) {
+        if (
+          !/database is locked|SQLITE_BUSY/.test(error.message) ||
+          Date.now() >= deadline
+        ) {
+          throw error;
+        }
+        await new Promise((resolve) => setTimeout(resolve, LOCK_RETRY_MS));
+      }
+    }
+  }
+
+  /**
+   * 쓰기 트랜잭션으로 실행 (실패하면 롤백)
+   */
+  private runInTransaction<T>(action: () => T): T {
+    this.db.exec('BEGIN IMMEDIATE');
+    try {
+      const result = action();
+      this.db.exec('COMMIT');
+      return result;
+    } catch (error) {
+      this.db.exec('ROLLBACK');
+      throw error;
+    }
+  }
+
+  /**
+   * node:sqlite 모듈 로드
+   *
+   * 지원하지 않는 Node.js에서도 이 파일을 불러올 수 있도록 사용할 때 로드합니다.
+   *
+   * @throws Error - 현재 Node.js에 node:sqlite가 없는 경우
+   */
+  private static loadSqlite(): typeof import('node:sqlite') {
+    let sqlite: typeof import('node:sqlite') | undefined;
+    try {
+      sqlite = process.getBuiltinModule('node:sqlite');
+    } catch {
+      sqlite = undefined;
+    }
+
+    if (!sqlite) {
+      throw new Error(
+        `SQLite 히스토리 저장소는 Node.js 22.13 이상(22.5 ~ 22.12는 --experimental-sqlite 옵션)이 필요합니다. (현재 ${process.version}, INDEXING_HISTORY_STORE=json을 사용하세요)`,
+      );
+    }
+    return sqlite;
+  }
+}
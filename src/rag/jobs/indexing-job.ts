@@ -0,0 +1,130 @@
+/**
+ * 인덱싱 작업 상태
+ *
+ * - queued: 같은 컬렉션의 앞선 작업이 끝나기를 기다리는 중
+ * - running: 실행 중
+ * - succeeded: 모든 파일을 처리함
+ * - failed: 작업 또는 일부 파일 처리에 실패함 (나머지 파일은 처리됨, errors 참고)
+ * - cancelled: 실행 전 또는 실행 중에 취소됨
+ */
+export const INDEXING_JOB_STATES = [
+  'queued',
+  'running',
+  'succeeded',
+  'failed',
+  'cancelled',
+] as const;
+
+export type IndexingJobState = (typeof INDEXING_JOB_STATES)[number];
+
+/**
+ * 인덱싱 작업 종류
+ *
+ * - full: 디렉토리의 모든 파일 인덱싱 (POST /rag/index-directory)
+ * - incremental: 변경된 파일만 재인덱싱 (POST /rag/incremental-index)
+ * - watch: 감시 모드에서 변경이 감지된 파일만 동기화 (IndexingWatcherService)
+ */
+export type IndexingJobKind = 'full' | 'incremental' | 'watch';
+
+/**
+ * 파일 처리 결과
+ *
+ * - indexed: 인덱싱함 (전체 인덱싱)
+ * - added, updated, skipped, deleted: 증분 인덱싱에서 추가, 재인덱싱, 변경 없음, 삭제된 파일의 청크 제거
+ * - renamed: 감시 모드에서 이름만 바뀐 파일 (기존 임베딩 재사용)
+ */
+export type IndexedFileOutcome =
+  | 'indexed'
+  | 'added'
+  | 'updated'
+  | 'skipped'
+  | 'deleted'
+  | 'renamed';
+
+/**
+ * 디렉토리 인덱싱 진행 상황 수신자
+ *
+ * RagService의 디렉토리 인덱싱 메서드에 전달하면 파일별 진행 상황을 알려주고,
+ * 파일 하나가 실패해도 예외를 던지지 않고 다음 파일을 계속 처리합니다.
+ */
+export interface IndexingObserver {
+  /** 취소 신호 (중단되면 처리 중인 파일까지만 처리하고 멈춤) */
+  signal?: AbortSignal;
+  /** 처리할 파일 목록이 정해졌을 때 */
+  onFilesFound?(filePaths: string[]): void;
+  /** 파일 처리를 시작할 때 */
+  onFileStarted?(filePath: string): void;
+  /** 파일 처리가 끝났을 때 */
+  onFileCompleted?(filePath: string, outcome: IndexedFileOutcome): void;
+  /** 파일 처리에 실패했을 때 */
+  onFileFailed?(filePath: string, error: Error): void;
+}
+
+/**
+ * 작업의 파일별 진행 상황
+ */
+export interface IndexingJobFile {
+  /** 파일 경로 */
+  filePath: string;
+  /** 처리 상태 (pending: 대기, running: 처리 중, failed: 실패, 그 외: 처리 결과) */
+  status: 'pending' | 'running' | 'failed' | IndexedFileOutcome;
+  /** 오류 메시지 (failed일 때) */
+  error?: string;
+}
+
+/**
+ * 작업 오류 기록
+ */
+export interface IndexingJobError {
+  /** 실패한 파일 (작업 전체가 실패했으면 없음) */
+  filePath?: string;
+  /** 오류 메시지 */
+  message: string;
+  /** 발생 시간 (ISO 8601) */
+  occurredAt: string;
+}
+
+/**
+ * 인덱싱 작업
+ */
+export interface IndexingJob {
+  /** 작업 ID */
+  id: string;
+  /** 작업 종류 */
+  kind: IndexingJobKind;
+  /** 대상 컬렉션 (같은 컬렉션의 작업은 한 번에 하나씩 실행) */
+  collection: string;
+  /** 인덱싱할 디렉토리 (watch: 감시 중인 디렉토리) */
+  dirPath: string;
+  /** 동기화할 파일 또는 디렉토리 경로 (watch에서만 사용) */
+  changedPaths?: string[];
+  /** 하위 디렉토리 포함 여부 */
+  recursive: boolean;
+  /** 작업 상태 */
+  state: IndexingJobState;
+  /** 실행 중 취소를 요청했는지 여부 (처리 중인 파일이 끝나면 cancelled) */
+  cancelRequested: boolean;
+  /** 생성 시간 (ISO 8601) */
+  createdAt: string;
+  /** 실행 시작 시간 */
+  startedAt?: string;
+  /** 종료 시간 */
+  finishedAt?: string;
+  /** 진행 상황 */
+  progress: {
+    /** 처리할 파일 수 */
+    totalFiles: number;
+    /** 처리한 파일 수 (실패 포함) */
+    processedFiles: number;
+    /** 실패한 파일 수 */
+    failedFiles: number;
+    /** 처리 중인 파일 */
+    currentFile?: string;
+  };
+  /** 파일별 진행 상황 */
+  files: IndexingJobFile[];
+  /** 오류 기록 */
+  errors: IndexingJobError[];
+  /** 처리 결과 (전체 인덱싱: filesProcessed, 증분 인덱싱/감시: 추가/업데이트/스킵/삭제 수 등) */
+  result?: Record<string, number>;
+}
@@ -0,0 +1,91 @@
+import {
+  BaseChatModelParams,
+  SimpleChatModel,
+} from '@langchain/core/language_models/chat_models';
+import { AIMessageChunk, BaseMessage } from '@langchain/core/messages';
+import { ChatGenerationChunk } from '@langchain/core/outputs';
+
+/**
+ * 테스트용 가짜 LLM 설정 인터페이스
+ */
+export interface FakeChatModelParams extends BaseChatModelParams {
+  /** 순서대로 반환할 응답 목록 (끝나면 처음부터 반복) */
+  responses?: string[];
+  /** 프롬프트로부터 응답을 만드는 함수 (responses보다 우선) */
+  respond?: (prompt: string) => string;
+}
+
+/** 응답이 설정되지 않았을 때 반환하는 기본 답변 */
+const DEFAULT_FAKE_RESPONSE =
+  '[fake] 제공된 컨텍스트를 기반으로 생성된 테스트 답변입니다.';
+
+/**
+ * 결정적(deterministic) 가짜 채팅 모델
+ *
+ * 외부 API를 호출하지 않고 미리 정해진 응답을 반환합니다.
+ * 같은 설정과 같은 호출 순서에서는 항상 같은 답변을 생성하므로
+ * 단위 테스트와 오프라인 개발에 사용합니다.
+ *
+ * 스트리밍 시에는 응답을 공백 단위 토큰으로 나누어 전달합니다.
+ */
+export class FakeChatModel extends SimpleChatModel {
+  /** 응답 목록 */
+  private readonly responses: string[];
+
+  /** 응답 생성 함수 */
+  private readonly respond?: (prompt: string) => string;
+
+  /** 다음에 반환할 응답 순번 */
+  private responseIndex = 0;
+
+  constructor(params: FakeChatModelParams = {}) {
+    super(params);
+    this.responses = params.responses?.length
+      ? params.responses
+      : [DEFAULT_FAKE_RESPONSE];
+    this.respond = params.respond;
+  }
+
+  _llmType(): string {
+    return 'fake';
+  }
+
+  /**
+   * 메시지에 대한 응답 생성
+   */
+  _call(messages: BaseMessage[]): Promise<string> {
+    return Promise.resolve(this.nextResponse(messages));
+  }
+
+  /**
+   * 응답을 토큰 단위로 스트리밍
+   */
+  async *_streamResponseChunks(
+    messages: BaseMessage[],
+  ): AsyncGenerator<ChatGenerationChunk> {
+    const response = this.nextResponse(messages);
+
+    for (const token of response.match(/\S+\s*/g) ?? []) {
+      yield new ChatGenerationChunk({
+        text: token,
+        message: new AIMessageChunk({ content: token }),
+      });
+      // 비동기 스트림처럼 동작하도록 이벤트 루프에 양보
+      await Promise.resolve();
+    }
+  }
+
+  /**
+   * 다음 응답 결정
+   */
+  private nextResponse(messages: BaseMessage[]): string {
+    if (this.respond) {
+      const prompt = messages.map((message) => message.text).join('\n');
+      return this.respond(prompt);
+    }
+
+    const response = this.responses[this.responseIndex % this.responses.length];
+    this.responseIndex++;
+    return response;
+  }
+}
@@ -0,0 +1,99 @@
+import { ChatOpenAI } from '@langchain/openai';
+import { BaseChatModel } from '@langchain/core/language_models/chat_models';
+import { FakeChatModel } from './fake-chat-model';
+
+/**
+ * 지원하는 LLM 제공자 종류
+ */
+export type LLMProviderName = 'openai' | 'openai-compatible' | 'fake';
+
+/**
+ * LLM 모델 설정
+ */
+export interface LLMModelOptions {
+  /** 모델 이름 */
+  model: string;
+  /** 샘플링 온도 (0이면 가장 일관된 답변) */
+  temperature: number;
+  /** 최대 생성 토큰 수 (선택) */
+  maxTokens?: number;
+  /** OpenAI 호환 서버 URL (선택) */
+  baseURL?: string;
+  /** API 키 (선택) */
+  apiKey?: string;
+}
+
+/**
+ * 요청별 LLM 설정 덮어쓰기
+ *
+ * 관리자가 허용한 범위(LLM_ALLOWED_MODELS, LLM_MAX_OVERRIDE_TEMPERATURE) 안에서만 적용됩니다.
+ */
+export interface LLMOverrides {
+  /** 사용할 모델 이름 */
+  model?: string;
+  /** 샘플링 온도 */
+  temperature?: number;
+}
+
+/**
+ * LLM 제공자 레지스트리
+ *
+ * 제공자 이름별로 채팅 모델을 생성하는 팩토리를 등록합니다.
+ */
+const LLM_PROVIDERS: Record<
+  LLMProviderName,
+  (options: LLMModelOptions) => BaseChatModel
+> = {
+  /** OpenAI Chat Completions API */
+  openai: (options) =>
+    new ChatOpenAI({
+      model: options.model,
+      temperature: options.temperature,
+      maxTokens: options.maxTokens,
+      openAIApiKey: options.apiKey,
+    }),
+
+  /** OpenAI 호환 API 서버 (Ollama, llama.cpp, vLLM 등) */
+  'openai-compatible': (options) => {
+    if (!options.baseURL) {
+      throw new Error(
+        'openai-compatible LLM 제공자는 LLM_BASE_URL 설정이 필요합니다.',
+      );
+    }
+
+    return new ChatOpenAI({
+      model: options.model,
+      temperature: options.temperature,
+      maxTokens: options.maxTokens,
+      // 로컬 서버는 API 키를 검사하지 않는 경우가 많음
+      openAIApiKey: options.apiKey || 'not-needed',
+      configuration: { baseURL: options.baseURL },
+    });
+  },
+
+  /** 결정적 가짜 LLM (테스트용) */
+  fake: () => new FakeChatModel(),
+};
+
+/**
+ * 이름으로 채팅 모델 생성
+ *
+ * @param name - 제공자 이름 (openai, openai-compatible, fake)
+ * @param options - 모델 설정
+ * @returns 채팅 모델 인스턴스
+ * @throws Error - 지원하지 않는 제공자이거나 필수 설정이 없는 경우
+ */
+export function createChatModel(
+  name: string,
+  options: LLMModelOptions,
+): BaseChatModel {
+  const factory = LLM_PROVIDERS[name as LLMProviderName];
+
+  if (!factory) {
+    throw new Error(
+      `지원하지 않는 LLM 제공자입니다: ${name} (${Object.keys(LLM_PROVIDERS).join(', ')} 중 선택)`,
+    );
+  }
+
+  return factory(options);
+}
@@ -0,0 +1,52 @@
+import {
+  parseAnswerFormat,
+  validateStructuredAnswer,
+} from './structured-answer';
+
+describe('validateStructuredAnswer', () => {
+  it('should fill missing fields and normalize citation markers', () => {
+    expect(
+      validateStructuredAnswer({
+        answerFound: true,
+        basicInfo: { companyName: '카카오' },
+        mainPoints: [
+          {
+            title: '보관 기간',
+            content: '5년간 보관합니다.',
+            citations: ['[2]', 1],
+          },
+        ],
+      }),
+    ).toEqual({
+      answerFound: true,
+      basicInfo: { companyName: '카카오', industry: null, serviceType: null },
+      mainPoints: [
+        { title: '보관 기간', content: '5년간 보관합니다.', citations: [2, 1] },
+      ],
+      details: [],
+      related: [],
+    });
+  });
+
+  it('should report the location of invalid fields', () => {
+    expect(() => validateStructuredAnswer({ mainPoints: [] })).toThrow(
+      'answerFound는 true 또는 false여야 합니다.',
+    );
+    expect(() =>
+      validateStructuredAnswer({
+        answerFound: true,
+        details: [{ title: '기간', content: '5년', citations: [0] }],
+      }),
+    ).toThrow('details[0].citations는 1 이상의 문서 번호 배열이어야 합니다.');
+    expect(() =>
+      validateStructuredAnswer({ answerFound: true, related: '없음' }),
+    ).toThrow('related는 배열이어야 합니다.');
+  });
+
+  it('parseAnswerFormat should reject unknown formats', () => {
+    expect(parseAnswerFormat('json')).toBe('json');
+    expect(() => parseAnswerFormat('yaml')).toThrow(
+      '지원하지 않는 답변 형식입니다: "yaml" (text, json 중 선택)',
+    );
+  });
+});
@@ -0,0 +1,267 @@
+import {
+  StructuredAnswerBasicInfoDto,
+  StructuredAnswerDto,
+  StructuredAnswerItemDto,
+} from '../dto/structured-answer.dto';
+
+/**
+ * 지원하는 답변 형식
+ *
+ * - text: 마크다운 답변 (기본값)
+ * - json: StructuredAnswerDto 형식의 구조화된 답변
+ */
+export const ANSWER_FORMATS = ['text', 'json'] as const;
+
+/**
+ * 답변 형식
+ */
+export type AnswerFormat = (typeof ANSWER_FORMATS)[number];
+
+/**
+ * LLM이 생성하는 구조화된 답변 (인용 위치는 서버에서 채움)
+ */
+export type GeneratedStructuredAnswer = Omit<StructuredAnswerDto, 'citations'>;
+
+/**
+ * 구조화된 답변 생성 프롬프트 템플릿
+ *
+ * 변수: {context}, {history}, {question}
+ * JSON 예시의 중괄호는 템플릿 변수와 구분하기 위해 두 번씩 씁니다.
+ */
+export const STRUCTURED_ANSWER_PROMPT_TEMPLATE = `당신은 개인정보 관리 정책 전문가입니다. 주어진 컨텍스트를 기반으로 질문에 대한 답변을 JSON 형식으로 제공해주세요.
+
+## 답변 가이드라인
+
+1. **정확성**: 컨텍스트에 있는 정보만 사용하세요. 추측하지 마세요.
+2. **정보 없음 처리**: 컨텍스트에 답이 없으면 answerFound를 false로 하고 나머지 항목은 비워두세요.
+3. **대화 맥락**: 이전 대화가 있으면 질문이 가리키는 회사와 주제를 이전 대화에서 이어받으세요.
+4. **출처 표시**: 컨텍스트의 각 문서에는 [1] 형식의 번호가 붙어 있습니다. 각 항목의 citations에 근거가 된 문서 번호를 넣으세요.
+
+## 응답 형식
+
+다음 형식의 JSON 객체 하나만 답해주세요. 설명이나 다른 텍스트는 쓰지 마세요.
+
+{{
+  "answerFound": true,
+  "basicInfo": {{ "companyName": "회사명 또는 null", "industry": "업종 또는 null", "serviceType": "서비스 유형 또는 null" }},
+  "mainPoints": [{{ "title": "핵심 정보 제목", "content": "내용", "citations": [1] }}],
+  "details": [{{ "title": "구체적인 수치, 기간, 방법 등", "content": "내용", "citations": [2] }}],
+  "related": ["추가로 참고할 만한 관련 정보"]
+}}
+
+---
+
+## 제공된 컨텍스트
+
+{context}
+
+---
+
+## 이전 대화
+
+{history}
+
+---
+
+## 사용자 질문
+
+{question}
+
+---
+
+## 답변 (JSON)
+`;
+
+/**
+ * 형식이 올바르지 않은 답변을 고치는 프롬프트
+ *
+ * 변수: {error}, {output}
+ */
+export const STRUCTURED_ANSWER_REPAIR_PROMPT = `다음은 정해진 JSON 형식으로 작성해야 하는 답변인데 형식이 올바르지 않습니다.
+내용은 유지하고 형식만 고쳐서 JSON 객체 하나만 답해주세요.
+
+## 필요한 형식
+
+- answerFound: true 또는 false
+- basicInfo: companyName, industry, serviceType (각각 문자열 또는 null)
+- mainPoints, details: title(문자열), content(문자열), citations(문서 번호 배열)를 가진 객체의 배열
+- related: 문자열 배열
+
+## 오류
+
+{error}
+
+## 고칠 답변
+
+{output}
+
+## 고친 답변 (JSON)
+`;
+
+/**
+ * 컨텍스트에 답이 없을 때의 구조화된 답변
+ */
+export function createEmptyStructuredAnswer(): StructuredAnswerDto {
+  return {
+    answerFound: false,
+    basicInfo: { companyName: null, industry: null, serviceType: null },
+    mainPoints: [],
+    details: [],
+    related: [],
+    citations: [],
+  };
+}
+
+/**
+ * LLM이 생성한 값을 검증하여 구조화된 답변으로 변환
+ *
+ * 빠진 배열과 basicInfo 항목은 빈 값으로 채우고,
+ * 문서 번호는 "[1]"처럼 문자열로 와도 숫자로 바꿉니다.
+ *
+ * @param value - JSON으로 파싱한 LLM 출력
+ * @returns 검증된 구조화된 답변
+ * @throws Error - 필수 항목이 없거나 타입이 맞지 않는 경우 (오류 위치 포함)
+ */
+export function validateStructuredAnswer(
+  value: unknown,
+): GeneratedStructuredAnswer {
+  if (!isObject(value)) {
+    throw new Error('답변이 JSON 객체가 아닙니다.');
+  }
+
+  if (typeof value.answerFound !== 'boolean') {
+    throw new Error('answerFound는 true 또는 false여야 합니다.');
+  }
+
+  return {
+    answerFound: value.answerFound,
+    basicInfo: validateBasicInfo(value.basicInfo),
+    mainPoints: validateItems(value.mainPoints, 'mainPoints'),
+    details: validateItems(value.details, 'details'),
+    related: validateArray(value.related, 'related').map((item, index) => {
+      if (typeof item !== 'string') {
+        throw new Error(`related[${index}]는 문자열이어야 합니다.`);
+      }
+      return item;
+    }),
+  };
+}
+
+/**
+ * 구조화된 답변에 나온 근거 문서 번호 (나온 순서, 중복 제외)
+ */
+export function collectCitationMarkers(
+  answer: GeneratedStructuredAnswer,
+): number[] {
+  const markers = [...answer.mainPoints, ...answer.details].flatMap(
+    (item) => item.citations,
+  );
+  return [...new Set(markers)];
+}
+
+/**
+ * 요청으로 받은 답변 형식을 검증
+ *
+ * @param input - "text" 또는 "json"
+ * @returns 검증된 답변 형식 (입력이 없으면 undefined)
+ * @throws Error - 지원하지 않는 형식인 경우
+ */
+export function parseAnswerFormat(input: unknown): AnswerFormat | undefined {
+  if (input === undefined || input === null) {
+    return undefined;
+  }
+
+  if (!ANSWER_FORMATS.includes(input as AnswerFormat)) {
+    throw new Error(
+      `지원하지 않는 답변 형식입니다: ${JSON.stringify(input)} (${ANSWER_FORMATS.join(', ')} 중 선택)`,
+    );
+  }
+
+  return input as AnswerFormat;
+}
+
+/**
+ * basicInfo 검증 (없거나 빠진 항목은 null)
+ */
+function validateBasicInfo(value: unknown): StructuredAnswerBasicInfoDto {
+  if (value === undefined || value === null) {
+    return { companyName: null, industry: null, serviceType: null };
+  }
+  if (!isObject(value)) {
+    throw new Error('basicInfo는 객체여야 합니다.');
+  }
+
+  const field = (key: keyof StructuredAnswerBasicInfoDto): string | null => {
+    const fieldValue = value[key];
+    if (fieldValue === undefined || fieldValue === null) {
+      return null;
+    }
+    if (typeof fieldValue !== 'string') {
+      throw new Error(`basicInfo.${key}는 문자열 또는 null이어야 합니다.`);
+    }
+    return fieldValue;
+  };
+
+  return {
+    companyName: field('companyName'),
+    industry: field('industry'),
+    serviceType: field('serviceType'),
+  };
+}
+
+/**
+ * mainPoints, details 항목 검증
+ */
+function validateItems(
+  value: unknown,
+  name: string,
+): StructuredAnswerItemDto[] {
+  return validateArray(value, name).map((item, index) => {
+    const path = `${name}[${index}]`;
+    if (!isObject(item)) {
+      throw new Error(`${path}는 객체여야 합니다.`);
+    }
+    if (typeof item.title !== 'string' || typeof item.content !== 'string') {
+      throw new Error(`${path}의 title과 content는 문자열이어야 합니다.`);
+    }
+
+    return {
+      title: item.title,
+      content: item.content,
+      citations: validateArray(item.citations, `${path}.citations`).map(
+        (marker) => {
+          const parsed =
+            typeof marker === 'string'
+              ? parseInt(marker.replace(/[[\]]/g, ''), 10)
+              : marker;
+          if (!Number.isInteger(parsed) || Number(parsed) < 1) {
+            throw new Error(
+              `${path}.citations는 1 이상의 문서 번호 배열이어야 합니다.`,
+            );
+          }
+          return parsed as number;
+        },
+      ),
+    };
+  });
+}
+
+/**
+ * 배열 검증 (없으면 빈 배열)
+ */
+function validateArray(value: unknown, name: string): unknown[] {
+  if (value === undefined || value === null) {
+    return [];
+  }
+  if (!Array.isArray(value)) {
+    throw new Error(`${name}는 배열이어야 합니다.`);
+  }
+  return value;
+}
+
+/**
+ * 일반 객체 여부
+ */
+function isObject(value: unknown): value is Record<string, unknown> {
+  return typeof value === 'object' && value !== null && !Array.isArray(value);
+}
@@ -0,0 +1,40 @@
+import {
+  extractPromptVariables,
+  parsePromptTemplateFile,
+  parsePromptTemplateInput,
+} from './prompt-template';
+
+describe('prompt-template', () => {
+  it('should extract variables in a fixed order and ignore escaped braces', () => {
+    expect(
+      extractPromptVariables(
+        '질문: {question}\n형식: {{ "answer": "..." }}\n문서: {context}',
+      ),
+    ).toEqual(['context', 'question']);
+  });
+
+  it('should reject unknown and missing variables', () => {
+    expect(() =>
+      extractPromptVariables('{context} {question} {company}'),
+    ).toThrow('{company}');
+    expect(() => extractPromptVariables('{question}')).toThrow('{context}');
+  });
+
+  it('should validate template files', () => {
+    const prompt = parsePromptTemplateFile(
+      { version: 2, template: '{context}\n{history}\n{question}' },
+      'insurance',
+    );
+
+    expect(prompt).toMatchObject({
+      name: 'insurance',
+      version: 2,
+      language: 'ko',
+      variables: ['context', 'history', 'question'],
+    });
+    expect(() =>
+      parsePromptTemplateFile({ version: 0, template: '' }, 'insurance'),
+    ).toThrow('version');
+    expect(() => parsePromptTemplateInput({ template: 1 })).toThrow('template');
+  });
+});
@@ -0,0 +1,188 @@
+import { PromptTemplate } from '@langchain/core/prompts';
+
+/**
+ * 답변 프롬프트에서 사용할 수 있는 변수
+ *
+ * - context: 번호가 붙은 참조 문서
+ * - history: 이전 대화 (없으면 "(이전 대화 없음)")
+ * - question: 사용자 질문
+ */
+export const PROMPT_VARIABLES = ['context', 'history', 'question'] as const;
+
+export type PromptVariable = (typeof PROMPT_VARIABLES)[number];
+
+/** 답변 프롬프트에 반드시 있어야 하는 변수 */
+const REQUIRED_PROMPT_VARIABLES: PromptVariable[] = ['context', 'question'];
+
+/** 템플릿 이름 형식 (영문 소문자, 숫자, -) */
+const PROMPT_NAME_PATTERN = /^[a-z0-9][a-z0-9-]{0,63}$/;
+
+/**
+ * 답변 프롬프트 템플릿
+ *
+ * 템플릿 파일(PROMPTS_DIR/<name>.json)의 형식이기도 합니다.
+ * 변수는 {question}처럼 중괄호로 쓰고, 중괄호 문자 자체는 {{ }}로 씁니다.
+ */
+export interface AnswerPromptTemplate {
+  /** 템플릿 이름 (파일 이름과 같음) */
+  name: string;
+  /** 버전 (1부터, 수정할 때마다 1씩 증가) */
+  version: number;
+  /** 프롬프트 언어 (예: ko, en) */
+  language: string;
+  /** 설명 (용도, 도메인 등) */
+  description?: string;
+  /** 템플릿에 쓰인 변수 */
+  variables: PromptVariable[];
+  /** 프롬프트 텍스트 */
+  template: string;
+  /** 마지막 수정 시간 (ISO 8601, 내장 템플릿은 없음) */
+  updatedAt?: string;
+}
+
+/**
+ * 답변에 기록하는 템플릿 정보
+ */
+export interface PromptTemplateRef {
+  /** 템플릿 이름 */
+  name: string;
+  /** 템플릿 버전 */
+  version: number;
+}
+
+/**
+ * 템플릿 수정 요청 (PUT /rag/prompts/:name)
+ */
+export interface PromptTemplateInput {
+  /** 프롬프트 텍스트 */
+  template: string;
+  /** 프롬프트 언어 (생략하면 기존 값 또는 ko) */
+  language?: string;
+  /** 설명 (생략하면 기존 값) */
+  description?: string;
+}
+
+/**
+ * 템플릿 이름 검증
+ *
+ * @throws Error - 영문 소문자, 숫자, -로 된 64자 이하 이름이 아닌 경우
+ */
+export function validatePromptName(name: string): void {
+  if (!PROMPT_NAME_PATTERN.test(name)) {
+    throw new Error(
+      `프롬프트 템플릿 이름은 영문 소문자, 숫자, -로 된 64자 이하여야 합니다: ${name}`,
+    );
+  }
+}
+
+/**
+ * 프롬프트 텍스트에서 변수 추출 및 검증
+ *
+ * @param template - 프롬프트 텍스트
+ * @returns 템플릿에 쓰인 변수 (PROMPT_VARIABLES 순서)
+ * @throws Error - 중괄호 짝이 맞지 않거나, 지원하지 않는 변수가 있거나, 필수 변수가 없는 경우
+ */
+export function extractPromptVariables(template: string): PromptVariable[] {
+  let inputVariables: string[];
+  try {
+    inputVariables = PromptTemplate.fromTemplate(template).inputVariables;
+  } catch (error) {
+    throw new Error(
+      `프롬프트 템플릿 형식이 올바르지 않습니다: ${error.message}`,
+    );
+  }
+
+  const unknown = inputVariables.find(
+    (variable) => !PROMPT_VARIABLES.includes(variable as PromptVariable),
+  );
+  if (unknown) {
+    throw new Error(
+      `지원하지 않는 프롬프트 변수입니다: {${unknown}} (${PROMPT_VARIABLES.join(', ')} 중 선택, 중괄호 문자는 {{ }}로 쓰세요)`,
+    );
+  }
+
+  const missing = REQUIRED_PROMPT_VARIABLES.filter(
+    (variable) => !inputVariables.includes(variable),
+  );
+  if (missing.length > 0) {
+    throw new Error(
+      `프롬프트 템플릿에 필수 변수가 없습니다: ${missing.map((variable) => `{${variable}}`).join(', ')}`,
+    );
+  }
+
+  return PROMPT_VARIABLES.filter((variable) =>
+    inputVariables.includes(variable),
+  );
+}
+
+/**
+ * 템플릿 파일 내용 검증
+ *
+ * @param input - 파일에서 읽은 값
+ * @param name - 파일 이름에서 얻은 템플릿 이름
+ * @returns 검증된 템플릿 (variables는 템플릿에서 다시 추출)
+ * @throws Error - 이름이 다르거나, 버전/언어/템플릿이 올바르지 않은 경우
+ */
+export function parsePromptTemplateFile(
+  input: unknown,
+  name: string,
+): AnswerPromptTemplate {
+  if (typeof input !== 'object' || input === null || Array.isArray(input)) {
+    throw new Error('프롬프트 템플릿 파일은 JSON 객체여야 합니다.');
+  }
+
+  const file = input as Partial<AnswerPromptTemplate>;
+  if (file.name !== undefined && file.name !== name) {
+    throw new Error(
+      `프롬프트 템플릿 이름(${file.name})이 파일 이름(${name})과 다릅니다.`,
+    );
+  }
+  if (!Number.isInteger(file.version) || Number(file.version) < 1) {
+    throw new Error('프롬프트 템플릿 version은 1 이상의 정수여야 합니다.');
+  }
+
+  const { template, language, description } = parsePromptTemplateInput(file);
+
+  return {
+    name,
+    version: file.version!,
+    language: language ?? 'ko',
+    description,
+    variables: extractPromptVariables(template),
+    template,
+    updatedAt: typeof file.updatedAt === 'string' ? file.updatedAt : undefined,
+  };
+}
+
+/**
+ * 요청으로 받은 템플릿 수정 내용 검증
+ *
+ * @param input - { template, language?, description? } 형식의 값
+ * @returns 검증된 수정 내용
+ * @throws Error - template이 비어 있거나 language, description이 문자열이 아닌 경우
+ */
+export function parsePromptTemplateInput(input: unknown): PromptTemplateInput {
+  if (typeof input !== 'object' || input === null || Array.isArray(input)) {
+    throw new Error(
+      '프롬프트 템플릿은 { "template": "...", "language": "ko" } 형식이어야 합니다.',
+    );
+  }
+
+  const { template, language, description } = input as Record<string, unknown>;
+
+  if (typeof template !== 'string' || !template.trim()) {
+    throw new Error(
+      '프롬프트 템플릿의 template은 비어 있지 않은 문자열이어야 합니다.',
+    );
+  }
+  if (language !== undefined && (typeof language !== 'string' || !language)) {
+    throw new Error(
+      '프롬프트 템플릿의 language는 문자열이어야 합니다. (예: ko, en)',
+    );
+  }
+  if (description !== undefined && typeof description !== 'string') {
+    throw new Error('프롬프트 템플릿의 description은 문자열이어야 합니다.');
+  }
+
+  return { template, language, description };
+}
@@ -7,6 +7,15 @@ import { VectorStoreService } from './services/vector-store.service';
 import { DocumentLoaderService } from './services/document-loader.service';
 import { LLMService } from './services/llm.service';
 import { IndexingHistoryService } from './services/indexing-history.service';
+import { ConversationService } from './services/conversation.service';
+import { EntityCatalogService } from './services/entity-catalog.service';
+import { KeywordIndexService } from './services/keyword-index.service';
+import { RerankService } from './services/rerank.service';
+import { QueryExpansionService } from './services/query-expansion.service';
+import { PromptRegistryService } from './services/prompt-registry.service';
+import { EvaluationService } from './services/evaluation.service';
+import { IndexingJobService } from './services/indexing-job.service';
+import { IndexingWatcherService } from './services/indexing-watcher.service';
 
 /**
  * RAG 모듈
@@ -19,7 +28,16 @@ import { IndexingHistoryService } from './services/indexing-history.service';
  * - DocumentLoaderService: 문서 로딩 처리
  * - LLMService: LLM 모델 관리 및 답변 생성
  * - IndexingHistoryService: 인덱싱 히스토리 추적
+ * - EntityCatalogService: 인덱싱된 문서의 회사(엔티티) 목록 관리
+ * - KeywordIndexService: BM25 키워드 인덱스 관리 (하이브리드 검색용)
+ * - RerankService: 검색 후보 재순위화 (회사명 일치, MMR, LLM 채점)
+ * - QueryExpansionService: 검색 전 질문 확장 (LLM 다중 검색어, HyDE)
+ * - PromptRegistryService: 버전별 답변 프롬프트 템플릿 관리
  * - RagService: RAG 파이프라인 조합
+ * - ConversationService: 멀티턴 대화 세션 관리
+ * - IndexingJobService: 디렉토리 인덱싱 작업 큐 (백그라운드 실행, 진행 상황 조회)
+ * - IndexingWatcherService: 문서 디렉토리 감시 및 변경 파일 자동 인덱싱 (INDEX_WATCH)
+ * - EvaluationService: 정답 데이터셋 기반 검색/답변 품질 평가 (pnpm run eval)
  *
  * 이 모듈을 AppModule에 import하여 사용합니다.
  */
@@ -31,7 +49,16 @@ import { IndexingHistoryService } from './services/indexing-history.service';
     DocumentLoaderService,
     LLMService,
     IndexingHistoryService,
+    EntityCatalogService,
+    KeywordIndexService,
+    RerankService,
+    QueryExpansionService,
+    PromptRegistryService,
     RagService,
+    ConversationService,
+    IndexingJobService,
+    IndexingWatcherService,
+    EvaluationService,
   ],
   controllers: [RagController],
 })
@@ -0,0 +1,45 @@
+import { Document } from '@langchain/core/documents';
+import { CompanyMatchReranker } from './company-match-reranker';
+
+describe('CompanyMatchReranker', () => {
+  const candidate = (text: string, company: string, score: number) => ({
+    document: new Document({
+      pageContent: text,
+      metadata: { company_name: company },
+    }),
+    score,
+  });
+
+  it('should move documents of the detected company to the front', async () => {
+    const reranked = await new CompanyMatchReranker().rerank(
+      '카카오 보관 기간',
+      [
+        candidate('네이버 보관 기간', '네이버', 0.03),
+        candidate('카카오 보관 기간', '카카오', 0.02),
+        candidate('카카오페이와 카카오의 제휴', '카카오페이', 0.01),
+      ],
+      2,
+      { entities: ['카카오'] },
+    );
+
+    expect(reranked.map(({ document }) => document.pageContent)).toEqual([
+      '카카오 보관 기간',
+      '카카오페이와 카카오의 제휴',
+    ]);
+    expect(reranked[0].score).toBeCloseTo(1 + 2 / 3);
+  });
+
+  it('should keep the retrieval order without detected companies', async () => {
+    const reranked = await new CompanyMatchReranker().rerank(
+      '보관 기간',
+      [candidate('A', '네이버', 0.03), candidate('B', '카카오', 0.02)],
+      2,
+      { entities: [] },
+    );
+
+    expect(reranked.map(({ document }) => document.pageContent)).toEqual([
+      'A',
+      'B',
+    ]);
+  });
+});
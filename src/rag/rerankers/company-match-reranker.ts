@@ -0,0 +1,45 @@
+import {
+  RerankCandidate,
+  RerankContext,
+  RerankedDocument,
+  Reranker,
+} from './reranker';
+
+/**
+ * 회사명 일치 재순위화기
+ *
+ * 질문에서 감지된 회사의 문서(metadata.company_name 일치 또는 본문에 회사명 포함)를
+ * 앞으로 올리고, 같은 그룹 안에서는 검색 순위를 유지합니다.
+ *
+ * 점수 = (회사 일치 시 1) + 검색 점수 / 최고 검색 점수 (0 ~ 2)
+ */
+export class CompanyMatchReranker implements Reranker {
+  readonly name = 'company-match';
+
+  rerank(
+    _query: string,
+    candidates: RerankCandidate[],
+    k: number,
+    context: RerankContext,
+  ): Promise<RerankedDocument[]> {
+    const maxScore = Math.max(...candidates.map(({ score }) => score), 0);
+
+    const reranked = candidates.map(({ document, score }) => {
+      const companyName = document.metadata.company_name as string | undefined;
+      const matched = context.entities.some(
+        (entity) =>
+          entity === companyName || document.pageContent.includes(entity),
+      );
+
+      return {
+        document,
+        score: (matched ? 1 : 0) + (maxScore > 0 ? score / maxScore : 0),
+      };
+    });
+
+    // 정렬은 안정적이므로 점수가 같으면 검색 순위 유지
+    return Promise.resolve(
+      reranked.sort((a, b) => b.score - a.score).slice(0, k),
+    );
+  }
+}
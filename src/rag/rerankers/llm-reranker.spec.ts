@@ -0,0 +1,67 @@
+import { Document } from '@langchain/core/documents';
+import { LlmReranker, parseRelevanceScores } from './llm-reranker';
+
+describe('LlmReranker', () => {
+  const candidates = ['A', 'B', 'C'].map((text) => ({
+    document: new Document({ pageContent: text }),
+    score: 0,
+  }));
+
+  it('should sort candidates by LLM relevance scores', async () => {
+    const llm = {
+      generateWithPrompt: jest.fn().mockResolvedValue('1: 2\n2: 9\n3: 5'),
+    };
+
+    const reranked = await new LlmReranker(llm).rerank('질문', candidates, 2);
+
+    expect(reranked).toEqual([
+      { document: candidates[1].document, score: 9 },
+      { document: candidates[2].document, score: 5 },
+    ]);
+    expect(llm.generateWithPrompt).toHaveBeenCalledWith(
+      expect.any(String),
+      {
+        question: '질문',
+        passages: '[1] A\n\n[2] B\n\n[3] C',
+      },
+      undefined,
+    );
+  });
+
+  it('should score with the model overrides of the request', async () => {
+    const llm = {
+      generateWithPrompt: jest.fn().mockResolvedValue('1: 2\n2: 9\n3: 5'),
+    };
+    const overrides = { model: 'gpt-4o', temperature: 0 };
+
+    await new LlmReranker(llm).rerank('질문', candidates, 2, {
+      entities: [],
+      llm: overrides,
+    });
+
+    expect(llm.generateWithPrompt).toHaveBeenCalledWith(
+      expect.any(String),
+      expect.any(Object),
+      overrides,
+    );
+  });
+
+  it('should keep the retrieval order when scores cannot be parsed', async () => {
+    const llm = {
+      generateWithPrompt: jest.fn().mockResolvedValue('모두 관련 있습니다.'),
+    };
+
+    const reranked = await new LlmReranker(llm).rerank('질문', candidates, 2);
+
+    expect(reranked).toEqual(candidates.slice(0, 2));
+  });
+
+  it('parseRelevanceScores should ignore out-of-range markers', () => {
+    expect(parseRelevanceScores('[1]: 7.5\n4: 3\n2：12', 3)).toEqual(
+      new Map([
+        [1, 7.5],
+        [2, 10],
+      ]),
+    );
+  });
+});
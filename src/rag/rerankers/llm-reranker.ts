@@ -0,0 +1,132 @@
+import { Logger } from '@nestjs/common';
+import { Document } from '@langchain/core/documents';
+import { LLMOverrides } from '../llm/llm-providers';
+import {
+  RerankCandidate,
+  RerankContext,
+  RerankedDocument,
+  Reranker,
+} from './reranker';
+
+/**
+ * LLM 관련도 채점 프롬프트
+ *
+ * 변수: {question}, {passages}
+ */
+const RELEVANCE_PROMPT = `다음 문서들이 질문에 답하는 데 얼마나 도움이 되는지 0부터 10까지의 점수로 평가해주세요.
+
+- 10: 질문에 대한 답이 직접 들어 있음
+- 5: 관련 있지만 답의 일부만 있음
+- 0: 관련 없음
+
+질문: {question}
+
+문서:
+{passages}
+
+모든 문서에 대해 한 줄에 하나씩 "번호: 점수" 형식으로만 답해주세요. (예: 1: 8)`;
+
+/** 채점 결과 한 줄 ("1: 8", "[2]: 3.5") */
+const SCORE_LINE_PATTERN = /^\s*\[?(\d+)\]?\s*[:：]\s*(\d+(?:\.\d+)?)/gm;
+
+/** 프롬프트에 넣을 문서 최대 길이 (문자 수) */
+const MAX_PASSAGE_LENGTH = 500;
+
+/**
+ * LLM 채점에 사용할 텍스트 생성기
+ */
+export interface RelevanceScorerLLM {
+  generateWithPrompt(
+    prompt: string,
+    variables: Record<string, string>,
+    overrides?: LLMOverrides,
+  ): Promise<string>;
+}
+
+/**
+ * LLM 관련도 재순위화기
+ *
+ * 후보 문서를 번호와 함께 한 번의 프롬프트로 보내 질문과의 관련도(0~10)를 채점받습니다.
+ * 점수가 같으면 검색 순위를 유지하고, 응답에서 점수를 읽지 못한 문서는 0점으로 처리합니다.
+ * 응답 전체를 해석하지 못하면 검색 순위를 그대로 사용합니다.
+ */
+export class LlmReranker implements Reranker {
+  readonly name = 'llm';
+  private readonly logger = new Logger(LlmReranker.name);
+
+  constructor(private readonly llm: RelevanceScorerLLM) {}
+
+  async rerank(
+    query: string,
+    candidates: RerankCandidate[],
+    k: number,
+    context?: RerankContext,
+  ): Promise<RerankedDocument[]> {
+    if (candidates.length === 0) {
+      return [];
+    }
+
+    // 답변과 같은 모델로 채점하도록 요청별 모델 설정 전달
+    const response = await this.llm.generateWithPrompt(
+      RELEVANCE_PROMPT,
+      {
+        question: query,
+        passages: candidates
+          .map(({ document }, index) => formatPassage(document, index + 1))
+          .join('\n\n'),
+      },
+      context?.llm,
+    );
+
+    const scores = parseRelevanceScores(response, candidates.length);
+    if (scores.size === 0) {
+      this.logger.warn(
+        'LLM 관련도 점수를 해석할 수 없어 검색 순위를 사용합니다.',
+      );
+      return candidates.slice(0, k);
+    }
+
+    return candidates
+      .map(({ document }, index) => ({
+        document,
+        score: scores.get(index + 1) ?? 0,
+      }))
+      .sort((a, b) => b.score - a.score)
+      .slice(0, k);
+  }
+}
+
+/**
+ * LLM 응답에서 문서 번호별 점수 추출
+ *
+ * @param response - LLM 응답
+ * @param count - 후보 문서 수 (범위를 벗어난 번호는 무시)
+ * @returns 문서 번호(1부터)별 점수 (0 ~ 10으로 제한)
+ */
+export function parseRelevanceScores(
+  response: string,
+  count: number,
+): Map<number, number> {
+  const scores = new Map<number, number>();
+
+  for (const match of response.matchAll(SCORE_LINE_PATTERN)) {
+    const marker = parseInt(match[1], 10);
+    if (marker >= 1 && marker <= count && !scores.has(marker)) {
+      scores.set(marker, Math.min(parseFloat(match[2]), 10));
+    }
+  }
+
+  return scores;
+}
+
+/**
+ * 프롬프트용 문서 단락 ("[1] 내용", 긴 문서는 잘라냄)
+ */
+function formatPassage(document: Document, marker: number): string {
+  const content =
+    document.pageContent.length > MAX_PASSAGE_LENGTH
+      ? `${document.pageContent.slice(0, MAX_PASSAGE_LENGTH)}...`
+      : document.pageContent;
+
+  return `[${marker}] ${content}`;
+}
@@ -0,0 +1,43 @@
+import { Document } from '@langchain/core/documents';
+import { MmrReranker } from './mmr-reranker';
+
+describe('MmrReranker', () => {
+  const vectors: Record<string, number[]> = {
+    A: [1, 0, 0],
+    'A-dup': [0.99, 0.1, 0],
+    B: [0.7, 0.7, 0],
+  };
+
+  const reranker = (lambda: number) =>
+    new MmrReranker(
+      {
+        embedQuery: () => Promise.resolve([1, 0.2, 0]),
+        getDocumentVectors: (documents: Document[]) =>
+          Promise.resolve(documents.map((doc) => vectors[doc.pageContent])),
+      },
+      lambda,
+    );
+
+  const candidates = ['A', 'A-dup', 'B'].map((text) => ({
+    document: new Document({ pageContent: text }),
+    score: 0,
+  }));
+
+  it('should prefer diverse documents over near-duplicates', async () => {
+    const reranked = await reranker(0.5).rerank('질문', candidates, 2);
+
+    expect(reranked.map(({ document }) => document.pageContent)).toEqual([
+      'A-dup',
+      'B',
+    ]);
+  });
+
+  it('should rank by relevance only when lambda is 1', async () => {
+    const reranked = await reranker(1).rerank('질문', candidates, 2);
+
+    expect(reranked.map(({ document }) => document.pageContent)).toEqual([
+      'A-dup',
+      'A',
+    ]);
+  });
+});
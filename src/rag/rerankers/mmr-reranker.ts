@@ -0,0 +1,86 @@
+import { Document } from '@langchain/core/documents';
+import { cosineSimilarity } from '../stores/base-vector-store';
+import { RerankCandidate, RerankedDocument, Reranker } from './reranker';
+
+/**
+ * MMR 재순위화에 필요한 벡터 제공자
+ */
+export interface MmrVectorProvider {
+  /** 질문 벡터 */
+  embedQuery(query: string): Promise<number[]>;
+  /** 문서 순서와 같은 순서의 문서 벡터 (저장된 벡터 사용) */
+  getDocumentVectors(documents: Document[]): Promise<number[][]>;
+}
+
+/**
+ * Maximal Marginal Relevance 재순위화기
+ *
+ * 질문과의 유사도가 높으면서 이미 고른 문서와는 겹치지 않는 문서를 차례로 고릅니다.
+ * 같은 내용의 청크(예: 오버랩이 큰 연속 청크)가 컨텍스트를 모두 차지하는 것을 막습니다.
+ *
+ * 점수 = λ × sim(질문, 문서) − (1 − λ) × max sim(문서, 이미 고른 문서)
+ * (고른 시점의 점수, λ = lambda)
+ */
+export class MmrReranker implements Reranker {
+  readonly name = 'mmr';
+
+  /**
+   * @param vectors - 질문/문서 벡터 제공자
+   * @param lambda - 관련성 비중 (0 ~ 1, 기본값 0.5, 1이면 유사도 순)
+   */
+  constructor(
+    private readonly vectors: MmrVectorProvider,
+    private readonly lambda = 0.5,
+  ) {}
+
+  async rerank(
+    query: string,
+    candidates: RerankCandidate[],
+    k: number,
+  ): Promise<RerankedDocument[]> {
+    if (candidates.length === 0) {
+      return [];
+    }
+
+    const documents = candidates.map(({ document }) => document);
+    const queryVector = await this.vectors.embedQuery(query);
+    const documentVectors = await this.vectors.getDocumentVectors(documents);
+
+    const relevance = documentVectors.map((vector) =>
+      cosineSimilarity(queryVector, vector),
+    );
+    const remaining = documents.map((_, index) => index);
+    const selected: RerankedDocument[] = [];
+    const selectedIndexes: number[] = [];
+
+    while (selected.length < k && remaining.length > 0) {
+      let bestPosition = 0;
+      let bestScore = -Infinity;
+
+      remaining.forEach((index, position) => {
+        const redundancy = Math.max(
+          ...selectedIndexes.map((selectedIndex) =>
+            cosineSimilarity(
+              documentVectors[index],
+              documentVectors[selectedIndex],
+            ),
+          ),
+          0,
+        );
+        const score =
+          this.lambda * relevance[index] - (1 - this.lambda) * redundancy;
+
+        if (score > bestScore) {
+          bestScore = score;
+          bestPosition = position;
+        }
+      });
+
+      const [index] = remaining.splice(bestPosition, 1);
+      selectedIndexes.push(index);
+      selected.push({ document: documents[index], score: bestScore });
+    }
+
+    return selected;
+  }
+}
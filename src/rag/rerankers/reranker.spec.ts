@@ -0,0 +1,39 @@
+import { Document } from '@langchain/core/documents';
+import { NoopReranker, parseRerankOptions } from './reranker';
+
+describe('reranker', () => {
+  describe('parseRerankOptions', () => {
+    it('should accept a reranker name and candidate/final k', () => {
+      expect(
+        parseRerankOptions({ reranker: 'mmr', candidateK: 20, finalK: 5 }),
+      ).toEqual({ reranker: 'mmr', candidateK: 20, finalK: 5 });
+      expect(parseRerankOptions(undefined)).toBeUndefined();
+    });
+
+    it('should reject unknown rerankers and invalid k', () => {
+      expect(() => parseRerankOptions({ reranker: 'cohere' })).toThrow(
+        '지원하지 않는 재순위화 방식입니다: "cohere"',
+      );
+      expect(() => parseRerankOptions({ finalK: 0 })).toThrow(
+        'rerank.finalK는 1 ~ 50 사이의 정수여야 합니다.',
+      );
+      expect(() => parseRerankOptions({ candidateK: 1000 })).toThrow(
+        'rerank.candidateK는 1 ~ 50 사이의 정수여야 합니다.',
+      );
+      expect(() => parseRerankOptions({ topK: 3 })).toThrow(
+        '지원하지 않는 항목이 있습니다: topK',
+      );
+    });
+  });
+
+  it('NoopReranker should keep the retrieval order', async () => {
+    const candidates = ['A', 'B', 'C'].map((text, index) => ({
+      document: new Document({ pageContent: text }),
+      score: 1 / (index + 1),
+    }));
+
+    const reranked = await new NoopReranker().rerank('질문', candidates, 2);
+
+    expect(reranked).toEqual(candidates.slice(0, 2));
+  });
+});
@@ -0,0 +1,160 @@
+import { Document } from '@langchain/core/documents';
+import { LLMOverrides } from '../llm/llm-providers';
+
+/**
+ * 지원하는 재순위화(re-ranking) 방식
+ *
+ * - none: 검색 순위 그대로 사용
+ * - company-match: 질문에서 감지된 회사의 문서를 우선
+ * - mmr: Maximal Marginal Relevance (관련성과 다양성을 함께 고려)
+ * - llm: LLM이 질문과 문서의 관련도를 채점
+ */
+export const RERANKERS = ['none', 'company-match', 'mmr', 'llm'] as const;
+
+/**
+ * 재순위화 방식 이름
+ */
+export type RerankerName = (typeof RERANKERS)[number];
+
+/** 요청별로 지정할 수 있는 최대 후보/최종 문서 수 */
+export const MAX_RERANK_K = 50;
+
+/**
+ * 재순위화 후보 문서
+ */
+export interface RerankCandidate {
+  /** 검색된 청크 */
+  document: Document;
+  /** 검색 단계 점수 (하이브리드 검색의 RRF 점수) */
+  score: number;
+}
+
+/**
+ * 재순위화된 문서
+ */
+export interface RerankedDocument {
+  /** 청크 */
+  document: Document;
+  /** 재순위화 점수 (방식마다 척도가 다름, 클수록 우선) */
+  score: number;
+}
+
+/**
+ * 재순위화에 사용할 질문 정보
+ */
+export interface RerankContext {
+  /** 질문에서 감지된 회사 (대표 이름) */
+  entities: string[];
+  /** 요청별 모델 설정 (LLM 채점용, 선택) */
+  llm?: LLMOverrides;
+}
+
+/**
+ * 재순위화기 인터페이스
+ *
+ * 검색 단계에서 넉넉히 가져온 후보(candidateK개)를 다시 정렬하여
+ * 답변 컨텍스트로 사용할 상위 문서(finalK개)를 고릅니다.
+ */
+export interface Reranker {
+  /** 재순위화 방식 이름 */
+  readonly name: RerankerName;
+
+  /**
+   * 후보 문서 재순위화
+   *
+   * @param query - 사용자 질문
+   * @param candidates - 검색 순위순 후보 문서
+   * @param k - 반환할 문서 개수
+   * @param context - 질문에서 감지된 회사, 요청별 모델 설정 등
+   * @returns 재순위화 점수순 문서 (최대 k개)
+   */
+  rerank(
+    query: string,
+    candidates: RerankCandidate[],
+    k: number,
+    context: RerankContext,
+  ): Promise<RerankedDocument[]>;
+}
+
+/**
+ * 요청별 재순위화 옵션
+ */
+export interface RerankOptions {
+  /** 재순위화 방식 */
+  reranker?: RerankerName;
+  /** 검색 단계에서 가져올 후보 문서 수 */
+  candidateK?: number;
+  /** 재순위화 후 컨텍스트로 사용할 문서 수 */
+  finalK?: number;
+}
+
+/**
+ * 검색 순위를 그대로 사용하는 재순위화기
+ */
+export class NoopReranker implements Reranker {
+  readonly name = 'none';
+
+  rerank(
+    _query: string,
+    candidates: RerankCandidate[],
+    k: number,
+  ): Promise<RerankedDocument[]> {
+    return Promise.resolve(candidates.slice(0, k));
+  }
+}
+
+/**
+ * 요청으로 받은 재순위화 옵션을 검증하여 RerankOptions로 변환
+ *
+ * @param input - { reranker?, candidateK?, finalK? } 형식의 값
+ * @returns 검증된 옵션 (입력이 없으면 undefined)
+ * @throws Error - 지원하지 않는 방식이거나 문서 수가 1 ~ MAX_RERANK_K 정수가 아닌 경우
+ */
+export function parseRerankOptions(input: unknown): RerankOptions | undefined {
+  if (input === undefined || input === null) {
+    return undefined;
+  }
+
+  if (typeof input !== 'object' || Array.isArray(input)) {
+    throw new Error(
+      'rerank는 { "reranker": "mmr", "candidateK": 10, "finalK": 4 } 형식이어야 합니다.',
+    );
+  }
+
+  const { reranker, candidateK, finalK, ...rest } = input as Record<
+    string,
+    unknown
+  >;
+
+  const [unknownKey] = Object.keys(rest);
+  if (unknownKey) {
+    throw new Error(
+      `rerank에 지원하지 않는 항목이 있습니다: ${unknownKey} (reranker, candidateK, finalK 중 선택)`,
+    );
+  }
+
+  if (reranker !== undefined && !RERANKERS.includes(reranker as RerankerName)) {
+    throw new Error(
+      `지원하지 않는 재순위화 방식입니다: ${JSON.stringify(reranker)} (${RERANKERS.join(', ')} 중 선택)`,
+    );
+  }
+
+  for (const [key, value] of Object.entries({ candidateK, finalK })) {
+    if (
+      value !== undefined &&
+      (!Number.isInteger(value) ||
+        Number(value) < 1 ||
+        Number(value) > MAX_RERANK_K)
+    ) {
+      throw new Error(
+        `rerank.${key}는 1 ~ ${MAX_RERANK_K} 사이의 정수여야 합니다.`,
+      );
+    }
+  }
+
+  return {
+    reranker: reranker as RerankerName | undefined,
+    candidateK: candidateK as number | undefined,
+    finalK: finalK as number | undefined,
+  };
+}
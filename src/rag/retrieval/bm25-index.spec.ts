@@ -0,0 +1,85 @@
+import { Document } from '@langchain/core/documents';
+import { Bm25Index, tokenize } from './bm25-index';
+
+describe('Bm25Index', () => {
+  describe('tokenize', () => {
+    it('should split Korean into syllable bigrams and keep ASCII words whole', () => {
+      expect(tokenize('보관기간은 Kakao 1577-3754')).toEqual([
+        '보관',
+        '관기',
+        '기간',
+        '간은',
+        'kakao',
+        '1577-3754',
+      ]);
+    });
+
+    it('should keep single-syllable words', () => {
+      expect(tokenize('및 등')).toEqual(['및', '등']);
+    });
+  });
+
+  const createIndex = () => {
+    const index = new Bm25Index();
+    index.add(
+      'a',
+      new Document({
+        pageContent: '개인정보 보호책임자 연락처: 1577-3754',
+        metadata: { filePath: 'kakao.json', company_name: '카카오' },
+      }),
+    );
+    index.add(
+      'b',
+      new Document({
+        pageContent: '회원 탈퇴 시 개인정보는 지체 없이 파기합니다.',
+        metadata: { filePath: 'naver.json', company_name: '네이버' },
+      }),
+    );
+    index.add(
+      'c',
+      new Document({
+        pageContent: '비밀번호는 8자 이상이어야 합니다.',
+        metadata: { filePath: 'naver.json', company_name: '네이버' },
+      }),
+    );
+    return index;
+  };
+
+  it('should rank chunks by matching keywords', () => {
+    const results = createIndex().search('보호책임자 연락처', 2);
+
+    expect(results).toHaveLength(1);
+    expect(results[0][0].metadata.filePath).toBe('kakao.json');
+  });
+
+  it('should match Korean words regardless of particles', () => {
+    const [[document]] = createIndex().search('비밀번호를 알려줘', 3);
+
+    expect(document.pageContent).toContain('비밀번호는');
+  });
+
+  it('should apply the metadata filter', () => {
+    const results = createIndex().search('개인정보', 3, {
+      company_name: '네이버',
+    });
+
+    expect(results.map(([document]) => document.pageContent)).toEqual([
+      '회원 탈퇴 시 개인정보는 지체 없이 파기합니다.',
+    ]);
+  });
+
+  it('should remove chunks by file path', () => {
+    const index = createIndex();
+
+    expect(index.removeByFilePath('naver.json')).toBe(2);
+    expect(index.size).toBe(1);
+    expect(index.search('비밀번호', 3)).toEqual([]);
+  });
+
+  it('should restore the same index from saved entries', () => {
+    const index = createIndex();
+    const restored = Bm25Index.fromEntries(index.toEntries());
+
+    expect(restored.search('파기', 3)).toEqual(index.search('파기', 3));
+  });
+});
@@ -0,0 +1,282 @@
+import { Document } from '@langchain/core/documents';
+import {
+  MetadataFilter,
+  matchesMetadataFilter,
+} from '../stores/metadata-filter';
+
+/**
+ * BM25 파라미터
+ */
+export interface Bm25Options {
+  /** 단어 빈도 포화 정도 (기본값 1.2) */
+  k1?: number;
+  /** 문서 길이 정규화 정도 (0 ~ 1, 기본값 0.75) */
+  b?: number;
+}
+
+/**
+ * 인덱스 파일에 저장되는 청크 (토큰은 로드할 때 다시 계산)
+ */
+export interface Bm25IndexEntry {
+  /** 청크 ID (벡터 스토어 포인트 ID) */
+  id: string;
+  /** 청크 텍스트 */
+  pageContent: string;
+  /** 청크 메타데이터 */
+  metadata: Record<string, any>;
+}
+
+/**
+ * 인덱스에 등록된 청크
+ */
+interface IndexedDocument {
+  /** 원본 청크 */
+  document: Document;
+  /** 토큰별 등장 횟수 */
+  termFrequencies: Map<string, number>;
+  /** 토큰 수 */
+  length: number;
+}
+
+/**
+ * 토큰 패턴
+ * - 영문/숫자 단어 (하이픈, 점으로 이어진 값은 하나로: "1577-3754", "v2.1")
+ * - 한글 음절 연속 구간
+ */
+const TOKEN_PATTERN = /[a-z0-9]+(?:[-.][a-z0-9]+)*|[가-힣]+/g;
+
+/**
+ * 키워드 검색용 토큰화
+ *
+ * @param text - 토큰화할 텍스트
+ * @returns 토큰 배열 (중복 포함)
+ *
+ * 한국어는 조사/어미가 붙어 형태가 바뀌므로("보관기간을", "보관 기간은")
+ * 한글 구간을 음절 2-gram으로 나눕니다. (한 글자 구간은 그대로 사용)
+ * 영문은 소문자로 바꾸고, 숫자/영문 단어는 통째로 하나의 토큰으로 사용합니다.
+ */
+export function tokenize(text: string): string[] {
+  const tokens: string[] = [];
+  const normalized = text.normalize('NFC').toLowerCase();
+
+  for (const [word] of normalized.matchAll(TOKEN_PATTERN)) {
+    if (!/^[가-힣]/.test(word)) {
+      tokens.push(word);
+      continue;
+    }
+
+    if (word.length === 1) {
+      tokens.push(word);
+      continue;
+    }
+
+    for (let i = 0; i < word.length - 1; i++) {
+      tokens.push(word.slice(i, i + 2));
+    }
+  }
+
+  return tokens;
+}
+
+/**
+ * BM25 키워드 인덱스
+ *
+ * 청크 텍스트를 토큰화하여 역색인을 만들고 BM25 점수로 검색합니다.
+ * 벡터 검색이 놓치기 쉬운 고유명사, 전화번호, 법령 조항 같은 정확한 단어 일치를 보완합니다.
+ */
+export class Bm25Index {
+  private readonly k1: number;
+  private readonly b: number;
+
+  /** 청크 ID별 인덱스 항목 */
+  private readonly documents = new Map<string, IndexedDocument>();
+
+  /** 토큰별 청크 ID (역색인) */
+  private readonly postings = new Map<string, Set<string>>();
+
+  /** 전체 청크 토큰 수 합계 (평균 문서 길이 계산용) */
+  private totalLength = 0;
+
+  constructor(options: Bm25Options = {}) {
+    this.k1 = options.k1 ?? 1.2;
+    this.b = options.b ?? 0.75;
+  }
+
+  /**
+   * 인덱스에 등록된 청크 수
+   */
+  get size(): number {
+    return this.documents.size;
+  }
+
+  /**
+   * 청크 추가 (같은 ID가 있으면 교체)
+   *
+   * @param id - 청크 ID
+   * @param document - 청크
+   */
+  add(id: string, document: Document): void {
+    this.remove(id);
+
+    const termFrequencies = new Map<string, number>();
+    const tokens = tokenize(document.pageContent);
+    for (const token of tokens) {
+      termFrequencies.set(token, (termFrequencies.get(token) ?? 0) + 1);
+    }
+
+    for (const token of termFrequencies.keys()) {
+      let ids = this.postings.get(token);
+      if (!ids) {
+        ids = new Set();
+        this.postings.set(token, ids);
+      }
+      ids.add(id);
+    }
+
+    this.documents.set(id, {
+      document: new Document({
+        pageContent: document.pageContent,
+        metadata: { ...document.metadata },
+      }),
+      termFrequencies,
+      length: tokens.length,
+    });
+    this.totalLength += tokens.length;
+  }
+
+  /**
+   * 청크 삭제
+   *
+   * @param id - 청크 ID
+   * @returns 삭제된 청크가 있으면 true
+   */
+  remove(id: string): boolean {
+    const entry = this.documents.get(id);
+    if (!entry) {
+      return false;
+    }
+
+    for (const token of entry.termFrequencies.keys()) {
+      const ids = this.postings.get(token);
+      ids?.delete(id);
+      if (ids?.size === 0) {
+        this.postings.delete(token);
+      }
+    }
+
+    this.documents.delete(id);
+    this.totalLength -= entry.length;
+    return true;
+  }
+
+  /**
+   * 파일 경로로 청크 삭제
+   *
+   * @param filePath - 원본 파일 경로 (metadata.filePath)
+   * @returns 삭제된 청크 수
+   */
+  removeByFilePath(filePath: string): number {
+    const ids = [...this.documents.entries()]
+      .filter(([, entry]) => entry.document.metadata.filePath === filePath)
+      .map(([id]) => id);
+
+    ids.forEach((id) => this.remove(id));
+    return ids.length;
+  }
+
+  /**
+   * 모든 청크 삭제
+   */
+  clear(): void {
+    this.documents.clear();
+    this.postings.clear();
+    this.totalLength = 0;
+  }
+
+  /**
+   * BM25 점수로 검색
+   *
+   * @param query - 검색어
+   * @param k - 반환할 청크 개수
+   * @param filter - 메타데이터 필터 (선택)
+   * @returns [청크, BM25 점수] 튜플 배열 (점수 내림차순, 일치하는 토큰이 없는 청크 제외)
+   */
+  search(
+    query: string,
+    k: number,
+    filter?: MetadataFilter,
+  ): [Document, number][] {
+    const queryTokens = [...new Set(tokenize(query))];
+    if (queryTokens.length === 0 || this.documents.size === 0) {
+      return [];
+    }
+
+    const averageLength = this.totalLength / this.documents.size || 1;
+    const scores = new Map<string, number>();
+
+    for (const token of queryTokens) {
+      const ids = this.postings.get(token);
+      if (!ids) {
+        continue;
+      }
+
+      const idf = Math.log(
+        1 + (this.documents.size - ids.size + 0.5) / (ids.size + 0.5),
+      );
+
+      for (const id of ids) {
+        const entry = this.documents.get(id)!;
+        const frequency = entry.termFrequencies.get(token)!;
+        const score =
+          (idf * frequency * (this.k1 + 1)) /
+          (frequency +
+            this.k1 * (1 - this.b + (this.b * entry.length) / averageLength));
+
+        scores.set(id, (scores.get(id) ?? 0) + score);
+      }
+    }
+
+    return [...scores.entries()]
+      .map(([id, score]) => [this.documents.get(id)!.document, score] as const)
+      .filter(([document]) => matchesMetadataFilter(document.metadata, filter))
+      .sort((a, b) => b[1] - a[1])
+      .slice(0, k)
+      .map(([document, score]) => [document, score]);
+  }
+
+  /**
+   * 저장용 항목 목록으로 변환
+   */
+  toEntries(): Bm25IndexEntry[] {
+    return [...this.documents.entries()].map(([id, entry]) => ({
+      id,
+      pageContent: entry.document.pageContent,
+      metadata: entry.document.metadata,
+    }));
+  }
+
+  /**
+   * 저장된 항목 목록으로 인덱스 생성
+   *
+   * @param entries - toEntries()로 저장한 항목
+   * @param options - BM25 파라미터
+   */
+  static fromEntries(
+    entries: Bm25IndexEntry[],
+    options: Bm25Options = {},
+  ): Bm25Index {
+    const index = new Bm25Index(options);
+
+    for (const entry of entries) {
+      index.add(
+        entry.id,
+        new Document({
+          pageContent: entry.pageContent,
+          metadata: entry.metadata,
+        }),
+      );
+    }
+
+    return index;
+  }
+}
@@ -0,0 +1,72 @@
+import {
+  QueryExpander,
+  parseGeneratedQueries,
+  parseQueryExpansionOptions,
+} from './query-expander';
+
+describe('QueryExpander', () => {
+  it('should return the original question with paraphrases and a HyDE passage', async () => {
+    const llm = {
+      generateWithPrompt: jest
+        .fn()
+        .mockImplementation((prompt: string) =>
+          Promise.resolve(
+            prompt.includes('단락')
+              ? '회원 탈퇴 시 개인정보는 지체 없이 파기합니다.'
+              : '1. 회원 탈퇴 후 개인정보 파기 시점\n2. 개인정보 보유기간',
+          ),
+        ),
+    };
+
+    const queries = await new QueryExpander(llm).expand(
+      '탈퇴하면 내 정보 언제 지워짐?',
+      { queries: 2, hyde: true },
+    );
+
+    expect(queries).toEqual([
+      { kind: 'original', text: '탈퇴하면 내 정보 언제 지워짐?' },
+      { kind: 'paraphrase', text: '회원 탈퇴 후 개인정보 파기 시점' },
+      { kind: 'paraphrase', text: '개인정보 보유기간' },
+      { kind: 'hyde', text: '회원 탈퇴 시 개인정보는 지체 없이 파기합니다.' },
+    ]);
+  });
+
+  it('should fall back to the original question when generation fails', async () => {
+    const llm = {
+      generateWithPrompt: jest.fn().mockRejectedValue(new Error('timeout')),
+    };
+
+    const queries = await new QueryExpander(llm).expand('질문', {
+      queries: 3,
+      hyde: false,
+    });
+
+    expect(queries).toEqual([{ kind: 'original', text: '질문' }]);
+  });
+
+  it('parseGeneratedQueries should strip list markers and drop duplicates', () => {
+    expect(
+      parseGeneratedQueries(
+        '- "개인정보 파기"\n[2] 질문\n\n3) 개인정보 파기\n• 보유기간\n• 제3자 제공',
+        2,
+        '질문',
+      ),
+    ).toEqual(['개인정보 파기', '보유기간']);
+  });
+
+  it('parseQueryExpansionOptions should reject invalid options', () => {
+    expect(parseQueryExpansionOptions({ queries: 2 })).toEqual({
+      queries: 2,
+      hyde: undefined,
+    });
+    expect(() => parseQueryExpansionOptions({ queries: 6 })).toThrow(
+      'expansion.queries는 0 ~ 5 사이의 정수여야 합니다.',
+    );
+    expect(() => parseQueryExpansionOptions({ hyde: 'yes' })).toThrow(
+      'expansion.hyde는 true 또는 false여야 합니다.',
+    );
+    expect(() => parseQueryExpansionOptions({ count: 2 })).toThrow(
+      'expansion에 지원하지 않는 항목이 있습니다: count',
+    );
+  });
+});
@@ -0,0 +1,235 @@
+import { Logger } from '@nestjs/common';
+import { LLMOverrides } from '../llm/llm-providers';
+
+/**
+ * 다중 검색어 생성 프롬프트
+ *
+ * 변수: {question}, {count}
+ */
+const MULTI_QUERY_PROMPT = `당신은 개인정보 처리방침 검색을 돕는 어시스턴트입니다.
+사용자 질문을 처리방침 문서에서 찾기 쉽도록 서로 다른 표현의 검색어 {count}개로 다시 작성해주세요.
+
+- 구어체 표현은 처리방침에서 쓰는 용어로 바꾸세요. (예: "지워짐" → "파기", "얼마나 갖고 있어" → "보유기간")
+- 질문이 여러 내용을 묻는다면 내용별 하위 질문으로 나누어도 됩니다.
+- 질문에 나온 회사명은 그대로 유지하세요.
+
+질문: {question}
+
+한 줄에 하나씩 검색어만 답해주세요.`;
+
+/**
+ * HyDE(Hypothetical Document Embeddings) 가상 답변 생성 프롬프트
+ *
+ * 변수: {question}
+ */
+const HYDE_PROMPT = `다음 질문에 대한 답이 들어 있을 법한 개인정보 처리방침의 한 단락을 작성해주세요.
+실제 회사의 정책을 모르더라도 처리방침에서 쓰는 형식과 용어로 작성하면 됩니다.
+
+질문: {question}
+
+단락:`;
+
+/** 검색어 앞의 목록 기호 ("1.", "2)", "[3]", "-", "•") */
+const LIST_MARKER_PATTERN = /^\s*(?:\d+[.)]|\[\d+\]|[-*•])\s*/;
+
+/** 요청별로 생성할 수 있는 최대 검색어 수 */
+export const MAX_EXPANSION_QUERIES = 5;
+
+/**
+ * 검색어 종류
+ *
+ * - original: 사용자 질문
+ * - paraphrase: LLM이 다시 작성한 검색어
+ * - hyde: LLM이 작성한 가상 답변 단락
+ */
+export type ExpandedQueryKind = 'original' | 'paraphrase' | 'hyde';
+
+/**
+ * 검색에 사용한 검색어
+ */
+export interface ExpandedQuery {
+  /** 검색어 종류 */
+  kind: ExpandedQueryKind;
+  /** 검색어 */
+  text: string;
+}
+
+/**
+ * 요청별 검색어 확장 옵션
+ */
+export interface QueryExpansionOptions {
+  /** 생성할 검색어 수 (0이면 생성하지 않음) */
+  queries?: number;
+  /** HyDE 가상 답변으로도 검색할지 여부 */
+  hyde?: boolean;
+}
+
+/**
+ * 검색어 생성에 사용할 텍스트 생성기
+ */
+export interface QueryGeneratorLLM {
+  generateWithPrompt(
+    prompt: string,
+    variables: Record<string, string>,
+    overrides?: LLMOverrides,
+  ): Promise<string>;
+}
+
+/**
+ * 검색어 확장기
+ *
+ * 구어체나 짧은 질문("탈퇴하면 내 정보 언제 지워짐?")은 처리방침의 문어체 표현
+ * ("보유기간 만료 후 파기")과 임베딩이 멀어 검색되지 않을 수 있으므로,
+ * LLM으로 질문을 여러 검색어로 다시 쓰고 선택적으로 HyDE 가상 답변을 만들어 함께 검색합니다.
+ * 생성에 실패하면 원래 질문만 사용합니다.
+ */
+export class QueryExpander {
+  private readonly logger = new Logger(QueryExpander.name);
+
+  constructor(private readonly llm: QueryGeneratorLLM) {}
+
+  /**
+   * 질문을 검색어 목록으로 확장
+   *
+   * @param question - 사용자 질문
+   * @param options - 생성할 검색어 수와 HyDE 사용 여부
+   * @param overrides - 요청별 모델 설정 (선택)
+   * @returns 원래 질문, 생성된 검색어, 가상 답변 순서의 검색어 목록
+   */
+  async expand(
+    question: string,
+    options: Required<QueryExpansionOptions>,
+    overrides?: LLMOverrides,
+  ): Promise<ExpandedQuery[]> {
+    const [paraphrases, hypothetical] = await Promise.all([
+      options.queries > 0
+        ? this.generate(
+            MULTI_QUERY_PROMPT,
+            {
+              question,
+              count: String(options.queries),
+            },
+            overrides,
+          )
+        : Promise.resolve(''),
+      options.hyde
+        ? this.generate(HYDE_PROMPT, { question }, overrides)
+        : Promise.resolve(''),
+    ]);
+
+    const queries: ExpandedQuery[] = [{ kind: 'original', text: question }];
+
+    for (const text of parseGeneratedQueries(
+      paraphrases,
+      options.queries,
+      question,
+    )) {
+      queries.push({ kind: 'paraphrase', text });
+    }
+    if (hypothetical.trim()) {
+      queries.push({ kind: 'hyde', text: hypothetical.trim() });
+    }
+
+    return queries;
+  }
+
+  /**
+   * LLM으로 텍스트 생성 (실패하면 빈 문자열)
+   */
+  private async generate(
+    prompt: string,
+    variables: Record<string, string>,
+    overrides?: LLMOverrides,
+  ): Promise<string> {
+    try {
+      return await this.llm.generateWithPrompt(prompt, variables, overrides);
+    } catch (error) {
+      this.logger.warn(
+        `검색어 생성 실패, 원래 질문만 사용합니다: ${error.message}`,
+      );
+      return '';
+    }
+  }
+}
+
+/**
+ * LLM 응답에서 검색어 추출
+ *
+ * @param response - 한 줄에 하나씩 검색어가 있는 LLM 응답
+ * @param count - 최대 검색어 수
+ * @param question - 원래 질문 (같은 검색어는 제외)
+ * @returns 목록 기호와 따옴표를 제거하고 중복을 제외한 검색어
+ */
+export function parseGeneratedQueries(
+  response: string,
+  count: number,
+  question: string,
+): string[] {
+  const queries: string[] = [];
+  const seen = new Set([question.trim()]);
+
+  for (const line of response.split('\n')) {
+    const text = line
+      .replace(LIST_MARKER_PATTERN, '')
+      .trim()
+      .replace(/^["'“”]+|["'“”]+$/g, '')
+      .trim();
+
+    if (text && !seen.has(text)) {
+      seen.add(text);
+      queries.push(text);
+    }
+  }
+
+  return queries.slice(0, count);
+}
+
+/**
+ * 요청으로 받은 검색어 확장 옵션을 검증하여 QueryExpansionOptions로 변환
+ *
+ * @param input - { queries?, hyde? } 형식의 값
+ * @returns 검증된 옵션 (입력이 없으면 undefined)
+ * @throws Error - 검색어 수가 0 ~ MAX_EXPANSION_QUERIES 정수가 아니거나 hyde가 불리언이 아닌 경우
+ */
+export function parseQueryExpansionOptions(
+  input: unknown,
+): QueryExpansionOptions | undefined {
+  if (input === undefined || input === null) {
+    return undefined;
+  }
+
+  if (typeof input !== 'object' || Array.isArray(input)) {
+    throw new Error(
+      'expansion은 { "queries": 3, "hyde": true } 형식이어야 합니다.',
+    );
+  }
+
+  const { queries, hyde, ...rest } = input as Record<string, unknown>;
+
+  const [unknownKey] = Object.keys(rest);
+  if (unknownKey) {
+    throw new Error(
+      `expansion에 지원하지 않는 항목이 있습니다: ${unknownKey} (queries, hyde 중 선택)`,
+    );
+  }
+
+  if (
+    queries !== undefined &&
+    (!Number.isInteger(queries) ||
+      Number(queries) < 0 ||
+      Number(queries) > MAX_EXPANSION_QUERIES)
+  ) {
+    throw new Error(
+      `expansion.queries는 0 ~ ${MAX_EXPANSION_QUERIES} 사이의 정수여야 합니다.`,
+    );
+  }
+
+  if (hyde !== undefined && typeof hyde !== 'boolean') {
+    throw new Error('expansion.hyde는 true 또는 false여야 합니다.');
+  }
+
+  return {
+    queries: queries as number | undefined,
+    hyde,
+  };
+}
@@ -0,0 +1,63 @@
+import { Document } from '@langchain/core/documents';
+import {
+  parseRetrievalWeights,
+  reciprocalRankFusion,
+} from './reciprocal-rank-fusion';
+
+describe('reciprocal-rank-fusion', () => {
+  const doc = (text: string) =>
+    new Document({ pageContent: text, metadata: { filePath: 'a.txt' } });
+
+  describe('reciprocalRankFusion', () => {
+    it('should rank documents found by both lists first', () => {
+      const fused = reciprocalRankFusion(
+        [
+          { documents: [doc('A'), doc('B')], weight: 1 },
+          { documents: [doc('C'), doc('B')], weight: 1 },
+        ],
+        3,
+      );
+
+      expect(fused.map(({ document }) => document.pageContent)).toEqual([
+        'B',
+        'A',
+        'C',
+      ]);
+      expect(fused[0].score).toBeCloseTo(2 / 62);
+    });
+
+    it('should apply list weights', () => {
+      const fused = reciprocalRankFusion(
+        [
+          { documents: [doc('A')], weight: 0.5 },
+          { documents: [doc('C')], weight: 1 },
+        ],
+        1,
+      );
+
+      expect(fused.map(({ document }) => document.pageContent)).toEqual(['C']);
+    });
+  });
+
+  describe('parseRetrievalWeights', () => {
+    it('should parse numbers and numeric strings', () => {
+      expect(parseRetrievalWeights({ vector: '0.5', keyword: 2 })).toEqual({
+        vector: 0.5,
+        keyword: 2,
+      });
+      expect(parseRetrievalWeights(undefined)).toBeUndefined();
+    });
+
+    it('should reject invalid weights', () => {
+      expect(() => parseRetrievalWeights({ vector: -1 })).toThrow(
+        'weights.vector는 0 이상의 숫자여야 합니다.',
+      );
+      expect(() => parseRetrievalWeights({ bm25: 1 })).toThrow(
+        '지원하지 않는 항목',
+      );
+      expect(() => parseRetrievalWeights({ vector: 0, keyword: 0 })).toThrow(
+        '모두 0일 수 없습니다',
+      );
+    });
+  });
+});
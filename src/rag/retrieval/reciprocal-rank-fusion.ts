@@ -0,0 +1,122 @@
+import { Document } from '@langchain/core/documents';
+
+/**
+ * 하이브리드 검색 가중치
+ *
+ * 0이면 해당 검색을 건너뜁니다.
+ */
+export interface RetrievalWeights {
+  /** 벡터(의미) 검색 가중치 */
+  vector: number;
+  /** BM25 키워드 검색 가중치 */
+  keyword: number;
+}
+
+/**
+ * 융합할 검색 결과 목록
+ */
+export interface RankedList {
+  /** 순위순 문서 */
+  documents: Document[];
+  /** 목록 가중치 */
+  weight: number;
+}
+
+/**
+ * 융합된 검색 결과
+ */
+export interface FusedDocument {
+  /** 문서 (여러 목록에 있으면 먼저 나온 목록의 문서) */
+  document: Document;
+  /** RRF 점수 */
+  score: number;
+}
+
+/**
+ * 검색 결과 목록을 Reciprocal Rank Fusion으로 병합
+ *
+ * @param lists - 순위순 문서 목록과 가중치
+ * @param limit - 반환할 문서 개수
+ * @param rrfK - 순위 상수 (기본값 60, 클수록 하위 순위 문서의 영향이 커짐)
+ * @returns 점수 내림차순 문서 (같은 청크는 하나로 합침)
+ *
+ * 문서 점수 = Σ weight / (rrfK + 순위), 순위는 1부터입니다.
+ * 벡터 유사도와 BM25 점수는 척도가 달라 직접 더할 수 없으므로 순위만 사용합니다.
+ */
+export function reciprocalRankFusion(
+  lists: RankedList[],
+  limit: number,
+  rrfK = 60,
+): FusedDocument[] {
+  const fused = new Map<string, FusedDocument>();
+
+  for (const { documents, weight } of lists) {
+    documents.forEach((document, index) => {
+      const key = getDocumentKey(document);
+      const score = weight / (rrfK + index + 1);
+      const existing = fused.get(key);
+
+      if (existing) {
+        existing.score += score;
+      } else {
+        fused.set(key, { document, score });
+      }
+    });
+  }
+
+  return [...fused.values()].sort((a, b) => b.score - a.score).slice(0, limit);
+}
+
+/**
+ * 검색 결과에서 같은 청크를 식별하는 키
+ *
+ * @param document - 청크
+ * @returns 원본 경로와 청크 텍스트로 만든 키
+ */
+export function getDocumentKey(document: Document): string {
+  return `${document.metadata.filePath ?? document.metadata.source ?? ''}:${document.pageContent}`;
+}
+
+/**
+ * 요청으로 받은 가중치를 검증하여 RetrievalWeights로 변환
+ *
+ * @param input - { vector?, keyword? } 형식의 값 (없는 항목은 기본값 사용)
+ * @returns 검증된 가중치 (입력이 없으면 undefined)
+ * @throws Error - 가중치가 0 이상의 숫자가 아니거나 모두 0인 경우
+ */
+export function parseRetrievalWeights(
+  input: unknown,
+): Partial<RetrievalWeights> | undefined {
+  if (input === undefined || input === null) {
+    return undefined;
+  }
+
+  if (typeof input !== 'object' || Array.isArray(input)) {
+    throw new Error(
+      'weights는 { "vector": 1, "keyword": 1 } 형식이어야 합니다.',
+    );
+  }
+
+  const weights: Partial<RetrievalWeights> = {};
+
+  for (const [key, value] of Object.entries(input as Record<string, unknown>)) {
+    if (key !== 'vector' && key !== 'keyword') {
+      throw new Error(
+        `weights에 지원하지 않는 항목이 있습니다: ${key} (vector, keyword 중 선택)`,
+      );
+    }
+
+    const weight = typeof value === 'string' ? Number(value) : value;
+    if (typeof weight !== 'number' || !Number.isFinite(weight) || weight < 0) {
+      throw new Error(`weights.${key}는 0 이상의 숫자여야 합니다.`);
+    }
+
+    weights[key] = weight;
+  }
+
+  if (weights.vector === 0 && weights.keyword === 0) {
+    throw new Error('weights.vector와 weights.keyword가 모두 0일 수 없습니다.');
+  }
+
+  return weights;
+}
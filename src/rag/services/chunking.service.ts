@@ -1,35 +1,75 @@
-import { Injectable } from '@nestjs/common';
-import { RecursiveCharacterTextSplitter } from '@langchain/textsplitters';
+import { Injectable, Logger } from '@nestjs/common';
 import { Document } from '@langchain/core/documents';
+import * as fs from 'fs';
+import * as path from 'path';
+import { addChunkProvenance } from '../chunking/chunk-provenance';
+import {
+  ChunkingConfig,
+  ChunkingStrategyConfig,
+  DEFAULT_CHUNKING_CONFIG,
+  DocumentSplitter,
+  createDocumentSplitter,
+  parseChunkingConfig,
+  resolveChunkingStrategy,
+} from '../chunking/chunking-strategy';
 
 /**
  * 청킹 서비스
  *
  * 문서를 작은 청크로 분할하는 책임을 가집니다.
- * RecursiveCharacterTextSplitter를 사용하여 문서를 의미 있는 단위로 분할합니다.
+ * 파일 패턴별로 청킹 전략(recursive-character, markdown-heading, korean-sentence,
+ * token-count, json-structural)과 크기/오버랩을 다르게 적용합니다.
+ *
+ * - 설정 파일: chunking.config.json (CHUNKING_CONFIG_PATH)
+ *   형식: { "default": { "strategy", "chunkSize", "chunkOverlap" },
+ *          "rules": [{ "pattern": "*.json", "strategy": "json-structural" }, ...] }
+ * - 설정 파일이 없으면 JSON은 json-structural, 나머지는 recursive-character(1000/200) 사용
+ * - 사용한 전략은 청크 metadata.chunkingStrategy에 기록합니다.
+ * - 청크 metadata에 출처 정보(chunkIndex, startOffset, endOffset, PDF pageNumber)를 기록합니다.
+ *   (JSON은 jsonPath, 마크다운은 section도 함께 기록)
  */
 @Injectable()
 export class ChunkingService {
-  /** 텍스트 분할기 인스턴스 */
-  private textSplitter: RecursiveCharacterTextSplitter;
+  private readonly logger = new Logger(ChunkingService.name);
+
+  /** 청킹 설정 */
+  private readonly config: ChunkingConfig;
+
+  /** 전략 설정별 분할기 캐시 */
+  private readonly splitters = new Map<string, DocumentSplitter>();
 
   constructor() {
-    // 텍스트 분할기 설정 (청크 크기: 1000, 오버랩: 200)
-    // 오버랩을 두어 문맥 손실을 최소화
-    this.textSplitter = new RecursiveCharacterTextSplitter({
-      chunkSize: 1000,
-      chunkOverlap: 200,
-    });
+    this.config = this.loadConfig(
+      process.env.CHUNKING_CONFIG_PATH ||
+        path.join(process.cwd(), 'chunking.config.json'),
+    );
   }
 
   /**
    * 문서를 청크로 분할
    *
    * @param documents - 분할할 문서 배열
-   * @returns 분할된 문서 배열
+   * @returns 분할된 문서 배열 (입력 문서 순서 유지, metadata에 chunkingStrategy와 출처 정보 추가)
    */
   async splitDocuments(documents: Document[]): Promise<Document[]> {
-    return await this.textSplitter.splitDocuments(documents);
+    const chunks: Document[] = [];
+
+    for (const document of documents) {
+      const strategy = this.resolveStrategy(document.metadata);
+      const splitDocs = await this.createSplitter(strategy).splitDocuments([
+        document,
+      ]);
+
+      for (const chunk of addChunkProvenance(document, splitDocs)) {
+        chunk.metadata = {
+          ...chunk.metadata,
+          chunkingStrategy: strategy.strategy,
+        };
+        chunks.push(chunk);
+      }
+    }
+
+    return chunks;
   }
 
   /**
@@ -57,19 +97,60 @@ export class ChunkingService {
   }
 
   /**
-   * 커스텀 설정으로 텍스트 분할기 생성
+   * 문서에 적용할 청킹 전략 찾기
+   *
+   * @param metadata - 문서 메타데이터 (filePath 또는 fileName으로 규칙 검사)
+   * @returns 전략 이름과 크기/오버랩
+   */
+  resolveStrategy(metadata: Record<string, any> = {}): ChunkingStrategyConfig {
+    const filePath = (metadata.filePath ?? metadata.fileName) as
+      | string
+      | undefined;
+    return resolveChunkingStrategy(this.config, filePath);
+  }
+
+  /**
+   * 전략 설정에 맞는 분할기 반환 (같은 설정이면 재사용)
+   *
+   * @param strategy - 청킹 전략 설정
+   * @returns 문서 분할기
+   */
+  createSplitter(strategy: ChunkingStrategyConfig): DocumentSplitter {
+    const key = `${strategy.strategy}:${strategy.chunkSize}:${strategy.chunkOverlap}`;
+    let splitter = this.splitters.get(key);
+
+    if (!splitter) {
+      splitter = createDocumentSplitter(strategy);
+      this.splitters.set(key, splitter);
+    }
+
+    return splitter;
+  }
+
+  /**
+   * 청킹 설정 파일 로드
    *
-   * @param chunkSize - 청크 크기
-   * @param chunkOverlap - 오버랩 크기
-   * @returns 새로운 텍스트 분할기 인스턴스
+   * @param configPath - 설정 파일 경로
+   * @returns 청킹 설정 (파일이 없으면 기본 설정)
+   * @throws Error - 설정 형식이 올바르지 않은 경우
    */
-  createSplitter(
-    chunkSize: number,
-    chunkOverlap: number,
-  ): RecursiveCharacterTextSplitter {
-    return new RecursiveCharacterTextSplitter({
-      chunkSize,
-      chunkOverlap,
-    });
+  private loadConfig(configPath: string): ChunkingConfig {
+    if (!fs.existsSync(configPath)) {
+      return DEFAULT_CHUNKING_CONFIG;
+    }
+
+    let input: unknown;
+    try {
+      input = JSON.parse(fs.readFileSync(configPath, 'utf-8')) as unknown;
+    } catch (error) {
+      throw new Error(`청킹 설정 파일을 읽을 수 없습니다: ${error.message}`);
+    }
+
+    const config = parseChunkingConfig(input);
+    this.logger.log(
+      `청킹 설정 로드: ${configPath} (기본 ${config.default.strategy}, 규칙 ${config.rules.length}개)`,
+    );
+
+    return config;
   }
 }
@@ -0,0 +1,74 @@
+import { ConversationService } from './conversation.service';
+import { LLMService } from './llm.service';
+import { RagService } from './rag.service';
+
+describe('ConversationService', () => {
+  let service: ConversationService;
+  let ragService: { query: jest.Mock };
+  let llmService: { generateWithPrompt: jest.Mock };
+
+  beforeEach(() => {
+    process.env.CONVERSATION_STORE = 'memory';
+
+    ragService = {
+      query: jest
+        .fn()
+        .mockResolvedValue({ answer: '답변', sourceDocuments: [] }),
+    };
+    llmService = {
+      generateWithPrompt: jest
+        .fn()
+        .mockResolvedValue('토스의 개인정보 보관 기간은?'),
+    };
+
+    service = new ConversationService(
+      ragService as unknown as RagService,
+      llmService as unknown as LLMService,
+    );
+  });
+
+  it('should use the first question as-is without rewriting', async () => {
+    const conversation = await service.createConversation();
+
+    const reply = await service.sendMessage(
+      conversation.id,
+      '카카오의 개인정보 보관 기간은?',
+    );
+
+    expect(reply.standaloneQuestion).toBe('카카오의 개인정보 보관 기간은?');
+    expect(llmService.generateWithPrompt).not.toHaveBeenCalled();
+    expect(ragService.query).toHaveBeenCalledWith(
+      '카카오의 개인정보 보관 기간은?',
+      { llm: undefined, history: '' },
+    );
+  });
+
+  it('should rewrite follow-up questions and pass the history', async () => {
+    const conversation = await service.createConversation();
+    await service.sendMessage(
+      conversation.id,
+      '카카오의 개인정보 보관 기간은?',
+    );
+
+    const reply = await service.sendMessage(conversation.id, '그럼 토스는?');
+
+    expect(reply.standaloneQuestion).toBe('토스의 개인정보 보관 기간은?');
+    expect(ragService.query).toHaveBeenLastCalledWith(
+      '토스의 개인정보 보관 기간은?',
+      {
+        llm: undefined,
+        history: '사용자: 카카오의 개인정보 보관 기간은?\n어시스턴트: 답변',
+      },
+    );
+
+    const saved = await service.getConversation(conversation.id);
+    expect(saved.messages).toHaveLength(4);
+    expect(saved.messages[2].standaloneQuestion).toBe(
+      '토스의 개인정보 보관 기간은?',
+    );
+  });
+
+  it('should reject unknown conversations', async () => {
+    await expect(service.sendMessage('unknown', '질문')).rejects.toThrow();
+  });
+});
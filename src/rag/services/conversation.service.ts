@@ -0,0 +1,283 @@
+import { Injectable, Logger } from '@nestjs/common';
+import { randomUUID } from 'crypto';
+import * as path from 'path';
+import { Document } from '@langchain/core/documents';
+import {
+  Conversation,
+  ConversationMessage,
+  ConversationStore,
+} from '../conversations/conversation-store';
+import { InMemoryConversationStore } from '../conversations/memory-conversation-store';
+import { FileConversationStore } from '../conversations/file-conversation-store';
+import { LLMOverrides } from '../llm/llm-providers';
+import { Citation } from '../citations/citations';
+import { PromptTemplateRef } from '../prompts/prompt-template';
+import { LLMService } from './llm.service';
+import { RagService } from './rag.service';
+
+/**
+ * 지원하는 대화 세션 저장소 종류
+ */
+export type ConversationStoreType = 'memory' | 'file';
+
+/**
+ * 대화 메시지 처리 결과
+ */
+export interface ConversationReply {
+  /** 세션 ID */
+  conversationId: string;
+  /** 생성된 답변 */
+  answer: string;
+  /** 검색에 사용한 독립 질문 */
+  standaloneQuestion: string;
+  /** 참조된 문서들 */
+  sourceDocuments?: Document[];
+  /** 답변의 인용 표시([1])별 참조 문서 위치 */
+  citations: Citation[];
+  /** 답변 생성에 사용한 프롬프트 템플릿 */
+  prompt?: PromptTemplateRef;
+}
+
+/**
+ * 후속 질문 재작성 프롬프트 템플릿
+ *
+ * 변수: {history}, {question}
+ */
+const CONDENSE_QUESTION_PROMPT = `다음은 사용자와 개인정보 처리방침 상담 어시스턴트의 이전 대화와 사용자의 후속 질문입니다.
+후속 질문을 이전 대화 없이도 이해할 수 있는 하나의 독립적인 질문으로 다시 작성해주세요.
+
+- 후속 질문이 생략한 회사명과 주제를 이전 대화에서 찾아 채워 넣으세요.
+- 후속 질문이 이미 독립적이면 그대로 반환하세요.
+- 질문에 답하지 말고, 다시 작성한 질문 한 문장만 출력하세요.
+
+## 이전 대화
+
+{history}
+
+## 후속 질문
+
+{question}
+
+## 독립 질문`;
+
+/**
+ * 대화 서비스
+ *
+ * 멀티턴 대화 세션을 관리합니다.
+ * - 세션별로 질문/답변 히스토리를 저장
+ * - 후속 질문("그럼 토스는?")을 이전 대화를 반영한 독립 질문으로 재작성한 뒤 검색
+ * - 답변 생성 프롬프트에 이전 대화 포함
+ *
+ * 세션 저장소는 CONVERSATION_STORE 환경 변수로 선택합니다:
+ * - memory (기본값): 프로세스 메모리
+ * - file: 세션별 JSON 파일 (CONVERSATION_STORE_PATH)
+ *
+ * 프롬프트에 포함할 최근 메시지 수는 CONVERSATION_HISTORY_LIMIT로 설정합니다. (기본값 10)
+ */
+@Injectable()
+export class ConversationService {
+  private readonly logger = new Logger(ConversationService.name);
+
+  /** 대화 세션 저장소 */
+  private readonly store: ConversationStore;
+
+  /** 프롬프트에 포함할 최근 메시지 수 */
+  private readonly historyLimit: number;
+
+  constructor(
+    private readonly ragService: RagService,
+    private readonly llmService: LLMService,
+  ) {
+    this.store = this.createConversationStore();
+    this.historyLimit = process.env.CONVERSATION_HISTORY_LIMIT
+      ? parseInt(process.env.CONVERSATION_HISTORY_LIMIT, 10)
+      : 10;
+  }
+
+  /**
+   * 새 대화 세션 생성
+   *
+   * @returns 생성된 세션
+   */
+  async createConversation(): Promise<Conversation> {
+    const now = new Date().toISOString();
+    const conversation: Conversation = {
+      id: randomUUID(),
+      createdAt: now,
+      updatedAt: now,
+      messages: [],
+    };
+
+    await this.store.save(conversation);
+    this.logger.log(`대화 세션 생성: ${conversation.id}`);
+
+    return conversation;
+  }
+
+  /**
+   * 대화 세션 조회
+   *
+   * @param id - 세션 ID
+   * @returns 세션
+   * @throws Error - 세션이 없는 경우
+   */
+  async getConversation(id: string): Promise<Conversation> {
+    const conversation = await this.store.get(id);
+
+    if (!conversation) {
+      throw new Error(`대화 세션을 찾을 수 없습니다: ${id}`);
+    }
+
+    return conversation;
+  }
+
+  /**
+   * 대화 세션 삭제
+   *
+   * @param id - 세션 ID
+   * @returns 삭제 여부
+   */
+  async deleteConversation(id: string): Promise<boolean> {
+    return await this.store.delete(id);
+  }
+
+  /**
+   * 대화 세션에 질문을 보내고 답변 받기
+   *
+   * @param id - 세션 ID
+   * @param question - 사용자의 질문 (후속 질문 가능)
+   * @param llm - 요청별 LLM 설정 (선택)
+   * @returns 답변, 검색에 사용한 독립 질문, 참조 문서, 인용 위치
+   * @throws Error - 세션이 없는 경우
+   *
+   * 처리 과정:
+   * 1. 이전 대화가 있으면 후속 질문을 독립 질문으로 재작성
+   * 2. 독립 질문으로 문서 검색, 이전 대화를 포함하여 답변 생성
+   * 3. 질문과 답변을 세션 히스토리에 저장
+   */
+  async sendMessage(
+    id: string,
+    question: string,
+    llm?: LLMOverrides,
+  ): Promise<ConversationReply> {
+    const conversation = await this.getConversation(id);
+    const history = this.formatHistory(conversation.messages);
+
+    // 1. 후속 질문 재작성
+    const standaloneQuestion = await this.condenseQuestion(
+      history,
+      question,
+      llm,
+    );
+
+    // 2. RAG 파이프라인 실행
+    const result = await this.ragService.query(standaloneQuestion, {
+      llm,
+      history,
+    });
+
+    // 3. 히스토리 저장
+    const now = new Date().toISOString();
+    conversation.messages.push(
+      {
+        role: 'user',
+        content: question,
+        standaloneQuestion:
+          standaloneQuestion !== question ? standaloneQuestion : undefined,
+        createdAt: now,
+      },
+      {
+        role: 'assistant',
+        content: result.answer,
+        prompt: result.prompt,
+        createdAt: now,
+      },
+    );
+    conversation.updatedAt = now;
+    await this.store.save(conversation);
+
+    return {
+      conversationId: conversation.id,
+      answer: result.answer,
+      standaloneQuestion,
+      sourceDocuments: result.sourceDocuments,
+      citations: result.citations,
+      prompt: result.prompt,
+    };
+  }
+
+  /**
+   * 후속 질문을 독립 질문으로 재작성
+   *
+   * @param history - 이전 대화 내용 (formatHistory 결과)
+   * @param question - 사용자의 질문
+   * @param llm - 요청별 LLM 설정 (선택)
+   * @returns 독립 질문 (이전 대화가 없거나 재작성 결과가 비어 있으면 원래 질문)
+   */
+  private async condenseQuestion(
+    history: string,
+    question: string,
+    llm?: LLMOverrides,
+  ): Promise<string> {
+    if (!history) {
+      return question;
+    }
+
+    const rewritten = await this.llmService.generateWithPrompt(
+      CONDENSE_QUESTION_PROMPT,
+      { history, question },
+      llm,
+    );
+
+    const standaloneQuestion = rewritten.trim();
+    if (standaloneQuestion) {
+      this.logger.log(
+        `후속 질문 재작성: "${question}" → "${standaloneQuestion}"`,
+      );
+    }
+
+    return standaloneQuestion || question;
+  }
+
+  /**
+   * 최근 메시지를 프롬프트용 텍스트로 변환
+   *
+   * @param messages - 세션 메시지 (시간순)
+   * @returns "사용자: ...\n어시스턴트: ..." 형식의 텍스트 (메시지가 없으면 빈 문자열)
+   */
+  private formatHistory(messages: ConversationMessage[]): string {
+    return messages
+      .slice(-this.historyLimit)
+      .map(
+        (message) =>
+          `${message.role === 'user' ? '사용자' : '어시스턴트'}: ${message.content}`,
+      )
+      .join('\n');
+  }
+
+  /**
+   * 설정에 맞는 대화 세션 저장소 생성
+   *
+   * @throws Error - 지원하지 않는 CONVERSATION_STORE 값인 경우
+   */
+  private createConversationStore(): ConversationStore {
+    const storeType = (process.env.CONVERSATION_STORE ||
+      'memory') as ConversationStoreType;
+
+    switch (storeType) {
+      case 'memory':
+        return new InMemoryConversationStore();
+
+      case 'file':
+        return new FileConversationStore(
+          process.env.CONVERSATION_STORE_PATH ||
+            path.join(process.cwd(), '.conversations'),
+        );
+
+      default:
+        throw new Error(
+          `지원하지 않는 대화 세션 저장소입니다: ${storeType as string} (memory, file 중 선택)`,
+        );
+    }
+  }
+}
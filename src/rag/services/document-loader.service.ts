@@ -1,7 +1,7 @@
 import { Injectable, Logger } from '@nestjs/common';
 import * as fs from 'fs';
 import * as path from 'path';
-const pdfParse = require('pdf-parse');
+import { PDFParse } from 'pdf-parse';
 
 /**
  * 문서 로더 서비스
@@ -44,9 +44,12 @@ export class DocumentLoaderService {
           metadata = { ...metadata, ...result.metadata };
           break;
 
-        case '.pdf':
-          content = await this.loadPdfFile(filePath);
+        case '.pdf': {
+          const pdf = await this.loadPdfFile(filePath);
+          content = pdf.content;
+          metadata = { ...metadata, pageOffsets: pdf.pageOffsets };
           break;
+        }
 
         case '.txt':
         case '.md':
@@ -116,11 +119,30 @@ export class DocumentLoaderService {
 
   /**
    * PDF 파일 로드
+   * 페이지 텍스트를 빈 줄로 이어 붙이고, 청크의 페이지 번호 계산을 위해
+   * 페이지별 시작 위치(pageOffsets)를 함께 반환
    */
-  private async loadPdfFile(filePath: string): Promise<string> {
+  private async loadPdfFile(filePath: string): Promise<{ content: string; pageOffsets: number[] }> {
     const dataBuffer = fs.readFileSync(filePath);
-    const data = await pdfParse(dataBuffer);
-    return data.text;
+    const parser = new PDFParse({ data: dataBuffer });
+
+    try {
+      const result = await parser.getText();
+      const pageOffsets: number[] = [];
+      let content = '';
+
+      for (const page of result.pages) {
+        if (content) {
+          content += '\n\n';
+        }
+        pageOffsets.push(content.length);
+        content += page.text;
+      }
+
+      return { content, pageOffsets };
+    } finally {
+      await parser.destroy();
+    }
   }
 
   /**
@@ -144,13 +166,30 @@ export class DocumentLoaderService {
     dirPath: string,
     recursive = true,
   ): Promise<Array<{ content: string; metadata: Record<string, any> }>> {
-    const files = this.getAllFiles(dirPath, recursive);
-    this.logger.log(`디렉토리에서 ${files.length}개 파일 발견: ${dirPath}`);
+    const files = this.listFiles(dirPath, recursive);
     
     const results = await this.loadFromFiles(files);
     return results;
   }
 
+  /**
+   * 디렉토리의 모든 파일 경로 조회 (숨김 파일 제외)
+   *
+   * @param dirPath - 디렉토리 경로
+   * @param recursive - 하위 디렉토리 포함 여부
+   * @returns 파일 경로 배열
+   * @throws Error - 디렉토리가 없거나 디렉토리가 아닌 경우
+   */
+  listFiles(dirPath: string, recursive = true): string[] {
+    if (!fs.existsSync(dirPath) || !fs.statSync(dirPath).isDirectory()) {
+      throw new Error(`디렉토리를 찾을 수 없습니다: ${dirPath}`);
+    }
+
+    const files = this.getAllFiles(dirPath, recursive);
+    this.logger.log(`디렉토리에서 ${files.length}개 파일 발견: ${dirPath}`);
+    return files;
+  }
+
   /**
    * 디렉토리의 모든 파일 경로 가져오기
    */
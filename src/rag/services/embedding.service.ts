@@ -1,53 +1,265 @@
-import { Injectable } from '@nestjs/common';
-import { OpenAIEmbeddings } from '@langchain/openai';
+import { Injectable, OnModuleDestroy } from '@nestjs/common';
 import { Embeddings } from '@langchain/core/embeddings';
+import * as path from 'path';
+import {
+  EmbeddingModelInfo,
+  EmbeddingProvider,
+  createEmbeddingProvider,
+} from '../embeddings/embedding-providers';
+import {
+  BatchedEmbeddings,
+  DEFAULT_EMBEDDING_BATCH_OPTIONS,
+  EmbeddingBatchOptions,
+  EmbeddingUsage,
+} from '../embeddings/embedding-batcher';
+import {
+  CachedEmbeddings,
+  EmbeddingCache,
+  EmbeddingCachePruneOptions,
+  EmbeddingCachePruneResult,
+  EmbeddingCacheStats,
+  embeddingCacheModelKey,
+} from '../embeddings/embedding-cache';
+import { TokenCountUtil } from '../utils/token-count.util';
+
+/**
+ * 임베딩 API 사용량과 비용
+ */
+export interface EmbeddingUsageReport extends EmbeddingUsage {
+  /** 1K 토큰당 가격 (USD) */
+  pricePer1kTokens: number;
+  /** 사용한 토큰의 비용 (USD) */
+  cost: number;
+}
 
 /**
  * 임베딩 서비스
- * 
+ *
  * 텍스트를 벡터로 변환하는 임베딩 모델을 관리합니다.
- * OpenAI Embeddings 모델을 사용하여 텍스트를 벡터로 변환합니다.
+ * EMBEDDING_PROVIDER 환경 변수로 임베딩 제공자를 선택합니다:
+ * - openai (기본값): OpenAI Embeddings API
+ * - openai-compatible: OpenAI 호환 API 서버 (EMBEDDING_BASE_URL)
+ * - local: 외부 API 없이 동작하는 해싱 임베딩 (오프라인, 테스트용)
+ *
+ * 문서 임베딩은 (모델, 청크 텍스트 해시)별로 로컬 파일(EMBEDDING_CACHE_PATH)에 캐시하여,
+ * 파일 일부만 바뀌어도 바뀐 청크만 제공자에 요청합니다.
+ * 캐시는 API를 사용하는 제공자에서 기본으로 켜지고, EMBEDDING_CACHE로 켜고 끌 수 있습니다.
+ * (local 제공자는 계산 비용이 작으므로 EMBEDDING_CACHE=true일 때만 사용)
+ *
+ * API를 사용하는 제공자는 캐시에 없는 텍스트를 토큰 수 기준 배치로 나누어
+ * 동시 요청 수를 제한하고, 요청 한도 초과(429)는 지수 백오프로 다시 시도합니다.
+ * (EMBEDDING_BATCH_MAX_TOKENS, EMBEDDING_CONCURRENCY, EMBEDDING_MAX_RETRIES 등)
  */
 @Injectable()
-export class EmbeddingService {
-  /** OpenAI 임베딩 모델 인스턴스 */
-  private embeddings: OpenAIEmbeddings;
+export class EmbeddingService implements OnModuleDestroy {
+  /** 선택된 임베딩 제공자 */
+  private provider: EmbeddingProvider;
+
+  /** 임베딩 캐시 (사용하지 않으면 null) */
+  private readonly cache: EmbeddingCache | null = null;
+
+  /** 배치 처리 임베딩 (local 제공자는 null) */
+  private readonly batched: BatchedEmbeddings | null = null;
 
   constructor() {
-    // OpenAI 임베딩 모델 초기화
-    // 텍스트를 1536차원 벡터로 변환하여 유사도 검색에 사용
-    this.embeddings = new OpenAIEmbeddings({
-      openAIApiKey: process.env.OPENAI_API_KEY,
-    });
+    // 임베딩 제공자 초기화
+    // 벡터 차원 수는 제공자(모델)에 따라 결정됨
+    this.provider = createEmbeddingProvider(
+      process.env.EMBEDDING_PROVIDER || 'openai',
+    );
+
+    // 배치 처리와 재시도 적용 (API를 사용하는 제공자만)
+    if (this.provider.provider !== 'local') {
+      this.batched = new BatchedEmbeddings(
+        this.provider.embeddings,
+        this.getBatchOptions(),
+        (text) => this.countTokens(text),
+      );
+      this.provider = { ...this.provider, embeddings: this.batched };
+    }
+
+    // 임베딩 캐시 적용
+    const cacheSetting = process.env.EMBEDDING_CACHE;
+    if (
+      cacheSetting === 'true' ||
+      (cacheSetting !== 'false' && this.provider.provider !== 'local')
+    ) {
+      this.cache = new EmbeddingCache(
+        process.env.EMBEDDING_CACHE_PATH ||
+          path.join(process.cwd(), '.embedding-cache.jsonl'),
+      );
+      this.provider = {
+        ...this.provider,
+        embeddings: new CachedEmbeddings(
+          this.provider.embeddings,
+          this.cache,
+          embeddingCacheModelKey(this.provider),
+          (text) => this.countTokens(text),
+        ),
+      };
+    }
+  }
+
+  /**
+   * 서버 종료 시 캐시 사용 기록 저장
+   */
+  onModuleDestroy(): void {
+    this.cache?.save();
   }
 
   /**
    * 임베딩 모델 인스턴스 반환
-   * 
+   *
    * @returns Embeddings 인스턴스
    */
   getEmbeddings(): Embeddings {
-    return this.embeddings;
+    return this.provider.embeddings;
+  }
+
+  /**
+   * 임베딩 모델 식별 정보 반환
+   *
+   * @returns 제공자, 모델 이름, 벡터 차원 수
+   */
+  getModelInfo(): EmbeddingModelInfo {
+    const { provider, model, dimensions } = this.provider;
+    return { provider, model, dimensions };
+  }
+
+  /**
+   * 벡터 차원 수 반환
+   *
+   * @returns 선택된 임베딩 모델의 벡터 차원 수
+   */
+  getDimensions(): number {
+    return this.provider.dimensions;
   }
 
   /**
    * 단일 텍스트를 벡터로 변환
-   * 
+   *
    * @param text - 변환할 텍스트
    * @returns 벡터 배열
    */
   async embedQuery(text: string): Promise<number[]> {
-    return await this.embeddings.embedQuery(text);
+    return await this.provider.embeddings.embedQuery(text);
   }
 
   /**
    * 여러 텍스트를 벡터로 변환 (배치 처리)
-   * 
+   *
    * @param texts - 변환할 텍스트 배열
    * @returns 벡터 배열의 배열
    */
   async embedDocuments(texts: string[]): Promise<number[][]> {
-    return await this.embeddings.embedDocuments(texts);
+    return await this.provider.embeddings.embedDocuments(texts);
   }
-}
 
+  /**
+   * 임베딩 캐시 통계 조회
+   *
+   * @returns 항목 수, 적중/미스 수, 적중률 (캐시를 사용하지 않으면 null)
+   */
+  getCacheStats(): EmbeddingCacheStats | null {
+    return this.cache?.getStats() ?? null;
+  }
+
+  /**
+   * 임베딩 캐시 정리
+   *
+   * @param options - 정리 조건 (keepModel을 현재 모델 키로 지정하면 다른 모델의 벡터 삭제)
+   * @returns 삭제한 항목 수와 남은 항목 수
+   * @throws Error - 캐시를 사용하지 않는 경우
+   */
+  pruneCache(options: EmbeddingCachePruneOptions): EmbeddingCachePruneResult {
+    if (!this.cache) {
+      throw new Error(
+        '임베딩 캐시를 사용하지 않습니다. (EMBEDDING_CACHE 설정을 확인하세요)',
+      );
+    }
+    return this.cache.prune(options);
+  }
+
+  /**
+   * 텍스트의 토큰 수 계산
+   *
+   * @param text - 텍스트
+   * @returns 토큰 수 (local 제공자는 토크나이저가 없으므로 추정치)
+   */
+  async countTokens(text: string): Promise<number> {
+    return this.provider.provider === 'local'
+      ? TokenCountUtil.estimateTokens(text)
+      : await TokenCountUtil.countTokens(text);
+  }
+
+  /**
+   * 토큰 수의 임베딩 비용 계산
+   *
+   * @param tokens - 토큰 수
+   * @returns 비용 (USD)
+   */
+  estimateCost(tokens: number): number {
+    return (tokens / 1000) * this.provider.pricePer1kTokens;
+  }
+
+  /**
+   * 임베딩 API 사용량 조회 (프로세스 시작 이후)
+   *
+   * @returns 요청 수, 텍스트 수, 토큰 수, 재시도 횟수, 비용 (local 제공자는 모두 0)
+   */
+  getUsage(): EmbeddingUsageReport {
+    const usage = this.batched?.getUsage() ?? {
+      requests: 0,
+      texts: 0,
+      tokens: 0,
+      retries: 0,
+    };
+
+    return {
+      ...usage,
+      pricePer1kTokens: this.provider.pricePer1kTokens,
+      cost: this.estimateCost(usage.tokens),
+    };
+  }
+
+  /**
+   * 배치 설정 읽기 (환경 변수가 없으면 기본값)
+   *
+   * @throws Error - 설정값이 올바르지 않은 경우
+   */
+  private getBatchOptions(): EmbeddingBatchOptions {
+    const settings: Record<keyof EmbeddingBatchOptions, string> = {
+      maxTokensPerBatch: 'EMBEDDING_BATCH_MAX_TOKENS',
+      maxTextsPerBatch: 'EMBEDDING_BATCH_MAX_TEXTS',
+      concurrency: 'EMBEDDING_CONCURRENCY',
+      maxRetries: 'EMBEDDING_MAX_RETRIES',
+      baseDelayMs: 'EMBEDDING_RETRY_BASE_DELAY_MS',
+      maxDelayMs: 'EMBEDDING_RETRY_MAX_DELAY_MS',
+    };
+
+    const options = { ...DEFAULT_EMBEDDING_BATCH_OPTIONS };
+    for (const [key, name] of Object.entries(settings)) {
+      const value = process.env[name];
+      if (value === undefined || value === '') {
+        continue;
+      }
+
+      const parsed = parseInt(value, 10);
+      const minimum = key === 'maxRetries' || key === 'baseDelayMs' ? 0 : 1;
+      if (!(parsed >= minimum)) {
+        throw new Error(`${name}는 ${minimum} 이상의 정수여야 합니다.`);
+      }
+      options[key as keyof EmbeddingBatchOptions] = parsed;
+    }
+    return options;
+  }
+
+  /**
+   * 캐시에 사용하는 현재 임베딩 모델 키 반환
+   *
+   * @returns 모델 키 (예: openai:text-embedding-ada-002:1536)
+   */
+  getCacheModelKey(): string {
+    return embeddingCacheModelKey(this.provider);
+  }
+}
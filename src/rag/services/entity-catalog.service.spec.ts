@@ -0,0 +1,87 @@
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import { FileLockUtil } from '../utils/file-lock.util';
+import { EntityCatalogService } from './entity-catalog.service';
+
+describe('EntityCatalogService', () => {
+  let tempDir: string;
+  let catalogPath: string;
+
+  const kakao = {
+    company_name: '카카오',
+    company_name_en: 'Kakao',
+    filePath: 'rag-docs/kakao.json',
+  };
+  const naver = {
+    company_name: '네이버',
+    company_name_en: 'Naver',
+    filePath: 'rag-docs/naver.json',
+  };
+
+  beforeEach(() => {
+    tempDir = fs.mkdtempSync(path.join(os.tmpdir(), 'entity-catalog-'));
+    catalogPath = path.join(tempDir, '.entity-catalog.json');
+    process.env.ENTITY_CATALOG_PATH = catalogPath;
+    process.env.ENTITY_ALIASES_PATH = path.join(tempDir, 'entity-aliases.json');
+  });
+
+  afterEach(() => {
+    delete process.env.ENTITY_CATALOG_PATH;
+    delete process.env.ENTITY_ALIASES_PATH;
+    jest.restoreAllMocks();
+    fs.rmSync(tempDir, { recursive: true, force: true });
+  });
+
+  it('should save the catalog once per indexing call', async () => {
+    const write = jest.spyOn(FileLockUtil, 'writeFileAtomic');
+
+    await new EntityCatalogService().registerDocuments([
+      { ...kakao, chunkIndex: 0 },
+      { ...kakao, chunkIndex: 1 },
+      naver,
+      { filePath: 'rag-docs/notes.md' },
+    ]);
+
+    expect(write).toHaveBeenCalledTimes(1);
+    expect(new EntityCatalogService().getEntities()).toEqual([
+      { name: '네이버', nameEn: 'Naver', aliases: [], documentCount: 1 },
+      { name: '카카오', nameEn: 'Kakao', aliases: [], documentCount: 1 },
+    ]);
+    expect(fs.readdirSync(tempDir)).toEqual(['.entity-catalog.json']);
+  });
+
+  it('should merge entities registered by another process', async () => {
+    // 서버와 CLI 스크립트처럼 같은 파일을 쓰는 두 인스턴스
+    const server = new EntityCatalogService();
+    const script = new EntityCatalogService();
+
+    await server.registerDocuments([kakao]);
+    await script.registerDocuments([naver]);
+
+    // 서버는 스크립트가 등록한 엔티티도 감지하고, 다음 저장에서 지우지 않음
+    expect(
+      server.detectEntities('네이버 비밀번호 정책').map((e) => e.name),
+    ).toEqual(['네이버']);
+    await server.removeDocument(kakao.filePath);
+    expect(script.getEntities().map(({ name }) => name)).toEqual(['네이버']);
+  });
+
+  it('should move entities of a renamed file in one save', async () => {
+    const catalog = new EntityCatalogService();
+    await catalog.registerDocuments([kakao]);
+    const write = jest.spyOn(FileLockUtil, 'writeFileAtomic');
+
+    await catalog.registerDocuments(
+      [{ ...kakao, filePath: 'rag-docs/kakao-2024.json' }],
+      [kakao.filePath],
+    );
+
+    expect(write).toHaveBeenCalledTimes(1);
+    expect(
+      JSON.parse(fs.readFileSync(catalogPath, 'utf-8')) as unknown,
+    ).toEqual({
+      카카오: { nameEn: 'Kakao', sources: ['rag-docs/kakao-2024.json'] },
+    });
+  });
+});
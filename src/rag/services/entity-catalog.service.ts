@@ -0,0 +1,279 @@
+import { Injectable, Logger } from '@nestjs/common';
+import * as fs from 'fs';
+import * as path from 'path';
+import {
+  DetectedEntity,
+  EntityInfo,
+  detectEntities,
+} from '../entities/entity-matcher';
+import { FileLockUtil } from '../utils/file-lock.util';
+
+/**
+ * 카탈로그에 저장되는 엔티티 기록
+ */
+interface EntityRecord {
+  /** 영문 이름 (metadata.company_name_en) */
+  nameEn?: string;
+  /** 이 엔티티의 문서 경로 (metadata.filePath 또는 metadata.source) */
+  sources: string[];
+}
+
+/** 카탈로그 파일 잠금 설정 (인덱싱 히스토리와 같은 기본값) */
+const ENTITY_CATALOG_LOCK_OPTIONS = {
+  description: '엔티티 카탈로그',
+  lockTimeoutMs: 10000,
+  staleLockMs: 30000,
+};
+
+/**
+ * 엔티티 카탈로그 서비스
+ *
+ * 인덱싱된 문서의 metadata.company_name / company_name_en으로
+ * 회사(엔티티) 목록을 자동으로 만들고, 질문에서 엔티티를 감지합니다.
+ *
+ * - 카탈로그 파일: .entity-catalog.json (ENTITY_CATALOG_PATH)
+ * - 별칭 설정 파일: entity-aliases.json (ENTITY_ALIASES_PATH)
+ *   형식: { "우아한형제들": ["배민", "배달의민족"], ... }
+ * - 서버와 CLI 스크립트가 함께 기록할 수 있도록 인덱싱 호출마다 한 번,
+ *   잠금 파일({path}.lock)을 만든 뒤 파일을 다시 읽어 변경을 적용하고
+ *   임시 파일에 쓴 뒤 이름을 바꿉니다. 조회할 때 파일이 바뀌었으면 다시 읽습니다.
+ */
+@Injectable()
+export class EntityCatalogService {
+  private readonly logger = new Logger(EntityCatalogService.name);
+  private readonly catalogFilePath: string;
+  private readonly aliasesFilePath: string;
+  private catalog = new Map<string, EntityRecord>();
+  private aliases: Record<string, string[]>;
+
+  /** 마지막으로 읽거나 쓴 카탈로그 파일의 수정 시간과 크기 (다른 프로세스의 변경 확인용) */
+  private loadedVersion: string | null = null;
+
+  constructor() {
+    this.catalogFilePath =
+      process.env.ENTITY_CATALOG_PATH ||
+      path.join(process.cwd(), '.entity-catalog.json');
+    this.aliasesFilePath =
+      process.env.ENTITY_ALIASES_PATH ||
+      path.join(process.cwd(), 'entity-aliases.json');
+
+    this.refresh();
+    this.aliases = this.loadAliases();
+  }
+
+  /**
+   * 인덱싱된 문서들을 카탈로그에 반영 (한 번에 저장)
+   *
+   * @param metadataList - 문서 메타데이터 배열
+   * @param replacedSources - 먼저 제거할 문서 경로 (이름이 바뀐 파일의 이전 경로 등)
+   * @throws Error - 카탈로그 파일을 읽거나 잠금을 얻지 못한 경우
+   *
+   * metadata.company_name이 없는 문서는 무시합니다.
+   */
+  async registerDocuments(
+    metadataList: Record<string, any>[],
+    replacedSources: string[] = [],
+  ): Promise<void> {
+    const documents = metadataList.filter((metadata) => metadata.company_name);
+    if (documents.length === 0 && replacedSources.length === 0) {
+      return;
+    }
+
+    await this.update((catalog) => {
+      let changed = replacedSources
+        .map((source) => this.removeSource(catalog, source))
+        .some(Boolean);
+
+      for (const metadata of documents) {
+        const name = metadata.company_name as string;
+        const source = String(metadata.filePath ?? metadata.source ?? name);
+        const record = catalog.get(name) ?? { sources: [] };
+
+        record.nameEn = (metadata.company_name_en as string) ?? record.nameEn;
+        if (!record.sources.includes(source)) {
+          record.sources.push(source);
+        }
+
+        catalog.set(name, record);
+        changed = true;
+      }
+
+      return changed;
+    });
+  }
+
+  /**
+   * 삭제된 문서를 카탈로그에서 제거
+   *
+   * @param source - 문서 경로
+   * @throws Error - 카탈로그 파일을 읽거나 잠금을 얻지 못한 경우
+   *
+   * 문서가 하나도 남지 않은 엔티티는 카탈로그에서 제거합니다.
+   */
+  async removeDocument(source: string): Promise<void> {
+    await this.update((catalog) => this.removeSource(catalog, source));
+  }
+
+  /**
+   * 카탈로그의 모든 엔티티 반환 (별칭 포함)
+   *
+   * @returns 엔티티 목록 (이름순)
+   */
+  getEntities(): (EntityInfo & { documentCount: number })[] {
+    this.refresh();
+    return [...this.catalog.entries()]
+      .map(([name, record]) => ({
+        name,
+        nameEn: record.nameEn,
+        aliases: this.aliases[name] ?? [],
+        documentCount: record.sources.length,
+      }))
+      .sort((a, b) => a.name.localeCompare(b.name, 'ko'));
+  }
+
+  /**
+   * 질문에서 엔티티 감지
+   *
+   * @param question - 사용자 질문
+   * @returns 감지된 엔티티 (질문에 나온 순서)
+   */
+  detectEntities(question: string): DetectedEntity[] {
+    return detectEntities(question, this.getEntities());
+  }
+
+  /**
+   * 카탈로그 초기화 (모든 엔티티 삭제)
+   */
+  async clearCatalog(): Promise<void> {
+    await this.update((catalog) => {
+      catalog.clear();
+      return true;
+    });
+  }
+
+  /**
+   * 카탈로그에서 문서 경로 제거 (문서가 남지 않은 엔티티도 제거)
+   *
+   * @returns 바뀐 것이 있으면 true
+   */
+  private removeSource(
+    catalog: Map<string, EntityRecord>,
+    source: string,
+  ): boolean {
+    let changed = false;
+
+    for (const [name, record] of catalog) {
+      if (!record.sources.includes(source)) {
+        continue;
+      }
+
+      record.sources = record.sources.filter((item) => item !== source);
+      if (record.sources.length === 0) {
+        catalog.delete(name);
+      }
+      changed = true;
+    }
+
+    return changed;
+  }
+
+  /**
+   * 잠금을 잡고 최신 파일에 변경을 적용한 뒤 저장
+   *
+   * @param change - 카탈로그 변경 (바뀐 것이 있으면 true)
+   */
+  private async update(
+    change: (catalog: Map<string, EntityRecord>) => boolean,
+  ): Promise<void> {
+    await FileLockUtil.withLock(
+      `${this.catalogFilePath}.lock`,
+      ENTITY_CATALOG_LOCK_OPTIONS,
+      () => {
+        // 다른 프로세스가 등록한 엔티티를 덮어쓰지 않도록 파일을 다시 읽은 뒤 변경
+        this.readCatalog();
+        if (!change(this.catalog)) {
+          return;
+        }
+
+        FileLockUtil.writeFileAtomic(
+          this.catalogFilePath,
+          JSON.stringify(Object.fromEntries(this.catalog), null, 2),
+        );
+        this.loadedVersion = this.getFileVersion();
+      },
+    );
+  }
+
+  /**
+   * 카탈로그 파일이 바뀌었으면 다시 로드 (다른 프로세스가 기록한 경우)
+   *
+   * 읽지 못하면 경고를 남기고 가지고 있던 카탈로그를 계속 사용합니다.
+   */
+  private refresh(): void {
+    if (this.getFileVersion() === this.loadedVersion) {
+      return;
+    }
+
+    try {
+      this.readCatalog();
+    } catch (error) {
+      this.logger.warn(
+        `엔티티 카탈로그 로드 실패: ${(error as Error).message}`,
+      );
+    }
+  }
+
+  /**
+   * 카탈로그 파일 읽기
+   *
+   * @throws Error - 파일을 읽을 수 없는 경우
+   */
+  private readCatalog(): void {
+    const version = this.getFileVersion();
+    if (version === null) {
+      this.catalog = new Map();
+      this.loadedVersion = null;
+      return;
+    }
+
+    try {
+      const data = fs.readFileSync(this.catalogFilePath, 'utf-8');
+      this.catalog = new Map(
+        Object.entries(JSON.parse(data) as Record<string, EntityRecord>),
+      );
+    } catch (error) {
+      throw new Error(
+        `엔티티 카탈로그 파일을 읽을 수 없습니다: ${this.catalogFilePath} (${(error as Error).message}) 파일을 삭제한 뒤 다시 인덱싱하세요.`,
+      );
+    }
+    this.loadedVersion = version;
+  }
+
+  /**
+   * 카탈로그 파일의 수정 시간과 크기 (파일이 없으면 null)
+   */
+  private getFileVersion(): string | null {
+    try {
+      const { mtimeMs, size } = fs.statSync(this.catalogFilePath);
+      return `${mtimeMs}:${size}`;
+    } catch {
+      return null;
+    }
+  }
+
+  /**
+   * 별칭 설정 파일 로드
+   */
+  private loadAliases(): Record<string, string[]> {
+    try {
+      if (fs.existsSync(this.aliasesFilePath)) {
+        const data = fs.readFileSync(this.aliasesFilePath, 'utf-8');
+        return JSON.parse(data) as Record<string, string[]>;
+      }
+    } catch (error) {
+      this.logger.warn(`엔티티 별칭 로드 실패: ${error.message}`);
+    }
+
+    return {};
+  }
+}
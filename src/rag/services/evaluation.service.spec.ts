@@ -0,0 +1,122 @@
+import { Test, TestingModule } from '@nestjs/testing';
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import { ChunkingService } from './chunking.service';
+import { DocumentLoaderService } from './document-loader.service';
+import { EmbeddingService } from './embedding.service';
+import { EntityCatalogService } from './entity-catalog.service';
+import { EvaluationService } from './evaluation.service';
+import { IndexingHistoryService } from './indexing-history.service';
+import { KeywordIndexService } from './keyword-index.service';
+import { LLMService } from './llm.service';
+import { PromptRegistryService } from './prompt-registry.service';
+import { QueryExpansionService } from './query-expansion.service';
+import { RagService } from './rag.service';
+import { RerankService } from './rerank.service';
+import { VectorStoreService } from './vector-store.service';
+
+describe('EvaluationService', () => {
+  let service: EvaluationService;
+  let ragService: RagService;
+  let llmService: LLMService;
+  let tempDir: string;
+
+  beforeEach(async () => {
+    tempDir = fs.mkdtempSync(path.join(os.tmpdir(), 'evaluation-'));
+
+    process.env.VECTOR_STORE = 'memory';
+    process.env.EMBEDDING_PROVIDER = 'local';
+    process.env.LLM_PROVIDER = 'fake';
+    process.env.ENTITY_CATALOG_PATH = path.join(tempDir, 'entities.json');
+    process.env.ENTITY_ALIASES_PATH = path.join(tempDir, 'aliases.json');
+    process.env.PROMPTS_DIR = path.join(tempDir, 'prompts');
+
+    const module: TestingModule = await Test.createTestingModule({
+      providers: [
+        EmbeddingService,
+        ChunkingService,
+        VectorStoreService,
+        DocumentLoaderService,
+        LLMService,
+        IndexingHistoryService,
+        EntityCatalogService,
+        KeywordIndexService,
+        RerankService,
+        QueryExpansionService,
+        PromptRegistryService,
+        RagService,
+        EvaluationService,
+      ],
+    }).compile();
+    await module.init();
+
+    service = module.get<EvaluationService>(EvaluationService);
+    ragService = module.get<RagService>(RagService);
+    llmService = module.get<LLMService>(LLMService);
+  });
+
+  afterEach(() => {
+    fs.rmSync(tempDir, { recursive: true, force: true });
+  });
+
+  it('should report retrieval and answer metrics for a golden dataset', async () => {
+    await ragService.addDocuments(
+      [
+        '카카오 비밀번호는 8자 이상이며 영문, 숫자를 조합해야 합니다.',
+        '네이버 비밀번호는 10자 이상이며 90일마다 변경을 권장합니다.',
+      ],
+      [
+        { company_name: '카카오', fileName: 'kakao.json' },
+        { company_name: '네이버', fileName: 'naver.json' },
+      ],
+    );
+    jest
+      .spyOn(llmService, 'generateWithPrompt')
+      .mockImplementation((prompt) =>
+        Promise.resolve(
+          prompt.includes('근거 없는 주장')
+            ? '점수: 8\n근거 없는 주장:\n- 특수문자가 필요합니다.'
+            : '카카오 비밀번호는 8자 이상입니다 [1].',
+        ),
+      );
+
+    const report = await service.evaluate(
+      {
+        name: 'test',
+        questions: [
+          {
+            id: 'kakao-password',
+            question: '카카오 비밀번호 최소 길이는?',
+            expectedCompanies: ['카카오'],
+            expectedKeywords: ['8자', '영문'],
+            expectedSources: ['kakao.json'],
+          },
+        ],
+      },
+      { k: 2 },
+    );
+
+    expect(report.summary).toMatchObject({
+      questions: 1,
+      errors: 0,
+      recallAtK: 1,
+      mrr: 1,
+      hitRate: 1,
+      entityAccuracy: 1,
+      keywordCoverage: 0.5,
+      faithfulness: 0.8,
+    });
+    expect(report.results[0]).toMatchObject({
+      retrievedSources: ['kakao.json'],
+      missingKeywords: ['영문'],
+      unsupportedClaims: ['특수문자가 필요합니다.'],
+      prompt: { name: 'default', version: 1 },
+    });
+
+    const files = service.writeReport(report, tempDir, 'baseline');
+    expect(fs.readFileSync(files.markdownPath, 'utf-8')).toContain(
+      '| kakao-password | answered | 1.000 | 1.000 | O | 0.500 | 0.800 | default v1 |',
+    );
+  });
+});
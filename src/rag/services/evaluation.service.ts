@@ -0,0 +1,297 @@
+import { Injectable, Logger } from '@nestjs/common';
+import * as fs from 'fs';
+import * as path from 'path';
+import { formatContextPassage } from '../citations/citations';
+import {
+  EvalQuestionResult,
+  EvalReport,
+  renderMarkdownReport,
+} from '../evaluation/eval-report';
+import {
+  keywordCoverage,
+  mean,
+  rankSources,
+  recallAtK,
+  reciprocalRank,
+} from '../evaluation/eval-metrics';
+import { FaithfulnessJudge } from '../evaluation/faithfulness-judge';
+import {
+  GoldenDataset,
+  GoldenQuestion,
+  parseGoldenDataset,
+} from '../evaluation/golden-dataset';
+import { LLMService } from './llm.service';
+import { RagService } from './rag.service';
+
+/**
+ * 보고서에 기록할 환경 변수 (실행 간 설정 차이 확인용)
+ */
+const REPORTED_SETTINGS = [
+  'LLM_PROVIDER',
+  'LLM_MODEL',
+  'EMBEDDING_PROVIDER',
+  'EMBEDDING_MODEL',
+  'VECTOR_STORE',
+  'RERANKER',
+  'RERANK_CANDIDATE_K',
+  'MIN_SIMILARITY_SCORE',
+  'QUERY_EXPANSION_COUNT',
+  'QUERY_EXPANSION_HYDE',
+  'CHUNKING_CONFIG_PATH',
+];
+
+/**
+ * 평가 옵션
+ */
+export interface EvaluationOptions {
+  /** 답변 컨텍스트로 사용할 문서 수이자 recall@k의 k (기본값: EVAL_K) */
+  k?: number;
+  /** LLM 충실도 채점 여부 (기본값: EVAL_JUDGE) */
+  judge?: boolean;
+}
+
+/**
+ * 저장된 보고서 파일 경로
+ */
+export interface EvalReportFiles {
+  /** JSON 보고서 */
+  jsonPath: string;
+  /** 마크다운 보고서 */
+  markdownPath: string;
+}
+
+/**
+ * RAG 평가 서비스
+ *
+ * 정답 데이터셋(golden question set)의 질문을 RagService로 질의하여
+ * 청킹, 프롬프트, 검색 설정을 바꾸기 전후의 품질을 비교할 수 있게 합니다.
+ *
+ * - 검색 지표: recall@k, MRR, 적중률 (정답 파일 기준), 회사 감지 정확도
+ * - 답변 지표: 키워드 포함률, LLM 채점 충실도 (답변이 참조 문서에 근거하는지)
+ *
+ * 기본값은 EVAL_K(기본값 4), EVAL_JUDGE(기본값 true)로 설정하고,
+ * 채점 모델은 EVAL_JUDGE_MODEL로 바꿀 수 있습니다. (LLM_ALLOWED_MODELS에 있어야 함)
+ */
+@Injectable()
+export class EvaluationService {
+  private readonly logger = new Logger(EvaluationService.name);
+
+  /** 충실도 채점기 */
+  private readonly judge: FaithfulnessJudge;
+
+  /** 기본 평가 옵션 */
+  private readonly defaults: Required<EvaluationOptions>;
+
+  constructor(
+    private readonly ragService: RagService,
+    llmService: LLMService,
+  ) {
+    this.judge = new FaithfulnessJudge(
+      llmService,
+      process.env.EVAL_JUDGE_MODEL
+        ? { model: process.env.EVAL_JUDGE_MODEL }
+        : undefined,
+    );
+
+    const k = process.env.EVAL_K ? parseInt(process.env.EVAL_K, 10) : 4;
+    if (!(k >= 1)) {
+      throw new Error('EVAL_K는 1 이상의 정수여야 합니다.');
+    }
+
+    this.defaults = {
+      k,
+      judge: process.env.EVAL_JUDGE !== 'false',
+    };
+  }
+
+  /**
+   * 데이터셋 파일 로드
+   *
+   * @param filePath - 데이터셋 JSON 파일 경로
+   * @returns 검증된 데이터셋
+   * @throws Error - 파일이 없거나 형식이 올바르지 않은 경우
+   */
+  loadDataset(filePath: string): GoldenDataset {
+    if (!fs.existsSync(filePath)) {
+      throw new Error(`평가 데이터셋 파일이 없습니다: ${filePath}`);
+    }
+
+    return parseGoldenDataset(JSON.parse(fs.readFileSync(filePath, 'utf-8')));
+  }
+
+  /**
+   * 데이터셋의 모든 질문을 질의하여 평가
+   *
+   * 질문은 순서대로 하나씩 질의합니다. 질의에 실패한 질문은 오류로 기록하고 계속 진행합니다.
+   *
+   * @param dataset - 평가 데이터셋
+   * @param options - 평가 옵션 (선택)
+   * @returns 평가 보고서
+   */
+  async evaluate(
+    dataset: GoldenDataset,
+    options: EvaluationOptions = {},
+  ): Promise<EvalReport> {
+    const k = options.k ?? this.defaults.k;
+    const judge = options.judge ?? this.defaults.judge;
+
+    this.logger.log(
+      `📏 평가 시작: ${dataset.name} (${dataset.questions.length}개 질문, k=${k})`,
+    );
+
+    const results: EvalQuestionResult[] = [];
+    for (const [index, item] of dataset.questions.entries()) {
+      this.logger.log(
+        `[${index + 1}/${dataset.questions.length}] ${item.id}: ${item.question}`,
+      );
+      results.push(await this.evaluateQuestion(item, k, judge));
+    }
+
+    const settings: Record<string, string> = {};
+    for (const key of REPORTED_SETTINGS) {
+      const value = process.env[key];
+      if (value) {
+        settings[key] = value;
+      }
+    }
+
+    return {
+      dataset: dataset.name,
+      generatedAt: new Date().toISOString(),
+      config: { k, judge, settings },
+      summary: {
+        questions: results.length,
+        errors: results.filter((result) => result.error).length,
+        recallAtK: roundScore(mean(results.map((result) => result.recall))),
+        mrr: roundScore(mean(results.map((result) => result.reciprocalRank))),
+        hitRate: roundScore(mean(results.map((result) => toScore(result.hit)))),
+        entityAccuracy: roundScore(
+          mean(results.map((result) => toScore(result.entityMatch))),
+        ),
+        keywordCoverage: roundScore(
+          mean(results.map((result) => result.keywordCoverage)),
+        ),
+        faithfulness: roundScore(
+          mean(results.map((result) => result.faithfulness)),
+        ),
+      },
+      results,
+    };
+  }
+
+  /**
+   * 보고서를 JSON과 마크다운 파일로 저장
+   *
+   * @param report - 평가 보고서
+   * @param outputDir - 저장할 디렉토리
+   * @param label - 파일 이름 (예: baseline → baseline.json, baseline.md)
+   * @returns 저장된 파일 경로
+   */
+  writeReport(
+    report: EvalReport,
+    outputDir: string,
+    label: string,
+  ): EvalReportFiles {
+    fs.mkdirSync(outputDir, { recursive: true });
+
+    const jsonPath = path.join(outputDir, `${label}.json`);
+    const markdownPath = path.join(outputDir, `${label}.md`);
+    fs.writeFileSync(jsonPath, `${JSON.stringify(report, null, 2)}\n`, 'utf-8');
+    fs.writeFileSync(markdownPath, renderMarkdownReport(report), 'utf-8');
+
+    return { jsonPath, markdownPath };
+  }
+
+  /**
+   * 질문 하나 평가
+   */
+  private async evaluateQuestion(
+    item: GoldenQuestion,
+    k: number,
+    judge: boolean,
+  ): Promise<EvalQuestionResult> {
+    try {
+      const result = await this.ragService.query(item.question, {
+        rerank: { finalK: k },
+      });
+      const documents = result.sourceDocuments ?? [];
+      const retrievedSources = rankSources(
+        documents.map((doc) => doc.metadata.fileName as string | undefined),
+      );
+      const recall = recallAtK(retrievedSources, item.expectedSources, k);
+
+      const verdict =
+        judge && result.status === 'answered'
+          ? await this.judge.judge(
+              documents
+                .map((doc, index) => formatContextPassage(doc, index + 1))
+                .join('\n\n'),
+              result.answer,
+            )
+          : { score: null, unsupportedClaims: [] };
+
+      return {
+        id: item.id,
+        question: item.question,
+        status: result.status,
+        entities: result.entities,
+        entityMatch:
+          item.expectedCompanies.length > 0
+            ? item.expectedCompanies.every((company) =>
+                result.entities.includes(company),
+              )
+            : null,
+        retrievedSources,
+        recall: roundScore(recall),
+        reciprocalRank: roundScore(
+          reciprocalRank(retrievedSources.slice(0, k), item.expectedSources),
+        ),
+        hit: recall === null ? null : recall > 0,
+        keywordCoverage: roundScore(
+          keywordCoverage(result.answer, item.expectedKeywords),
+        ),
+        missingKeywords: item.expectedKeywords.filter(
+          (keyword) => keywordCoverage(result.answer, [keyword]) === 0,
+        ),
+        faithfulness: roundScore(verdict.score),
+        unsupportedClaims: verdict.unsupportedClaims,
+        prompt: result.prompt,
+        answer: result.answer,
+      };
+    } catch (error) {
+      this.logger.error(`평가 질의 실패 (${item.id}): ${error.message}`);
+
+      return {
+        id: item.id,
+        question: item.question,
+        status: 'error',
+        entities: [],
+        entityMatch: item.expectedCompanies.length > 0 ? false : null,
+        retrievedSources: [],
+        recall: item.expectedSources.length > 0 ? 0 : null,
+        reciprocalRank: item.expectedSources.length > 0 ? 0 : null,
+        hit: item.expectedSources.length > 0 ? false : null,
+        keywordCoverage: item.expectedKeywords.length > 0 ? 0 : null,
+        missingKeywords: item.expectedKeywords,
+        faithfulness: null,
+        unsupportedClaims: [],
+        answer: '',
+        error: error.message,
+      };
+    }
+  }
+}
+
+/**
+ * 불리언 지표를 점수로 변환 (true: 1, false: 0)
+ */
+function toScore(value: boolean | null): number | null {
+  return value === null ? null : Number(value);
+}
+
+/**
+ * 실행 간 비교하기 쉽도록 소수점 넷째 자리까지 반올림
+ */
+function roundScore(score: number | null): number | null {
+  return score === null ? null : Math.round(score * 10000) / 10000;
+}
@@ -1,25 +1,57 @@
-import { Injectable, Logger } from '@nestjs/common';
+import { Injectable, Logger, OnModuleDestroy } from '@nestjs/common';
 import * as fs from 'fs';
 import * as path from 'path';
+import {
+  FileIndexInfo,
+  IndexingHistoryStore,
+} from '../history/indexing-history-store';
+import { JsonIndexingHistoryStore } from '../history/json-indexing-history-store';
+import { SqliteIndexingHistoryStore } from '../history/sqlite-indexing-history-store';
+import { VectorStoreService } from './vector-store.service';
+
+/**
+ * 인덱싱 히스토리 저장소 종류
+ */
+export type IndexingHistoryStoreType = 'json' | 'sqlite';
 
 /**
  * 인덱싱 히스토리 추적 서비스
  *
  * 어떤 파일이 언제 인덱싱되었는지 추적하여
  * 증분 업데이트를 가능하게 합니다.
+ *
+ * 기록은 현재 벡터 스토어의 컬렉션(VectorStoreService.getCollectionName)별로 저장하므로
+ * 컬렉션을 바꾸면 그 컬렉션의 기록만 사용합니다.
+ *
+ * 히스토리 저장소는 INDEXING_HISTORY_STORE 환경 변수로 선택합니다:
+ * - json (기본값): JSON 파일 (INDEXING_HISTORY_PATH, 기본값 .indexing-history.json)
+ * - sqlite: SQLite 데이터베이스 (INDEXING_HISTORY_PATH, 기본값 .indexing-history.sqlite)
+ *
+ * 다른 인덱서 프로세스가 기록 중이면 INDEXING_HISTORY_LOCK_TIMEOUT_MS까지 기다립니다. (기본값 10000)
  */
 @Injectable()
-export class IndexingHistoryService {
+export class IndexingHistoryService implements OnModuleDestroy {
   private readonly logger = new Logger(IndexingHistoryService.name);
-  private readonly historyFilePath: string;
+  private readonly store: IndexingHistoryStore;
+  private readonly collection: string;
   private history: Map<string, FileIndexInfo>;
 
-  constructor() {
-    // 히스토리 파일 경로
-    this.historyFilePath = path.join(process.cwd(), '.indexing-history.json');
+  constructor(vectorStoreService: VectorStoreService) {
+    this.collection = vectorStoreService.getCollectionName();
+    this.store = this.createHistoryStore();
 
     // 히스토리 로드
-    this.history = this.loadHistory();
+    this.history = this.store.load(this.collection);
+    this.logger.log(
+      `인덱싱 히스토리: ${this.store.location} (${this.collection}, ${this.history.size}개 파일)`,
+    );
+  }
+
+  /**
+   * 서버 종료 시 히스토리 저장소 닫기
+   */
+  onModuleDestroy(): void {
+    this.store.close();
   }
 
   /**
@@ -29,21 +61,22 @@ export class IndexingHistoryService {
    * @param hash - 파일 해시
    * @param modifiedTime - 파일 수정 시간
    * @param chunkCount - 생성된 청크 수
+   * @param chunkingStrategy - 사용한 청킹 전략 (선택)
    */
-  recordIndexing(
+  async recordIndexing(
     filePath: string,
     hash: string,
     modifiedTime: string,
     chunkCount: number,
-  ): void {
-    this.history.set(filePath, {
+    chunkingStrategy?: string,
+  ): Promise<void> {
+    this.history = await this.store.put(this.collection, filePath, {
       hash,
       modifiedTime,
       chunkCount,
+      chunkingStrategy,
       indexedAt: new Date().toISOString(),
     });
-
-    this.saveHistory();
   }
 
   /**
@@ -95,15 +128,17 @@ export class IndexingHistoryService {
    *
    * @param filePath - 파일 경로
    */
-  removeRecord(filePath: string): void {
-    this.history.delete(filePath);
-    this.saveHistory();
+  async removeRecord(filePath: string): Promise<void> {
+    this.history = await this.store.remove(this.collection, filePath);
   }
 
   /**
    * 삭제된 파일 감지
    *
    * 히스토리에는 있지만 실제로는 존재하지 않는 파일 찾기
+   * 상대 경로로 기록된 이전 기록도 삭제 대상으로 반환합니다.
+   * (지금은 절대 경로로 기록하므로 같은 파일이 절대 경로로 다시 인덱싱되고,
+   * 상대 경로로 저장된 청크는 정리됨)
    *
    * @returns 삭제된 파일 경로 배열
    */
@@ -111,7 +146,7 @@ export class IndexingHistoryService {
     const deletedFiles: string[] = [];
 
     for (const filePath of this.history.keys()) {
-      if (!fs.existsSync(filePath)) {
+      if (!path.isAbsolute(filePath) || !fs.existsSync(filePath)) {
         deletedFiles.push(filePath);
       }
     }
@@ -147,58 +182,54 @@ export class IndexingHistoryService {
   }
 
   /**
-   * 히스토리 파일 로드
+   * 히스토리 초기화 (모든 기록 삭제)
    */
-  private loadHistory(): Map<string, FileIndexInfo> {
-    try {
-      if (fs.existsSync(this.historyFilePath)) {
-        const data = fs.readFileSync(this.historyFilePath, 'utf-8');
-        const obj = JSON.parse(data);
-        return new Map(Object.entries(obj));
-      }
-    } catch (error) {
-      this.logger.warn(`히스토리 로드 실패: ${error.message}`);
-    }
-
-    return new Map();
+  async clearHistory(): Promise<void> {
+    await this.store.clear(this.collection);
+    this.history.clear();
+    this.logger.log('인덱싱 히스토리가 초기화되었습니다.');
   }
 
   /**
-   * 히스토리 파일 저장
+   * 설정에 맞는 히스토리 저장소 생성
+   *
+   * @throws Error - 지원하지 않는 INDEXING_HISTORY_STORE 값이거나 저장소를 열 수 없는 경우
    */
-  private saveHistory(): void {
-    try {
-      const obj = Object.fromEntries(this.history);
-      fs.writeFileSync(
-        this.historyFilePath,
-        JSON.stringify(obj, null, 2),
-        'utf-8',
+  private createHistoryStore(): IndexingHistoryStore {
+    const storeType = (process.env.INDEXING_HISTORY_STORE ||
+      'json') as IndexingHistoryStoreType;
+    const lockTimeoutMs = process.env.INDEXING_HISTORY_LOCK_TIMEOUT_MS
+      ? parseInt(process.env.INDEXING_HISTORY_LOCK_TIMEOUT_MS, 10)
+      : 10000;
+    if (!(lockTimeoutMs >= 0)) {
+      throw new Error(
+        'INDEXING_HISTORY_LOCK_TIMEOUT_MS는 0 이상의 정수여야 합니다.',
       );
-    } catch (error) {
-      this.logger.error(`히스토리 저장 실패: ${error.message}`);
     }
-  }
 
-  /**
-   * 히스토리 초기화 (모든 기록 삭제)
-   */
-  clearHistory(): void {
-    this.history.clear();
-    this.saveHistory();
-    this.logger.log('인덱싱 히스토리가 초기화되었습니다.');
+    switch (storeType) {
+      case 'json':
+        return new JsonIndexingHistoryStore(
+          process.env.INDEXING_HISTORY_PATH ||
+            path.join(process.cwd(), '.indexing-history.json'),
+          {
+            legacyCollection: this.collection,
+            lockTimeoutMs,
+            staleLockMs: Math.max(lockTimeoutMs, 30000),
+          },
+        );
+
+      case 'sqlite':
+        return new SqliteIndexingHistoryStore(
+          process.env.INDEXING_HISTORY_PATH ||
+            path.join(process.cwd(), '.indexing-history.sqlite'),
+          lockTimeoutMs,
+        );
+
+      default:
+        throw new Error(
+          `지원하지 않는 인덱싱 히스토리 저장소입니다: ${storeType as string} (json, sqlite 중 선택)`,
+        );
+    }
   }
 }
-
-/**
- * 파일 인덱싱 정보 인터페이스
- */
-interface FileIndexInfo {
-  /** 파일 내용의 MD5 해시 */
-  hash: string;
-  /** 파일 수정 시간 */
-  modifiedTime: string;
-  /** 생성된 청크 수 */
-  chunkCount: number;
-  /** 인덱싱된 시간 */
-  indexedAt: string;
-}
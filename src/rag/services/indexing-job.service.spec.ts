@@ -0,0 +1,222 @@
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import { Test, TestingModule } from '@nestjs/testing';
+import { IndexingJobService } from './indexing-job.service';
+import { RagService } from './rag.service';
+import { EmbeddingService } from './embedding.service';
+import { ChunkingService } from './chunking.service';
+import { VectorStoreService } from './vector-store.service';
+import { DocumentLoaderService } from './document-loader.service';
+import { LLMService } from './llm.service';
+import { IndexingHistoryService } from './indexing-history.service';
+import { EntityCatalogService } from './entity-catalog.service';
+import { KeywordIndexService } from './keyword-index.service';
+import { RerankService } from './rerank.service';
+import { QueryExpansionService } from './query-expansion.service';
+import { PromptRegistryService } from './prompt-registry.service';
+
+describe('IndexingJobService', () => {
+  let service: IndexingJobService;
+  let ragService: RagService;
+  let embeddingService: EmbeddingService;
+  let vectorStoreService: VectorStoreService;
+  let tempDir: string;
+  let docsDir: string;
+
+  beforeEach(async () => {
+    tempDir = fs.mkdtempSync(path.join(os.tmpdir(), 'indexing-job-'));
+    docsDir = path.join(tempDir, 'docs');
+    fs.mkdirSync(docsDir);
+    fs.writeFileSync(
+      path.join(docsDir, 'kakao.txt'),
+      '카카오 비밀번호는 8자 이상이어야 합니다.',
+    );
+    fs.writeFileSync(
+      path.join(docsDir, 'naver.txt'),
+      '네이버 비밀번호는 10자 이상이어야 합니다.',
+    );
+
+    process.env.VECTOR_STORE = 'memory';
+    process.env.EMBEDDING_PROVIDER = 'local';
+    process.env.LLM_PROVIDER = 'fake';
+    process.env.ENTITY_CATALOG_PATH = path.join(tempDir, 'entities.json');
+    process.env.ENTITY_ALIASES_PATH = path.join(tempDir, 'aliases.json');
+    process.env.PROMPTS_DIR = path.join(tempDir, 'prompts');
+    // 인덱싱 히스토리(.indexing-history.json)를 임시 디렉토리에 저장
+    jest.spyOn(process, 'cwd').mockReturnValue(tempDir);
+
+    const module: TestingModule = await Test.createTestingModule({
+      providers: [
+        EmbeddingService,
+        ChunkingService,
+        VectorStoreService,
+        DocumentLoaderService,
+        LLMService,
+        IndexingHistoryService,
+        EntityCatalogService,
+        KeywordIndexService,
+        RerankService,
+        QueryExpansionService,
+        PromptRegistryService,
+        RagService,
+        IndexingJobService,
+      ],
+    }).compile();
+    await module.init();
+
+    service = module.get<IndexingJobService>(IndexingJobService);
+    ragService = module.get<RagService>(RagService);
+    embeddingService = module.get<EmbeddingService>(EmbeddingService);
+    vectorStoreService = module.get<VectorStoreService>(VectorStoreService);
+  });
+
+  afterEach(() => {
+    jest.restoreAllMocks();
+    fs.rmSync(tempDir, { recursive: true, force: true });
+  });
+
+  it('should run a job in the background and track per-file progress', async () => {
+    const job = service.enqueue('full', docsDir);
+    expect(job.state).toBe('running');
+
+    const finished = await service.waitForJob(job.id);
+
+    expect(finished.state).toBe('succeeded');
+    expect(finished.progress).toEqual({
+      totalFiles: 2,
+      processedFiles: 2,
+      failedFiles: 0,
+    });
+    expect(finished.files.map((file) => file.status)).toEqual([
+      'indexed',
+      'indexed',
+    ]);
+    expect(finished.result).toEqual({ filesProcessed: 2 });
+    expect(service.getJobs().map((item) => item.id)).toEqual([job.id]);
+  });
+
+  it('should record failed files and keep indexing the rest', async () => {
+    // 첫 번째 파일(kakao.txt)만 실패
+    jest
+      .spyOn(ragService, 'loadDocumentFromFile')
+      .mockRejectedValueOnce(new Error('읽기 실패'));
+
+    const finished = await service.waitForJob(
+      service.enqueue('full', docsDir).id,
+    );
+
+    expect(finished.state).toBe('failed');
+    expect(finished.progress.processedFiles).toBe(2);
+    expect(finished.progress.failedFiles).toBe(1);
+    expect(finished.errors).toEqual([
+      expect.objectContaining({
+        filePath: path.join(docsDir, 'kakao.txt'),
+        message: '읽기 실패',
+      }),
+    ]);
+    expect(finished.result).toEqual({ filesProcessed: 1 });
+  });
+
+  it('should not count failed deletions as processed files', async () => {
+    await service.waitForJob(service.enqueue('incremental', docsDir).id);
+    fs.rmSync(path.join(docsDir, 'naver.txt'));
+    jest
+      .spyOn(vectorStoreService, 'deleteDocumentsByFilePath')
+      .mockRejectedValueOnce(new Error('삭제 실패'));
+
+    const finished = await service.waitForJob(
+      service.enqueue('incremental', docsDir).id,
+    );
+
+    expect(finished.progress).toEqual({
+      totalFiles: 1,
+      processedFiles: 1,
+      failedFiles: 1,
+    });
+  });
+
+  it('should run one job at a time per collection and cancel queued jobs', async () => {
+    const first = service.enqueue('full', docsDir);
+    const second = service.enqueue('full', docsDir);
+    const third = service.enqueue('full', docsDir);
+
+    expect(first.state).toBe('running');
+    expect(second.state).toBe('queued');
+    expect(third.state).toBe('queued');
+
+    expect(service.cancelJob(second.id).state).toBe('cancelled');
+    expect(() => service.cancelJob(second.id)).toThrow(
+      '이미 종료된 인덱싱 작업은 취소할 수 없습니다',
+    );
+
+    expect((await service.waitForJob(first.id)).state).toBe('succeeded');
+    expect((await service.waitForJob(third.id)).state).toBe('succeeded');
+    expect(third.startedAt! >= first.finishedAt!).toBe(true);
+  });
+
+  it('should stop a running job when cancelled', async () => {
+    const job = service.enqueue('full', docsDir);
+    expect(service.cancelJob(job.id).cancelRequested).toBe(true);
+
+    const finished = await service.waitForJob(job.id);
+
+    expect(finished.state).toBe('cancelled');
+    expect(finished.progress.processedFiles).toBeLessThan(2);
+  });
+
+  it('should sync changed files and reuse embeddings for renamed files', async () => {
+    const kakaoPath = path.join(docsDir, 'kakao.txt');
+    const renamedPath = path.join(docsDir, 'kakao-policy.txt');
+
+    const indexed = await service.waitForJob(
+      service.enqueue('watch', docsDir, true, [kakaoPath]).id,
+    );
+    expect(indexed.result).toMatchObject({ added: 1, renamed: 0 });
+
+    fs.renameSync(kakaoPath, renamedPath);
+    const embedDocuments = jest.spyOn(
+      embeddingService.getEmbeddings(),
+      'embedDocuments',
+    );
+
+    const renamed = await service.waitForJob(
+      service.enqueue('watch', docsDir, true, [kakaoPath, renamedPath]).id,
+    );
+
+    expect(renamed.state).toBe('succeeded');
+    expect(renamed.result).toEqual({
+      added: 0,
+      updated: 0,
+      renamed: 1,
+      deleted: 0,
+      skipped: 0,
+      skippedTokens: 0,
+      total: 1,
+    });
+    expect(renamed.files).toEqual([
+      { filePath: renamedPath, status: 'renamed' },
+    ]);
+    expect(embedDocuments).not.toHaveBeenCalled();
+
+    const results = await ragService.similaritySearch('카카오 비밀번호', 4);
+    expect(results.map((doc) => doc.metadata.filePath as string)).toEqual([
+      renamedPath,
+    ]);
+
+    fs.rmSync(renamedPath);
+    const removed = await service.waitForJob(
+      service.enqueue('watch', docsDir, true, [renamedPath]).id,
+    );
+    expect(removed.result).toMatchObject({ deleted: 1, total: 0 });
+  });
+
+  it('should reject missing directories and unknown jobs', () => {
+    expect(() =>
+      service.enqueue('incremental', path.join(tempDir, 'missing')),
+    ).toThrow('디렉토리를 찾을 수 없습니다');
+    expect(() => service.getJob('unknown')).toThrow(
+      '인덱싱 작업을 찾을 수 없습니다: unknown',
+    );
+  });
+});
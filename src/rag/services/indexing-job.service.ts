@@ -0,0 +1,359 @@
+import { Injectable, Logger, OnModuleDestroy } from '@nestjs/common';
+import { randomUUID } from 'crypto';
+import * as fs from 'fs';
+import {
+  IndexingJob,
+  IndexingJobFile,
+  IndexingJobKind,
+  IndexingObserver,
+} from '../jobs/indexing-job';
+import { RagService } from './rag.service';
+import { VectorStoreService } from './vector-store.service';
+
+/** 보관할 종료된 작업 수 (넘으면 오래된 작업부터 삭제) */
+const MAX_FINISHED_JOBS = 100;
+
+/**
+ * 인덱싱 작업 서비스
+ *
+ * 디렉토리 인덱싱을 HTTP 요청과 분리하여 백그라운드에서 실행합니다.
+ * 요청은 작업 ID를 바로 반환하고, 진행 상황은 작업 ID로 조회합니다.
+ *
+ * - 같은 컬렉션의 작업은 한 번에 하나씩 등록 순서대로 실행합니다. (나머지는 queued)
+ * - 파일별 처리 상태와 오류를 기록하며, 파일 하나가 실패해도 나머지 파일은 계속 처리합니다.
+ * - 실행 중인 작업을 취소하면 처리 중인 파일까지만 처리하고 멈춥니다.
+ *
+ * 작업 기록은 메모리에만 보관하므로 서버를 다시 시작하면 사라집니다.
+ */
+@Injectable()
+export class IndexingJobService implements OnModuleDestroy {
+  private readonly logger = new Logger(IndexingJobService.name);
+
+  /** 작업 (등록 순서) */
+  private readonly jobs = new Map<string, IndexingJob>();
+
+  /** 컬렉션별 대기 중인 작업 ID */
+  private readonly queues = new Map<string, string[]>();
+
+  /** 컬렉션별 실행 중인 작업 ID */
+  private readonly running = new Map<string, string>();
+
+  /** 실행 중인 작업의 취소 컨트롤러 */
+  private readonly abortControllers = new Map<string, AbortController>();
+
+  /** 작업별 종료 대기자 */
+  private readonly completions = new Map<string, Promise<IndexingJob>>();
+  private readonly resolvers = new Map<string, (job: IndexingJob) => void>();
+
+  constructor(
+    private readonly ragService: RagService,
+    private readonly vectorStoreService: VectorStoreService,
+  ) {}
+
+  /**
+   * 서버 종료 시 실행 중인 작업 취소
+   */
+  onModuleDestroy(): void {
+    for (const controller of this.abortControllers.values()) {
+      controller.abort();
+    }
+  }
+
+  /**
+   * 인덱싱 작업 등록
+   *
+   * @param kind - 작업 종류 (full: 전체 인덱싱, incremental: 증분 인덱싱, watch: 변경 파일 동기화)
+   * @param dirPath - 인덱싱할 디렉토리
+   * @param recursive - 하위 디렉토리 포함 여부 (기본값: true)
+   * @param changedPaths - 동기화할 파일 경로 (watch에서만 사용)
+   * @returns 등록된 작업 (같은 컬렉션의 작업이 없으면 바로 실행)
+   * @throws Error - 디렉토리가 없는 경우
+   *
+   * 같은 디렉토리의 watch 작업이 아직 대기 중이면 새 작업 대신 그 작업에 경로를 합칩니다.
+   */
+  enqueue(
+    kind: IndexingJobKind,
+    dirPath: string,
+    recursive = true,
+    changedPaths?: string[],
+  ): IndexingJob {
+    if (
+      typeof dirPath !== 'string' ||
+      !fs.existsSync(dirPath) ||
+      !fs.statSync(dirPath).isDirectory()
+    ) {
+      throw new Error(`디렉토리를 찾을 수 없습니다: ${dirPath}`);
+    }
+
+    const collection = this.vectorStoreService.getCollectionName();
+
+    if (kind === 'watch') {
+      const pending = (this.queues.get(collection) ?? [])
+        .map((jobId) => this.getJob(jobId))
+        .find((item) => item.kind === 'watch' && item.dirPath === dirPath);
+      if (pending) {
+        pending.changedPaths = [
+          ...new Set([
+            ...(pending.changedPaths ?? []),
+            ...(changedPaths ?? []),
+          ]),
+        ];
+        return pending;
+      }
+    }
+
+    const job: IndexingJob = {
+      id: randomUUID(),
+      kind,
+      collection,
+      dirPath,
+      ...(kind === 'watch' && { changedPaths: changedPaths ?? [dirPath] }),
+      recursive,
+      state: 'queued',
+      cancelRequested: false,
+      createdAt: new Date().toISOString(),
+      progress: { totalFiles: 0, processedFiles: 0, failedFiles: 0 },
+      files: [],
+      errors: [],
+    };
+
+    this.jobs.set(job.id, job);
+    this.completions.set(
+      job.id,
+      new Promise((resolve) => this.resolvers.set(job.id, resolve)),
+    );
+    this.queues.set(collection, [
+      ...(this.queues.get(collection) ?? []),
+      job.id,
+    ]);
+    this.logger.log(`📥 인덱싱 작업 등록: ${job.id} (${kind}, ${dirPath})`);
+
+    this.runNext(collection);
+    return job;
+  }
+
+  /**
+   * 작업 조회
+   *
+   * @param id - 작업 ID
+   * @returns 작업
+   * @throws Error - 작업이 없는 경우
+   */
+  getJob(id: string): IndexingJob {
+    const job = this.jobs.get(id);
+    if (!job) {
+      throw new Error(`인덱싱 작업을 찾을 수 없습니다: ${id}`);
+    }
+    return job;
+  }
+
+  /**
+   * 작업 목록 조회
+   *
+   * @returns 작업 목록 (최근에 등록한 순서)
+   */
+  getJobs(): IndexingJob[] {
+    return [...this.jobs.values()].reverse();
+  }
+
+  /**
+   * 작업 취소
+   *
+   * 대기 중인 작업은 바로 cancelled가 되고,
+   * 실행 중인 작업은 처리 중인 파일이 끝나면 cancelled가 됩니다.
+   *
+   * @param id - 작업 ID
+   * @returns 작업
+   * @throws Error - 작업이 없거나 이미 종료된 경우
+   */
+  cancelJob(id: string): IndexingJob {
+    const job = this.getJob(id);
+
+    if (job.state === 'queued') {
+      this.queues.set(
+        job.collection,
+        (this.queues.get(job.collection) ?? []).filter((jobId) => jobId !== id),
+      );
+      job.cancelRequested = true;
+      this.finish(job, 'cancelled');
+      return job;
+    }
+
+    if (job.state === 'running') {
+      job.cancelRequested = true;
+      this.abortControllers.get(id)?.abort();
+      this.logger.log(`⏹️  인덱싱 작업 취소 요청: ${id}`);
+      return job;
+    }
+
+    throw new Error(
+      `이미 종료된 인덱싱 작업은 취소할 수 없습니다: ${id} (${job.state})`,
+    );
+  }
+
+  /**
+   * 작업이 끝날 때까지 대기
+   *
+   * @param id - 작업 ID
+   * @returns 종료된 작업
+   * @throws Error - 작업이 없는 경우
+   */
+  async waitForJob(id: string): Promise<IndexingJob> {
+    this.getJob(id);
+    return (await this.completions.get(id)) ?? this.getJob(id);
+  }
+
+  /**
+   * 컬렉션에 실행 중인 작업이 없으면 다음 대기 작업 실행
+   */
+  private runNext(collection: string): void {
+    if (this.running.has(collection)) {
+      return;
+    }
+
+    const [jobId, ...rest] = this.queues.get(collection) ?? [];
+    if (!jobId) {
+      return;
+    }
+    this.queues.set(collection, rest);
+    this.running.set(collection, jobId);
+
+    void this.run(this.getJob(jobId)).finally(() => {
+      this.running.delete(collection);
+      this.runNext(collection);
+    });
+  }
+
+  /**
+   * 작업 실행
+   */
+  private async run(job: IndexingJob): Promise<void> {
+    const controller = new AbortController();
+    this.abortControllers.set(job.id, controller);
+
+    job.state = 'running';
+    job.startedAt = new Date().toISOString();
+    this.logger.log(`▶️  인덱싱 작업 시작: ${job.id}`);
+
+    const findFile = (filePath: string): IndexingJobFile => {
+      let file = job.files.find((item) => item.filePath === filePath);
+      if (!file) {
+        file = { filePath, status: 'pending' };
+        job.files.push(file);
+      }
+      return file;
+    };
+
+    const observer: IndexingObserver = {
+      signal: controller.signal,
+      onFilesFound: (filePaths) => {
+        job.files = filePaths.map((filePath) => ({
+          filePath,
+          status: 'pending',
+        }));
+        job.progress.totalFiles = filePaths.length;
+      },
+      onFileStarted: (filePath) => {
+        findFile(filePath).status = 'running';
+        job.progress.currentFile = filePath;
+      },
+      onFileCompleted: (filePath, outcome) => {
+        findFile(filePath).status = outcome;
+        // 삭제된 파일은 totalFiles에 없으므로 진행률에 세지 않음
+        if (outcome !== 'deleted') {
+          job.progress.processedFiles++;
+        }
+        job.progress.currentFile = undefined;
+      },
+      onFileFailed: (filePath, error) => {
+        // 삭제 실패(발견한 파일 목록에 없는 파일)도 진행률에 세지 않음
+        const found = job.files.some((file) => file.filePath === filePath);
+        const file = findFile(filePath);
+        file.status = 'failed';
+        file.error = error.message;
+        if (found) {
+          job.progress.processedFiles++;
+        }
+        job.progress.failedFiles++;
+        job.progress.currentFile = undefined;
+        job.errors.push({
+          filePath,
+          message: error.message,
+          occurredAt: new Date().toISOString(),
+        });
+      },
+    };
+
+    try {
+      if (job.kind === 'full') {
+        const filesProcessed = await this.ragService.loadDocumentsFromDirectory(
+          job.dirPath,
+          job.recursive,
+          observer,
+        );
+        job.result = { filesProcessed };
+      } else if (job.kind === 'watch') {
+        job.result = {
+          ...(await this.ragService.syncChangedFiles(
+            job.changedPaths ?? [job.dirPath],
+            observer,
+          )),
+        };
+      } else {
+        job.result = {
+          ...(await this.ragService.incrementalIndexDirectory(
+            job.dirPath,
+            job.recursive,
+            observer,
+          )),
+        };
+      }
+
+      if (controller.signal.aborted) {
+        this.finish(job, 'cancelled');
+      } else {
+        this.finish(job, job.errors.length > 0 ? 'failed' : 'succeeded');
+      }
+    } catch (error) {
+      this.logger.error(`❌ 인덱싱 작업 실패: ${job.id}`, error.stack);
+      job.errors.push({
+        message: error.message,
+        occurredAt: new Date().toISOString(),
+      });
+      this.finish(job, 'failed');
+    } finally {
+      this.abortControllers.delete(job.id);
+    }
+  }
+
+  /**
+   * 작업 종료 처리
+   */
+  private finish(
+    job: IndexingJob,
+    state: 'succeeded' | 'failed' | 'cancelled',
+  ): void {
+    job.state = state;
+    job.finishedAt = new Date().toISOString();
+    job.progress.currentFile = undefined;
+    this.logger.log(`⏹️  인덱싱 작업 종료: ${job.id} (${state})`);
+
+    this.resolvers.get(job.id)?.(job);
+    this.resolvers.delete(job.id);
+    this.completions.delete(job.id);
+    this.pruneFinishedJobs();
+  }
+
+  /**
+   * 오래된 종료된 작업 삭제
+   */
+  private pruneFinishedJobs(): void {
+    const finished = [...this.jobs.values()].filter((job) => job.finishedAt);
+    for (const job of finished.slice(
+      0,
+      Math.max(finished.length - MAX_FINISHED_JOBS, 0),
+    )) {
+      this.jobs.delete(job.id);
+    }
+  }
+}
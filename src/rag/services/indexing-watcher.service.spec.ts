@@ -0,0 +1,109 @@
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import { Test, TestingModule } from '@nestjs/testing';
+import { IndexingWatcherService } from './indexing-watcher.service';
+import { IndexingJobService } from './indexing-job.service';
+
+describe('IndexingWatcherService', () => {
+  let tempDir: string;
+  let enqueue: jest.Mock;
+  let module: TestingModule;
+
+  /** 감시 서비스 생성 (환경 변수를 설정한 뒤 호출) */
+  const createService = async (): Promise<IndexingWatcherService> => {
+    module = await Test.createTestingModule({
+      providers: [
+        IndexingWatcherService,
+        { provide: IndexingJobService, useValue: { enqueue } },
+      ],
+    }).compile();
+    await module.init();
+
+    return module.get<IndexingWatcherService>(IndexingWatcherService);
+  };
+
+  /** 조건을 만족할 때까지 대기 (최대 3초) */
+  const waitFor = async (condition: () => boolean): Promise<void> => {
+    for (let i = 0; i < 60 && !condition(); i++) {
+      await new Promise((resolve) => setTimeout(resolve, 50));
+    }
+  };
+
+  beforeEach(() => {
+    tempDir = fs.mkdtempSync(path.join(os.tmpdir(), 'indexing-watcher-'));
+    let nextId = 0;
+    enqueue = jest.fn(() => ({ id: `job-${++nextId}` }));
+
+    process.env.INDEX_WATCH = 'true';
+    process.env.INDEX_WATCH_DIRS = tempDir;
+    process.env.INDEX_WATCH_DEBOUNCE_MS = '100';
+  });
+
+  afterEach(async () => {
+    await module?.close();
+    delete process.env.INDEX_WATCH;
+    delete process.env.INDEX_WATCH_DIRS;
+    delete process.env.INDEX_WATCH_DEBOUNCE_MS;
+    fs.rmSync(tempDir, { recursive: true, force: true });
+  });
+
+  it('should do nothing unless enabled', async () => {
+    delete process.env.INDEX_WATCH;
+    const service = await createService();
+
+    expect(enqueue).not.toHaveBeenCalled();
+    expect(service.getStatus()).toEqual({
+      enabled: false,
+      debounceMs: 100,
+      directories: [{ dirPath: tempDir, watching: false, pendingChanges: 0 }],
+    });
+  });
+
+  it('should catch up on start and debounce bursts of changes into one job', async () => {
+    const service = await createService();
+
+    expect(enqueue).toHaveBeenCalledWith('incremental', tempDir);
+    expect(service.getStatus().directories[0]).toMatchObject({
+      watching: true,
+      lastJobId: 'job-1',
+    });
+
+    fs.writeFileSync(path.join(tempDir, 'kakao.txt'), '카카오');
+    fs.writeFileSync(path.join(tempDir, 'naver.txt'), '네이버');
+    fs.writeFileSync(path.join(tempDir, '.kakao.txt.swp'), '');
+
+    await waitFor(() => enqueue.mock.calls.length > 1);
+
+    expect(enqueue).toHaveBeenCalledTimes(2);
+    const [kind, dirPath, recursive, changedPaths] = enqueue.mock.calls[1] as [
+      string,
+      string,
+      boolean,
+      string[],
+    ];
+    expect([kind, dirPath, recursive]).toEqual(['watch', tempDir, true]);
+    expect([...changedPaths].sort()).toEqual([
+      path.join(tempDir, 'kakao.txt'),
+      path.join(tempDir, 'naver.txt'),
+    ]);
+    expect(service.getStatus().directories[0]).toMatchObject({
+      pendingChanges: 0,
+      lastJobId: 'job-2',
+    });
+  });
+
+  it('should report directories that cannot be watched', async () => {
+    process.env.INDEX_WATCH_DIRS = path.join(tempDir, 'missing');
+    enqueue.mockImplementation(() => {
+      throw new Error('디렉토리를 찾을 수 없습니다');
+    });
+
+    const service = await createService();
+
+    expect(service.getStatus().directories[0]).toMatchObject({
+      watching: false,
+      error: '디렉토리를 찾을 수 없습니다',
+    });
+  });
+});
@@ -0,0 +1,242 @@
+import {
+  Injectable,
+  Logger,
+  OnModuleDestroy,
+  OnModuleInit,
+} from '@nestjs/common';
+import * as fs from 'fs';
+import * as path from 'path';
+import { IndexingJobService } from './indexing-job.service';
+
+/**
+ * 감시 중인 디렉토리 상태
+ */
+export interface WatchedDirectoryStatus {
+  /** 디렉토리 경로 */
+  dirPath: string;
+  /** 감시 중인지 여부 (디렉토리가 없거나 감시에 실패하면 false) */
+  watching: boolean;
+  /** 디바운스 대기 중인 변경 경로 수 */
+  pendingChanges: number;
+  /** 마지막으로 변경을 감지한 시간 (ISO 8601) */
+  lastChangeAt?: string;
+  /** 마지막으로 등록한 인덱싱 작업 ID (GET /rag/jobs/:id로 조회) */
+  lastJobId?: string;
+  /** 감시 또는 작업 등록 오류 */
+  error?: string;
+}
+
+/**
+ * 감시 모드 상태
+ */
+export interface IndexingWatchStatus {
+  /** 감시 모드 사용 여부 (INDEX_WATCH) */
+  enabled: boolean;
+  /** 디바운스 시간 (밀리초) */
+  debounceMs: number;
+  /** 디렉토리별 상태 */
+  directories: WatchedDirectoryStatus[];
+}
+
+/**
+ * 인덱싱 감시 서비스
+ *
+ * INDEX_WATCH=true이면 INDEX_WATCH_DIRS의 디렉토리를 감시하다가
+ * 파일이 추가/변경/삭제되면 변경된 경로만 인덱싱 작업(watch)으로 등록합니다.
+ *
+ * - 저장 한 번에 이벤트가 여러 번 오거나 파일 여러 개가 한꺼번에 바뀌어도
+ *   마지막 변경 후 INDEX_WATCH_DEBOUNCE_MS 동안 조용하면 한 작업으로 묶어서 처리합니다.
+ * - 파일 처리는 증분 인덱싱과 같은 해시 비교(IndexingHistoryService)를 사용하므로
+ *   내용이 같으면 스킵하고, 이름만 바뀐 파일은 기존 임베딩을 재사용합니다.
+ * - 서버가 꺼져 있는 동안의 변경은 시작할 때 증분 인덱싱 작업으로 따라잡습니다.
+ */
+@Injectable()
+export class IndexingWatcherService implements OnModuleInit, OnModuleDestroy {
+  private readonly logger = new Logger(IndexingWatcherService.name);
+
+  /** 감시 모드 사용 여부 */
+  private readonly enabled: boolean;
+
+  /** 감시할 디렉토리 */
+  private readonly dirPaths: string[];
+
+  /** 디바운스 시간 (밀리초) */
+  private readonly debounceMs: number;
+
+  /** 디렉토리별 파일 감시자 */
+  private readonly watchers = new Map<string, fs.FSWatcher>();
+
+  /** 디렉토리별 디바운스 대기 중인 변경 경로 */
+  private readonly pending = new Map<string, Set<string>>();
+
+  /** 디렉토리별 디바운스 타이머 */
+  private readonly timers = new Map<string, NodeJS.Timeout>();
+
+  /** 디렉토리별 상태 */
+  private readonly statuses = new Map<string, WatchedDirectoryStatus>();
+
+  constructor(private readonly indexingJobService: IndexingJobService) {
+    this.enabled = process.env.INDEX_WATCH === 'true';
+    this.dirPaths = (process.env.INDEX_WATCH_DIRS || 'rag-docs')
+      .split(',')
+      .map((dirPath) => dirPath.trim())
+      .filter((dirPath) => dirPath.length > 0)
+      // 변경 경로도 절대 경로가 되도록 (CLI 인덱싱과 같은 파일 경로 키 사용)
+      .map((dirPath) => path.resolve(dirPath));
+    this.debounceMs = process.env.INDEX_WATCH_DEBOUNCE_MS
+      ? parseInt(process.env.INDEX_WATCH_DEBOUNCE_MS, 10)
+      : 1000;
+    if (!(this.debounceMs >= 0)) {
+      throw new Error('INDEX_WATCH_DEBOUNCE_MS는 0 이상의 정수여야 합니다.');
+    }
+  }
+
+  /**
+   * 모듈 초기화 시 감시 시작 (INDEX_WATCH=true인 경우)
+   */
+  onModuleInit(): void {
+    if (!this.enabled) {
+      return;
+    }
+
+    for (const dirPath of this.dirPaths) {
+      this.watch(dirPath);
+    }
+  }
+
+  /**
+   * 서버 종료 시 감시 중지
+   */
+  onModuleDestroy(): void {
+    for (const timer of this.timers.values()) {
+      clearTimeout(timer);
+    }
+    this.timers.clear();
+
+    for (const watcher of this.watchers.values()) {
+      watcher.close();
+    }
+    this.watchers.clear();
+  }
+
+  /**
+   * 감시 모드 상태 조회
+   *
+   * @returns 사용 여부, 디바운스 시간, 디렉토리별 상태
+   */
+  getStatus(): IndexingWatchStatus {
+    return {
+      enabled: this.enabled,
+      debounceMs: this.debounceMs,
+      directories: this.dirPaths.map((dirPath) => ({
+        ...(this.statuses.get(dirPath) ?? { dirPath, watching: false }),
+        pendingChanges: this.pending.get(dirPath)?.size ?? 0,
+      })),
+    };
+  }
+
+  /**
+   * 디렉토리 감시 시작
+   *
+   * 시작하기 전의 변경을 반영하도록 증분 인덱싱 작업을 먼저 등록합니다.
+   */
+  private watch(dirPath: string): void {
+    const status: WatchedDirectoryStatus = {
+      dirPath,
+      watching: false,
+      pendingChanges: 0,
+    };
+    this.statuses.set(dirPath, status);
+
+    try {
+      status.lastJobId = this.indexingJobService.enqueue(
+        'incremental',
+        dirPath,
+      ).id;
+
+      const watcher = fs.watch(
+        dirPath,
+        { recursive: true },
+        (_event, fileName) => {
+          if (fileName) {
+            this.onChange(dirPath, path.join(dirPath, fileName.toString()));
+          }
+        },
+      );
+      watcher.on('error', (error) => {
+        this.logger.error(`❌ 감시 오류: ${dirPath}`, error.stack);
+        status.watching = false;
+        status.error = error.message;
+        this.watchers.delete(dirPath);
+      });
+
+      this.watchers.set(dirPath, watcher);
+      status.watching = true;
+      this.logger.log(
+        `👀 감시 시작: ${dirPath} (디바운스 ${this.debounceMs}ms)`,
+      );
+    } catch (error) {
+      this.logger.error(`❌ 감시 시작 실패: ${dirPath}`, error.stack);
+      status.error = error.message;
+    }
+  }
+
+  /**
+   * 변경 감지 (디바운스)
+   *
+   * 마지막 변경 후 debounceMs가 지나면 모아 둔 경로로 작업을 등록합니다.
+   */
+  private onChange(dirPath: string, changedPath: string): void {
+    // 숨김 파일(.indexing-history.json, 편집기 스왑 파일 등)과 백업 파일 무시
+    const fileName = path.basename(changedPath);
+    if (fileName.startsWith('.') || fileName.endsWith('~')) {
+      return;
+    }
+
+    const changes = this.pending.get(dirPath) ?? new Set<string>();
+    changes.add(changedPath);
+    this.pending.set(dirPath, changes);
+
+    const status = this.statuses.get(dirPath);
+    if (status) {
+      status.lastChangeAt = new Date().toISOString();
+    }
+
+    clearTimeout(this.timers.get(dirPath));
+    this.timers.set(
+      dirPath,
+      setTimeout(() => this.flush(dirPath), this.debounceMs),
+    );
+  }
+
+  /**
+   * 모아 둔 변경 경로로 인덱싱 작업 등록
+   */
+  private flush(dirPath: string): void {
+    this.timers.delete(dirPath);
+    const changes = this.pending.get(dirPath);
+    this.pending.delete(dirPath);
+    if (!changes || changes.size === 0) {
+      return;
+    }
+
+    const status = this.statuses.get(dirPath);
+    try {
+      const job = this.indexingJobService.enqueue('watch', dirPath, true, [
+        ...changes,
+      ]);
+      this.logger.log(
+        `📝 변경 감지: ${dirPath} (${changes.size}개 경로, 작업 ${job.id})`,
+      );
+      if (status) {
+        status.lastJobId = job.id;
+        status.error = undefined;
+      }
+    } catch (error) {
+      this.logger.error(`❌ 작업 등록 실패: ${dirPath}`, error.stack);
+      if (status) {
+        status.error = error.message;
+      }
+    }
+  }
+}
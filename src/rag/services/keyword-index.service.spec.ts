@@ -0,0 +1,83 @@
+import { Document } from '@langchain/core/documents';
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import { KeywordIndexService } from './keyword-index.service';
+import { VectorStoreService } from './vector-store.service';
+
+describe('KeywordIndexService', () => {
+  let tempDir: string;
+  let indexPath: string;
+
+  /** 컬렉션을 지정한 키워드 인덱스 생성 */
+  const createService = (collection: string) =>
+    new KeywordIndexService({
+      getVectorStoreType: () => 'qdrant',
+      getCollectionName: () => collection,
+    } as unknown as VectorStoreService);
+
+  const kakao = new Document({
+    pageContent: '카카오 비밀번호는 8자 이상입니다.',
+    metadata: { filePath: 'rag-docs/kakao.json' },
+  });
+  const naver = new Document({
+    pageContent: '네이버 비밀번호는 10자 이상입니다.',
+    metadata: { filePath: 'rag-docs/naver.json' },
+  });
+
+  beforeEach(() => {
+    tempDir = fs.mkdtempSync(path.join(os.tmpdir(), 'keyword-index-'));
+    indexPath = path.join(tempDir, '.bm25-index.json');
+    process.env.BM25_INDEX_PATH = indexPath;
+  });
+
+  afterEach(() => {
+    delete process.env.BM25_INDEX_PATH;
+    fs.rmSync(tempDir, { recursive: true, force: true });
+  });
+
+  it('should only search chunks of the current collection', async () => {
+    await createService('qdrant:kakao').addDocuments(['kakao-0'], [kakao]);
+    await createService('qdrant:naver').addDocuments(['naver-0'], [naver]);
+
+    const kakaoIndex = createService('qdrant:kakao');
+    expect(kakaoIndex.getDocumentCount()).toBe(1);
+    expect(kakaoIndex.search('비밀번호', 4)).toEqual([kakao]);
+    expect(createService('qdrant:naver').search('비밀번호', 4)).toEqual([
+      naver,
+    ]);
+    expect(fs.readdirSync(tempDir)).toEqual(['.bm25-index.json']);
+  });
+
+  it('should move entries of an old index file into the current collection', async () => {
+    fs.writeFileSync(
+      indexPath,
+      JSON.stringify([{ id: 'kakao-0', ...kakao }]),
+      'utf-8',
+    );
+
+    await createService('qdrant:rag-documents').addDocuments(
+      ['naver-0'],
+      [naver],
+    );
+
+    expect(createService('qdrant:rag-documents').getDocumentCount()).toBe(2);
+    expect(createService('qdrant:other').getDocumentCount()).toBe(0);
+  });
+
+  it('should merge chunks written by another process', async () => {
+    // 서버와 CLI 스크립트처럼 같은 파일을 쓰는 두 인스턴스
+    const server = createService('qdrant:rag-documents');
+    const script = createService('qdrant:rag-documents');
+
+    await server.addDocuments(['kakao-0'], [kakao]);
+    await script.addDocuments(['naver-0'], [naver]);
+
+    // 서버는 스크립트가 추가한 청크도 검색하고, 다음 저장에서 지우지 않음
+    expect(server.search('네이버', 4)).toEqual([naver]);
+    await server.deleteDocumentsByFilePath('rag-docs/kakao.json');
+    expect(script.search('비밀번호', 4)).toEqual([naver]);
+    expect(createService('qdrant:rag-documents').getDocumentCount()).toBe(1);
+    expect(fs.readdirSync(tempDir)).toEqual(['.bm25-index.json']);
+  });
+});
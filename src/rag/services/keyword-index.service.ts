@@ -0,0 +1,216 @@
+import { Injectable, Logger } from '@nestjs/common';
+import { Document } from '@langchain/core/documents';
+import * as fs from 'fs';
+import * as path from 'path';
+import { Bm25Index, Bm25IndexEntry } from '../retrieval/bm25-index';
+import { MetadataFilter } from '../stores/metadata-filter';
+import { FileLockUtil } from '../utils/file-lock.util';
+import { VectorStoreService } from './vector-store.service';
+
+/**
+ * 키워드 인덱스 파일
+ *
+ * 처음에는 현재 컬렉션의 항목 배열만 저장했습니다. (버전 필드 없음)
+ */
+interface KeywordIndexFile {
+  /** 파일 형식 버전 */
+  version: 2;
+  /** 컬렉션별 항목 */
+  collections: Record<string, Bm25IndexEntry[]>;
+}
+
+/** 인덱스 파일 잠금 설정 (인덱싱 히스토리와 같은 기본값) */
+const KEYWORD_INDEX_LOCK_OPTIONS = {
+  description: '키워드 인덱스',
+  lockTimeoutMs: 10000,
+  staleLockMs: 30000,
+};
+
+/**
+ * 키워드 인덱스 서비스
+ *
+ * 벡터 스토어와 함께 유지되는 BM25 키워드 인덱스를 관리합니다.
+ * 문서를 인덱싱할 때 같은 청크(같은 포인트 ID)를 추가하고, 파일이 삭제되면 함께 제거합니다.
+ *
+ * - 인덱스 파일: .bm25-index.json (BM25_INDEX_PATH)
+ * - 벡터 스토어의 컬렉션(VectorStoreService.getCollectionName)별로 저장하므로
+ *   컬렉션을 바꾸면 그 컬렉션에 저장된 청크만 검색합니다.
+ * - 서버와 CLI 스크립트(pnpm index-incremental)가 함께 기록할 수 있도록
+ *   변경할 때마다 잠금 파일({path}.lock)을 만든 뒤 파일을 다시 읽어 변경을 적용하고,
+ *   검색할 때 파일이 바뀌었으면 다시 읽습니다.
+ * - 임시 파일에 쓴 뒤 이름을 바꾸므로(rename) 쓰는 도중 종료되어도 파일이 깨지지 않습니다.
+ * - 벡터 스토어가 memory이면 파일로 저장하지 않습니다. (벡터 스토어와 수명을 맞춤)
+ * - 이 기능 이전에 인덱싱한 문서는 POST /rag/index-directory로 다시 인덱싱해야 키워드 검색에 포함됩니다.
+ */
+@Injectable()
+export class KeywordIndexService {
+  private readonly logger = new Logger(KeywordIndexService.name);
+  private readonly indexFilePath: string | null;
+  private readonly collection: string;
+  private index = new Bm25Index();
+
+  /** 다른 컬렉션의 항목 (저장할 때 그대로 유지) */
+  private otherCollections: Record<string, Bm25IndexEntry[]> = {};
+
+  /** 마지막으로 읽거나 쓴 인덱스 파일의 수정 시간과 크기 (다른 프로세스의 변경 확인용) */
+  private loadedVersion: string | null = null;
+
+  constructor(vectorStoreService: VectorStoreService) {
+    this.collection = vectorStoreService.getCollectionName();
+    this.indexFilePath =
+      vectorStoreService.getVectorStoreType() === 'memory'
+        ? null
+        : process.env.BM25_INDEX_PATH ||
+          path.join(process.cwd(), '.bm25-index.json');
+
+    this.refresh();
+  }
+
+  /**
+   * 청크를 키워드 인덱스에 추가
+   *
+   * @param ids - 청크 ID (벡터 스토어 포인트 ID)
+   * @param documents - 청크 배열 (ids와 같은 순서)
+   * @throws Error - 인덱스 파일을 읽거나 잠금을 얻지 못한 경우
+   */
+  async addDocuments(ids: string[], documents: Document[]): Promise<void> {
+    await this.update((index) => {
+      documents.forEach((document, i) => index.add(ids[i], document));
+      return documents.length > 0;
+    });
+  }
+
+  /**
+   * 파일 경로로 청크 삭제
+   *
+   * @param filePath - 원본 파일 경로
+   * @throws Error - 인덱스 파일을 읽거나 잠금을 얻지 못한 경우
+   */
+  async deleteDocumentsByFilePath(filePath: string): Promise<void> {
+    await this.update((index) => index.removeByFilePath(filePath) > 0);
+  }
+
+  /**
+   * BM25 키워드 검색
+   *
+   * @param query - 검색어
+   * @param k - 반환할 청크 개수
+   * @param filter - 메타데이터 필터 (선택)
+   * @returns BM25 점수순 청크 배열
+   */
+  search(query: string, k: number, filter?: MetadataFilter): Document[] {
+    this.refresh();
+    return this.index.search(query, k, filter).map(([document]) => document);
+  }
+
+  /**
+   * 키워드 인덱스에 등록된 청크 수
+   */
+  getDocumentCount(): number {
+    this.refresh();
+    return this.index.size;
+  }
+
+  /**
+   * 잠금을 잡고 최신 파일에 변경을 적용한 뒤 저장
+   *
+   * @param change - 인덱스 변경 (바뀐 것이 있으면 true)
+   */
+  private async update(change: (index: Bm25Index) => boolean): Promise<void> {
+    const indexFilePath = this.indexFilePath;
+    if (!indexFilePath) {
+      change(this.index);
+      return;
+    }
+
+    await FileLockUtil.withLock(
+      `${indexFilePath}.lock`,
+      KEYWORD_INDEX_LOCK_OPTIONS,
+      () => {
+        // 다른 프로세스가 추가한 청크를 덮어쓰지 않도록 파일을 다시 읽은 뒤 변경
+        this.readIndex(indexFilePath);
+        if (!change(this.index)) {
+          return;
+        }
+
+        const data: KeywordIndexFile = {
+          version: 2,
+          collections: {
+            ...this.otherCollections,
+            [this.collection]: this.index.toEntries(),
+          },
+        };
+        FileLockUtil.writeFileAtomic(indexFilePath, JSON.stringify(data));
+        this.loadedVersion = this.getFileVersion(indexFilePath);
+      },
+    );
+  }
+
+  /**
+   * 인덱스 파일이 바뀌었으면 다시 로드 (다른 프로세스가 기록한 경우)
+   *
+   * 읽지 못하면 경고를 남기고 가지고 있던 인덱스를 계속 사용합니다.
+   */
+  private refresh(): void {
+    if (
+      !this.indexFilePath ||
+      this.getFileVersion(this.indexFilePath) === this.loadedVersion
+    ) {
+      return;
+    }
+
+    try {
+      this.readIndex(this.indexFilePath);
+    } catch (error) {
+      this.logger.warn(`키워드 인덱스 로드 실패: ${(error as Error).message}`);
+    }
+  }
+
+  /**
+   * 인덱스 파일 읽기 (현재 컬렉션의 항목)
+   *
+   * 컬렉션 구분이 없던 이전 파일의 항목은 현재 컬렉션의 항목으로 봅니다.
+   *
+   * @throws Error - 파일을 읽을 수 없는 경우
+   */
+  private readIndex(indexFilePath: string): void {
+    const version = this.getFileVersion(indexFilePath);
+    if (version === null) {
+      this.index = new Bm25Index();
+      this.otherCollections = {};
+      this.loadedVersion = null;
+      return;
+    }
+
+    let data: KeywordIndexFile | Bm25IndexEntry[];
+    try {
+      data = JSON.parse(fs.readFileSync(indexFilePath, 'utf-8')) as
+        | KeywordIndexFile
+        | Bm25IndexEntry[];
+    } catch (error) {
+      throw new Error(
+        `키워드 인덱스 파일을 읽을 수 없습니다: ${indexFilePath} (${(error as Error).message}) 파일을 삭제한 뒤 다시 인덱싱하세요.`,
+      );
+    }
+    const collections = Array.isArray(data)
+      ? { [this.collection]: data }
+      : data.collections;
+
+    const { [this.collection]: entries = [], ...others } = collections;
+    this.index = Bm25Index.fromEntries(entries);
+    this.otherCollections = others;
+    this.loadedVersion = version;
+  }
+
+  /**
+   * 인덱스 파일의 수정 시간과 크기 (파일이 없으면 null)
+   */
+  private getFileVersion(indexFilePath: string): string | null {
+    try {
+      const { mtimeMs, size } = fs.statSync(indexFilePath);
+      return `${mtimeMs}:${size}`;
+    } catch {
+      return null;
+    }
+  }
+}
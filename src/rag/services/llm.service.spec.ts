@@ -0,0 +1,91 @@
+import { LLMService } from './llm.service';
+
+describe('LLMService', () => {
+  const originalEnv = process.env;
+
+  beforeEach(() => {
+    process.env = {
+      ...originalEnv,
+      LLM_PROVIDER: 'fake',
+      LLM_MODEL: 'default-model',
+      LLM_ALLOWED_MODELS: 'allowed-model',
+      LLM_MAX_OVERRIDE_TEMPERATURE: '1',
+    };
+  });
+
+  afterAll(() => {
+    process.env = originalEnv;
+  });
+
+  it('should generate a deterministic answer with the fake provider', async () => {
+    const service = new LLMService();
+
+    const first = await service.generateAnswer('컨텍스트', '질문');
+    const second = await service.generateAnswer('컨텍스트', '질문');
+
+    expect(first).toBe(second);
+  });
+
+  it('should stream the same answer as generateAnswer', async () => {
+    const service = new LLMService();
+
+    let streamed = '';
+    for await (const chunk of service.streamAnswer('컨텍스트', '질문')) {
+      streamed += chunk.text;
+    }
+
+    expect(streamed).toBe(await service.generateAnswer('컨텍스트', '질문'));
+  });
+
+  it('should allow overrides within the allowlist', () => {
+    const service = new LLMService();
+
+    expect(() =>
+      service.getModel({ model: 'allowed-model', temperature: 0.5 }),
+    ).not.toThrow();
+  });
+
+  it('should reject models outside the allowlist', () => {
+    const service = new LLMService();
+
+    expect(() => service.getModel({ model: 'other-model' })).toThrow();
+  });
+
+  it('should reject temperatures above the configured maximum', () => {
+    const service = new LLMService();
+
+    expect(() => service.getModel({ temperature: 1.5 })).toThrow();
+  });
+
+  it('should reject temperatures that are not finite numbers', () => {
+    const service = new LLMService();
+
+    expect(() => service.getModel({ temperature: NaN })).toThrow(
+      'temperature는 0 ~ 1 범위여야 합니다.',
+    );
+  });
+
+  it('should ask the model to repair an invalid structured answer', async () => {
+    const service = new LLMService();
+    const generate = jest
+      .spyOn(service, 'generateWithPrompt')
+      .mockResolvedValueOnce('카카오는 5년간 보관합니다 [1].')
+      .mockResolvedValueOnce(
+        '```json\n{"answerFound": true, "mainPoints": [{"title": "보관 기간", "content": "5년", "citations": [1]}]}\n```',
+      );
+
+    const answer = await service.generateStructuredAnswer('컨텍스트', '질문');
+
+    expect(answer.answerFound).toBe(true);
+    expect(answer.mainPoints[0].citations).toEqual([1]);
+    expect(generate).toHaveBeenCalledTimes(2);
+  });
+
+  it('should fail when the structured answer stays invalid after retries', async () => {
+    const service = new LLMService();
+
+    await expect(
+      service.generateStructuredAnswer('컨텍스트', '질문'),
+    ).rejects.toThrow('구조화된 답변 형식이 올바르지 않습니다');
+  });
+});
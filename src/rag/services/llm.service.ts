@@ -1,41 +1,74 @@
-import { Injectable } from '@nestjs/common';
-import { ChatOpenAI } from '@langchain/openai';
+import { Injectable, Logger } from '@nestjs/common';
+import { BaseChatModel } from '@langchain/core/language_models/chat_models';
 import { PromptTemplate } from '@langchain/core/prompts';
 import { RunnableSequence } from '@langchain/core/runnables';
-import { StringOutputParser } from '@langchain/core/output_parsers';
+import {
+  JsonOutputParser,
+  StringOutputParser,
+} from '@langchain/core/output_parsers';
+import {
+  LLMModelOptions,
+  LLMOverrides,
+  createChatModel,
+} from '../llm/llm-providers';
+import {
+  GeneratedStructuredAnswer,
+  STRUCTURED_ANSWER_PROMPT_TEMPLATE,
+  STRUCTURED_ANSWER_REPAIR_PROMPT,
+  validateStructuredAnswer,
+} from '../llm/structured-answer';
 
 /**
- * LLM 서비스
+ * 스트리밍 답변 조각
+ */
+export interface LLMStreamChunk {
+  /** 새로 생성된 텍스트 (delta) */
+  text: string;
+  /** 토큰 사용량 (제공자가 알려주는 경우 마지막 조각에 포함) */
+  usage?: LLMTokenUsage;
+}
+
+/**
+ * LLM 토큰 사용량
+ */
+export interface LLMTokenUsage {
+  /** 입력(프롬프트) 토큰 수 */
+  inputTokens: number;
+  /** 출력(답변) 토큰 수 */
+  outputTokens: number;
+  /** 전체 토큰 수 */
+  totalTokens: number;
+}
+
+/**
+ * 답변 방식
  *
- * 대규모 언어 모델(LLM)을 사용한 텍스트 생성 기능을 제공합니다.
- * OpenAI GPT 모델을 사용하여 컨텍스트 기반 답변을 생성합니다.
+ * - standard: 일반 질의응답
+ * - comparison: 여러 회사 비교 (비교 항목별 표)
  */
-@Injectable()
-export class LLMService {
-  /** LLM 모델 인스턴스 */
-  private llm: ChatOpenAI;
+export type AnswerMode = 'standard' | 'comparison';
 
-  constructor() {
-    // LLM 초기화
-    // temperature: 0으로 설정하여 일관된 답변 생성
-    this.llm = new ChatOpenAI({
-      modelName: 'gpt-3.5-turbo',
-      temperature: 0,
-      openAIApiKey: process.env.OPENAI_API_KEY,
-    });
-  }
+/**
+ * 답변 생성 옵션
+ */
+export interface GenerateAnswerOptions {
+  /** 요청별 모델 설정 */
+  llm?: LLMOverrides;
+  /** 이전 대화 내용 (멀티턴 대화용) */
+  history?: string;
+  /** 답변 방식 (기본값: standard) */
+  mode?: AnswerMode;
+  /** 프롬프트 텍스트 (PromptRegistryService에서 고른 템플릿, 기본값: 답변 방식별 내장 템플릿) */
+  prompt?: string;
+}
 
-  /**
-   * 컨텍스트와 질문을 기반으로 답변 생성
-   *
-   * @param context - 컨텍스트 텍스트
-   * @param question - 질문 텍스트
-   * @returns 생성된 답변
-   */
-  async generateAnswer(context: string, question: string): Promise<string> {
-    // 프롬프트 템플릿 설정
-    const promptTemplate = PromptTemplate.fromTemplate(
-      `당신은 개인정보 관리 정책 전문가입니다. 주어진 컨텍스트를 기반으로 질문에 체계적이고 구조화된 답변을 제공해주세요.
+/**
+ * 답변 생성 프롬프트 템플릿
+ *
+ * 변수: {context}, {history}, {question}
+ * 컨텍스트의 각 문서에는 [1] 형식의 번호가 붙어 있습니다.
+ */
+const ANSWER_PROMPT_TEMPLATE = `당신은 개인정보 관리 정책 전문가입니다. 주어진 컨텍스트를 기반으로 질문에 체계적이고 구조화된 답변을 제공해주세요.
 
 ## 답변 가이드라인
 
@@ -44,6 +77,8 @@ export class LLMService {
 3. **완성도**: 가능한 모든 관련 정보를 포함하세요.
 4. **형식**: 마크다운 형식을 사용하여 가독성을 높이세요.
 5. **정보 없음 처리**: 컨텍스트에 답이 없으면 "해당 정보는 제공된 문서에서 찾을 수 없습니다"라고 명확히 밝히세요.
+6. **대화 맥락**: 이전 대화가 있으면 질문이 가리키는 회사와 주제를 이전 대화에서 이어받으세요.
+7. **출처 표시**: 컨텍스트의 각 문서에는 [1] 형식의 번호가 붙어 있습니다. 문장이나 항목 끝에 근거가 된 문서 번호를 [1] 또는 [1, 2] 형식으로 표시하세요.
 
 ## 답변 구조 (해당되는 경우)
 
@@ -69,6 +104,12 @@ export class LLMService {
 
 ---
 
+## 이전 대화
+
+{history}
+
+---
+
 ## 사용자 질문
 
 {question}
@@ -77,21 +118,245 @@ export class LLMService {
 
 ## 답변
 
-질문에 대한 답변을 체계적으로 작성해주세요:`,
+질문에 대한 답변을 체계적으로 작성해주세요:`;
+
+/**
+ * 회사 비교 답변 프롬프트 템플릿
+ *
+ * 변수: {context}, {history}, {question}
+ * 컨텍스트는 회사별로 묶여 있고, 각 문서에 [1] 형식의 번호가 붙어 있습니다.
+ */
+const COMPARISON_PROMPT_TEMPLATE = `당신은 개인정보 관리 정책 전문가입니다. 주어진 컨텍스트를 기반으로 여러 회사의 개인정보 처리방침을 나란히 비교해주세요.
+
+## 답변 가이드라인
+
+1. **정확성**: 컨텍스트에 있는 정보만 사용하세요. 추측하지 마세요.
+2. **비교 표**: 비교 항목(예: 비밀번호 정책, 보관 기간)마다 마크다운 표를 하나씩 작성하세요. 행은 세부 항목, 열은 회사입니다.
+3. **출처 표시**: 표의 각 칸 끝에 근거가 된 문서 번호를 [1] 형식으로 표시하세요.
+4. **정보 없음 처리**: 컨텍스트에서 찾을 수 없는 칸은 "문서에 없음"으로 표시하세요.
+5. **요약**: 표 아래에 회사 간 주요 차이점을 2~3줄로 요약하세요.
+
+---
+
+## 제공된 컨텍스트 (회사별)
+
+{context}
+
+---
+
+## 이전 대화
+
+{history}
+
+---
+
+## 비교 질문
+
+{question}
+
+---
+
+## 답변
+
+비교 항목별 표로 답변을 작성해주세요:`;
+
+/**
+ * 답변 방식별 내장 프롬프트 템플릿
+ */
+export const ANSWER_PROMPT_TEMPLATES: Record<AnswerMode, string> = {
+  standard: ANSWER_PROMPT_TEMPLATE,
+  comparison: COMPARISON_PROMPT_TEMPLATE,
+};
+
+/** 이전 대화가 없을 때 프롬프트에 넣는 문구 */
+const NO_HISTORY = '(이전 대화 없음)';
+
+/**
+ * LLM 서비스
+ *
+ * 대규모 언어 모델(LLM)을 사용한 텍스트 생성 기능을 제공합니다.
+ * LLM_PROVIDER 환경 변수로 LLM 제공자를 선택합니다:
+ * - openai (기본값): OpenAI Chat Completions API
+ * - openai-compatible: OpenAI 호환 API 서버 (Ollama, llama.cpp 등, LLM_BASE_URL)
+ * - fake: 결정적 가짜 LLM (테스트용)
+ *
+ * 모델 이름, temperature, 최대 토큰 수는 LLM_MODEL, LLM_TEMPERATURE, LLM_MAX_TOKENS로 설정합니다.
+ */
+@Injectable()
+export class LLMService {
+  private readonly logger = new Logger(LLMService.name);
+
+  /** 기본 LLM 모델 인스턴스 */
+  private llm: BaseChatModel;
+
+  /** LLM 제공자 이름 */
+  private readonly providerName: string;
+
+  /** 기본 모델 설정 */
+  private readonly defaultOptions: LLMModelOptions;
+
+  /** 요청별로 선택할 수 있는 모델 목록 (LLM_ALLOWED_MODELS) */
+  private readonly allowedModels: string[];
+
+  /** 요청별로 지정할 수 있는 최대 temperature (LLM_MAX_OVERRIDE_TEMPERATURE) */
+  private readonly maxOverrideTemperature?: number;
+
+  /** 요청별 설정으로 생성한 모델 캐시 */
+  private readonly modelCache = new Map<string, BaseChatModel>();
+
+  /** 구조화된 답변의 형식이 올바르지 않을 때 고쳐 달라고 다시 요청하는 최대 횟수 */
+  private readonly structuredAnswerMaxRetries = process.env
+    .STRUCTURED_ANSWER_MAX_RETRIES
+    ? parseInt(process.env.STRUCTURED_ANSWER_MAX_RETRIES, 10)
+    : 1;
+
+  constructor() {
+    this.providerName = process.env.LLM_PROVIDER || 'openai';
+    this.defaultOptions = {
+      model: process.env.LLM_MODEL || 'gpt-3.5-turbo',
+      // 기본값 0으로 설정하여 일관된 답변 생성
+      temperature: process.env.LLM_TEMPERATURE
+        ? parseFloat(process.env.LLM_TEMPERATURE)
+        : 0,
+      maxTokens: process.env.LLM_MAX_TOKENS
+        ? parseInt(process.env.LLM_MAX_TOKENS, 10)
+        : undefined,
+      baseURL: process.env.LLM_BASE_URL,
+      apiKey: process.env.LLM_API_KEY || process.env.OPENAI_API_KEY,
+    };
+    this.allowedModels = (process.env.LLM_ALLOWED_MODELS || '')
+      .split(',')
+      .map((model) => model.trim())
+      .filter((model) => model.length > 0);
+    this.maxOverrideTemperature = process.env.LLM_MAX_OVERRIDE_TEMPERATURE
+      ? parseFloat(process.env.LLM_MAX_OVERRIDE_TEMPERATURE)
+      : undefined;
+
+    // LLM 초기화
+    this.llm = createChatModel(this.providerName, this.defaultOptions);
+  }
+
+  /**
+   * 컨텍스트와 질문을 기반으로 답변 생성
+   *
+   * @param context - 컨텍스트 텍스트
+   * @param question - 질문 텍스트
+   * @param options - 요청별 모델 설정, 이전 대화, 답변 방식 (선택)
+   * @returns 생성된 답변
+   */
+  async generateAnswer(
+    context: string,
+    question: string,
+    options: GenerateAnswerOptions = {},
+  ): Promise<string> {
+    // 답변 방식에 맞는 프롬프트로 답변 생성
+    return await this.generateWithPrompt(
+      options.prompt ?? ANSWER_PROMPT_TEMPLATES[options.mode ?? 'standard'],
+      {
+        context,
+        history: options.history || NO_HISTORY,
+        question,
+      },
+      options.llm,
+    );
+  }
+
+  /**
+   * 컨텍스트와 질문을 기반으로 답변을 스트리밍 생성
+   *
+   * @param context - 컨텍스트 텍스트
+   * @param question - 질문 텍스트
+   * @param options - 요청별 모델 설정, 이전 대화, 답변 방식 (선택)
+   * @returns 답변 조각을 순서대로 내보내는 비동기 제너레이터
+   *
+   * generateAnswer와 같은 프롬프트를 사용하되, 체인의 .stream()으로
+   * 토큰이 생성되는 대로 전달합니다.
+   * 소비자가 중간에 순회를 멈추면 LLM 스트림도 함께 종료됩니다.
+   */
+  async *streamAnswer(
+    context: string,
+    question: string,
+    options: GenerateAnswerOptions = {},
+  ): AsyncGenerator<LLMStreamChunk> {
+    const promptTemplate = PromptTemplate.fromTemplate(
+      options.prompt ?? ANSWER_PROMPT_TEMPLATES[options.mode ?? 'standard'],
     );
 
-    // LangChain 체인 생성 및 실행
+    // 토큰 사용량(usage_metadata)을 받기 위해 메시지 조각을 그대로 스트리밍
     const chain = RunnableSequence.from([
       promptTemplate,
-      this.llm,
-      new StringOutputParser(),
+      this.getModel(options.llm),
     ]);
 
-    // 체인 실행하여 답변 생성
-    return await chain.invoke({
+    const stream = await chain.stream({
       context,
+      history: options.history || NO_HISTORY,
       question,
     });
+
+    for await (const chunk of stream) {
+      const usage = chunk.usage_metadata;
+      yield {
+        text: chunk.text,
+        usage: usage
+          ? {
+              inputTokens: usage.input_tokens,
+              outputTokens: usage.output_tokens,
+              totalTokens: usage.total_tokens,
+            }
+          : undefined,
+      };
+    }
+  }
+
+  /**
+   * 컨텍스트와 질문을 기반으로 구조화된(JSON) 답변 생성
+   *
+   * @param context - 컨텍스트 텍스트
+   * @param question - 질문 텍스트
+   * @param options - 요청별 모델 설정, 이전 대화, 프롬프트 텍스트 (선택)
+   * @returns 검증된 구조화된 답변 (인용 위치 제외)
+   * @throws Error - 다시 요청해도 형식이 올바르지 않은 경우
+   *
+   * JsonOutputParser로 코드 블록이나 잘린 JSON도 최대한 파싱한 뒤 형식을 검증하고,
+   * 실패하면 오류 내용과 함께 고쳐 달라고 STRUCTURED_ANSWER_MAX_RETRIES번(기본값 1)까지 다시 요청합니다.
+   */
+  async generateStructuredAnswer(
+    context: string,
+    question: string,
+    options: Omit<GenerateAnswerOptions, 'mode'> = {},
+  ): Promise<GeneratedStructuredAnswer> {
+    const parser = new JsonOutputParser();
+    let output = await this.generateWithPrompt(
+      options.prompt ?? STRUCTURED_ANSWER_PROMPT_TEMPLATE,
+      {
+        context,
+        history: options.history || NO_HISTORY,
+        question,
+      },
+      options.llm,
+    );
+
+    for (let attempt = 0; ; attempt++) {
+      try {
+        return validateStructuredAnswer(await parser.parse(output));
+      } catch (error) {
+        if (attempt >= this.structuredAnswerMaxRetries) {
+          throw new Error(
+            `구조화된 답변 형식이 올바르지 않습니다: ${error.message}`,
+          );
+        }
+
+        this.logger.warn(
+          `구조화된 답변 형식 오류, 다시 요청합니다 (${attempt + 1}/${this.structuredAnswerMaxRetries}): ${error.message}`,
+        );
+        output = await this.generateWithPrompt(
+          STRUCTURED_ANSWER_REPAIR_PROMPT,
+          { error: error.message, output },
+          options.llm,
+        );
+      }
+    }
   }
 
   /**
@@ -99,28 +364,108 @@ export class LLMService {
    *
    * @param prompt - 프롬프트 텍스트
    * @param variables - 프롬프트 변수 객체
+   * @param overrides - 요청별 모델 설정 (선택)
    * @returns 생성된 답변
    */
   async generateWithPrompt(
     prompt: string,
     variables: Record<string, string>,
+    overrides?: LLMOverrides,
   ): Promise<string> {
     const promptTemplate = PromptTemplate.fromTemplate(prompt);
     const chain = RunnableSequence.from([
       promptTemplate,
-      this.llm,
+      this.getModel(overrides),
       new StringOutputParser(),
     ]);
 
     return await chain.invoke(variables);
   }
 
+  /**
+   * 요청별 설정을 반영한 LLM 인스턴스 반환
+   *
+   * @param overrides - 요청별 모델 설정 (선택)
+   * @returns 채팅 모델 인스턴스
+   * @throws Error - 허용되지 않은 모델 또는 temperature를 요청한 경우
+   */
+  getModel(overrides?: LLMOverrides): BaseChatModel {
+    const options = this.resolveOptions(overrides);
+
+    if (
+      options.model === this.defaultOptions.model &&
+      options.temperature === this.defaultOptions.temperature
+    ) {
+      return this.llm;
+    }
+
+    const cacheKey = `${options.model}:${options.temperature}`;
+    let model = this.modelCache.get(cacheKey);
+    if (!model) {
+      model = createChatModel(this.providerName, options);
+      this.modelCache.set(cacheKey, model);
+    }
+
+    return model;
+  }
+
+  /**
+   * 요청별 설정을 검증하고 기본 설정과 합치기
+   *
+   * 기본 모델은 항상 허용되며, 다른 모델은 LLM_ALLOWED_MODELS에 있어야 합니다.
+   * temperature는 LLM_MAX_OVERRIDE_TEMPERATURE가 설정된 경우에만 0 ~ 최댓값 범위에서 허용됩니다.
+   */
+  private resolveOptions(overrides?: LLMOverrides): LLMModelOptions {
+    const options = { ...this.defaultOptions };
+
+    if (overrides?.model !== undefined && overrides.model !== options.model) {
+      if (!this.allowedModels.includes(overrides.model)) {
+        throw new Error(
+          `허용되지 않은 모델입니다: ${overrides.model} (허용 목록: ${this.allowedModels.join(', ') || '없음'})`,
+        );
+      }
+      options.model = overrides.model;
+    }
+
+    if (
+      overrides?.temperature !== undefined &&
+      overrides.temperature !== options.temperature
+    ) {
+      const temperature = overrides.temperature;
+      if (
+        this.maxOverrideTemperature === undefined ||
+        typeof temperature !== 'number' ||
+        !Number.isFinite(temperature) ||
+        temperature < 0 ||
+        temperature > this.maxOverrideTemperature
+      ) {
+        throw new Error(
+          this.maxOverrideTemperature === undefined
+            ? 'temperature 변경이 허용되지 않습니다.'
+            : `temperature는 0 ~ ${this.maxOverrideTemperature} 범위여야 합니다.`,
+        );
+      }
+      options.temperature = temperature;
+    }
+
+    return options;
+  }
+
+  /**
+   * 기본 모델 이름 반환
+   *
+   * @returns 설정된 기본 모델 이름
+   */
+  getModelName(): string {
+    return this.defaultOptions.model;
+  }
+
   /**
    * LLM 인스턴스 반환
    *
-   * @returns ChatOpenAI 인스턴스
+   * @returns 기본 채팅 모델 인스턴스
    */
-  getLLM(): ChatOpenAI {
+  getLLM(): BaseChatModel {
     return this.llm;
   }
 }
@@ -0,0 +1,61 @@
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import { PromptRegistryService } from './prompt-registry.service';
+
+describe('PromptRegistryService', () => {
+  let directory: string;
+
+  beforeEach(() => {
+    directory = fs.mkdtempSync(path.join(os.tmpdir(), 'prompts-'));
+    process.env.PROMPTS_DIR = directory;
+  });
+
+  afterEach(() => {
+    delete process.env.PROMPTS_DIR;
+    fs.rmSync(directory, { recursive: true, force: true });
+  });
+
+  it('should resolve built-in templates by answer kind', () => {
+    const registry = new PromptRegistryService();
+
+    expect(registry.resolvePrompt(undefined, 'standard')).toMatchObject({
+      name: 'default',
+      version: 1,
+    });
+    expect(registry.resolvePrompt(undefined, 'structured').name).toBe(
+      'structured-answer',
+    );
+    expect(() => registry.resolvePrompt('missing', 'standard')).toThrow(
+      'missing',
+    );
+  });
+
+  it('should save new versions and keep previous versions', () => {
+    const saved = new PromptRegistryService().savePrompt('default', {
+      template: '문서:\n{context}\n\n질문: {question}',
+      language: 'en',
+    });
+
+    expect(saved).toMatchObject({ version: 2, language: 'en' });
+
+    const registry = new PromptRegistryService();
+    expect(registry.getPrompt('default').template).toBe(saved.template);
+    expect(registry.getPrompt('default', 2).version).toBe(2);
+    expect(registry.getPrompt('default', 1).template).not.toBe(saved.template);
+    expect(() => registry.getPrompt('default', 3)).toThrow('버전 3');
+  });
+
+  it('should skip invalid template files', () => {
+    fs.writeFileSync(
+      path.join(directory, 'broken.json'),
+      JSON.stringify({ version: 1, template: '{question}' }),
+    );
+
+    const registry = new PromptRegistryService();
+
+    expect(registry.getPrompts().map((prompt) => prompt.name)).not.toContain(
+      'broken',
+    );
+  });
+});
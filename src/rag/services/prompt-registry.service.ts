@@ -0,0 +1,211 @@
+import { Injectable, Logger } from '@nestjs/common';
+import * as fs from 'fs';
+import * as path from 'path';
+import { STRUCTURED_ANSWER_PROMPT_TEMPLATE } from '../llm/structured-answer';
+import {
+  AnswerPromptTemplate,
+  PromptTemplateInput,
+  extractPromptVariables,
+  parsePromptTemplateFile,
+  validatePromptName,
+} from '../prompts/prompt-template';
+import { ANSWER_PROMPT_TEMPLATES, AnswerMode } from './llm.service';
+
+/**
+ * 답변 종류별 기본 템플릿 이름
+ *
+ * - default: 일반 질의응답 (개인정보 처리방침 전문가)
+ * - comparison: 회사 비교 (비교 표)
+ * - structured-answer: 구조화된(JSON) 답변
+ */
+const DEFAULT_PROMPT_NAMES: Record<AnswerMode | 'structured', string> = {
+  standard: 'default',
+  comparison: 'comparison',
+  structured: 'structured-answer',
+};
+
+/**
+ * 코드에 내장된 템플릿 (버전 1)
+ */
+const BUILT_IN_PROMPTS: AnswerPromptTemplate[] = [
+  {
+    name: DEFAULT_PROMPT_NAMES.standard,
+    description: '개인정보 처리방침 전문가 답변 (마크다운 섹션 구성)',
+    template: ANSWER_PROMPT_TEMPLATES.standard,
+  },
+  {
+    name: DEFAULT_PROMPT_NAMES.comparison,
+    description: '여러 회사의 개인정보 처리방침 비교 표',
+    template: ANSWER_PROMPT_TEMPLATES.comparison,
+  },
+  {
+    name: DEFAULT_PROMPT_NAMES.structured,
+    description: '구조화된(JSON) 답변 (format: "json")',
+    template: STRUCTURED_ANSWER_PROMPT_TEMPLATE,
+  },
+].map((prompt) => ({
+  ...prompt,
+  version: 1,
+  language: 'ko',
+  variables: extractPromptVariables(prompt.template),
+}));
+
+/**
+ * 프롬프트 템플릿 레지스트리 서비스
+ *
+ * 답변 생성 프롬프트를 이름별로 관리합니다.
+ * 코드에 내장된 템플릿(default, comparison, structured-answer) 위에
+ * 템플릿 디렉토리의 파일을 읽어 같은 이름이면 덮어쓰고, 새 이름이면 추가합니다.
+ *
+ * - 템플릿 디렉토리: prompts/ (PROMPTS_DIR)
+ * - 템플릿 파일: <name>.json
+ *   형식: { "name", "version", "language", "description", "template" }
+ * - 이전 버전: history/<name>.v<version>.json (수정할 때마다 보관)
+ *
+ * 질의에서 이름으로 템플릿을 고를 수 있고, 사용한 템플릿 이름과 버전은 답변과 함께 기록됩니다.
+ */
+@Injectable()
+export class PromptRegistryService {
+  private readonly logger = new Logger(PromptRegistryService.name);
+  private readonly promptsDir: string;
+  private readonly prompts = new Map<string, AnswerPromptTemplate>();
+
+  constructor() {
+    this.promptsDir =
+      process.env.PROMPTS_DIR || path.join(process.cwd(), 'prompts');
+
+    for (const prompt of BUILT_IN_PROMPTS) {
+      this.prompts.set(prompt.name, prompt);
+    }
+    this.loadPrompts();
+  }
+
+  /**
+   * 모든 템플릿의 현재 버전 반환
+   *
+   * @returns 템플릿 목록 (이름순)
+   */
+  getPrompts(): AnswerPromptTemplate[] {
+    return [...this.prompts.values()].sort((a, b) =>
+      a.name.localeCompare(b.name),
+    );
+  }
+
+  /**
+   * 템플릿 조회
+   *
+   * @param name - 템플릿 이름
+   * @param version - 버전 (생략하면 현재 버전)
+   * @returns 템플릿
+   * @throws Error - 등록되지 않은 템플릿이나 버전인 경우
+   */
+  getPrompt(name: string, version?: number): AnswerPromptTemplate {
+    const current = this.prompts.get(name);
+    if (!current) {
+      throw new Error(`등록되지 않은 프롬프트 템플릿입니다: ${name}`);
+    }
+
+    if (version === undefined || version === current.version) {
+      return current;
+    }
+
+    const historyPath = this.getHistoryPath(name, version);
+    if (fs.existsSync(historyPath)) {
+      return parsePromptTemplateFile(
+        JSON.parse(fs.readFileSync(historyPath, 'utf-8')),
+        name,
+      );
+    }
+
+    const builtIn = BUILT_IN_PROMPTS.find((prompt) => prompt.name === name);
+    if (builtIn && version === builtIn.version) {
+      return builtIn;
+    }
+
+    throw new Error(`프롬프트 템플릿 ${name}에 버전 ${version}이 없습니다.`);
+  }
+
+  /**
+   * 답변 생성에 사용할 템플릿 선택
+   *
+   * @param name - 요청에서 고른 템플릿 이름 (선택)
+   * @param kind - 답변 종류 (이름을 고르지 않았을 때 기본 템플릿 선택에 사용)
+   * @returns 템플릿
+   * @throws Error - 등록되지 않은 템플릿인 경우
+   */
+  resolvePrompt(
+    name: string | undefined,
+    kind: AnswerMode | 'structured',
+  ): AnswerPromptTemplate {
+    return this.getPrompt(name ?? DEFAULT_PROMPT_NAMES[kind]);
+  }
+
+  /**
+   * 템플릿 추가 또는 수정 (새 버전으로 저장)
+   *
+   * @param name - 템플릿 이름
+   * @param input - 프롬프트 텍스트, 언어, 설명
+   * @returns 저장된 템플릿 (기존 템플릿이면 버전 + 1, 새 템플릿이면 버전 1)
+   * @throws Error - 이름이나 템플릿 형식이 올바르지 않거나 파일 저장에 실패한 경우
+   */
+  savePrompt(name: string, input: PromptTemplateInput): AnswerPromptTemplate {
+    validatePromptName(name);
+
+    const current = this.prompts.get(name);
+    const prompt: AnswerPromptTemplate = {
+      name,
+      version: (current?.version ?? 0) + 1,
+      language: input.language ?? current?.language ?? 'ko',
+      description: input.description ?? current?.description,
+      variables: extractPromptVariables(input.template),
+      template: input.template,
+      updatedAt: new Date().toISOString(),
+    };
+
+    const data = JSON.stringify(prompt, null, 2);
+    fs.mkdirSync(path.join(this.promptsDir, 'history'), { recursive: true });
+    fs.writeFileSync(this.getHistoryPath(name, prompt.version), data, 'utf-8');
+    fs.writeFileSync(path.join(this.promptsDir, `${name}.json`), data, 'utf-8');
+
+    this.prompts.set(name, prompt);
+    this.logger.log(`프롬프트 템플릿 저장: ${name} (버전 ${prompt.version})`);
+
+    return prompt;
+  }
+
+  /**
+   * 템플릿 디렉토리의 파일 로드 (형식이 잘못된 파일은 경고 후 건너뜀)
+   */
+  private loadPrompts(): void {
+    if (!fs.existsSync(this.promptsDir)) {
+      return;
+    }
+
+    for (const fileName of fs.readdirSync(this.promptsDir)) {
+      if (path.extname(fileName) !== '.json') {
+        continue;
+      }
+
+      const name = path.basename(fileName, '.json');
+      try {
+        validatePromptName(name);
+        const data = fs.readFileSync(
+          path.join(this.promptsDir, fileName),
+          'utf-8',
+        );
+        this.prompts.set(name, parsePromptTemplateFile(JSON.parse(data), name));
+      } catch (error) {
+        this.logger.warn(
+          `프롬프트 템플릿 로드 실패 (${fileName}): ${error.message}`,
+        );
+      }
+    }
+  }
+
+  /**
+   * 이전 버전 파일 경로
+   */
+  private getHistoryPath(name: string, version: number): string {
+    return path.join(this.promptsDir, 'history', `${name}.v${version}.json`);
+  }
+}
@@ -0,0 +1,69 @@
+import { Injectable } from '@nestjs/common';
+import { LLMOverrides } from '../llm/llm-providers';
+import {
+  ExpandedQuery,
+  MAX_EXPANSION_QUERIES,
+  QueryExpander,
+  QueryExpansionOptions,
+} from '../retrieval/query-expander';
+import { LLMService } from './llm.service';
+
+/**
+ * 검색어 확장 서비스
+ *
+ * 검색 전에 LLM으로 질문을 여러 검색어로 다시 쓰고(multi-query),
+ * 선택적으로 HyDE 가상 답변을 만들어 함께 검색하도록 합니다.
+ * 기본값은 QUERY_EXPANSION_COUNT(기본값 0, 사용 안 함)와
+ * QUERY_EXPANSION_HYDE(기본값 false)로 설정하고, 요청별로 바꿀 수 있습니다.
+ */
+@Injectable()
+export class QueryExpansionService {
+  /** 검색어 확장기 */
+  private readonly expander: QueryExpander;
+
+  /** 기본 검색어 확장 옵션 */
+  private readonly defaults: Required<QueryExpansionOptions>;
+
+  constructor(llmService: LLMService) {
+    this.expander = new QueryExpander(llmService);
+
+    const queries = process.env.QUERY_EXPANSION_COUNT
+      ? parseInt(process.env.QUERY_EXPANSION_COUNT, 10)
+      : 0;
+    if (!(queries >= 0 && queries <= MAX_EXPANSION_QUERIES)) {
+      throw new Error(
+        `QUERY_EXPANSION_COUNT는 0 ~ ${MAX_EXPANSION_QUERIES} 사이의 정수여야 합니다.`,
+      );
+    }
+
+    this.defaults = {
+      queries,
+      hyde: process.env.QUERY_EXPANSION_HYDE === 'true',
+    };
+  }
+
+  /**
+   * 요청별 옵션에 기본값을 적용하여 질문을 검색어 목록으로 확장
+   *
+   * @param question - 사용자 질문
+   * @param options - 요청별 검색어 확장 옵션 (선택)
+   * @param overrides - 요청별 모델 설정 (선택, 검색어 생성에도 같은 모델 사용)
+   * @returns 원래 질문이 첫 번째인 검색어 목록 (확장하지 않으면 원래 질문만)
+   */
+  async expand(
+    question: string,
+    options: QueryExpansionOptions = {},
+    overrides?: LLMOverrides,
+  ): Promise<ExpandedQuery[]> {
+    const resolved = {
+      queries: options.queries ?? this.defaults.queries,
+      hyde: options.hyde ?? this.defaults.hyde,
+    };
+
+    if (resolved.queries === 0 && !resolved.hyde) {
+      return [{ kind: 'original', text: question }];
+    }
+
+    return await this.expander.expand(question, resolved, overrides);
+  }
+}
@@ -1,18 +1,237 @@
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
 import { Test, TestingModule } from '@nestjs/testing';
 import { RagService } from './rag.service';
+import { EmbeddingService } from './embedding.service';
+import { ChunkingService } from './chunking.service';
+import { VectorStoreService } from './vector-store.service';
+import { DocumentLoaderService } from './document-loader.service';
+import { LLMService } from './llm.service';
+import { IndexingHistoryService } from './indexing-history.service';
+import { EntityCatalogService } from './entity-catalog.service';
+import { KeywordIndexService } from './keyword-index.service';
+import { RerankService } from './rerank.service';
+import { QueryExpansionService } from './query-expansion.service';
+import { PromptRegistryService } from './prompt-registry.service';
 
 describe('RagService', () => {
   let service: RagService;
+  let llmService: LLMService;
+  let tempDir: string;
 
   beforeEach(async () => {
+    tempDir = fs.mkdtempSync(path.join(os.tmpdir(), 'rag-service-'));
+
+    process.env.VECTOR_STORE = 'memory';
+    process.env.EMBEDDING_PROVIDER = 'local';
+    process.env.LLM_PROVIDER = 'fake';
+    process.env.ENTITY_CATALOG_PATH = path.join(tempDir, 'entities.json');
+    process.env.ENTITY_ALIASES_PATH = path.join(tempDir, 'aliases.json');
+    process.env.PROMPTS_DIR = path.join(tempDir, 'prompts');
+    // 인덱싱 히스토리와 상대 경로의 기준을 임시 디렉토리로
+    jest.spyOn(process, 'cwd').mockReturnValue(tempDir);
+
     const module: TestingModule = await Test.createTestingModule({
-      providers: [RagService],
+      providers: [
+        EmbeddingService,
+        ChunkingService,
+        VectorStoreService,
+        DocumentLoaderService,
+        LLMService,
+        IndexingHistoryService,
+        EntityCatalogService,
+        KeywordIndexService,
+        RerankService,
+        QueryExpansionService,
+        PromptRegistryService,
+        RagService,
+      ],
     }).compile();
+    await module.init();
 
     service = module.get<RagService>(RagService);
+    llmService = module.get<LLMService>(LLMService);
+  });
+
+  afterEach(() => {
+    jest.restoreAllMocks();
+    fs.rmSync(tempDir, { recursive: true, force: true });
   });
 
   it('should be defined', () => {
     expect(service).toBeDefined();
   });
+
+  it('should treat relative and absolute paths of a file as the same file', async () => {
+    const docsDir = path.join(tempDir, 'rag-docs');
+    const filePath = path.join(docsDir, 'kakao.txt');
+    fs.mkdirSync(docsDir);
+    fs.writeFileSync(filePath, '카카오 비밀번호는 8자 이상이어야 합니다.');
+
+    // CLI는 절대 경로로, 감시 모드는 INDEX_WATCH_DIRS 그대로(상대 경로) 전달
+    await service.incrementalIndexDirectory(docsDir);
+    fs.writeFileSync(filePath, '카카오 비밀번호는 10자 이상이어야 합니다.');
+    const result = await service.syncChangedFiles([
+      path.relative(path.resolve(), filePath),
+    ]);
+
+    expect(result).toMatchObject({ added: 0, updated: 1 });
+    const documents = await service.similaritySearch('카카오 비밀번호', 10);
+    expect(documents.map((doc) => doc.pageContent)).toEqual([
+      '카카오 비밀번호는 10자 이상이어야 합니다.',
+    ]);
+    expect(service.getIndexingStats().totalFiles).toBe(1);
+  });
+
+  it('should answer in comparison mode with documents from every company', async () => {
+    await service.addDocuments(
+      [
+        '카카오 비밀번호는 8자 이상이며 영문, 숫자, 특수문자를 조합해야 합니다.',
+        '네이버 비밀번호는 10자 이상이며 90일마다 변경을 권장합니다.',
+        '쿠팡 비밀번호는 8자 이상이어야 합니다.',
+      ],
+      [
+        { company_name: '카카오', source: 'kakao' },
+        { company_name: '네이버', source: 'naver' },
+        { company_name: '쿠팡', source: 'coupang' },
+      ],
+    );
+
+    const result = await service.query(
+      '카카오와 네이버의 비밀번호 정책 비교해줘',
+    );
+
+    expect(result.mode).toBe('comparison');
+    expect(result.entities).toEqual(['카카오', '네이버']);
+    expect(
+      result.sourceDocuments?.map((doc) => doc.metadata.company_name as string),
+    ).toEqual(['카카오', '네이버']);
+  });
+
+  it('should find exact keywords with the BM25 index', async () => {
+    await service.addDocuments(
+      [
+        '개인정보 보호책임자 연락처는 1577-3754 입니다.',
+        '회원 탈퇴 시 개인정보는 지체 없이 파기합니다.',
+      ],
+      [
+        { company_name: '카카오', filePath: 'kakao.txt' },
+        { company_name: '네이버', filePath: 'naver.txt' },
+      ],
+    );
+
+    const documents = await service.similaritySearch(
+      '1577-3754',
+      1,
+      undefined,
+      {
+        vector: 0,
+      },
+    );
+
+    expect(documents.map((doc) => doc.metadata.filePath as string)).toEqual([
+      'kakao.txt',
+    ]);
+  });
+
+  it('should skip the LLM when no chunk passes the similarity threshold', async () => {
+    await service.addDocuments(
+      ['회원 탈퇴 시 개인정보는 지체 없이 파기합니다.'],
+      [{ company_name: '네이버', filePath: 'naver.txt' }],
+    );
+    const generateAnswer = jest.spyOn(llmService, 'generateAnswer');
+
+    const answered = await service.query('개인정보 파기 시점은?');
+    expect(answered.status).toBe('answered');
+    expect(answered.similarityScores).toHaveLength(
+      answered.sourceDocuments!.length,
+    );
+
+    generateAnswer.mockClear();
+    const result = await service.query('배송비 환불 규정은?', {
+      minScore: 0.99,
+    });
+
+    expect(generateAnswer).not.toHaveBeenCalled();
+    expect(result.status).toBe('insufficient_context');
+    expect(result.sourceDocuments).toEqual([]);
+    expect(result.insufficientContext?.minScore).toBe(0.99);
+    expect(result.insufficientContext?.bestScore).toBeLessThan(0.99);
+  });
+
+  it('should serialize the structured answer with server-mapped citations', async () => {
+    await service.addDocuments(
+      ['회원 탈퇴 시 개인정보는 지체 없이 파기합니다.'],
+      [{ company_name: '네이버', filePath: 'naver.txt' }],
+    );
+    jest.spyOn(llmService, 'generateStructuredAnswer').mockResolvedValue({
+      answerFound: true,
+      basicInfo: { companyName: '네이버', industry: null, serviceType: null },
+      mainPoints: [
+        { title: '파기 시점', content: '탈퇴 시 지체 없이', citations: [1] },
+      ],
+      details: [],
+      related: [],
+    });
+
+    const answered = await service.query('개인정보 파기 시점은?', {
+      format: 'json',
+    });
+    expect(answered.structuredAnswer?.citations).toHaveLength(1);
+    expect(JSON.parse(answered.answer)).toEqual(answered.structuredAnswer);
+
+    const insufficient = await service.query('배송비 환불 규정은?', {
+      format: 'json',
+      minScore: 0.99,
+    });
+    expect(insufficient.status).toBe('insufficient_context');
+    expect(JSON.parse(insufficient.answer)).toEqual(
+      insufficient.structuredAnswer,
+    );
+  });
+
+  it('should report the expanded queries used for retrieval', async () => {
+    await service.addDocuments(
+      ['회원 탈퇴 시 개인정보는 지체 없이 파기합니다.'],
+      [{ company_name: '네이버', filePath: 'naver.txt' }],
+    );
+
+    const result = await service.query('탈퇴하면 내 정보 언제 지워짐?', {
+      expansion: { queries: 2, hyde: true },
+    });
+
+    expect(result.expandedQueries?.map(({ kind }) => kind)).toEqual([
+      'original',
+      'paraphrase',
+      'hyde',
+    ]);
+    expect(result.expandedQueries?.[0].text).toBe(
+      '탈퇴하면 내 정보 언제 지워짐?',
+    );
+    expect(result.sourceDocuments).toHaveLength(1);
+  });
+
+  it('should answer with the selected prompt template and record its version', async () => {
+    await service.addDocuments(
+      ['회원 탈퇴 시 개인정보는 지체 없이 파기합니다.'],
+      [{ company_name: '네이버', filePath: 'naver.txt' }],
+    );
+    const template = '문서:\n{context}\n\n질문: {question}';
+    service.savePrompt('short-answer', { template });
+    const generateAnswer = jest.spyOn(llmService, 'generateAnswer');
+
+    const result = await service.query('개인정보 파기 시점은?', {
+      prompt: 'short-answer',
+    });
+
+    expect(result.prompt).toEqual({ name: 'short-answer', version: 1 });
+    expect(generateAnswer.mock.calls[0][2]).toMatchObject({
+      prompt: template,
+    });
+    expect((await service.query('개인정보 파기 시점은?')).prompt).toEqual({
+      name: 'default',
+      version: 1,
+    });
+  });
 });
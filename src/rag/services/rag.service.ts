@@ -1,11 +1,219 @@
 import { Injectable, Logger } from '@nestjs/common';
 import { Document } from '@langchain/core/documents';
+import * as fs from 'fs';
+import * as path from 'path';
 import { ChunkingService } from './chunking.service';
+import { EmbeddingService } from './embedding.service';
 import { VectorStoreService } from './vector-store.service';
 import { DocumentLoaderService } from './document-loader.service';
-import { LLMService } from './llm.service';
+import { AnswerMode, LLMService, LLMTokenUsage } from './llm.service';
+import { MetadataFilter } from '../stores/metadata-filter';
 import { IndexingHistoryService } from './indexing-history.service';
+import { EntityCatalogService } from './entity-catalog.service';
+import { KeywordIndexService } from './keyword-index.service';
+import { RerankService } from './rerank.service';
+import { QueryExpansionService } from './query-expansion.service';
+import { PromptRegistryService } from './prompt-registry.service';
+import {
+  PromptTemplateInput,
+  PromptTemplateRef,
+} from '../prompts/prompt-template';
 import { FileHashUtil } from '../utils/file-hash.util';
+import { IndexingObserver } from '../jobs/indexing-job';
+import { LLMOverrides } from '../llm/llm-providers';
+import {
+  Citation,
+  extractCitations,
+  formatContextPassage,
+  toCitations,
+} from '../citations/citations';
+import {
+  AnswerFormat,
+  collectCitationMarkers,
+  createEmptyStructuredAnswer,
+} from '../llm/structured-answer';
+import { StructuredAnswerDto } from '../dto/structured-answer.dto';
+import {
+  FusedDocument,
+  RetrievalWeights,
+  getDocumentKey,
+  reciprocalRankFusion,
+} from '../retrieval/reciprocal-rank-fusion';
+import { RerankOptions, RerankerName } from '../rerankers/reranker';
+import {
+  ExpandedQuery,
+  QueryExpansionOptions,
+} from '../retrieval/query-expander';
+
+/**
+ * 증분 인덱싱 결과
+ */
+export interface IncrementalIndexResult {
+  /** 새로 추가된 파일 수 */
+  added: number;
+  /** 변경되어 재인덱싱된 파일 수 */
+  updated: number;
+  /** 삭제되어 청크를 제거한 파일 수 */
+  deleted: number;
+  /** 변경 없어서 스킵된 파일 수 */
+  skipped: number;
+  /** 스킵된 파일의 토큰 수 (다시 임베딩하지 않아 절약한 토큰) */
+  skippedTokens: number;
+  /** 처리한 전체 파일 수 (추가 + 업데이트 + 스킵) */
+  total: number;
+}
+
+/**
+ * 변경 파일 동기화 결과 (감시 모드)
+ */
+export interface FileSyncResult extends IncrementalIndexResult {
+  /** 이름이 바뀌어 기존 임베딩을 재사용한 파일 수 */
+  renamed: number;
+}
+
+/**
+ * RAG 질의 옵션
+ */
+export interface RagQueryOptions {
+  /** 요청별 LLM 설정 (관리자가 허용한 범위 안에서만 적용) */
+  llm?: LLMOverrides;
+  /** 프롬프트에 포함할 이전 대화 내용 (멀티턴 대화용) */
+  history?: string;
+  /** 메타데이터 필터 (벡터 검색 단계에서 적용) */
+  filter?: MetadataFilter;
+  /** 하이브리드 검색 가중치 (지정하지 않은 항목은 기본값 사용) */
+  weights?: Partial<RetrievalWeights>;
+  /** 재순위화 방식과 후보/최종 문서 수 (지정하지 않은 항목은 기본값 사용) */
+  rerank?: RerankOptions;
+  /** 컨텍스트로 사용할 문서의 최소 벡터 유사도 (기본값: MIN_SIMILARITY_SCORE) */
+  minScore?: number;
+  /** 검색어 확장 (LLM 다중 검색어, HyDE) 옵션 (지정하지 않은 항목은 기본값 사용) */
+  expansion?: QueryExpansionOptions;
+  /** 답변 형식 (기본값: text, json이면 structuredAnswer 생성, 스트리밍은 text만 지원) */
+  format?: AnswerFormat;
+  /** 답변 프롬프트 템플릿 이름 (기본값: 답변 방식/형식별 기본 템플릿) */
+  prompt?: string;
+}
+
+/**
+ * 답변 상태
+ *
+ * - answered: 검색된 문서로 LLM이 답변을 생성함
+ * - insufficient_context: 기준 유사도를 넘는 문서가 없어 LLM을 호출하지 않음
+ */
+export type RagAnswerStatus = 'answered' | 'insufficient_context';
+
+/**
+ * 관련 문서 부족 정보 (insufficient_context일 때)
+ */
+export interface InsufficientContext {
+  /** 적용한 최소 유사도 (설정하지 않았으면 없음) */
+  minScore?: number;
+  /** 검색된 후보 중 가장 높은 유사도 (후보가 없으면 null) */
+  bestScore: number | null;
+}
+
+/**
+ * 관련 문서가 없을 때의 답변 (LLM을 호출하지 않음)
+ */
+const INSUFFICIENT_CONTEXT_ANSWER =
+  '해당 정보는 제공된 문서에서 찾을 수 없습니다.';
+
+/**
+ * RAG 질의 결과
+ */
+export interface RagQueryResult {
+  /** 답변 상태 */
+  status: RagAnswerStatus;
+  /**
+   * 생성된 답변
+   *
+   * json 형식이면 structuredAnswer(서버가 채운 citations 포함)의 JSON 문자열이고,
+   * 아니면 텍스트 답변입니다. (insufficient_context이면 고정 문구 또는 빈 구조화된 답변의 JSON)
+   */
+  answer: string;
+  /** 구조화된 답변 (format이 json일 때) */
+  structuredAnswer?: StructuredAnswerDto;
+  /** 답변 생성에 사용한 프롬프트 템플릿 (LLM을 호출하지 않았으면 없음) */
+  prompt?: PromptTemplateRef;
+  /** 참조된 문서들 */
+  sourceDocuments?: Document[];
+  /** 답변 방식 (회사가 2개 이상 감지되면 comparison) */
+  mode: AnswerMode;
+  /** 질문에서 감지된 회사 (대표 이름) */
+  entities: string[];
+  /** 답변의 인용 표시([1])별 참조 문서 위치 */
+  citations: Citation[];
+  /** 사용한 재순위화 방식 (비교 모드는 재순위화하지 않음) */
+  reranker?: RerankerName;
+  /** 참조 문서별 재순위화 점수 (sourceDocuments와 같은 순서) */
+  rerankScores?: number[];
+  /** 참조 문서별 벡터 유사도 (sourceDocuments와 같은 순서) */
+  similarityScores: number[];
+  /** 관련 문서 부족 정보 (status가 insufficient_context일 때) */
+  insufficientContext?: InsufficientContext;
+  /** 검색에 사용한 검색어 (원래 질문 포함, 비교 모드는 없음) */
+  expandedQueries?: ExpandedQuery[];
+}
+
+/**
+ * 문서 검색 결과
+ */
+interface RagRetrieval {
+  /** 답변 방식 */
+  mode: AnswerMode;
+  /** 감지된 회사 (대표 이름) */
+  entities: string[];
+  /** 컨텍스트로 사용할 문서 */
+  documents: Document[];
+  /** 사용한 재순위화 방식 */
+  reranker?: RerankerName;
+  /** 문서별 재순위화 점수 (documents와 같은 순서) */
+  rerankScores?: number[];
+  /** 문서별 벡터 유사도 (documents와 같은 순서) */
+  similarityScores: number[];
+  /** 기준 유사도를 넘는 문서가 없으면 설정 (documents는 빈 배열) */
+  insufficientContext?: InsufficientContext;
+  /** 검색에 사용한 검색어 (원래 질문 포함, 비교 모드는 없음) */
+  expandedQueries?: ExpandedQuery[];
+}
+
+/**
+ * 하이브리드 검색 결과 (벡터 유사도 포함)
+ */
+interface RetrievedDocument extends FusedDocument {
+  /** 질문과의 코사인 유사도 (키워드 검색으로만 찾은 문서는 저장된 벡터로 계산) */
+  similarity: number;
+}
+
+/**
+ * 스트리밍 질의 이벤트
+ *
+ * - sources: 검색된 참조 문서, 답변 방식, 감지된 회사, 점수, 답변 상태 (가장 먼저 한 번)
+ * - token: 답변 텍스트 조각 (insufficient_context이면 고정 문구 한 번)
+ * - done: 단계별 소요 시간(ms), 토큰 사용량, 답변의 인용 위치 (마지막에 한 번)
+ */
+export type RagStreamEvent =
+  | {
+      type: 'sources';
+      sourceDocuments: Document[];
+      mode: AnswerMode;
+      entities: string[];
+      reranker?: RerankerName;
+      rerankScores?: number[];
+      similarityScores: number[];
+      status: RagAnswerStatus;
+      insufficientContext?: InsufficientContext;
+      expandedQueries?: ExpandedQuery[];
+      prompt?: PromptTemplateRef;
+    }
+  | { type: 'token'; text: string }
+  | {
+      type: 'done';
+      timing: { retrievalMs: number; generationMs: number; totalMs: number };
+      usage: LLMTokenUsage | null;
+      citations: Citation[];
+    };
 
 /**
  * RAG (Retrieval-Augmented Generation) 서비스
@@ -13,17 +221,51 @@ import { FileHashUtil } from '../utils/file-hash.util';
  * RAG 파이프라인을 조합하여 제공하는 서비스입니다.
  * 문서 추가, 검색, 답변 생성 등의 고수준 기능을 제공하며,
  * 각 세부 작업은 전용 서비스에 위임합니다.
+ *
+ * 파일 경로는 절대 경로(path.resolve)로 바꾼 뒤 히스토리, 벡터 스토어, BM25 인덱스의
+ * 키로 사용하므로 CLI 스크립트, API, 감시 모드가 같은 파일을 같은 청크로 다룹니다.
  */
 @Injectable()
 export class RagService {
   private readonly logger = new Logger(RagService.name);
 
+  /** 비교 모드에서 회사마다 검색할 문서 수 */
+  private readonly compareDocsPerEntity = process.env.COMPARE_DOCS_PER_ENTITY
+    ? parseInt(process.env.COMPARE_DOCS_PER_ENTITY, 10)
+    : 3;
+
+  /** 하이브리드 검색 기본 가중치 */
+  private readonly defaultWeights: RetrievalWeights = {
+    vector: process.env.HYBRID_VECTOR_WEIGHT
+      ? parseFloat(process.env.HYBRID_VECTOR_WEIGHT)
+      : 1,
+    keyword: process.env.HYBRID_KEYWORD_WEIGHT
+      ? parseFloat(process.env.HYBRID_KEYWORD_WEIGHT)
+      : 1,
+  };
+
+  /** RRF 순위 상수 */
+  private readonly rrfK = process.env.RRF_K
+    ? parseInt(process.env.RRF_K, 10)
+    : 60;
+
+  /** 컨텍스트로 사용할 문서의 최소 벡터 유사도 (미설정 시 제한 없음) */
+  private readonly minSimilarityScore = process.env.MIN_SIMILARITY_SCORE
+    ? parseFloat(process.env.MIN_SIMILARITY_SCORE)
+    : undefined;
+
   constructor(
     private readonly chunkingService: ChunkingService,
     private readonly vectorStoreService: VectorStoreService,
     private readonly documentLoaderService: DocumentLoaderService,
     private readonly llmService: LLMService,
     private readonly indexingHistoryService: IndexingHistoryService,
+    private readonly entityCatalogService: EntityCatalogService,
+    private readonly keywordIndexService: KeywordIndexService,
+    private readonly rerankService: RerankService,
+    private readonly queryExpansionService: QueryExpansionService,
+    private readonly promptRegistryService: PromptRegistryService,
+    private readonly embeddingService: EmbeddingService,
   ) {}
 
   /**
@@ -35,6 +277,8 @@ export class RagService {
    * 처리 과정:
    * 1. ChunkingService를 사용하여 텍스트를 청크로 분할
    * 2. VectorStoreService를 사용하여 벡터 스토어에 저장
+   * 3. 같은 청크를 BM25 키워드 인덱스에 추가
+   * 4. 메타데이터의 회사명을 엔티티 카탈로그에 반영
    */
   async addDocuments(
     texts: string[],
@@ -44,7 +288,13 @@ export class RagService {
     const splitDocs = await this.chunkingService.splitTexts(texts, metadata);
 
     // 벡터 스토어에 추가
-    await this.vectorStoreService.addDocuments(splitDocs);
+    const ids = await this.vectorStoreService.addDocuments(splitDocs);
+
+    // 키워드 인덱스에 추가 (벡터 스토어와 같은 포인트 ID 사용)
+    await this.keywordIndexService.addDocuments(ids, splitDocs);
+
+    // 엔티티 카탈로그 갱신
+    await this.entityCatalogService.registerDocuments(metadata ?? []);
   }
 
   /**
@@ -58,7 +308,9 @@ export class RagService {
    */
   async loadDocumentFromFile(filePath: string): Promise<void> {
     // 파일에서 텍스트와 메타데이터 읽기
-    const { content, metadata } = await this.documentLoaderService.loadFromFile(filePath);
+    const { content, metadata } = await this.documentLoaderService.loadFromFile(
+      path.resolve(filePath),
+    );
     // 읽은 내용을 벡터 스토어에 추가
     await this.addDocuments([content], [metadata]);
   }
@@ -68,26 +320,45 @@ export class RagService {
    *
    * @param dirPath - 디렉토리 경로
    * @param recursive - 하위 디렉토리 포함 여부 (기본값: true)
+   * @param observer - 파일별 진행 상황 수신자 (선택, 인덱싱 작업에서 사용)
    * @returns 처리된 파일 수
+   * @throws Error - 파일 처리에 실패한 경우 (observer가 있으면 알리고 다음 파일 계속 처리)
    */
   async loadDocumentsFromDirectory(
     dirPath: string,
     recursive = true,
+    observer?: IndexingObserver,
   ): Promise<number> {
-    // 디렉토리의 모든 파일 로드
-    const documents = await this.documentLoaderService.loadFromDirectory(
-      dirPath,
+    // 디렉토리의 모든 파일 목록 (절대 경로)
+    const filePaths = this.documentLoaderService.listFiles(
+      path.resolve(dirPath),
       recursive,
     );
+    observer?.onFilesFound?.(filePaths);
 
-    // 텍스트와 메타데이터 분리
-    const texts = documents.map((doc) => doc.content);
-    const metadata = documents.map((doc) => doc.metadata);
+    // 파일별로 로드하여 벡터 스토어에 추가
+    let filesProcessed = 0;
+    for (const filePath of filePaths) {
+      if (observer?.signal?.aborted) {
+        this.logger.warn(`⏹️  인덱싱 취소: ${dirPath}`);
+        break;
+      }
 
-    // 벡터 스토어에 추가
-    await this.addDocuments(texts, metadata);
+      observer?.onFileStarted?.(filePath);
+      try {
+        await this.loadDocumentFromFile(filePath);
+        filesProcessed++;
+        observer?.onFileCompleted?.(filePath, 'indexed');
+      } catch (error) {
+        if (!observer) {
+          throw error;
+        }
+        this.logger.error(`❌ 처리 실패: ${filePath}`, error.stack);
+        observer.onFileFailed?.(filePath, error);
+      }
+    }
 
-    return documents.length;
+    return filesProcessed;
   }
 
   /**
@@ -95,84 +366,69 @@ export class RagService {
    *
    * @param dirPath - 디렉토리 경로
    * @param recursive - 하위 디렉토리 포함 여부 (기본값: true)
+   * @param observer - 파일별 진행 상황 수신자 (선택, 인덱싱 작업에서 사용)
    * @returns 처리 결과 (추가, 업데이트, 삭제된 파일 수)
+   *
+   * 파일 하나의 처리에 실패해도 로그를 남기고 다음 파일을 계속 처리합니다.
+   * 취소되면 남은 파일과 삭제된 파일 정리를 건너뜁니다.
    */
   async incrementalIndexDirectory(
     dirPath: string,
     recursive = true,
-  ): Promise<{
-    added: number;
-    updated: number;
-    deleted: number;
-    skipped: number;
-    total: number;
-  }> {
+    observer?: IndexingObserver,
+  ): Promise<IncrementalIndexResult> {
     this.logger.log(`📂 증분 인덱싱 시작: ${dirPath}`);
 
     let added = 0;
     let updated = 0;
     let skipped = 0;
+    let skippedTokens = 0;
 
-    // 1. 디렉토리의 모든 파일 가져오기
-    const documents = await this.documentLoaderService.loadFromDirectory(
-      dirPath,
+    // 1. 디렉토리의 모든 파일 목록 (절대 경로)
+    const filePaths = this.documentLoaderService.listFiles(
+      path.resolve(dirPath),
       recursive,
     );
+    observer?.onFilesFound?.(filePaths);
 
-    this.logger.log(`📄 발견된 파일: ${documents.length}개`);
+    this.logger.log(`📄 발견된 파일: ${filePaths.length}개`);
 
     // 2. 각 파일 처리
-    for (const doc of documents) {
-      const filePath = doc.metadata.filePath;
-      
+    for (const filePath of filePaths) {
+      if (observer?.signal?.aborted) {
+        break;
+      }
+
+      observer?.onFileStarted?.(filePath);
       try {
-        // 파일 해시 계산
-        const fileInfo = FileHashUtil.getFileInfo(filePath);
-        
-        // 기존 인덱싱 기록 확인
-        if (this.indexingHistoryService.isIndexed(filePath)) {
-          // 변경 여부 확인
-          if (this.indexingHistoryService.hasChanged(filePath, fileInfo.hash)) {
-            // 변경됨 → 재인덱싱
-            this.logger.log(`🔄 업데이트: ${doc.metadata.fileName}`);
-            await this.addDocuments([doc.content], [doc.metadata]);
-            
-            // 히스토리 업데이트
-            const chunkCount = await this.getChunkCount(doc.content);
-            this.indexingHistoryService.recordIndexing(
-              filePath,
-              fileInfo.hash,
-              fileInfo.modifiedTime,
-              chunkCount,
-            );
-            
-            updated++;
-          } else {
-            // 변경 없음 → 스킵
-            this.logger.log(`⏭️  스킵: ${doc.metadata.fileName} (변경 없음)`);
-            skipped++;
-          }
-        } else {
-          // 새 파일 → 추가
-          this.logger.log(`➕ 추가: ${doc.metadata.fileName}`);
-          await this.addDocuments([doc.content], [doc.metadata]);
-          
-          // 히스토리 기록
-          const chunkCount = await this.getChunkCount(doc.content);
-          this.indexingHistoryService.recordIndexing(
-            filePath,
-            fileInfo.hash,
-            fileInfo.modifiedTime,
-            chunkCount,
-          );
-          
+        const { outcome, tokens } = await this.indexFileIncrementally(filePath);
+        if (outcome === 'added') {
           added++;
+        } else if (outcome === 'updated') {
+          updated++;
+        } else {
+          skipped++;
+          skippedTokens += tokens;
         }
+        observer?.onFileCompleted?.(filePath, outcome);
       } catch (error) {
-        this.logger.error(`❌ 처리 실패: ${doc.metadata.fileName}`, error.stack);
+        this.logger.error(`❌ 처리 실패: ${filePath}`, error.stack);
+        observer?.onFileFailed?.(filePath, error);
       }
     }
 
+    if (observer?.signal?.aborted) {
+      this.logger.warn(`⏹️  증분 인덱싱 취소: ${dirPath}`);
+      return {
+        added,
+        updated,
+        deleted: 0,
+        skipped,
+        skippedTokens,
+        total: added + updated + skipped,
+      };
+    }
+
     // 3. 삭제된 파일 감지
     const deletedFiles = this.indexingHistoryService.findDeletedFiles();
     const deleted = deletedFiles.length;
@@ -180,17 +436,20 @@ export class RagService {
     if (deleted > 0) {
       this.logger.log(`🗑️  삭제된 파일 감지: ${deleted}개`);
       for (const filePath of deletedFiles) {
-        // 히스토리에서 제거
-        this.indexingHistoryService.removeRecord(filePath);
-        this.logger.log(`  - ${filePath}`);
+        try {
+          await this.removeIndexedFile(filePath);
+          this.logger.log(`  - ${filePath}`);
+          observer?.onFileCompleted?.(filePath, 'deleted');
+        } catch (error) {
+          this.logger.error(`❌ 삭제 실패: ${filePath}`, error.stack);
+          observer?.onFileFailed?.(filePath, error);
+        }
       }
-      
-      this.logger.warn('⚠️  벡터 DB에서 삭제된 파일의 청크를 수동으로 제거해야 합니다.');
     }
 
     // 4. 결과 요약
     const total = added + updated + skipped;
-    
+
     this.logger.log('');
     this.logger.log('📊 증분 인덱싱 완료');
     this.logger.log(`  ➕ 추가: ${added}개`);
@@ -204,149 +463,987 @@ export class RagService {
       updated,
       deleted,
       skipped,
+      skippedTokens,
       total,
     };
   }
 
+  /**
+   * 변경된 파일만 동기화 (감시 모드)
+   *
+   * @param changedPaths - 변경이 감지된 파일 또는 디렉토리 경로
+   * @param observer - 파일별 진행 상황 수신자 (선택, 인덱싱 작업에서 사용)
+   * @returns 처리 결과 (추가, 업데이트, 이름 변경, 삭제, 스킵된 파일 수)
+   *
+   * 있는 파일은 증분 인덱싱과 같은 해시 비교로 추가/업데이트/스킵하고,
+   * 없어진 파일(디렉토리면 그 아래 파일)은 청크와 히스토리를 삭제합니다.
+   * 새 파일의 해시가 함께 없어진 파일의 해시와 같으면 이름 변경으로 보고,
+   * 저장된 벡터를 재사용하여 다시 임베딩하지 않습니다.
+   */
+  async syncChangedFiles(
+    changedPaths: string[],
+    observer?: IndexingObserver,
+  ): Promise<FileSyncResult> {
+    let added = 0;
+    let updated = 0;
+    let renamed = 0;
+    let deleted = 0;
+    let skipped = 0;
+    let skippedTokens = 0;
+
+    // 1. 변경 경로를 있는 파일과 없어진 파일로 분류
+    const presentFiles = new Set<string>();
+    const removedFiles = new Set<string>();
+    for (const changedPath of new Set(
+      changedPaths.map((changedPath) => path.resolve(changedPath)),
+    )) {
+      if (fs.existsSync(changedPath)) {
+        const files = fs.statSync(changedPath).isDirectory()
+          ? this.documentLoaderService.listFiles(changedPath)
+          : [changedPath];
+        files.forEach((filePath) => presentFiles.add(filePath));
+      } else {
+        for (const filePath of this.indexingHistoryService
+          .getAllRecords()
+          .keys()) {
+          if (
+            filePath === changedPath ||
+            filePath.startsWith(changedPath + path.sep)
+          ) {
+            removedFiles.add(filePath);
+          }
+        }
+      }
+    }
+    observer?.onFilesFound?.([...presentFiles]);
+
+    // 없어진 파일의 해시 (이름 변경 감지용)
+    const removedByHash = new Map<string, string>();
+    for (const filePath of removedFiles) {
+      const record = this.indexingHistoryService.getFileInfo(filePath);
+      if (record) {
+        removedByHash.set(record.hash, filePath);
+      }
+    }
+
+    // 2. 있는 파일 처리
+    for (const filePath of presentFiles) {
+      if (observer?.signal?.aborted) {
+        break;
+      }
+
+      observer?.onFileStarted?.(filePath);
+      try {
+        // 기록이 없는 파일이 없어진 파일과 내용이 같으면 이름 변경
+        if (!this.indexingHistoryService.isIndexed(filePath)) {
+          const hash = FileHashUtil.calculateFileHash(filePath);
+          const previousPath = removedByHash.get(hash);
+          if (
+            previousPath &&
+            (await this.renameIndexedFile(previousPath, filePath))
+          ) {
+            removedByHash.delete(hash);
+            removedFiles.delete(previousPath);
+            renamed++;
+            observer?.onFileCompleted?.(filePath, 'renamed');
+            continue;
+          }
+        }
+
+        const { outcome, tokens } = await this.indexFileIncrementally(filePath);
+        if (outcome === 'added') {
+          added++;
+        } else if (outcome === 'updated') {
+          updated++;
+        } else {
+          skipped++;
+          skippedTokens += tokens;
+        }
+        observer?.onFileCompleted?.(filePath, outcome);
+      } catch (error) {
+        this.logger.error(`❌ 처리 실패: ${filePath}`, error.stack);
+        observer?.onFileFailed?.(filePath, error);
+      }
+    }
+
+    // 3. 없어진 파일 정리 (취소되면 건너뜀)
+    if (!observer?.signal?.aborted) {
+      for (const filePath of removedFiles) {
+        try {
+          await this.removeIndexedFile(filePath);
+          this.logger.log(`🗑️  삭제: ${filePath}`);
+          deleted++;
+          observer?.onFileCompleted?.(filePath, 'deleted');
+        } catch (error) {
+          this.logger.error(`❌ 삭제 실패: ${filePath}`, error.stack);
+          observer?.onFileFailed?.(filePath, error);
+        }
+      }
+    }
+
+    return {
+      added,
+      updated,
+      renamed,
+      deleted,
+      skipped,
+      skippedTokens,
+      total: added + updated + renamed + skipped,
+    };
+  }
+
+  /**
+   * 인덱싱된 파일의 경로 변경 (헬퍼)
+   *
+   * @param previousPath - 이전 파일 경로 (히스토리에 기록된 경로)
+   * @param filePath - 새 파일 경로 (이전 파일과 내용이 같아야 함)
+   * @returns 처리했으면 true, 새 경로의 청킹 전략이 달라 재인덱싱이 필요하면 false
+   *
+   * 새 경로 기준으로 청크를 다시 나누고, 이전 경로의 같은 청크에 저장된 벡터를
+   * 그대로 사용하여 포인트를 옮깁니다.
+   * (저장된 벡터를 꺼낼 수 없는 청크는 다시 임베딩)
+   */
+  private async renameIndexedFile(
+    previousPath: string,
+    filePath: string,
+  ): Promise<boolean> {
+    const record = this.indexingHistoryService.getFileInfo(previousPath);
+    const doc = await this.documentLoaderService.loadFromFile(filePath);
+    const { strategy } = this.chunkingService.resolveStrategy(doc.metadata);
+    if (!record || (record.chunkingStrategy ?? strategy) !== strategy) {
+      return false;
+    }
+
+    // 새 경로의 청크와, 같은 내용의 이전 경로 청크 (포인트 ID 계산용)
+    const chunks = await this.chunkingService.splitTexts(
+      [doc.content],
+      [doc.metadata],
+    );
+    const previousChunks = chunks.map(
+      (chunk) =>
+        new Document({
+          pageContent: chunk.pageContent,
+          metadata: {
+            ...chunk.metadata,
+            filePath: previousPath,
+            fileName: path.basename(previousPath),
+          },
+        }),
+    );
+    const vectors =
+      chunks.length > 0
+        ? await this.vectorStoreService.getDocumentVectors(previousChunks)
+        : [];
+
+    // 이전 경로의 청크를 지우고 같은 벡터로 새 경로의 청크 저장
+    await this.deleteDocumentsByFilePath(previousPath);
+    const ids = await this.vectorStoreService.addVectors(vectors, chunks);
+    await this.keywordIndexService.addDocuments(ids, chunks);
+    await this.entityCatalogService.registerDocuments(
+      [doc.metadata],
+      [previousPath],
+    );
+
+    // 히스토리를 새 경로로 이동
+    const fileInfo = FileHashUtil.getFileInfo(filePath);
+    await this.indexingHistoryService.removeRecord(previousPath);
+    await this.indexingHistoryService.recordIndexing(
+      filePath,
+      fileInfo.hash,
+      fileInfo.modifiedTime,
+      chunks.length,
+      strategy,
+    );
+
+    this.logger.log(`🔀 이름 변경: ${previousPath} → ${filePath}`);
+    return true;
+  }
+
+  /**
+   * 삭제된 파일의 청크와 기록 제거 (헬퍼)
+   *
+   * 벡터 DB와 키워드 인덱스에서 청크 제거 후 히스토리와 엔티티 카탈로그에서 제거합니다.
+   */
+  private async removeIndexedFile(filePath: string): Promise<void> {
+    await this.deleteDocumentsByFilePath(filePath);
+    await this.indexingHistoryService.removeRecord(filePath);
+    await this.entityCatalogService.removeDocument(filePath);
+  }
+
+  /**
+   * 파일 하나를 증분 인덱싱 (헬퍼)
+   *
+   * @param filePath - 파일 경로
+   * @returns 처리 결과 (새 파일이면 added, 변경되었으면 updated, 변경 없으면 skipped)와
+   *   스킵한 경우 파일의 토큰 수 (그 외에는 0)
+   * @throws Error - 파일 읽기나 인덱싱에 실패한 경우
+   */
+  private async indexFileIncrementally(filePath: string): Promise<{
+    outcome: 'added' | 'updated' | 'skipped';
+    tokens: number;
+  }> {
+    const doc = await this.documentLoaderService.loadFromFile(filePath);
+
+    // 파일 해시 계산
+    const fileInfo = FileHashUtil.getFileInfo(filePath);
+
+    // 적용할 청킹 전략 (설정이 바뀌어 전략이 달라졌으면 재인덱싱)
+    const { strategy } = this.chunkingService.resolveStrategy(doc.metadata);
+    const previousStrategy =
+      this.indexingHistoryService.getFileInfo(filePath)?.chunkingStrategy;
+    const strategyChanged =
+      previousStrategy !== undefined && previousStrategy !== strategy;
+
+    // 기존 인덱싱 기록 확인
+    const indexed = this.indexingHistoryService.isIndexed(filePath);
+    if (
+      indexed &&
+      !this.indexingHistoryService.hasChanged(filePath, fileInfo.hash) &&
+      !strategyChanged
+    ) {
+      // 변경 없음 → 스킵
+      this.logger.log(`⏭️  스킵: ${doc.metadata.fileName} (변경 없음)`);
+      return {
+        outcome: 'skipped',
+        tokens: await this.embeddingService.countTokens(doc.content),
+      };
+    }
+
+    // 변경됨 → 이전 청크 삭제 후 재인덱싱
+    // 새 파일 → 추가
+    // (히스토리 초기화 후에는 이전 청크가 남아 있을 수 있으므로 먼저 삭제)
+    this.logger.log(
+      indexed
+        ? `🔄 업데이트: ${doc.metadata.fileName}`
+        : `➕ 추가: ${doc.metadata.fileName}`,
+    );
+    await this.deleteDocumentsByFilePath(filePath);
+    await this.addDocuments([doc.content], [doc.metadata]);
+
+    // 히스토리 기록
+    const chunkCount = await this.getChunkCount(doc.content, doc.metadata);
+    await this.indexingHistoryService.recordIndexing(
+      filePath,
+      fileInfo.hash,
+      fileInfo.modifiedTime,
+      chunkCount,
+      strategy,
+    );
+
+    return { outcome: indexed ? 'updated' : 'added', tokens: 0 };
+  }
+
+  /**
+   * 파일의 청크를 벡터 스토어와 키워드 인덱스에서 삭제 (헬퍼)
+   */
+  private async deleteDocumentsByFilePath(filePath: string): Promise<void> {
+    await this.vectorStoreService.deleteDocumentsByFilePath(filePath);
+    await this.keywordIndexService.deleteDocumentsByFilePath(filePath);
+  }
+
   /**
    * 텍스트의 청크 개수 계산 (헬퍼)
+   *
+   * 메타데이터(fileType)에 따라 분할 방식이 달라지므로 함께 전달합니다.
    */
-  private async getChunkCount(text: string): Promise<number> {
-    const docs = await this.chunkingService.splitTexts([text]);
+  private async getChunkCount(
+    text: string,
+    metadata: Record<string, any>,
+  ): Promise<number> {
+    const docs = await this.chunkingService.splitTexts([text], [metadata]);
     return docs.length;
   }
 
   /**
-   * 인덱싱 통계 조회
+   * 인덱싱 통계 조회 (임베딩 캐시 통계와 임베딩 API 사용량 포함)
    */
   getIndexingStats() {
-    return this.indexingHistoryService.getStats();
+    return {
+      ...this.indexingHistoryService.getStats(),
+      embeddingCache: this.embeddingService.getCacheStats(),
+      embeddingUsage: this.embeddingService.getUsage(),
+    };
+  }
+
+  /**
+   * 엔티티(회사) 카탈로그 조회
+   */
+  getEntities() {
+    return this.entityCatalogService.getEntities();
+  }
+
+  /**
+   * 프롬프트 템플릿 목록 조회 (현재 버전)
+   */
+  getPrompts() {
+    return this.promptRegistryService.getPrompts();
+  }
+
+  /**
+   * 프롬프트 템플릿 조회
+   *
+   * @param name - 템플릿 이름
+   * @param version - 버전 (생략하면 현재 버전)
+   * @throws Error - 등록되지 않은 템플릿이나 버전인 경우
+   */
+  getPrompt(name: string, version?: number) {
+    return this.promptRegistryService.getPrompt(name, version);
+  }
+
+  /**
+   * 프롬프트 템플릿 추가 또는 수정 (새 버전으로 저장)
+   *
+   * @param name - 템플릿 이름
+   * @param input - 프롬프트 텍스트, 언어, 설명
+   * @throws Error - 이름이나 템플릿 형식이 올바르지 않은 경우
+   */
+  savePrompt(name: string, input: PromptTemplateInput) {
+    return this.promptRegistryService.savePrompt(name, input);
   }
 
   /**
    * 인덱싱 히스토리 초기화
    */
-  clearIndexingHistory(): void {
-    this.indexingHistoryService.clearHistory();
+  async clearIndexingHistory(): Promise<void> {
+    await this.indexingHistoryService.clearHistory();
   }
 
   /**
    * 질문에 대한 답변 생성 (RAG 파이프라인)
    *
    * @param question - 사용자의 질문
-   * @returns 답변 텍스트와 참조된 문서들
+   * @param options - 질의 옵션 (요청별 LLM 설정 등)
+   * @returns 답변 텍스트, 참조된 문서들, 답변 방식
    *
    * RAG 프로세스:
-   * 1. VectorStoreService를 사용하여 관련 문서 검색 (상위 10개)
-   * 2. 질문에서 회사명 추출 및 Re-ranking (회사명 필터링)
-   * 3. 검색된 문서를 컨텍스트로 구성
-   * 4. LLMService를 사용하여 컨텍스트와 질문을 기반으로 답변 생성
+   * 1. 관련 문서 검색 (retrieveRelevantDocuments)
+   *    - 질문에서 회사가 2개 이상 감지되면 비교 모드로 회사별 문서를 고르게 검색
+   * 2. 검색된 문서를 컨텍스트로 구성
+   * 3. LLMService를 사용하여 컨텍스트와 질문을 기반으로 답변 생성
+   *
+   * 최소 유사도(minScore)를 넘는 문서가 없으면 LLM을 호출하지 않고
+   * status가 insufficient_context인 결과를 반환합니다.
    */
   async query(
     question: string,
-  ): Promise<{ answer: string; sourceDocuments?: Document[] }> {
-    // 1. 더 많은 문서 검색 (Re-ranking을 위해 10개 검색)
-    const candidateDocs = await this.vectorStoreService.similaritySearch(
+    options: RagQueryOptions = {},
+  ): Promise<RagQueryResult> {
+    // 1. 관련 문서 검색
+    const retrieval = await this.retrieveRelevantDocuments(question, options);
+
+    // 2. 컨텍스트 생성 + 3. LLM을 사용하여 답변 생성
+    return await this.generateFromRetrieval(question, retrieval, options);
+  }
+
+  /**
+   * 여러 회사의 정책 비교
+   *
+   * @param companies - 비교할 회사 이름 (대표 이름, 별칭, 영문 이름 모두 가능, 2개 이상)
+   * @param topics - 비교할 항목 (예: ["비밀번호 정책", "보관 기간"])
+   * @param options - 질의 옵션 (요청별 LLM 설정 등)
+   * @returns 비교 항목별 표로 작성된 답변과 참조된 문서들
+   * @throws Error - 회사가 2개 미만이거나 카탈로그에 없는 회사인 경우, 비교 항목이 없는 경우
+   */
+  async compare(
+    companies: string[],
+    topics: string[],
+    options: RagQueryOptions = {},
+  ): Promise<RagQueryResult> {
+    if (!topics || topics.length === 0) {
+      throw new Error('비교할 항목(topics)을 1개 이상 지정해주세요.');
+    }
+
+    // 회사 이름을 카탈로그의 대표 이름으로 변환
+    const entities = [
+      ...new Set(
+        (companies ?? []).map((company) => {
+          const [entity] = this.entityCatalogService.detectEntities(company);
+          if (!entity) {
+            throw new Error(`엔티티 카탈로그에 없는 회사입니다: ${company}`);
+          }
+          return entity.name;
+        }),
+      ),
+    ];
+
+    if (entities.length < 2) {
+      throw new Error('비교할 회사를 2개 이상 지정해주세요.');
+    }
+
+    const question = `${entities.join(', ')}의 ${topics.join(', ')} 비교`;
+    const documents = await this.retrieveComparisonDocuments(
+      entities,
+      topics,
+      options.filter,
+      options.weights,
+    );
+
+    return await this.generateFromRetrieval(
       question,
-      10,
+      this.toComparisonRetrieval(entities, documents, options),
+      options,
     );
+  }
+
+  /**
+   * 질문에 대한 답변을 스트리밍 생성 (RAG 파이프라인)
+   *
+   * @param question - 사용자의 질문
+   * @param options - 질의 옵션 (요청별 LLM 설정 등)
+   * @returns 스트리밍 이벤트를 순서대로 내보내는 비동기 제너레이터
+   *
+   * 이벤트 순서:
+   * 1. sources: 검색된 참조 문서, 답변 방식, 답변 상태
+   * 2. token: 답변 텍스트 조각 (여러 번, insufficient_context이면 LLM 없이 고정 문구 한 번)
+   * 3. done: 단계별 소요 시간과 토큰 사용량
+   *
+   * @throws Error - format이 json인 경우 (구조화된 답변은 검증 후 한 번에 반환해야 하므로)
+   */
+  async *queryStream(
+    question: string,
+    options: RagQueryOptions = {},
+  ): AsyncGenerator<RagStreamEvent> {
+    if (options.format === 'json') {
+      throw new Error(
+        '스트리밍은 format: "json"을 지원하지 않습니다. POST /rag/query를 사용해주세요.',
+      );
+    }
+
+    const startedAt = Date.now();
 
-    // 2. 질문에서 회사명 추출
-    const companyName = this.extractCompanyName(question);
-
-    // 3. Re-ranking: 회사명으로 필터링
-    let relevantDocs: Document[];
-    
-    if (companyName) {
-      // 회사명이 감지되면 해당 회사의 문서만 필터링
-      const filteredDocs = candidateDocs.filter((doc) => {
-        const metadata = doc.metadata;
-        const fileName = metadata.fileName?.toLowerCase() || '';
-        const docCompanyName = metadata.company_name?.toLowerCase() || '';
-        const companyNameEn = metadata.company_name_en?.toLowerCase() || '';
-        
-        const searchTerm = companyName.toLowerCase();
-        
-        // 파일명, 회사명, 영문 회사명에서 검색
-        return (
-          fileName.includes(searchTerm) ||
-          docCompanyName.includes(searchTerm) ||
-          companyNameEn.includes(searchTerm)
+    // 1. 관련 문서 검색 후 참조 문서 먼저 전달
+    const retrieval = await this.retrieveRelevantDocuments(question, options);
+    const retrievedAt = Date.now();
+    const prompt = retrieval.insufficientContext
+      ? undefined
+      : this.promptRegistryService.resolvePrompt(
+          options.prompt,
+          retrieval.mode,
         );
-      });
 
-      // 필터링된 문서가 있으면 상위 4개 사용, 없으면 원본 4개 사용
-      relevantDocs = filteredDocs.length > 0 
-        ? filteredDocs.slice(0, 4) 
-        : candidateDocs.slice(0, 4);
+    yield {
+      type: 'sources',
+      sourceDocuments: retrieval.documents,
+      mode: retrieval.mode,
+      entities: retrieval.entities,
+      reranker: retrieval.reranker,
+      rerankScores: retrieval.rerankScores,
+      similarityScores: retrieval.similarityScores,
+      status: retrieval.insufficientContext
+        ? 'insufficient_context'
+        : 'answered',
+      insufficientContext: retrieval.insufficientContext,
+      expandedQueries: retrieval.expandedQueries,
+      prompt: prompt && { name: prompt.name, version: prompt.version },
+    };
+
+    // 2. 답변을 토큰 단위로 전달 (관련 문서가 없으면 LLM 없이 고정 문구)
+    let usage: LLMTokenUsage | null = null;
+    let answer = '';
 
-      console.log(`🔍 회사명 감지: "${companyName}"`);
-      console.log(`📊 필터링 결과: ${filteredDocs.length}개 문서 (상위 ${relevantDocs.length}개 사용)`);
+    if (!prompt) {
+      answer = INSUFFICIENT_CONTEXT_ANSWER;
+      yield { type: 'token', text: answer };
     } else {
-      // 회사명이 없으면 상위 4개 사용
-      relevantDocs = candidateDocs.slice(0, 4);
-      console.log(`ℹ️  회사명 미감지 - 전체 검색 결과 사용`);
+      for await (const chunk of this.llmService.streamAnswer(
+        this.buildContext(retrieval),
+        question,
+        {
+          llm: options.llm,
+          history: options.history,
+          mode: retrieval.mode,
+          prompt: prompt.template,
+        },
+      )) {
+        if (chunk.usage) {
+          usage = chunk.usage;
+        }
+        if (chunk.text) {
+          answer += chunk.text;
+          yield { type: 'token', text: chunk.text };
+        }
+      }
     }
 
-    // 4. 컨텍스트 생성 (검색된 문서들을 하나의 텍스트로 결합)
-    const context = relevantDocs.map((doc) => doc.pageContent).join('\n\n');
+    // 3. 소요 시간, 토큰 사용량, 인용 위치 전달
+    const finishedAt = Date.now();
+    yield {
+      type: 'done',
+      timing: {
+        retrievalMs: retrievedAt - startedAt,
+        generationMs: finishedAt - retrievedAt,
+        totalMs: finishedAt - startedAt,
+      },
+      usage,
+      citations: extractCitations(answer, retrieval.documents),
+    };
+  }
+
+  /**
+   * 검색 결과로 컨텍스트를 구성하고 답변 생성
+   *
+   * 관련 문서가 없으면(insufficientContext) LLM을 호출하지 않습니다.
+   * format이 json이면 구조화된 답변을 생성하고, 인용 위치는 항목의 문서 번호로 채웁니다.
+   * 요청에서 고른(또는 기본) 프롬프트 템플릿의 이름과 버전을 결과에 기록합니다.
+   */
+  private async generateFromRetrieval(
+    question: string,
+    retrieval: RagRetrieval,
+    options: RagQueryOptions,
+  ): Promise<RagQueryResult> {
+    if (retrieval.insufficientContext) {
+      const { minScore, bestScore } = retrieval.insufficientContext;
+      this.logger.log(
+        `관련 문서 없음 (최고 유사도 ${bestScore ?? '-'}, 기준 ${minScore ?? '-'}) - LLM 호출 생략`,
+      );
+
+      const structuredAnswer =
+        options.format === 'json' ? createEmptyStructuredAnswer() : undefined;
 
-    // 5. LLM을 사용하여 답변 생성
-    const answer = await this.llmService.generateAnswer(context, question);
+      return {
+        status: 'insufficient_context',
+        answer: structuredAnswer
+          ? JSON.stringify(structuredAnswer)
+          : INSUFFICIENT_CONTEXT_ANSWER,
+        structuredAnswer,
+        sourceDocuments: [],
+        mode: retrieval.mode,
+        entities: retrieval.entities,
+        citations: [],
+        similarityScores: [],
+        insufficientContext: retrieval.insufficientContext,
+        expandedQueries: retrieval.expandedQueries,
+      };
+    }
+
+    const prompt = this.promptRegistryService.resolvePrompt(
+      options.prompt,
+      options.format === 'json' ? 'structured' : retrieval.mode,
+    );
+    let answer: string;
+    let structuredAnswer: StructuredAnswerDto | undefined;
+    let citations: Citation[];
+
+    if (options.format === 'json') {
+      const generated = await this.llmService.generateStructuredAnswer(
+        this.buildContext(retrieval),
+        question,
+        {
+          llm: options.llm,
+          history: options.history,
+          prompt: prompt.template,
+        },
+      );
+      citations = toCitations(
+        collectCitationMarkers(generated),
+        retrieval.documents,
+      );
+      structuredAnswer = { ...generated, citations };
+      answer = JSON.stringify(structuredAnswer);
+    } else {
+      answer = await this.llmService.generateAnswer(
+        this.buildContext(retrieval),
+        question,
+        {
+          llm: options.llm,
+          history: options.history,
+          mode: retrieval.mode,
+          prompt: prompt.template,
+        },
+      );
+      citations = extractCitations(answer, retrieval.documents);
+    }
+
+    this.logger.log(`프롬프트 템플릿: ${prompt.name} (버전 ${prompt.version})`);
 
     return {
+      status: 'answered',
       answer,
-      sourceDocuments: relevantDocs, // 참조된 문서들 반환 (출처 표시용)
+      structuredAnswer,
+      prompt: { name: prompt.name, version: prompt.version },
+      sourceDocuments: retrieval.documents, // 참조된 문서들 반환 (출처 표시용)
+      mode: retrieval.mode,
+      entities: retrieval.entities,
+      citations,
+      reranker: retrieval.reranker,
+      rerankScores: retrieval.rerankScores,
+      similarityScores: retrieval.similarityScores,
+      expandedQueries: retrieval.expandedQueries,
     };
   }
 
   /**
-   * 질문에서 회사명 추출
-   * 
-   * @param question - 사용자 질문
-   * @returns 추출된 회사명 또는 null
+   * 검색된 문서로 LLM 컨텍스트 생성
+   *
+   * 각 문서에 [1] 형식의 번호(sourceDocuments 순서)와 출처를 붙여
+   * 답변의 인용 표시를 원본 위치로 연결할 수 있게 합니다.
+   * - standard: 번호 붙인 문서를 빈 줄로 구분하여 결합
+   * - comparison: 번호 붙인 문서를 회사별로 묶음
    */
-  private extractCompanyName(question: string): string | null {
-    // 지원하는 회사명 목록 (한글명과 영문명)
-    const companies = [
-      { ko: '쿠팡', en: 'coupang' },
-      { ko: '토스', en: 'toss' },
-      { ko: '케이뱅크', en: 'kbank' },
-      { ko: '네이버', en: 'naver' },
-      { ko: '카카오', en: 'kakao' },
-      { ko: '삼성', en: 'samsung' },
-      { ko: '현대', en: 'hyundai' },
-      { ko: 'lg', en: 'lg' },
-      { ko: 'skt', en: 'skt' },
-      { ko: '배달의민족', en: 'woowa' },
-      { ko: '우아한형제들', en: 'woowa' },
-      { ko: '직방', en: 'zigbang' },
-    ];
+  private buildContext(retrieval: RagRetrieval): string {
+    if (retrieval.mode === 'standard') {
+      return retrieval.documents
+        .map((doc, index) => formatContextPassage(doc, index + 1))
+        .join('\n\n');
+    }
+
+    return retrieval.entities
+      .map((entity) => {
+        const passages = retrieval.documents
+          .map((doc, index) => ({ doc, marker: index + 1 }))
+          .filter(({ doc }) => doc.metadata.company_name === entity)
+          .map(({ doc, marker }) => formatContextPassage(doc, marker));
 
-    const lowerQuestion = question.toLowerCase();
+        return `### ${entity}\n\n${passages.length > 0 ? passages.join('\n\n') : '(검색된 문서 없음)'}`;
+      })
+      .join('\n\n');
+  }
+
+  /**
+   * 질문과 관련된 문서 검색
+   *
+   * @param question - 사용자의 질문
+   * @param options - 질의 옵션 (메타데이터 필터, 검색 가중치, 재순위화, 최소 유사도, 검색어 확장)
+   * @returns 답변 방식, 감지된 회사, 컨텍스트로 사용할 문서와 점수, 사용한 검색어
+   *
+   * 1. 엔티티 카탈로그로 질문에서 회사명 감지 (여러 개 가능)
+   * 2. 회사가 2개 이상이면 비교 모드: 회사별로 같은 개수씩 검색
+   * 3. 검색어 확장이 켜져 있으면 LLM으로 검색어/가상 답변 생성
+   * 4. 회사가 1개면 해당 회사 문서로 한정하여 후보 검색 (company_name 필터)
+   * 5. 한정 검색 결과가 없거나 회사명이 없으면 전체 후보 검색
+   *    (검색어별 결과를 병합, 최소 유사도를 넘지 못한 후보는 제외)
+   * 6. 후보(candidateK개)를 원래 질문 기준으로 재순위화하여 상위 finalK개 선택
+   *
+   * 최소 유사도를 넘는 후보가 없으면 documents가 비어 있고 insufficientContext가 설정됩니다.
+   */
+  private async retrieveRelevantDocuments(
+    question: string,
+    options: RagQueryOptions,
+  ): Promise<RagRetrieval> {
+    const { filter, weights } = options;
+    const minScore = options.minScore ?? this.minSimilarityScore;
 
-    for (const company of companies) {
-      if (
-        question.includes(company.ko) ||
-        lowerQuestion.includes(company.en)
-      ) {
-        return company.ko;
+    // 1. 질문에서 회사명 감지 (요청 필터에 회사 조건이 있으면 그대로 사용)
+    const entities = filter?.company_name
+      ? []
+      : this.entityCatalogService.detectEntities(question);
+    const names = entities.map((entity) => entity.name);
+
+    if (entities.length > 0) {
+      console.log(
+        `🔍 회사명 감지: ${entities.map((entity) => `"${entity.matchedText}"→${entity.name}`).join(', ')}`,
+      );
+    } else {
+      console.log(`ℹ️  회사명 미감지 - 전체 검색 결과 사용`);
+    }
+
+    // 2. 비교 모드
+    if (names.length >= 2) {
+      const documents = await this.retrieveComparisonDocuments(
+        names,
+        [question],
+        filter,
+        weights,
+      );
+      return this.toComparisonRetrieval(names, documents, options);
+    }
+
+    // 3. 검색어 확장
+    const expandedQueries = await this.queryExpansionService.expand(
+      question,
+      options.expansion,
+      options.llm,
+    );
+    const queries = expandedQueries.map(({ text }) => text);
+    if (queries.length > 1) {
+      console.log(`🔀 검색어 확장: ${queries.length}개 검색어로 검색`);
+    }
+
+    const rerank = this.rerankService.resolveOptions(options.rerank);
+    const searched: RetrievedDocument[] = [];
+    let candidates: RetrievedDocument[] = [];
+
+    // 4. 감지된 회사의 문서로 한정하여 검색
+    if (names.length === 1) {
+      const entityDocs = await this.multiQuerySearch(
+        queries,
+        rerank.candidateK,
+        { ...filter, company_name: names[0] },
+        weights,
+      );
+      searched.push(...entityDocs);
+      candidates = this.filterByMinScore(entityDocs, minScore);
+
+      console.log(`📊 회사 한정 검색 결과: ${candidates.length}개 문서`);
+    }
+
+    // 5. 전체 검색
+    if (candidates.length === 0) {
+      const documents = await this.multiQuerySearch(
+        queries,
+        rerank.candidateK,
+        filter,
+        weights,
+      );
+      searched.push(...documents);
+      candidates = this.filterByMinScore(documents, minScore);
+    }
+
+    if (candidates.length === 0) {
+      return {
+        mode: 'standard',
+        entities: names,
+        documents: [],
+        similarityScores: [],
+        insufficientContext: {
+          minScore,
+          bestScore: this.getBestSimilarity(searched),
+        },
+        expandedQueries,
+      };
+    }
+
+    // 6. 재순위화
+    const reranked = await this.rerankService.rerank(
+      question,
+      candidates,
+      rerank,
+      { entities: names, llm: options.llm },
+    );
+    const similarities = new Map(
+      candidates.map(({ document, similarity }) => [document, similarity]),
+    );
+
+    return {
+      mode: 'standard',
+      entities: names,
+      documents: reranked.map(({ document }) => document),
+      reranker: rerank.reranker,
+      rerankScores: reranked.map(({ score }) => score),
+      similarityScores: reranked.map(
+        ({ document }) => similarities.get(document)!,
+      ),
+      expandedQueries,
+    };
+  }
+
+  /**
+   * 비교 모드 검색 결과에 최소 유사도를 적용하여 RagRetrieval로 변환
+   */
+  private toComparisonRetrieval(
+    entities: string[],
+    documents: RetrievedDocument[],
+    options: RagQueryOptions,
+  ): RagRetrieval {
+    const minScore = options.minScore ?? this.minSimilarityScore;
+    const relevant = this.filterByMinScore(documents, minScore);
+
+    return {
+      mode: 'comparison',
+      entities,
+      documents: relevant.map(({ document }) => document),
+      similarityScores: relevant.map(({ similarity }) => similarity),
+      insufficientContext:
+        relevant.length === 0
+          ? { minScore, bestScore: this.getBestSimilarity(documents) }
+          : undefined,
+    };
+  }
+
+  /**
+   * 최소 유사도를 넘는 문서만 남김 (기준이 없으면 그대로)
+   */
+  private filterByMinScore(
+    documents: RetrievedDocument[],
+    minScore?: number,
+  ): RetrievedDocument[] {
+    return minScore === undefined
+      ? documents
+      : documents.filter(({ similarity }) => similarity >= minScore);
+  }
+
+  /**
+   * 검색된 문서 중 가장 높은 유사도 (문서가 없으면 null)
+   */
+  private getBestSimilarity(documents: RetrievedDocument[]): number | null {
+    return documents.length > 0
+      ? Math.max(...documents.map(({ similarity }) => similarity))
+      : null;
+  }
+
+  /**
+   * 비교 모드 문서 검색 (회사별 균등 검색)
+   *
+   * @param entities - 비교할 회사 대표 이름
+   * @param queries - 검색어 (질문 또는 비교 항목별 검색어)
+   * @param filter - 메타데이터 필터 (선택)
+   * @param weights - 하이브리드 검색 가중치 (선택)
+   * @returns 회사 순서대로 정렬된 문서와 유사도 (중복 제거)
+   *
+   * 한 회사의 문서가 상위 결과를 모두 차지하지 않도록
+   * 회사마다 검색어별로 COMPARE_DOCS_PER_ENTITY개(기본값 3)씩 검색합니다.
+   */
+  private async retrieveComparisonDocuments(
+    entities: string[],
+    queries: string[],
+    filter?: MetadataFilter,
+    weights?: Partial<RetrievalWeights>,
+  ): Promise<RetrievedDocument[]> {
+    const documents: RetrievedDocument[] = [];
+    const seen = new Set<string>();
+
+    for (const entity of entities) {
+      for (const query of queries) {
+        const entityDocs = await this.hybridSearch(
+          `${entity} ${query}`,
+          this.compareDocsPerEntity,
+          { ...filter, company_name: entity },
+          weights,
+        );
+
+        for (const result of entityDocs) {
+          const key = getDocumentKey(result.document);
+          if (!seen.has(key)) {
+            seen.add(key);
+            documents.push(result);
+          }
+        }
       }
     }
 
-    return null;
+    console.log(
+      `📊 비교 모드 검색 결과: ${entities.length}개 회사, ${documents.length}개 문서`,
+    );
+
+    return documents;
   }
 
   /**
-   * 유사 문서 검색 (벡터 검색)
+   * 유사 문서 검색 (하이브리드 검색)
    *
    * @param query - 검색할 쿼리 텍스트
    * @param k - 반환할 문서 개수 (기본값: 4)
+   * @param filter - 메타데이터 필터 (선택)
+   * @param weights - 검색 가중치 (선택, 기본값: HYBRID_VECTOR_WEIGHT, HYBRID_KEYWORD_WEIGHT)
    * @returns 유사한 문서 배열
    *
-   * VectorStoreService를 사용하여 벡터 유사도 검색을 수행합니다.
+   * 벡터 검색과 BM25 키워드 검색 결과를 각각 k * 2개씩 가져와
+   * Reciprocal Rank Fusion(가중치 / (RRF_K + 순위)의 합)으로 병합합니다.
+   * 가중치가 0인 검색은 건너뜁니다.
+   */
+  async similaritySearch(
+    query: string,
+    k: number = 4,
+    filter?: MetadataFilter,
+    weights?: Partial<RetrievalWeights>,
+  ): Promise<Document[]> {
+    const results = await this.hybridSearch(query, k, filter, weights);
+    return results.map(({ document }) => document);
+  }
+
+  /**
+   * 여러 검색어로 하이브리드 검색 후 병합
+   *
+   * 검색어별 결과를 RRF로 다시 병합하므로 여러 검색어에서 상위에 나온 문서가 앞에 옵니다.
+   * 같은 문서는 한 번만 포함되고, 유사도는 검색어별 유사도 중 가장 높은 값을 사용합니다.
    */
-  async similaritySearch(query: string, k: number = 4): Promise<Document[]> {
-    return await this.vectorStoreService.similaritySearch(query, k);
+  private async multiQuerySearch(
+    queries: string[],
+    k: number,
+    filter?: MetadataFilter,
+    weights?: Partial<RetrievalWeights>,
+  ): Promise<RetrievedDocument[]> {
+    if (queries.length === 1) {
+      return await this.hybridSearch(queries[0], k, filter, weights);
+    }
+
+    const results: RetrievedDocument[][] = [];
+    for (const query of queries) {
+      results.push(await this.hybridSearch(query, k, filter, weights));
+    }
+
+    const similarities = new Map<string, number>();
+    for (const { document, similarity } of results.flat()) {
+      const key = getDocumentKey(document);
+      similarities.set(
+        key,
+        Math.max(similarity, similarities.get(key) ?? -Infinity),
+      );
+    }
+
+    return reciprocalRankFusion(
+      results.map((documents) => ({
+        documents: documents.map(({ document }) => document),
+        weight: 1,
+      })),
+      k,
+      this.rrfK,
+    ).map((result) => ({
+      ...result,
+      similarity: similarities.get(getDocumentKey(result.document))!,
+    }));
+  }
+
+  /**
+   * 하이브리드 검색 (RRF 점수와 벡터 유사도 포함)
+   *
+   * 키워드 검색으로만 찾은 문서의 유사도는 저장된 벡터로 계산합니다.
+   */
+  private async hybridSearch(
+    query: string,
+    k: number,
+    filter?: MetadataFilter,
+    weights?: Partial<RetrievalWeights>,
+  ): Promise<RetrievedDocument[]> {
+    const { vector, keyword } = { ...this.defaultWeights, ...weights };
+    const candidateK = k * 2;
+
+    const vectorResults =
+      vector > 0
+        ? await this.vectorStoreService.similaritySearchWithScore(
+            query,
+            candidateK,
+            filter,
+          )
+        : [];
+    const keywordDocs =
+      keyword > 0
+        ? this.keywordIndexService.search(query, candidateK, filter)
+        : [];
+
+    const fused = reciprocalRankFusion(
+      [
+        {
+          documents: vectorResults.map(([document]) => document),
+          weight: vector,
+        },
+        { documents: keywordDocs, weight: keyword },
+      ],
+      k,
+      this.rrfK,
+    );
+
+    // 벡터 검색 점수가 없는 문서의 유사도 계산
+    const similarities = new Map(
+      vectorResults.map(([document, score]) => [
+        getDocumentKey(document),
+        score,
+      ]),
+    );
+    const unscored = fused
+      .map(({ document }) => document)
+      .filter((document) => !similarities.has(getDocumentKey(document)));
+    const scores = await this.vectorStoreService.scoreDocuments(
+      query,
+      unscored,
+    );
+    unscored.forEach((document, index) =>
+      similarities.set(getDocumentKey(document), scores[index]),
+    );
+
+    return fused.map((result) => ({
+      ...result,
+      similarity: similarities.get(getDocumentKey(result.document))!,
+    }));
   }
 }
@@ -0,0 +1,118 @@
+import { Injectable } from '@nestjs/common';
+import { CompanyMatchReranker } from '../rerankers/company-match-reranker';
+import { LlmReranker } from '../rerankers/llm-reranker';
+import { MmrReranker } from '../rerankers/mmr-reranker';
+import {
+  NoopReranker,
+  RERANKERS,
+  RerankCandidate,
+  RerankContext,
+  RerankOptions,
+  RerankedDocument,
+  Reranker,
+  RerankerName,
+} from '../rerankers/reranker';
+import { EmbeddingService } from './embedding.service';
+import { LLMService } from './llm.service';
+import { VectorStoreService } from './vector-store.service';
+
+/**
+ * 재순위화 서비스
+ *
+ * 검색 후보를 재순위화하여 답변 컨텍스트로 사용할 문서를 고릅니다.
+ * RERANKER 환경 변수로 기본 방식을 선택하고, 요청별로 바꿀 수 있습니다:
+ * - company-match (기본값): 질문에서 감지된 회사의 문서 우선
+ * - mmr: Maximal Marginal Relevance (저장된 벡터 사용, MMR_LAMBDA)
+ * - llm: LLM 관련도 채점 (후보 수만큼 프롬프트가 길어짐)
+ * - none: 검색 순위 그대로 사용
+ *
+ * 후보 수와 최종 문서 수는 RERANK_CANDIDATE_K(기본값 10), RERANK_FINAL_K(기본값 4)로 설정합니다.
+ */
+@Injectable()
+export class RerankService {
+  /** 방식별 재순위화기 */
+  private readonly rerankers: Map<RerankerName, Reranker>;
+
+  /** 기본 재순위화 옵션 */
+  private readonly defaults: Required<RerankOptions>;
+
+  constructor(
+    llmService: LLMService,
+    embeddingService: EmbeddingService,
+    vectorStoreService: VectorStoreService,
+  ) {
+    const mmrLambda = process.env.MMR_LAMBDA
+      ? parseFloat(process.env.MMR_LAMBDA)
+      : 0.5;
+
+    this.rerankers = new Map<RerankerName, Reranker>(
+      [
+        new NoopReranker(),
+        new CompanyMatchReranker(),
+        new MmrReranker(
+          {
+            embedQuery: (query) => embeddingService.embedQuery(query),
+            getDocumentVectors: (documents) =>
+              vectorStoreService.getDocumentVectors(documents),
+          },
+          mmrLambda,
+        ),
+        new LlmReranker(llmService),
+      ].map((reranker) => [reranker.name, reranker]),
+    );
+
+    const reranker = (process.env.RERANKER || 'company-match') as RerankerName;
+    if (!RERANKERS.includes(reranker)) {
+      throw new Error(
+        `지원하지 않는 재순위화 방식입니다: ${reranker} (${RERANKERS.join(', ')} 중 선택)`,
+      );
+    }
+
+    this.defaults = {
+      reranker,
+      candidateK: process.env.RERANK_CANDIDATE_K
+        ? parseInt(process.env.RERANK_CANDIDATE_K, 10)
+        : 10,
+      finalK: process.env.RERANK_FINAL_K
+        ? parseInt(process.env.RERANK_FINAL_K, 10)
+        : 4,
+    };
+  }
+
+  /**
+   * 요청별 옵션에 기본값 적용
+   *
+   * @param options - 요청별 재순위화 옵션 (선택)
+   * @returns 방식, 후보 수, 최종 문서 수 (후보 수는 최종 문서 수 이상)
+   */
+  resolveOptions(options: RerankOptions = {}): Required<RerankOptions> {
+    const reranker = options.reranker ?? this.defaults.reranker;
+    const finalK = options.finalK ?? this.defaults.finalK;
+    const candidateK = Math.max(
+      options.candidateK ?? this.defaults.candidateK,
+      finalK,
+    );
+
+    return { reranker, candidateK, finalK };
+  }
+
+  /**
+   * 후보 문서 재순위화
+   *
+   * @param query - 사용자 질문
+   * @param candidates - 검색 순위순 후보 문서
+   * @param options - resolveOptions로 기본값을 적용한 옵션
+   * @param context - 질문에서 감지된 회사, 요청별 모델 설정 등
+   * @returns 재순위화 점수순 문서 (최대 finalK개)
+   */
+  async rerank(
+    query: string,
+    candidates: RerankCandidate[],
+    options: Required<RerankOptions>,
+    context: RerankContext,
+  ): Promise<RerankedDocument[]> {
+    return await this.rerankers
+      .get(options.reranker)!
+      .rerank(query, candidates, options.finalK, context);
+  }
+}
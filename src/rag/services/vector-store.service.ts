@@ -1,18 +1,37 @@
 import { Injectable, OnModuleInit } from '@nestjs/common';
+import * as path from 'path';
+import {
+  BaseVectorStore,
+  EmbeddingModelMismatchError,
+  cosineSimilarity,
+} from '../stores/base-vector-store';
+import { MetadataFilter } from '../stores/metadata-filter';
 import { QdrantVectorStore } from '../stores/qdrant-vector-store';
+import { FaissVectorStore } from '../stores/faiss-vector-store';
+import { InMemoryVectorStore } from '../stores/memory-vector-store';
 import { EmbeddingService } from './embedding.service';
 import { Document } from '@langchain/core/documents';
 
+/**
+ * 지원하는 벡터 스토어 백엔드 종류
+ */
+export type VectorStoreType = 'qdrant' | 'faiss' | 'memory';
+
 /**
  * 벡터 스토어 서비스
  *
- * 벡터 데이터베이스(Qdrant) 관리 및 벡터 검색 기능을 제공합니다.
+ * 벡터 데이터베이스 관리 및 벡터 검색 기능을 제공합니다.
  * 벡터 스토어의 초기화, 문서 추가, 유사도 검색 등의 책임을 가집니다.
+ *
+ * 백엔드는 VECTOR_STORE 환경 변수로 선택합니다:
+ * - qdrant (기본값): Qdrant 서버 (QDRANT_URL, QDRANT_COLLECTION_NAME)
+ * - faiss: 로컬 디렉토리에 저장되는 FAISS 인덱스 (FAISS_STORE_PATH)
+ * - memory: 프로세스 메모리 (테스트, 오프라인 개발용)
  */
 @Injectable()
 export class VectorStoreService implements OnModuleInit {
-  /** Qdrant 벡터 스토어 인스턴스 */
-  private vectorStore: QdrantVectorStore | null = null;
+  /** 벡터 스토어 인스턴스 */
+  private vectorStore: BaseVectorStore | null = null;
 
   constructor(private readonly embeddingService: EmbeddingService) {}
 
@@ -26,30 +45,96 @@ export class VectorStoreService implements OnModuleInit {
 
   /**
    * 벡터 스토어 초기화
-   * Qdrant는 서버 기반이므로 연결만 확인
+   * Qdrant는 서버 기반이므로 연결 정보만 설정하고,
+   * FAISS는 저장 디렉토리에 기존 인덱스가 있으면 불러옵니다.
    */
   private async initializeVectorStore() {
     try {
-      const collectionName =
-        process.env.QDRANT_COLLECTION_NAME || 'rag-documents';
+      this.vectorStore = await this.createVectorStore();
 
-      // Qdrant VectorStore 초기화 (컬렉션은 문서 추가 시 자동 생성)
-      this.vectorStore = new QdrantVectorStore(
-        this.embeddingService.getEmbeddings(),
-        {
-          url: process.env.QDRANT_URL,
-          apiKey: process.env.QDRANT_API_KEY,
-          collectionName,
-          vectorSize: 1536, // OpenAI embedding 크기
-        },
-      );
+      // 다른 임베딩 모델로 만든 컬렉션에 벡터를 섞지 않도록 확인
+      await this.vectorStore.verifyEmbeddingModel();
 
       console.log(
-        `Qdrant 벡터 스토어가 초기화되었습니다. (컬렉션: ${collectionName})`,
+        `${this.vectorStore._vectorstoreType()} 벡터 스토어가 초기화되었습니다.`,
       );
     } catch (error) {
+      // 임베딩 모델 불일치는 애플리케이션 시작을 중단
+      if (error instanceof EmbeddingModelMismatchError) {
+        throw error;
+      }
+
       console.error('벡터 스토어 초기화 중 오류:', error);
-      console.error('Qdrant 서버가 실행 중인지 확인해주세요.');
+      console.error('VECTOR_STORE 설정과 백엔드 상태를 확인해주세요.');
+    }
+  }
+
+  /**
+   * 설정된 백엔드로 벡터 스토어 생성
+   *
+   * @returns 벡터 스토어 인스턴스
+   * @throws Error - 지원하지 않는 VECTOR_STORE 값이거나 faiss-node를 불러올 수 없는 경우
+   */
+  private async createVectorStore(): Promise<BaseVectorStore> {
+    const type = this.getVectorStoreType();
+    const embeddings = this.embeddingService.getEmbeddings();
+    const embeddingModel = this.embeddingService.getModelInfo();
+
+    switch (type) {
+      case 'qdrant':
+        // Qdrant VectorStore 초기화 (컬렉션은 문서 추가 시 자동 생성)
+        return new QdrantVectorStore(embeddings, {
+          url: process.env.QDRANT_URL,
+          apiKey: process.env.QDRANT_API_KEY,
+          collectionName: process.env.QDRANT_COLLECTION_NAME || 'rag-documents',
+          vectorSize: embeddingModel.dimensions, // 임베딩 모델의 벡터 크기
+          embeddingModel,
+        });
+
+      case 'faiss':
+        return FaissVectorStore.create(embeddings, {
+          directory:
+            process.env.FAISS_STORE_PATH ||
+            path.join(process.cwd(), 'vectorstore'),
+          embeddingModel,
+        });
+
+      case 'memory':
+        return new InMemoryVectorStore(embeddings);
+
+      default:
+        throw new Error(
+          `지원하지 않는 벡터 스토어입니다: ${type as string} (qdrant, faiss, memory 중 선택)`,
+        );
+    }
+  }
+
+  /**
+   * 설정된 벡터 스토어 종류 반환
+   *
+   * @returns VECTOR_STORE 환경 변수 값 (기본값: qdrant)
+   */
+  getVectorStoreType(): VectorStoreType {
+    return (
+      process.env.VECTOR_STORE || 'qdrant'
+    ).toLowerCase() as VectorStoreType;
+  }
+
+  /**
+   * 문서가 저장되는 컬렉션 이름 반환
+   *
+   * @returns 벡터 스토어 종류와 컬렉션 (예: qdrant:rag-documents, faiss:/app/vectorstore, memory)
+   */
+  getCollectionName(): string {
+    const type = this.getVectorStoreType();
+
+    switch (type) {
+      case 'qdrant':
+        return `qdrant:${process.env.QDRANT_COLLECTION_NAME || 'rag-documents'}`;
+      case 'faiss':
+        return `faiss:${process.env.FAISS_STORE_PATH || path.join(process.cwd(), 'vectorstore')}`;
+      default:
+        return type;
     }
   }
 
@@ -57,30 +142,65 @@ export class VectorStoreService implements OnModuleInit {
    * 벡터 스토어에 문서 추가
    *
    * @param documents - 추가할 문서 배열
-   * @throws Error - 벡터 스토어가 초기화되지 않은 경우
+   * @returns 저장된 청크의 포인트 ID 배열
    */
-  async addDocuments(documents: Document[]): Promise<void> {
+  async addDocuments(documents: Document[]): Promise<string[]> {
     if (!this.vectorStore) {
       // 벡터 스토어가 없으면 새로 생성
-      const collectionName =
-        process.env.QDRANT_COLLECTION_NAME || 'rag-documents';
-      this.vectorStore = await QdrantVectorStore.fromDocuments(
-        documents,
-        this.embeddingService.getEmbeddings(),
-        {
-          url: process.env.QDRANT_URL,
-          apiKey: process.env.QDRANT_API_KEY,
-          collectionName,
-          vectorSize: 1536,
-        },
-      );
-    } else {
-      // 기존 벡터 스토어에 문서 추가
-      await this.vectorStore.addDocuments(documents);
+      this.vectorStore = await this.createVectorStore();
+    }
+
+    // 벡터 스토어에 문서 추가
+    const ids = await this.vectorStore.addDocuments(documents);
+
+    console.log(
+      `${this.vectorStore._vectorstoreType()} 벡터 스토어에 ${documents.length}개의 문서 청크를 추가했습니다.`,
+    );
+
+    return ids;
+  }
+
+  /**
+   * 이미 생성된 벡터로 문서 추가 (다시 임베딩하지 않음)
+   *
+   * @param vectors - 문서 순서와 같은 순서의 벡터 배열
+   * @param documents - 추가할 문서 배열
+   * @returns 저장된 청크의 포인트 ID 배열
+   */
+  async addVectors(
+    vectors: number[][],
+    documents: Document[],
+  ): Promise<string[]> {
+    if (!this.vectorStore) {
+      this.vectorStore = await this.createVectorStore();
+    }
+
+    const ids = await this.vectorStore.addVectors(vectors, documents);
+
+    console.log(
+      `${this.vectorStore._vectorstoreType()} 벡터 스토어에 ${documents.length}개의 문서 청크를 추가했습니다. (임베딩 재사용)`,
+    );
+
+    return ids;
+  }
+
+  /**
+   * 파일 경로로 문서 청크 삭제
+   *
+   * @param filePath - 삭제할 문서의 원본 파일 경로
+   *
+   * 해당 파일에서 생성된 모든 청크를 벡터 스토어에서 제거합니다.
+   * 벡터 스토어가 아직 없으면 삭제할 청크도 없으므로 아무 작업도 하지 않습니다.
+   */
+  async deleteDocumentsByFilePath(filePath: string): Promise<void> {
+    if (!this.vectorStore) {
+      return;
     }
 
+    await this.vectorStore.deleteByFilePath(filePath);
+
     console.log(
-      `Qdrant 벡터 스토어에 ${documents.length}개의 문서 청크를 추가했습니다.`,
+      `${this.vectorStore._vectorstoreType()} 벡터 스토어에서 '${filePath}'의 청크를 삭제했습니다.`,
     );
   }
 
@@ -89,17 +209,110 @@ export class VectorStoreService implements OnModuleInit {
    *
    * @param query - 검색할 쿼리 텍스트
    * @param k - 반환할 문서 개수 (기본값: 4)
+   * @param filter - 메타데이터 필터 (선택)
    * @returns 유사한 문서 배열
    * @throws Error - 벡터 스토어가 초기화되지 않은 경우
    */
-  async similaritySearch(query: string, k: number = 4): Promise<Document[]> {
+  async similaritySearch(
+    query: string,
+    k: number = 4,
+    filter?: MetadataFilter,
+  ): Promise<Document[]> {
+    if (!this.vectorStore) {
+      throw new Error(
+        '벡터 스토어가 초기화되지 않았습니다. 먼저 문서를 추가해주세요.',
+      );
+    }
+
+    return await this.vectorStore.similaritySearch(query, k, filter);
+  }
+
+  /**
+   * 유사 문서 검색 (점수 포함)
+   *
+   * @param query - 검색할 쿼리 텍스트
+   * @param k - 반환할 문서 개수 (기본값: 4)
+   * @param filter - 메타데이터 필터 (선택)
+   * @returns [문서, 유사도 점수] 튜플 배열
+   * @throws Error - 벡터 스토어가 초기화되지 않은 경우
+   */
+  async similaritySearchWithScore(
+    query: string,
+    k: number = 4,
+    filter?: MetadataFilter,
+  ): Promise<[Document, number][]> {
     if (!this.vectorStore) {
       throw new Error(
         '벡터 스토어가 초기화되지 않았습니다. 먼저 문서를 추가해주세요.',
       );
     }
 
-    return await this.vectorStore.similaritySearch(query, k);
+    return await this.vectorStore.similaritySearchWithScore(query, k, filter);
+  }
+
+  /**
+   * 검색된 문서의 벡터 조회
+   *
+   * @param documents - 검색된 청크 배열
+   * @returns 문서 순서와 같은 순서의 벡터 배열
+   * @throws Error - 벡터 스토어가 초기화되지 않은 경우
+   *
+   * 벡터 스토어에 저장된 벡터를 사용하고,
+   * 꺼낼 수 없는 문서(chunkIndex가 없는 청크, 벡터 없이 저장된 이전 FAISS 인덱스)만 다시 임베딩합니다.
+   */
+  async getDocumentVectors(documents: Document[]): Promise<number[][]> {
+    if (!this.vectorStore) {
+      throw new Error(
+        '벡터 스토어가 초기화되지 않았습니다. 먼저 문서를 추가해주세요.',
+      );
+    }
+
+    const vectorStore = this.vectorStore;
+    const ids = documents.map((doc) => vectorStore.getPointId(doc));
+    const stored = await vectorStore.getVectors(
+      ids.filter((id): id is string => id !== null),
+    );
+
+    const missing = documents.filter((_, index) => {
+      const id = ids[index];
+      return id === null || !stored.has(id);
+    });
+    const embedded =
+      missing.length > 0
+        ? await this.embeddingService.embedDocuments(
+            missing.map((doc) => doc.pageContent),
+          )
+        : [];
+
+    let embeddedIndex = 0;
+    return documents.map((_, index) => {
+      const id = ids[index];
+      return id !== null && stored.has(id)
+        ? stored.get(id)!
+        : embedded[embeddedIndex++];
+    });
+  }
+
+  /**
+   * 질문과 문서의 유사도 계산
+   *
+   * @param query - 질문
+   * @param documents - 청크 배열 (키워드 검색으로만 찾은 문서 등)
+   * @returns 문서 순서와 같은 순서의 코사인 유사도 (벡터 검색 점수와 같은 척도)
+   * @throws Error - 벡터 스토어가 초기화되지 않은 경우
+   */
+  async scoreDocuments(
+    query: string,
+    documents: Document[],
+  ): Promise<number[]> {
+    if (documents.length === 0) {
+      return [];
+    }
+
+    const vectors = await this.getDocumentVectors(documents);
+    const queryVector = await this.embeddingService.embedQuery(query);
+
+    return vectors.map((vector) => cosineSimilarity(queryVector, vector));
   }
 
   /**
@@ -122,9 +335,9 @@ export class VectorStoreService implements OnModuleInit {
   /**
    * 벡터 스토어 인스턴스 반환
    *
-   * @returns QdrantVectorStore 인스턴스 또는 null
+   * @returns 벡터 스토어 인스턴스 또는 null
    */
-  getVectorStore(): QdrantVectorStore | null {
+  getVectorStore(): BaseVectorStore | null {
     return this.vectorStore;
   }
 }
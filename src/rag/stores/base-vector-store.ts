@@ -0,0 +1,222 @@
+import { VectorStore } from '@langchain/core/vectorstores';
+import { Document } from '@langchain/core/documents';
+import { FileHashUtil } from '../utils/file-hash.util';
+import { EmbeddingModelInfo } from '../embeddings/embedding-providers';
+import { MetadataFilter, matchesMetadataFilter } from './metadata-filter';
+
+/**
+ * 임베딩 모델 불일치 오류
+ *
+ * 벡터 스토어에 기록된 임베딩 모델과 현재 설정된 모델이 다를 때 발생합니다.
+ * 서로 다른 모델의 벡터는 비교할 수 없으므로 애플리케이션 시작을 중단합니다.
+ */
+export class EmbeddingModelMismatchError extends Error {
+  constructor(recorded: string, configured: string) {
+    super(
+      `벡터 스토어는 ${recorded} 모델로 생성되었지만 현재 설정은 ${configured}입니다. ` +
+        '임베딩 설정을 되돌리거나 다른 컬렉션/저장 경로를 사용한 뒤 재인덱싱해주세요.',
+    );
+    this.name = 'EmbeddingModelMismatchError';
+  }
+}
+
+/**
+ * 임베딩 모델 정보를 읽기 쉬운 문자열로 변환
+ *
+ * @param model - 임베딩 모델 정보
+ * @returns 예: "openai/text-embedding-ada-002 (1536차원)"
+ */
+export function describeEmbeddingModel(model: EmbeddingModelInfo): string {
+  return `${model.provider}/${model.model} (${model.dimensions}차원)`;
+}
+
+/**
+ * 벡터 스토어 공통 베이스 클래스
+ *
+ * 모든 벡터 스토어 백엔드(Qdrant, FAISS, 메모리)가 구현해야 하는
+ * 추가/검색/삭제/필터 동작을 정의합니다.
+ * 포인트 ID 생성 방식과 메타데이터 필터 판정은 모든 백엔드가 공유합니다.
+ */
+export abstract class BaseVectorStore extends VectorStore {
+  declare FilterType: MetadataFilter;
+
+  /** 이 스토어에 벡터를 저장하는 임베딩 모델 정보 (없으면 모델 확인 생략) */
+  protected embeddingModel?: EmbeddingModelInfo;
+
+  /**
+   * 문서를 벡터 스토어에 추가
+   *
+   * @param documents - 추가할 문서 배열
+   * @returns 생성된 문서 ID 배열
+   *
+   * 문서 텍스트를 임베딩한 뒤 addVectors로 위임합니다.
+   */
+  async addDocuments(documents: Document[]): Promise<string[]> {
+    const texts = documents.map((doc) => doc.pageContent);
+    const embeddings = await this.embeddings.embedDocuments(texts);
+
+    return await this.addVectors(embeddings, documents);
+  }
+
+  /**
+   * 벡터로 직접 추가
+   *
+   * @param vectors - 이미 생성된 벡터 배열
+   * @param documents - 해당하는 문서 배열
+   * @returns 생성된 문서 ID 배열
+   *
+   * 같은 ID의 문서가 이미 있으면 덮어씁니다.
+   */
+  abstract addVectors(
+    vectors: number[][],
+    documents: Document[],
+  ): Promise<string[]>;
+
+  /**
+   * 벡터로 유사도 검색 (점수 포함)
+   *
+   * @param query - 검색할 벡터
+   * @param k - 반환할 문서 개수
+   * @param filter - 메타데이터 필터 (선택)
+   * @returns [문서, 유사도 점수] 튜플 배열 (점수 내림차순)
+   */
+  abstract similaritySearchVectorWithScore(
+    query: number[],
+    k: number,
+    filter?: MetadataFilter,
+  ): Promise<[Document, number][]>;
+
+  /**
+   * 파일 경로로 문서 청크 삭제
+   *
+   * @param filePath - 삭제할 문서의 원본 파일 경로 (metadata.filePath)
+   */
+  abstract deleteByFilePath(filePath: string): Promise<void>;
+
+  /**
+   * 포인트 ID로 저장된 벡터 조회
+   *
+   * @param ids - 포인트 ID 배열
+   * @returns 포인트 ID별 벡터 (저장된 벡터를 꺼낼 수 없는 포인트는 제외)
+   */
+  abstract getVectors(ids: string[]): Promise<Map<string, number[]>>;
+
+  /**
+   * 저장된 벡터의 임베딩 모델 확인
+   *
+   * 스토어에 기록된 임베딩 모델이 현재 설정과 다르면
+   * EmbeddingModelMismatchError를 던집니다.
+   * 기록이 없으면 현재 모델을 기록합니다.
+   */
+  abstract verifyEmbeddingModel(): Promise<void>;
+
+  /**
+   * 기록된 임베딩 모델이 현재 모델과 같은지 확인
+   *
+   * @param recorded - 스토어에 기록된 임베딩 모델 정보
+   * @throws EmbeddingModelMismatchError - 제공자, 모델, 차원 수 중 하나라도 다른 경우
+   */
+  protected assertSameEmbeddingModel(recorded: EmbeddingModelInfo): void {
+    if (!this.embeddingModel) {
+      return;
+    }
+
+    const { provider, model, dimensions } = this.embeddingModel;
+    if (
+      recorded.provider !== provider ||
+      recorded.model !== model ||
+      recorded.dimensions !== dimensions
+    ) {
+      throw new EmbeddingModelMismatchError(
+        describeEmbeddingModel(recorded),
+        describeEmbeddingModel(this.embeddingModel),
+      );
+    }
+  }
+
+  /**
+   * 문서별 포인트 ID 생성
+   *
+   * @param documents - ID를 생성할 문서 배열
+   * @returns 문서 순서와 같은 순서의 ID 배열
+   *
+   * 원본 경로(metadata.filePath 또는 metadata.source)별로 청크 순번을 매기고,
+   * FileHashUtil.calculateChunkId로 UUID를 생성합니다.
+   * metadata.chunkIndex가 있으면 그 값을 순번으로 사용합니다.
+   */
+  protected createPointIds(documents: Document[]): string[] {
+    const counters = new Map<string, number>();
+
+    return documents.map((doc) => {
+      const source = String(doc.metadata.filePath ?? doc.metadata.source ?? '');
+      const nextIndex = counters.get(source) ?? 0;
+      counters.set(source, nextIndex + 1);
+
+      const chunkIndex =
+        typeof doc.metadata.chunkIndex === 'number'
+          ? doc.metadata.chunkIndex
+          : nextIndex;
+
+      return FileHashUtil.calculateChunkId(source, chunkIndex, doc.pageContent);
+    });
+  }
+
+  /**
+   * 검색 결과 문서의 포인트 ID 계산
+   *
+   * @param document - 검색된 청크 (metadata.chunkIndex 필요)
+   * @returns 포인트 ID (chunkIndex가 없어 알 수 없으면 null)
+   */
+  getPointId(document: Document): string | null {
+    if (typeof document.metadata.chunkIndex !== 'number') {
+      return null;
+    }
+
+    return FileHashUtil.calculateChunkId(
+      String(document.metadata.filePath ?? document.metadata.source ?? ''),
+      document.metadata.chunkIndex,
+      document.pageContent,
+    );
+  }
+
+  /**
+   * 문서 메타데이터가 필터 조건을 만족하는지 확인
+   *
+   * @param metadata - 문서 메타데이터
+   * @param filter - 메타데이터 필터
+   * @returns 모든 조건을 만족하면 true
+   *
+   * 네이티브 필터가 없는 백엔드(FAISS, 메모리)에서 사용합니다.
+   */
+  protected matchesFilter(
+    metadata: Record<string, any>,
+    filter?: MetadataFilter,
+  ): boolean {
+    return matchesMetadataFilter(metadata, filter);
+  }
+}
+
+/**
+ * 두 벡터의 코사인 유사도 계산
+ *
+ * @param a - 첫 번째 벡터
+ * @param b - 두 번째 벡터
+ * @returns -1 ~ 1 사이의 유사도 (영벡터가 있으면 0)
+ */
+export function cosineSimilarity(a: number[], b: number[]): number {
+  let dot = 0;
+  let normA = 0;
+  let normB = 0;
+
+  for (let i = 0; i < a.length; i++) {
+    dot += a[i] * b[i];
+    normA += a[i] * a[i];
+    normB += b[i] * b[i];
+  }
+
+  if (normA === 0 || normB === 0) {
+    return 0;
+  }
+
+  return dot / (Math.sqrt(normA) * Math.sqrt(normB));
+}
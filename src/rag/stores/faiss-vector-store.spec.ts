@@ -0,0 +1,221 @@
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import { Document } from '@langchain/core/documents';
+import { Embeddings } from '@langchain/core/embeddings';
+import { EmbeddingModelMismatchError } from './base-vector-store';
+import { FaissModule, FaissVectorStore } from './faiss-vector-store';
+
+/**
+ * 네이티브 모듈 대신 사용할 IndexFlatIP (내적 전수 검색, 파일은 JSON으로 저장)
+ */
+class IndexFlatIP {
+  private vectors: number[][] = [];
+
+  constructor(private readonly dimension: number) {}
+
+  static read(fname: string): IndexFlatIP {
+    const { dimension, vectors } = JSON.parse(
+      fs.readFileSync(fname, 'utf-8'),
+    ) as { dimension: number; vectors: number[][] };
+    const index = new IndexFlatIP(dimension);
+    index.vectors = vectors;
+    return index;
+  }
+
+  ntotal(): number {
+    return this.vectors.length;
+  }
+
+  add(x: number[]): void {
+    for (let i = 0; i < x.length; i += this.dimension) {
+      this.vectors.push(x.slice(i, i + this.dimension));
+    }
+  }
+
+  search(x: number[], k: number) {
+    const ranked = this.vectors
+      .map((vector, label) => ({
+        label,
+        distance: vector.reduce((sum, value, i) => sum + value * x[i], 0),
+      }))
+      .sort((a, b) => b.distance - a.distance)
+      .slice(0, k);
+
+    return {
+      labels: ranked.map(({ label }) => label),
+      distances: ranked.map(({ distance }) => distance),
+    };
+  }
+
+  removeIds(ids: number[]): number {
+    const removed = new Set(ids);
+    this.vectors = this.vectors.filter((_, label) => !removed.has(label));
+    return removed.size;
+  }
+
+  write(fname: string): void {
+    fs.writeFileSync(
+      fname,
+      JSON.stringify({ dimension: this.dimension, vectors: this.vectors }),
+    );
+  }
+}
+
+const faiss = { IndexFlatIP } as unknown as FaissModule;
+
+/**
+ * 키워드 등장 여부로 벡터를 만드는 테스트용 임베딩
+ */
+class KeywordEmbeddings extends Embeddings {
+  private readonly keywords = ['비밀번호', '보관', '쿠키'];
+
+  constructor() {
+    super({});
+  }
+
+  embedDocuments(texts: string[]): Promise<number[][]> {
+    return Promise.resolve(texts.map((text) => this.toVector(text)));
+  }
+
+  embedQuery(text: string): Promise<number[]> {
+    return Promise.resolve(this.toVector(text));
+  }
+
+  private toVector(text: string): number[] {
+    return this.keywords.map((keyword) => (text.includes(keyword) ? 1 : 0));
+  }
+}
+
+describe('FaissVectorStore', () => {
+  let directory: string;
+  let store: FaissVectorStore;
+
+  const open = (model = 'keyword') =>
+    new FaissVectorStore(
+      new KeywordEmbeddings(),
+      {
+        directory,
+        embeddingModel: { provider: 'local', model, dimensions: 3 },
+      },
+      faiss,
+    );
+
+  const kakaoPassword = new Document({
+    pageContent: '비밀번호는 8자 이상',
+    metadata: { filePath: 'kakao.json', company_name: '카카오', chunkIndex: 0 },
+  });
+
+  beforeEach(async () => {
+    directory = fs.mkdtempSync(path.join(os.tmpdir(), 'faiss-store-'));
+    store = open();
+    await store.addDocuments([
+      kakaoPassword,
+      new Document({
+        pageContent: '보관 기간은 1년',
+        metadata: {
+          filePath: 'kakao.json',
+          company_name: '카카오',
+          chunkIndex: 1,
+        },
+      }),
+      new Document({
+        pageContent: '비밀번호 변경 주기',
+        metadata: {
+          filePath: 'naver.json',
+          company_name: '네이버',
+          chunkIndex: 0,
+        },
+      }),
+    ]);
+  });
+
+  afterEach(() => {
+    fs.rmSync(directory, { recursive: true, force: true });
+  });
+
+  it('should return the most similar documents first', async () => {
+    const results = await store.similaritySearchWithScore('비밀번호 정책', 2);
+
+    expect(results).toHaveLength(2);
+    expect(results.every(([doc]) => doc.pageContent.includes('비밀번호'))).toBe(
+      true,
+    );
+    expect(results[0][1]).toBeCloseTo(1);
+  });
+
+  it('should apply metadata filters before top-k', async () => {
+    const results = await store.similaritySearch('비밀번호', 1, {
+      company_name: '네이버',
+    });
+
+    expect(results).toHaveLength(1);
+    expect(results[0].metadata.filePath).toBe('naver.json');
+  });
+
+  it('should delete every chunk of a file', async () => {
+    await store.deleteByFilePath('kakao.json');
+
+    const results = await store.similaritySearch('비밀번호 보관', 4);
+    expect(results).toHaveLength(1);
+    expect(results[0].metadata.filePath).toBe('naver.json');
+  });
+
+  it('should reload the index and stored vectors from the directory', async () => {
+    const reloaded = open();
+    const id = reloaded.getPointId(kakaoPassword)!;
+
+    const results = await reloaded.similaritySearch('보관', 1);
+    expect(results[0].pageContent).toBe('보관 기간은 1년');
+    expect(await reloaded.getVectors([id, 'unknown'])).toEqual(
+      new Map([[id, [1, 0, 0]]]),
+    );
+  });
+
+  it('should replace the index and docstore together on save', async () => {
+    const before = fs.readdirSync(directory);
+    await store.deleteByFilePath('naver.json');
+
+    // 저장마다 새 인덱스 파일을 쓰고, 문서 저장소가 가리키지 않는 파일은 지움
+    const files = fs.readdirSync(directory);
+    const docstore = JSON.parse(
+      fs.readFileSync(path.join(directory, 'docstore.json'), 'utf-8'),
+    ) as { indexFile: string; ids: string[] };
+    expect(files.sort()).toEqual(['docstore.json', docstore.indexFile].sort());
+    expect(before).not.toContain(docstore.indexFile);
+    expect(docstore.ids).toHaveLength(2);
+    expect(open().getPointId(kakaoPassword)).toBeDefined();
+  });
+
+  it('should load an index saved as faiss.index by an older version', () => {
+    const docstorePath = path.join(directory, 'docstore.json');
+    const { indexFile, ...docstore } = JSON.parse(
+      fs.readFileSync(docstorePath, 'utf-8'),
+    ) as { indexFile: string };
+    fs.renameSync(
+      path.join(directory, indexFile),
+      path.join(directory, 'faiss.index'),
+    );
+    fs.writeFileSync(docstorePath, JSON.stringify(docstore));
+
+    expect(open().getPointId(kakaoPassword)).toBeDefined();
+  });
+
+  it('should reject an index that does not match the docstore', () => {
+    const docstorePath = path.join(directory, 'docstore.json');
+    const docstore = JSON.parse(fs.readFileSync(docstorePath, 'utf-8')) as {
+      ids: string[];
+    };
+    docstore.ids.pop();
+    fs.writeFileSync(docstorePath, JSON.stringify(docstore));
+
+    expect(() => open()).toThrow('FAISS 인덱스와 문서 저장소가 맞지 않습니다');
+  });
+
+  it('should reject an index created with another embedding model', async () => {
+    await expect(open().verifyEmbeddingModel()).resolves.toBeUndefined();
+    await expect(open('other').verifyEmbeddingModel()).rejects.toThrow(
+      EmbeddingModelMismatchError,
+    );
+  });
+});
@@ -0,0 +1,403 @@
+import { randomUUID } from 'crypto';
+import * as fs from 'fs';
+import * as path from 'path';
+import type { IndexFlatIP } from 'faiss-node';
+import { Logger } from '@nestjs/common';
+import { Document } from '@langchain/core/documents';
+import { Embeddings } from '@langchain/core/embeddings';
+import { BaseVectorStore } from './base-vector-store';
+import { MetadataFilter } from './metadata-filter';
+import { EmbeddingModelInfo } from '../embeddings/embedding-providers';
+import { FileLockUtil } from '../utils/file-lock.util';
+
+/**
+ * FAISS VectorStore 설정 인터페이스
+ */
+export interface FaissVectorStoreConfig {
+  directory: string; // 인덱스를 저장할 로컬 디렉토리
+  embeddingModel?: EmbeddingModelInfo; // 인덱스에 기록할 임베딩 모델 정보
+}
+
+/**
+ * 디스크에 저장되는 문서 저장소 형식 (docstore.json)
+ */
+interface FaissDocstore {
+  /** 벡터를 생성한 임베딩 모델 */
+  embeddingModel?: EmbeddingModelInfo;
+  /** 이 문서 저장소와 함께 저장한 FAISS 인덱스 파일명 (이전 버전은 faiss.index) */
+  indexFile?: string;
+  /** FAISS 인덱스 위치(순번)와 같은 순서의 포인트 ID */
+  ids: string[];
+  /** FAISS 인덱스 위치와 같은 순서의 문서 */
+  documents: { pageContent: string; metadata: Record<string, any> }[];
+  /**
+   * FAISS 인덱스 위치와 같은 순서의 정규화된 벡터
+   * (이전 버전에서 저장한 파일에는 없고, 그때 저장된 청크는 null)
+   */
+  vectors?: (number[] | null)[];
+}
+
+/** 이전 버전의 FAISS 인덱스 파일명 */
+const LEGACY_INDEX_FILE_NAME = 'faiss.index';
+
+/** FAISS 인덱스 파일명 패턴 (저장할 때마다 새 이름을 사용) */
+const INDEX_FILE_PATTERN = /^faiss(\.[0-9a-f-]+)?\.index$/;
+
+/** 문서 저장소 파일명 */
+const DOCSTORE_FILE_NAME = 'docstore.json';
+
+/** faiss-node 모듈 타입 */
+export type FaissModule = typeof import('faiss-node');
+
+/**
+ * 벡터를 단위 벡터로 정규화
+ *
+ * 내적(Inner Product) 인덱스에서 코사인 유사도를 얻기 위해 사용합니다.
+ */
+function normalize(vector: number[]): number[] {
+  const norm = Math.sqrt(vector.reduce((sum, value) => sum + value * value, 0));
+  return norm === 0 ? vector : vector.map((value) => value / norm);
+}
+
+/**
+ * FAISS를 사용하는 VectorStore 구현
+ *
+ * faiss-node의 IndexFlatIP(내적 전수 검색)에 정규화된 벡터를 저장하여
+ * 코사인 유사도 검색을 수행하고, 인덱스와 문서를 로컬 디렉토리에 저장합니다.
+ *
+ * 저장 구조:
+ * - {directory}/faiss.{uuid}.index: FAISS 인덱스 (저장할 때마다 새 파일)
+ * - {directory}/docstore.json: 인덱스 파일명, 포인트 ID, 문서, 정규화된 벡터 (인덱스 위치 순서)
+ *
+ * 새 인덱스 파일을 먼저 쓰고 docstore.json을 임시 파일에서 이름을 바꿔 교체하므로
+ * 저장 도중 종료되어도 인덱스와 문서 저장소가 서로 다른 시점의 내용이 되지 않습니다.
+ *
+ * FAISS는 payload 필터를 지원하지 않으므로
+ * 메타데이터 필터와 파일 경로 삭제는 문서 저장소를 기준으로 처리합니다.
+ */
+export class FaissVectorStore extends BaseVectorStore {
+  private readonly logger = new Logger(FaissVectorStore.name);
+
+  /** FAISS 인덱스 (첫 문서 추가 시 생성) */
+  private index: IndexFlatIP | null = null;
+
+  /** 인덱스 위치별 포인트 ID */
+  private ids: string[] = [];
+
+  /** 인덱스 위치별 문서 */
+  private documents: Document[] = [];
+
+  /**
+   * 인덱스 위치별 정규화된 벡터
+   *
+   * faiss-node는 인덱스에서 벡터를 꺼내는 API(reconstruct)를 제공하지 않으므로
+   * 문서 저장소에 함께 보관합니다. (벡터 없이 저장된 이전 파일의 청크는 null)
+   */
+  private vectors: (number[] | null)[] = [];
+
+  /** faiss-node 모듈 */
+  private readonly faiss: FaissModule;
+
+  /** 저장 디렉토리 */
+  private readonly directory: string;
+
+  /** 저장된 인덱스에 기록된 임베딩 모델 */
+  private recordedEmbeddingModel?: EmbeddingModelInfo;
+
+  /**
+   * 벡터 스토어 타입 반환
+   */
+  _vectorstoreType(): string {
+    return 'faiss';
+  }
+
+  /**
+   * faiss-node를 불러와 FaissVectorStore 생성
+   *
+   * 네이티브 바이너리가 필요한 모듈이므로 FAISS 백엔드를 사용할 때만 로드합니다.
+   * (Qdrant/메모리 백엔드만 사용하는 환경에서는 빌드되지 않아도 됩니다.)
+   *
+   * @param embeddings - 텍스트를 벡터로 변환하는 임베딩 모델
+   * @param config - FAISS 설정
+   * @returns 저장 디렉토리의 기존 인덱스를 불러온 벡터 스토어
+   * @throws Error - faiss-node를 불러올 수 없는 경우
+   */
+  static async create(
+    embeddings: Embeddings,
+    config: FaissVectorStoreConfig,
+  ): Promise<FaissVectorStore> {
+    let faiss: FaissModule;
+    try {
+      // CommonJS 모듈이므로 module.exports는 default로 전달됨
+      faiss = (await import('faiss-node')).default;
+    } catch (error) {
+      throw new Error(
+        `faiss-node를 불러올 수 없습니다. 네이티브 모듈 설치를 확인해주세요: ${(error as Error).message}`,
+      );
+    }
+
+    return new FaissVectorStore(embeddings, config, faiss);
+  }
+
+  /**
+   * FaissVectorStore 생성자
+   *
+   * @param embeddings - 텍스트를 벡터로 변환하는 임베딩 모델
+   * @param config - FAISS 설정
+   * @param faiss - faiss-node 모듈
+   *
+   * 저장 디렉토리에 기존 인덱스가 있으면 불러옵니다.
+   */
+  constructor(
+    embeddings: Embeddings,
+    config: FaissVectorStoreConfig,
+    faiss: FaissModule,
+  ) {
+    super(embeddings, {});
+
+    this.faiss = faiss;
+    this.directory = config.directory;
+    this.embeddingModel = config.embeddingModel;
+    this.load();
+  }
+
+  /**
+   * 벡터로 직접 추가
+   *
+   * @param vectors - 이미 생성된 벡터 배열
+   * @param documents - 해당하는 문서 배열
+   * @returns 생성된 문서 ID 배열
+   *
+   * 같은 ID가 이미 있으면 기존 벡터를 제거한 뒤 다시 추가합니다.
+   */
+  addVectors(vectors: number[][], documents: Document[]): Promise<string[]> {
+    if (documents.length === 0) {
+      return Promise.resolve([]);
+    }
+
+    const ids = this.createPointIds(documents);
+
+    // 같은 ID의 기존 벡터 제거 (덮어쓰기)
+    const idSet = new Set(ids);
+    this.removePositions(
+      this.ids.flatMap((id, position) => (idSet.has(id) ? [position] : [])),
+    );
+
+    if (!this.index) {
+      this.index = new this.faiss.IndexFlatIP(vectors[0].length);
+    }
+
+    const normalized = vectors.map((vector) => normalize(vector));
+    this.index.add(normalized.flat());
+    this.ids.push(...ids);
+    this.vectors.push(...normalized);
+    this.documents.push(
+      ...documents.map(
+        (doc) =>
+          new Document({
+            pageContent: doc.pageContent,
+            metadata: { ...doc.metadata },
+          }),
+      ),
+    );
+
+    this.save();
+
+    return Promise.resolve(ids);
+  }
+
+  /**
+   * 벡터로 유사도 검색 (점수 포함)
+   *
+   * @param query - 검색할 벡터
+   * @param k - 반환할 문서 개수
+   * @param filter - 메타데이터 필터 (선택)
+   * @returns [문서, 유사도 점수] 튜플 배열 (점수 내림차순)
+   *
+   * 필터가 있으면 전체 인덱스를 검색한 뒤 조건에 맞는 문서만 남깁니다.
+   */
+  similaritySearchVectorWithScore(
+    query: number[],
+    k: number,
+    filter?: MetadataFilter,
+  ): Promise<[Document, number][]> {
+    if (!this.index || this.index.ntotal() === 0) {
+      return Promise.resolve([]);
+    }
+
+    const total = this.index.ntotal();
+    const searchK = filter ? total : Math.min(k, total);
+    const { labels, distances } = this.index.search(normalize(query), searchK);
+
+    const results: [Document, number][] = [];
+    for (let i = 0; i < labels.length && results.length < k; i++) {
+      const document = this.documents[labels[i]];
+      if (document && this.matchesFilter(document.metadata, filter)) {
+        results.push([document, distances[i]]);
+      }
+    }
+
+    return Promise.resolve(results);
+  }
+
+  /**
+   * 파일 경로로 문서 청크 삭제
+   *
+   * @param filePath - 삭제할 문서의 원본 파일 경로 (metadata.filePath)
+   */
+  deleteByFilePath(filePath: string): Promise<void> {
+    const positions = this.documents.flatMap((doc, position) =>
+      doc.metadata.filePath === filePath ? [position] : [],
+    );
+
+    if (positions.length > 0) {
+      this.removePositions(positions);
+      this.save();
+    }
+
+    return Promise.resolve();
+  }
+
+  /**
+   * 포인트 ID로 저장된 벡터 조회
+   *
+   * @param ids - 조회할 포인트 ID 배열
+   * @returns ID별 정규화된 벡터 (없는 ID와 벡터 없이 저장된 청크는 제외)
+   */
+  getVectors(ids: string[]): Promise<Map<string, number[]>> {
+    const positions = new Map(this.ids.map((id, position) => [id, position]));
+    const vectors = new Map<string, number[]>();
+
+    for (const id of ids) {
+      const vector = this.vectors[positions.get(id) ?? -1];
+      if (vector) {
+        vectors.set(id, vector);
+      }
+    }
+
+    return Promise.resolve(vectors);
+  }
+
+  /**
+   * 저장된 인덱스의 임베딩 모델 확인
+   *
+   * @throws EmbeddingModelMismatchError - 다른 모델로 생성된 인덱스인 경우
+   */
+  verifyEmbeddingModel(): Promise<void> {
+    try {
+      if (this.recordedEmbeddingModel) {
+        this.assertSameEmbeddingModel(this.recordedEmbeddingModel);
+      }
+    } catch (error) {
+      // 다른 스토어처럼 예외 대신 거부된 Promise로 반환
+      return Promise.reject(error as Error);
+    }
+
+    return Promise.resolve();
+  }
+
+  /**
+   * 인덱스 위치로 벡터와 문서 제거
+   *
+   * IndexFlat의 removeIds는 남은 벡터의 순서를 유지한 채 앞으로 당기므로
+   * 문서 배열도 같은 방식으로 정리합니다.
+   */
+  private removePositions(positions: number[]): void {
+    if (!this.index || positions.length === 0) {
+      return;
+    }
+
+    this.index.removeIds(positions);
+
+    const removed = new Set(positions);
+    this.ids = this.ids.filter((_, position) => !removed.has(position));
+    this.documents = this.documents.filter(
+      (_, position) => !removed.has(position),
+    );
+    this.vectors = this.vectors.filter((_, position) => !removed.has(position));
+  }
+
+  /**
+   * 저장 디렉토리에서 인덱스와 문서 저장소 로드
+   *
+   * @throws Error - 인덱스의 벡터 개수와 문서 저장소의 청크 개수가 다른 경우
+   */
+  private load(): void {
+    const docstorePath = path.join(this.directory, DOCSTORE_FILE_NAME);
+    if (!fs.existsSync(docstorePath)) {
+      return;
+    }
+
+    const docstore = JSON.parse(
+      fs.readFileSync(docstorePath, 'utf-8'),
+    ) as FaissDocstore;
+    const indexFile = docstore.indexFile ?? LEGACY_INDEX_FILE_NAME;
+    const indexPath = path.join(this.directory, indexFile);
+    if (!fs.existsSync(indexPath)) {
+      return;
+    }
+
+    const index = this.faiss.IndexFlatIP.read(indexPath);
+    if (index.ntotal() !== docstore.ids.length) {
+      throw new Error(
+        `FAISS 인덱스와 문서 저장소가 맞지 않습니다: ${this.directory} (벡터 ${index.ntotal()}개, 청크 ${docstore.ids.length}개) 디렉토리를 삭제한 뒤 다시 인덱싱하세요.`,
+      );
+    }
+
+    this.index = index;
+    this.recordedEmbeddingModel = docstore.embeddingModel;
+    this.ids = docstore.ids;
+    this.documents = docstore.documents.map((doc) => new Document(doc));
+    this.vectors = docstore.vectors ?? docstore.ids.map(() => null);
+
+    this.logger.log(
+      `FAISS 인덱스를 불러왔습니다. (${this.directory}, ${this.ids.length}개 청크)`,
+    );
+  }
+
+  /**
+   * 인덱스와 문서 저장소를 저장 디렉토리에 기록
+   *
+   * 새 이름의 인덱스 파일을 쓴 뒤 그 파일명을 담은 docstore.json으로 교체하고,
+   * 더 이상 가리키지 않는 인덱스 파일(이전 저장, 중단된 저장)을 지웁니다.
+   */
+  private save(): void {
+    if (!this.index) {
+      return;
+    }
+
+    fs.mkdirSync(this.directory, { recursive: true });
+
+    const indexFile = `faiss.${randomUUID()}.index`;
+    const indexPath = path.join(this.directory, indexFile);
+    this.index.write(indexPath);
+    const fd = fs.openSync(indexPath, 'r');
+    try {
+      fs.fsyncSync(fd);
+    } finally {
+      fs.closeSync(fd);
+    }
+
+    const docstore: FaissDocstore = {
+      embeddingModel: this.recordedEmbeddingModel ?? this.embeddingModel,
+      indexFile,
+      ids: this.ids,
+      documents: this.documents.map((doc) => ({
+        pageContent: doc.pageContent,
+        metadata: doc.metadata,
+      })),
+      vectors: this.vectors,
+    };
+
+    FileLockUtil.writeFileAtomic(
+      path.join(this.directory, DOCSTORE_FILE_NAME),
+      JSON.stringify(docstore),
+    );
+
+    for (const file of fs.readdirSync(this.directory)) {
+      if (INDEX_FILE_PATTERN.test(file) && file !== indexFile) {
+        fs.rmSync(path.join(this.directory, file), { force: true });
+      }
+    }
+  }
+}
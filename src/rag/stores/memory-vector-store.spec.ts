@@ -0,0 +1,83 @@
+import { Document } from '@langchain/core/documents';
+import { Embeddings } from '@langchain/core/embeddings';
+import { InMemoryVectorStore } from './memory-vector-store';
+
+/**
+ * 키워드 등장 여부로 벡터를 만드는 테스트용 임베딩
+ */
+class KeywordEmbeddings extends Embeddings {
+  private readonly keywords = ['비밀번호', '보관', '쿠키'];
+
+  constructor() {
+    super({});
+  }
+
+  embedDocuments(texts: string[]): Promise<number[][]> {
+    return Promise.resolve(texts.map((text) => this.toVector(text)));
+  }
+
+  embedQuery(text: string): Promise<number[]> {
+    return Promise.resolve(this.toVector(text));
+  }
+
+  private toVector(text: string): number[] {
+    return this.keywords.map((keyword) => (text.includes(keyword) ? 1 : 0));
+  }
+}
+
+describe('InMemoryVectorStore', () => {
+  let store: InMemoryVectorStore;
+
+  beforeEach(async () => {
+    store = new InMemoryVectorStore(new KeywordEmbeddings());
+    await store.addDocuments([
+      new Document({
+        pageContent: '비밀번호는 8자 이상',
+        metadata: { filePath: 'kakao.json', company_name: '카카오' },
+      }),
+      new Document({
+        pageContent: '보관 기간은 1년',
+        metadata: { filePath: 'kakao.json', company_name: '카카오' },
+      }),
+      new Document({
+        pageContent: '비밀번호 변경 주기',
+        metadata: { filePath: 'naver.json', company_name: '네이버' },
+      }),
+    ]);
+  });
+
+  it('should return the most similar documents first', async () => {
+    const results = await store.similaritySearch('비밀번호 정책', 2);
+
+    expect(results).toHaveLength(2);
+    expect(results.every((doc) => doc.pageContent.includes('비밀번호'))).toBe(
+      true,
+    );
+  });
+
+  it('should apply metadata filters before top-k', async () => {
+    const results = await store.similaritySearch('비밀번호', 1, {
+      company_name: '네이버',
+    });
+
+    expect(results).toHaveLength(1);
+    expect(results[0].metadata.filePath).toBe('naver.json');
+  });
+
+  it('should overwrite chunks that are added again', async () => {
+    await store.addDocuments([
+      new Document({
+        pageContent: '비밀번호는 8자 이상',
+        metadata: { filePath: 'kakao.json', company_name: '카카오' },
+      }),
+    ]);
+
+    expect(store.count()).toBe(3);
+  });
+
+  it('should delete every chunk of a file', async () => {
+    await store.deleteByFilePath('kakao.json');
+
+    expect(store.count()).toBe(1);
+  });
+});
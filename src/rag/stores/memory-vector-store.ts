@@ -0,0 +1,149 @@
+import { Document } from '@langchain/core/documents';
+import { Embeddings } from '@langchain/core/embeddings';
+import { BaseVectorStore, cosineSimilarity } from './base-vector-store';
+import { MetadataFilter } from './metadata-filter';
+
+/**
+ * 메모리에 저장되는 벡터 포인트
+ */
+interface MemoryVectorEntry {
+  /** 임베딩 벡터 */
+  vector: number[];
+  /** 원본 문서 (텍스트 + 메타데이터) */
+  document: Document;
+}
+
+/**
+ * 순수 메모리 기반 VectorStore 구현
+ *
+ * 외부 서버 없이 프로세스 메모리에 벡터를 저장하고
+ * 전수 비교(코사인 유사도)로 검색합니다.
+ *
+ * 주요 용도:
+ * - 단위 테스트 및 CI
+ * - Qdrant 없이 로컬에서 빠르게 실행해 볼 때
+ *
+ * 프로세스가 종료되면 모든 데이터가 사라집니다.
+ */
+export class InMemoryVectorStore extends BaseVectorStore {
+  /** 포인트 ID를 키로 하는 벡터 저장소 */
+  private entries = new Map<string, MemoryVectorEntry>();
+
+  /**
+   * 벡터 스토어 타입 반환
+   */
+  _vectorstoreType(): string {
+    return 'memory';
+  }
+
+  /**
+   * InMemoryVectorStore 생성자
+   *
+   * @param embeddings - 텍스트를 벡터로 변환하는 임베딩 모델
+   */
+  constructor(embeddings: Embeddings) {
+    super(embeddings, {});
+  }
+
+  /**
+   * 벡터로 직접 추가
+   *
+   * @param vectors - 이미 생성된 벡터 배열
+   * @param documents - 해당하는 문서 배열
+   * @returns 생성된 문서 ID 배열
+   */
+  addVectors(vectors: number[][], documents: Document[]): Promise<string[]> {
+    const ids = this.createPointIds(documents);
+
+    documents.forEach((doc, index) => {
+      this.entries.set(ids[index], {
+        vector: vectors[index],
+        document: new Document({
+          pageContent: doc.pageContent,
+          metadata: { ...doc.metadata },
+        }),
+      });
+    });
+
+    return Promise.resolve(ids);
+  }
+
+  /**
+   * 벡터로 유사도 검색 (점수 포함)
+   *
+   * @param query - 검색할 벡터
+   * @param k - 반환할 문서 개수
+   * @param filter - 메타데이터 필터 (선택)
+   * @returns [문서, 유사도 점수] 튜플 배열 (점수 내림차순)
+   */
+  similaritySearchVectorWithScore(
+    query: number[],
+    k: number,
+    filter?: MetadataFilter,
+  ): Promise<[Document, number][]> {
+    const results: [Document, number][] = [];
+
+    for (const { vector, document } of this.entries.values()) {
+      if (this.matchesFilter(document.metadata, filter)) {
+        results.push([document, cosineSimilarity(query, vector)]);
+      }
+    }
+
+    results.sort((a, b) => b[1] - a[1]);
+
+    return Promise.resolve(results.slice(0, k));
+  }
+
+  /**
+   * 저장된 벡터의 임베딩 모델 확인
+   *
+   * 메모리 스토어는 프로세스와 수명이 같아 다른 모델의 벡터가 섞일 수 없으므로
+   * 확인할 것이 없습니다.
+   */
+  verifyEmbeddingModel(): Promise<void> {
+    return Promise.resolve();
+  }
+
+  /**
+   * 파일 경로로 문서 청크 삭제
+   *
+   * @param filePath - 삭제할 문서의 원본 파일 경로 (metadata.filePath)
+   */
+  deleteByFilePath(filePath: string): Promise<void> {
+    for (const [id, { document }] of this.entries) {
+      if (document.metadata.filePath === filePath) {
+        this.entries.delete(id);
+      }
+    }
+
+    return Promise.resolve();
+  }
+
+  /**
+   * 포인트 ID로 저장된 벡터 조회
+   *
+   * @param ids - 포인트 ID 배열
+   * @returns 포인트 ID별 벡터
+   */
+  getVectors(ids: string[]): Promise<Map<string, number[]>> {
+    const vectors = new Map<string, number[]>();
+
+    for (const id of ids) {
+      const entry = this.entries.get(id);
+      if (entry) {
+        vectors.set(id, entry.vector);
+      }
+    }
+
+    return Promise.resolve(vectors);
+  }
+
+  /**
+   * 저장된 문서 청크 수 반환
+   *
+   * @returns 청크 수
+   */
+  count(): number {
+    return this.entries.size;
+  }
+}
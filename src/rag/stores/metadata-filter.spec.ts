@@ -0,0 +1,104 @@
+import { matchesMetadataFilter, parseMetadataFilter } from './metadata-filter';
+
+describe('metadata-filter', () => {
+  const metadata = {
+    company_name: '토스',
+    industry: '핀테크',
+    certifications: ['ISMS-P', 'ISO 27001'],
+    last_updated: '2024-11-20',
+    document_version: 3,
+  };
+
+  describe('parseMetadataFilter', () => {
+    it('should parse JSON strings from query parameters', () => {
+      expect(parseMetadataFilter('{"company_name":"토스"}')).toEqual({
+        company_name: '토스',
+      });
+    });
+
+    it('should return undefined when no filter is given', () => {
+      expect(parseMetadataFilter(undefined)).toBeUndefined();
+      expect(parseMetadataFilter('')).toBeUndefined();
+    });
+
+    it('should reject invalid JSON and unknown operators', () => {
+      expect(() => parseMetadataFilter('{company_name')).toThrow();
+      expect(() =>
+        parseMetadataFilter({ company_name: { like: '토' } }),
+      ).toThrow();
+      expect(() =>
+        parseMetadataFilter({ industry: { in: '핀테크' } }),
+      ).toThrow();
+    });
+
+    it('should reject range bounds mixing numbers and dates', () => {
+      expect(
+        parseMetadataFilter({ document_version: { gte: 2, lt: 5 } }),
+      ).toEqual({ document_version: { gte: 2, lt: 5 } });
+      expect(() =>
+        parseMetadataFilter({ last_updated: { gte: 2024, lt: '2025-01-01' } }),
+      ).toThrow('모두 숫자이거나 모두 날짜 문자열');
+      expect(() =>
+        parseMetadataFilter({ last_updated: { gte: '작년' } }),
+      ).toThrow();
+    });
+
+    it('should only accept strings or integers for in', () => {
+      expect(parseMetadataFilter({ document_version: { in: [2, 3] } })).toEqual(
+        { document_version: { in: [2, 3] } },
+      );
+      expect(() =>
+        parseMetadataFilter({ document_version: { in: [2.5] } }),
+      ).toThrow('문자열 배열 또는 정수 배열');
+      expect(() =>
+        parseMetadataFilter({ is_public: { in: [true] } }),
+      ).toThrow();
+      expect(() =>
+        parseMetadataFilter({ industry: { in: ['핀테크', 3] } }),
+      ).toThrow();
+    });
+  });
+
+  describe('matchesMetadataFilter', () => {
+    it('should match equality and in conditions', () => {
+      expect(matchesMetadataFilter(metadata, { company_name: '토스' })).toBe(
+        true,
+      );
+      expect(
+        matchesMetadataFilter(metadata, {
+          industry: { in: ['핀테크', '인터넷 전문은행'] },
+        }),
+      ).toBe(true);
+      expect(matchesMetadataFilter(metadata, { company_name: '카카오' })).toBe(
+        false,
+      );
+    });
+
+    it('should match array-contains conditions', () => {
+      expect(
+        matchesMetadataFilter(metadata, {
+          certifications: { contains: 'ISMS-P' },
+        }),
+      ).toBe(true);
+      expect(
+        matchesMetadataFilter(metadata, {
+          certifications: { contains: 'SOC 2' },
+        }),
+      ).toBe(false);
+    });
+
+    it('should match date and number ranges', () => {
+      expect(
+        matchesMetadataFilter(metadata, {
+          last_updated: { gte: '2024-06-01', lt: '2025-01-01' },
+        }),
+      ).toBe(true);
+      expect(
+        matchesMetadataFilter(metadata, { last_updated: { gt: '2024-12-01' } }),
+      ).toBe(false);
+      expect(
+        matchesMetadataFilter(metadata, { document_version: { gte: 3 } }),
+      ).toBe(true);
+    });
+  });
+});
@@ -0,0 +1,278 @@
+/**
+ * 메타데이터 필터 값
+ */
+export type MetadataFilterValue = string | number | boolean;
+
+/**
+ * 메타데이터 필터 연산자
+ *
+ * 한 필드에 여러 연산자를 지정하면 모두 만족해야 합니다.
+ * 범위 연산자(gt, gte, lt, lte)는 모두 숫자이거나 모두 날짜 문자열(예: "2024-01-01")이어야 합니다.
+ */
+export interface MetadataFilterOperators {
+  /** 값이 같음 */
+  eq?: MetadataFilterValue;
+  /** 값이 목록 중 하나와 같음 (문자열 배열 또는 정수 배열, Qdrant match.any와 같음) */
+  in?: string[] | number[];
+  /** 배열 필드가 값을 포함함 (예: certifications에 "ISMS-P") */
+  contains?: MetadataFilterValue;
+  /** 초과 */
+  gt?: number | string;
+  /** 이상 */
+  gte?: number | string;
+  /** 미만 */
+  lt?: number | string;
+  /** 이하 */
+  lte?: number | string;
+}
+
+/**
+ * 메타데이터 필터
+ *
+ * 메타데이터 키별 조건입니다. 값만 지정하면 동등 비교이며,
+ * 모든 키의 조건을 만족하는 문서만 검색 결과에 포함됩니다.
+ *
+ * 예:
+ * {
+ *   "industry": { "in": ["핀테크", "인터넷 전문은행"] },
+ *   "certifications": { "contains": "ISMS-P" },
+ *   "last_updated": { "gte": "2024-06-01" },
+ *   "company_name": "카카오"
+ * }
+ */
+export type MetadataFilter = Record<
+  string,
+  MetadataFilterValue | MetadataFilterOperators
+>;
+
+/** 지원하는 연산자 이름 */
+const OPERATORS = ['eq', 'in', 'contains', 'gt', 'gte', 'lt', 'lte'];
+
+/** 범위 연산자 이름 */
+const RANGE_OPERATORS = ['gt', 'gte', 'lt', 'lte'] as const;
+
+/**
+ * 필터 값이 단순 값(동등 비교)인지 확인
+ */
+export function isFilterValue(
+  condition: MetadataFilterValue | MetadataFilterOperators,
+): condition is MetadataFilterValue {
+  return typeof condition !== 'object' || condition === null;
+}
+
+/**
+ * 요청으로 받은 필터를 검증하여 MetadataFilter로 변환
+ *
+ * @param input - 요청 본문의 filter 객체 또는 쿼리 파라미터의 JSON 문자열
+ * @returns 검증된 필터 (입력이 없으면 undefined)
+ * @throws Error - JSON 형식이 아니거나 지원하지 않는 연산자/값인 경우
+ */
+export function parseMetadataFilter(
+  input: unknown,
+): MetadataFilter | undefined {
+  if (input === undefined || input === null || input === '') {
+    return undefined;
+  }
+
+  let filter: unknown = input;
+  if (typeof input === 'string') {
+    try {
+      filter = JSON.parse(input) as unknown;
+    } catch {
+      throw new Error('filter는 JSON 형식이어야 합니다.');
+    }
+  }
+
+  if (typeof filter !== 'object' || filter === null || Array.isArray(filter)) {
+    throw new Error('filter는 메타데이터 키별 조건 객체여야 합니다.');
+  }
+
+  for (const [key, condition] of Object.entries(filter)) {
+    if (isScalar(condition)) {
+      continue;
+    }
+
+    if (typeof condition !== 'object' || condition === null) {
+      throw new Error(`filter.${key}의 값이 올바르지 않습니다.`);
+    }
+
+    for (const [operator, value] of Object.entries(
+      condition as Record<string, unknown>,
+    )) {
+      if (!OPERATORS.includes(operator)) {
+        throw new Error(
+          `filter.${key}에 지원하지 않는 연산자가 있습니다: ${operator} (${OPERATORS.join(', ')} 중 선택)`,
+        );
+      }
+
+      const valid =
+        operator === 'in'
+          ? isAnyValues(value)
+          : operator === 'eq' || operator === 'contains'
+            ? isScalar(value)
+            : isRangeBound(value);
+
+      if (!valid) {
+        throw new Error(
+          operator === 'in'
+            ? `filter.${key}.in은 문자열 배열 또는 정수 배열이어야 합니다.`
+            : `filter.${key}.${operator}의 값이 올바르지 않습니다.`,
+        );
+      }
+    }
+
+    const bounds = RANGE_OPERATORS.map(
+      (operator) => (condition as Record<string, unknown>)[operator],
+    ).filter((bound) => bound !== undefined);
+    if (
+      !bounds.every((bound) => typeof bound === 'number') &&
+      !bounds.every((bound) => typeof bound === 'string')
+    ) {
+      throw new Error(
+        `filter.${key}의 범위 조건은 모두 숫자이거나 모두 날짜 문자열이어야 합니다.`,
+      );
+    }
+  }
+
+  return filter as MetadataFilter;
+}
+
+/**
+ * 문서 메타데이터가 필터 조건을 만족하는지 확인
+ *
+ * @param metadata - 문서 메타데이터
+ * @param filter - 메타데이터 필터 (없으면 항상 true)
+ * @returns 모든 조건을 만족하면 true
+ *
+ * 네이티브 필터가 없는 백엔드(FAISS, 메모리)에서 사용하며,
+ * Qdrant payload 필터와 같은 의미로 동작합니다.
+ * (배열 필드에 대한 동등 비교는 원소 중 하나라도 같으면 만족)
+ */
+export function matchesMetadataFilter(
+  metadata: Record<string, any>,
+  filter?: MetadataFilter,
+): boolean {
+  if (!filter) {
+    return true;
+  }
+
+  return Object.entries(filter).every(([key, condition]) => {
+    const actual: unknown = metadata[key];
+
+    if (isFilterValue(condition)) {
+      return matchesValue(actual, condition);
+    }
+
+    if (condition.eq !== undefined && !matchesValue(actual, condition.eq)) {
+      return false;
+    }
+
+    if (
+      condition.in !== undefined &&
+      !condition.in.some((value: string | number) =>
+        matchesValue(actual, value),
+      )
+    ) {
+      return false;
+    }
+
+    if (
+      condition.contains !== undefined &&
+      !(Array.isArray(actual) && actual.includes(condition.contains))
+    ) {
+      return false;
+    }
+
+    return RANGE_OPERATORS.every((operator) => {
+      const bound = condition[operator];
+      if (bound === undefined) {
+        return true;
+      }
+
+      const comparison = compareRangeValues(actual, bound);
+      if (comparison === null) {
+        return false;
+      }
+
+      switch (operator) {
+        case 'gt':
+          return comparison > 0;
+        case 'gte':
+          return comparison >= 0;
+        case 'lt':
+          return comparison < 0;
+        case 'lte':
+          return comparison <= 0;
+      }
+    });
+  });
+}
+
+/**
+ * 단순 값(문자열, 숫자, 불리언)인지 확인
+ */
+function isScalar(value: unknown): value is MetadataFilterValue {
+  return (
+    typeof value === 'string' ||
+    typeof value === 'number' ||
+    typeof value === 'boolean'
+  );
+}
+
+/**
+ * in 연산자 값인지 확인 (문자열 배열 또는 정수 배열)
+ */
+function isAnyValues(value: unknown): value is string[] | number[] {
+  return (
+    Array.isArray(value) &&
+    (value.every((item) => typeof item === 'string') ||
+      value.every((item) => Number.isInteger(item)))
+  );
+}
+
+/**
+ * 범위 연산자 값인지 확인 (숫자 또는 날짜로 해석되는 문자열)
+ */
+function isRangeBound(value: unknown): value is number | string {
+  return (
+    (typeof value === 'number' && Number.isFinite(value)) ||
+    (typeof value === 'string' && !isNaN(Date.parse(value)))
+  );
+}
+
+/**
+ * 메타데이터 값이 필터 값과 같은지 확인 (배열이면 원소 중 하나라도 같으면 true)
+ */
+function matchesValue(actual: unknown, expected: MetadataFilterValue): boolean {
+  return Array.isArray(actual)
+    ? actual.includes(expected)
+    : actual === expected;
+}
+
+/**
+ * 범위 비교
+ *
+ * @returns actual이 bound보다 크면 양수, 같으면 0, 작으면 음수 (비교할 수 없으면 null)
+ *
+ * 숫자는 숫자로, 문자열은 날짜로 해석하여 비교합니다.
+ */
+function compareRangeValues(
+  actual: unknown,
+  bound: number | string,
+): number | null {
+  if (typeof bound === 'number') {
+    return typeof actual === 'number' ? actual - bound : null;
+  }
+
+  if (typeof actual !== 'string') {
+    return null;
+  }
+
+  const actualTime = Date.parse(actual);
+  const boundTime = Date.parse(bound);
+  if (isNaN(actualTime) || isNaN(boundTime)) {
+    return null;
+  }
+
+  return actualTime - boundTime;
+}
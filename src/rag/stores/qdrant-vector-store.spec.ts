@@ -0,0 +1,50 @@
+import { toQdrantFilter } from './qdrant-vector-store';
+
+describe('toQdrantFilter', () => {
+  it('should return undefined when no filter is given', () => {
+    expect(toQdrantFilter(undefined)).toBeUndefined();
+    expect(toQdrantFilter({})).toBeUndefined();
+  });
+
+  it('should translate values and operators to field conditions', () => {
+    expect(
+      toQdrantFilter({
+        company_name: '토스',
+        industry: { in: ['핀테크', '인터넷 전문은행'] },
+        certifications: { contains: 'ISMS-P' },
+        document_version: { eq: 3 },
+      }),
+    ).toEqual({
+      must: [
+        { key: 'metadata.company_name', match: { value: '토스' } },
+        {
+          key: 'metadata.industry',
+          match: { any: ['핀테크', '인터넷 전문은행'] },
+        },
+        { key: 'metadata.certifications', match: { value: 'ISMS-P' } },
+        { key: 'metadata.document_version', match: { value: 3 } },
+      ],
+    });
+  });
+
+  it('should translate number and date ranges', () => {
+    expect(
+      toQdrantFilter({
+        document_version: { gte: 2, lt: 5 },
+        last_updated: { gte: '2024-06-01', eq: '2024-11-20' },
+      }),
+    ).toEqual({
+      must: [
+        { key: 'metadata.document_version', range: { gte: 2, lt: 5 } },
+        { key: 'metadata.last_updated', match: { value: '2024-11-20' } },
+        { key: 'metadata.last_updated', range: { gte: '2024-06-01' } },
+      ],
+    });
+  });
+
+  it('should reject ranges mixing numbers and dates', () => {
+    expect(() =>
+      toQdrantFilter({ last_updated: { gte: 2024, lt: '2025-01-01' } }),
+    ).toThrow('범위 조건에 숫자와 날짜 문자열을 함께 사용할 수 없습니다.');
+  });
+});
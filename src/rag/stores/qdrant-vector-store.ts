@@ -1,38 +1,127 @@
-import { QdrantClient } from '@qdrant/qdrant-js';
-import { VectorStore } from '@langchain/core/vectorstores';
+import { QdrantClient, Schemas } from '@qdrant/qdrant-js';
 import { Document } from '@langchain/core/documents';
 import { Embeddings } from '@langchain/core/embeddings';
-import { CallbackManagerForRetrieverRun } from '@langchain/core/callbacks/manager';
-import { BaseRetriever } from '@langchain/core/retrievers';
+import { BaseVectorStore } from './base-vector-store';
+import {
+  MetadataFilter,
+  MetadataFilterOperators,
+  isFilterValue,
+} from './metadata-filter';
+import { EmbeddingModelInfo } from '../embeddings/embedding-providers';
 
 /**
  * Qdrant VectorStore 설정 인터페이스
  */
-interface QdrantVectorStoreConfig {
+export interface QdrantVectorStoreConfig {
   url?: string; // Qdrant 서버 URL
   apiKey?: string; // Qdrant API 키 (선택)
   collectionName: string; // 컬렉션 이름
-  vectorSize?: number; // 벡터 차원 수 (기본값: 1536)
+  vectorSize?: number; // 벡터 차원 수 (기본값: 임베딩 모델 차원 수 또는 1536)
+  embeddingModel?: EmbeddingModelInfo; // 컬렉션에 기록할 임베딩 모델 정보
+}
+
+/**
+ * 메타데이터 필터를 Qdrant payload 필터로 변환
+ *
+ * @param filter - 메타데이터 필터 (parseMetadataFilter로 검증된 값)
+ * @returns Qdrant 필터 객체 (필터가 없으면 undefined)
+ *
+ * 변환 규칙 (필드 키는 metadata.{키}):
+ * - 값 / eq / contains → match.value (배열 필드는 원소 중 하나라도 같으면 매칭)
+ * - in → match.any
+ * - gt, gte, lt, lte → range (숫자) 또는 datetime range (날짜 문자열)
+ *
+ * Qdrant가 검색 단계에서 필터를 적용하므로 top-k는 조건을 만족하는 문서 중에서 선택됩니다.
+ */
+export function toQdrantFilter(
+  filter?: MetadataFilter,
+): Schemas['Filter'] | undefined {
+  if (!filter || Object.keys(filter).length === 0) {
+    return undefined;
+  }
+
+  const must = Object.entries(filter).flatMap(([name, condition]) => {
+    const key = `metadata.${name}`;
+
+    if (isFilterValue(condition)) {
+      return [{ key, match: { value: condition } }];
+    }
+
+    const conditions: Schemas['FieldCondition'][] = [];
+
+    if (condition.eq !== undefined) {
+      conditions.push({ key, match: { value: condition.eq } });
+    }
+    if (condition.in !== undefined) {
+      conditions.push({ key, match: { any: condition.in } });
+    }
+    if (condition.contains !== undefined) {
+      conditions.push({ key, match: { value: condition.contains } });
+    }
+
+    const range = toQdrantRange(condition);
+    if (range) {
+      conditions.push({ key, range });
+    }
+
+    return conditions;
+  });
+
+  return { must };
+}
+
+/**
+ * 범위 연산자를 Qdrant range로 변환
+ *
+ * @returns 숫자는 range, 날짜 문자열은 datetime range (범위 연산자가 없으면 undefined)
+ * @throws Error - 숫자와 날짜 문자열이 섞인 경우
+ */
+function toQdrantRange(
+  condition: MetadataFilterOperators,
+): Schemas['Range'] | Schemas['DatetimeRange'] | undefined {
+  const { gt, gte, lt, lte } = condition;
+  if ([gt, gte, lt, lte].every((bound) => bound === undefined)) {
+    return undefined;
+  }
+
+  if (
+    typeof gt !== 'string' &&
+    typeof gte !== 'string' &&
+    typeof lt !== 'string' &&
+    typeof lte !== 'string'
+  ) {
+    return { gt, gte, lt, lte };
+  }
+  if (
+    typeof gt !== 'number' &&
+    typeof gte !== 'number' &&
+    typeof lt !== 'number' &&
+    typeof lte !== 'number'
+  ) {
+    return { gt, gte, lt, lte };
+  }
+
+  throw new Error('범위 조건에 숫자와 날짜 문자열을 함께 사용할 수 없습니다.');
 }
 
 /**
  * Qdrant를 사용하는 VectorStore 구현
- * 
- * LangChain의 VectorStore 인터페이스를 구현하여
+ *
+ * BaseVectorStore(LangChain VectorStore)를 구현하여
  * Qdrant 벡터 데이터베이스와 통합합니다.
- * 
+ *
  * 주요 기능:
  * - 문서를 벡터로 변환하여 저장
  * - 벡터 유사도 검색
  * - 컬렉션 자동 생성 및 관리
  */
-export class QdrantVectorStore extends VectorStore {
+export class QdrantVectorStore extends BaseVectorStore {
   /** Qdrant 클라이언트 인스턴스 */
   private client: QdrantClient;
-  
+
   /** 컬렉션 이름 */
   private collectionName: string;
-  
+
   /** 벡터 차원 수 */
   private vectorSize: number;
 
@@ -45,7 +134,7 @@ export class QdrantVectorStore extends VectorStore {
 
   /**
    * QdrantVectorStore 생성자
-   * 
+   *
    * @param embeddings - 텍스트를 벡터로 변환하는 임베딩 모델
    * @param config - Qdrant 설정
    */
@@ -55,7 +144,9 @@ export class QdrantVectorStore extends VectorStore {
     });
 
     this.collectionName = config.collectionName;
-    this.vectorSize = config.vectorSize || 1536; // OpenAI embedding 기본 크기
+    this.embeddingModel = config.embeddingModel;
+    this.vectorSize =
+      config.vectorSize || config.embeddingModel?.dimensions || 1536; // OpenAI embedding 기본 크기
 
     // Qdrant 클라이언트 초기화
     // 환경변수 또는 설정값을 사용하여 클라이언트 생성
@@ -66,176 +157,125 @@ export class QdrantVectorStore extends VectorStore {
   }
 
   /**
-   * 문서를 벡터 스토어에 추가
-   * 
-   * @param documents - 추가할 문서 배열
+   * 벡터로 직접 추가
+   *
+   * @param vectors - 이미 생성된 벡터 배열
+   * @param documents - 해당하는 문서 배열
    * @returns 생성된 문서 ID 배열
-   * 
+   *
    * 처리 과정:
-   * 1. 문서 텍스트를 임베딩 벡터로 변환
-   * 2. 컬렉션이 없으면 생성
+   * 1. 컬렉션이 없으면 생성
+   * 2. 각 문서의 결정적 ID 생성 (원본 경로 + 청크 순번 + 내용 해시)
    * 3. 각 문서를 벡터 포인트로 변환 (벡터 + 메타데이터)
-   * 4. Qdrant에 업로드
+   * 4. Qdrant에 배치 단위로 업로드
+   *
+   * 같은 청크를 다시 추가하면 같은 ID로 덮어쓰므로 중복이 생기지 않습니다.
    */
-  async addDocuments(documents: Document[]): Promise<string[]> {
-    // 문서 텍스트 추출
-    const texts = documents.map((doc) => doc.pageContent);
-    // 텍스트를 벡터로 변환 (배치 처리)
-    const embeddings = await this.embeddings.embedDocuments(texts);
-    const ids: string[] = [];
-
+  async addVectors(
+    vectors: number[][],
+    documents: Document[],
+  ): Promise<string[]> {
     // 컬렉션이 없으면 생성
     await this.ensureCollection();
 
+    const ids = this.createPointIds(documents);
+
     // 벡터 포인트 생성
     // 각 문서를 Qdrant 포인트 형식으로 변환
-    const points = documents.map((doc, index) => {
-      // 고유 ID 생성 (숫자 ID 사용)
-      const id = Date.now() * 1000 + index;
-      ids.push(id.toString());
-
-      return {
-        id, // 숫자 ID
-        vector: embeddings[index], // 임베딩 벡터
-        payload: {
-          pageContent: doc.pageContent, // 원본 텍스트
-          metadata: doc.metadata, // 메타데이터
-        },
-      };
-    });
+    const points = documents.map((doc, index) => ({
+      id: ids[index], // UUID 형식의 결정적 ID
+      vector: vectors[index], // 임베딩 벡터
+      payload: {
+        pageContent: doc.pageContent, // 원본 텍스트
+        metadata: doc.metadata, // 메타데이터
+      },
+    }));
 
     // 배치 크기 제한 (한 번에 너무 많은 문서를 보내지 않음)
     const batchSize = 100;
     for (let i = 0; i < points.length; i += batchSize) {
       const batch = points.slice(i, i + batchSize);
-      
-      // Qdrant에 업로드 (wait: true로 동기 처리)
+
+      // Qdrant에 업로드 (wait: true로 반영될 때까지 기다린 뒤 다음 배치를 보냄)
       await this.client.upsert(this.collectionName, {
         wait: true,
         points: batch,
       });
-      
+
       console.log(`📦 배치 업로드 완료: ${i + batch.length}/${points.length}`);
-      
-      // 과도한 요청 방지를 위한 짧은 대기
-      if (i + batchSize < points.length) {
-        await new Promise(resolve => setTimeout(resolve, 100));
-      }
     }
 
     return ids;
   }
 
-  /**
-   * 벡터로 직접 추가
-   * 
-   * @param vectors - 이미 생성된 벡터 배열
-   * @param documents - 해당하는 문서 배열
-   * @returns 생성된 문서 ID 배열
-   * 
-   * 이미 벡터화된 데이터를 직접 추가할 때 사용합니다.
-   * 임베딩 과정을 건너뛰고 바로 저장합니다.
-   */
-  async addVectors(vectors: number[][], documents: Document[]): Promise<string[]> {
-    const ids: string[] = [];
-
-    // 컬렉션이 없으면 생성
-    await this.ensureCollection();
-
-    // 벡터 포인트 생성
-    const points = documents.map((doc, index) => {
-      const id = `${Date.now()}-${index}`;
-      ids.push(id);
-
-      return {
-        id,
-        vector: vectors[index], // 전달받은 벡터 사용
-        payload: {
-          pageContent: doc.pageContent,
-          metadata: doc.metadata,
-        },
-      };
-    });
-
-    // Qdrant에 업로드
-    await this.client.upsert(this.collectionName, {
-      wait: true,
-      points,
-    });
-
-    return ids;
-  }
-
   /**
    * 유사도 검색 (점수 포함)
-   * 
+   *
    * @param query - 검색할 쿼리 텍스트
    * @param k - 반환할 문서 개수 (기본값: 4)
+   * @param filter - 메타데이터 필터 (선택)
    * @returns [문서, 유사도 점수] 튜플 배열
-   * 
+   *
    * 쿼리를 벡터로 변환한 후 코사인 유사도로 검색합니다.
    * 유사도 점수도 함께 반환합니다.
    */
   async similaritySearchWithScore(
     query: string,
     k: number = 4,
+    filter?: MetadataFilter,
   ): Promise<[Document, number][]> {
     // 쿼리 텍스트를 벡터로 변환
     const queryEmbedding = await this.embeddings.embedQuery(query);
 
-    // Qdrant에서 벡터 검색 수행
-    const searchResult = await this.client.search(this.collectionName, {
-      vector: queryEmbedding,
-      limit: k, // 상위 k개 결과 반환
-      with_payload: true, // 페이로드(텍스트, 메타데이터) 포함
-    });
-
-    // 검색 결과를 Document 객체로 변환
-    return searchResult.map((result) => {
-      const document = new Document({
-        pageContent: result.payload?.pageContent as string,
-        metadata: (result.payload?.metadata as Record<string, unknown>) || {},
-      });
-
-      // [문서, 유사도 점수] 튜플 반환
-      return [document, result.score || 0];
-    });
+    return await this.similaritySearchVectorWithScore(
+      queryEmbedding,
+      k,
+      filter,
+    );
   }
 
   /**
    * 유사도 검색 (점수 없이)
-   * 
+   *
    * @param query - 검색할 쿼리 텍스트
    * @param k - 반환할 문서 개수 (기본값: 4)
+   * @param filter - 메타데이터 필터 (선택)
    * @returns 유사한 문서 배열
-   * 
+   *
    * similaritySearchWithScore를 호출하되 점수는 제외하고 문서만 반환합니다.
    */
-  async similaritySearch(query: string, k: number = 4): Promise<Document[]> {
-    const results = await this.similaritySearchWithScore(query, k);
+  async similaritySearch(
+    query: string,
+    k: number = 4,
+    filter?: MetadataFilter,
+  ): Promise<Document[]> {
+    const results = await this.similaritySearchWithScore(query, k, filter);
     // 점수는 제외하고 문서만 추출
     return results.map(([document]) => document);
   }
 
   /**
    * 벡터로 유사도 검색 (점수 포함)
-   * 
+   *
    * @param query - 검색할 벡터 (이미 벡터화된 쿼리)
    * @param k - 반환할 문서 개수
+   * @param filter - 메타데이터 필터 (선택)
    * @returns [문서, 유사도 점수] 튜플 배열
-   * 
+   *
    * 이미 벡터화된 쿼리를 사용하여 검색합니다.
-   * 임베딩 과정을 건너뛰고 바로 검색합니다.
+   * 필터는 Qdrant payload 필터로 변환되어 서버에서 적용됩니다.
    */
   async similaritySearchVectorWithScore(
     query: number[],
     k: number,
+    filter?: MetadataFilter,
   ): Promise<[Document, number][]> {
     // 벡터로 직접 검색
     const searchResult = await this.client.search(this.collectionName, {
       vector: query,
-      limit: k,
-      with_payload: true,
+      limit: k, // 상위 k개 결과 반환
+      filter: toQdrantFilter(filter),
+      with_payload: true, // 페이로드(텍스트, 메타데이터) 포함
     });
 
     // 검색 결과를 Document 객체로 변환
@@ -245,15 +285,115 @@ export class QdrantVectorStore extends VectorStore {
         metadata: (result.payload?.metadata as Record<string, unknown>) || {},
       });
 
+      // [문서, 유사도 점수] 튜플 반환
       return [document, result.score || 0];
     });
   }
 
+  /**
+   * 파일 경로로 문서 청크 삭제
+   *
+   * @param filePath - 삭제할 문서의 원본 파일 경로 (metadata.filePath)
+   *
+   * payload 필터를 사용하여 해당 파일에서 생성된 모든 포인트를 삭제합니다.
+   * 증분 인덱싱에서 변경/삭제된 파일의 이전 청크를 제거할 때 사용합니다.
+   */
+  async deleteByFilePath(filePath: string): Promise<void> {
+    // 컬렉션이 없으면 삭제할 포인트도 없음
+    const { exists } = await this.client.collectionExists(this.collectionName);
+    if (!exists) {
+      return;
+    }
+
+    await this.client.delete(this.collectionName, {
+      wait: true,
+      filter: {
+        must: [{ key: 'metadata.filePath', match: { value: filePath } }],
+      },
+    });
+  }
+
+  /**
+   * 포인트 ID로 저장된 벡터 조회
+   *
+   * @param ids - 포인트 ID 배열
+   * @returns 포인트 ID별 벡터 (컬렉션에 없는 포인트는 제외)
+   */
+  async getVectors(ids: string[]): Promise<Map<string, number[]>> {
+    const vectors = new Map<string, number[]>();
+    if (ids.length === 0) {
+      return vectors;
+    }
+
+    const records = await this.client.retrieve(this.collectionName, {
+      ids,
+      with_payload: false,
+      with_vector: true,
+    });
+
+    for (const record of records) {
+      // 이름 없는 단일 벡터 컬렉션이므로 vector는 number[]
+      if (Array.isArray(record.vector)) {
+        vectors.set(String(record.id), record.vector as number[]);
+      }
+    }
+
+    return vectors;
+  }
+
+  /**
+   * 컬렉션의 임베딩 모델 확인
+   *
+   * 컬렉션 metadata의 embedding_model과 현재 임베딩 모델을 비교합니다.
+   * 기록이 없는 기존 컬렉션은 벡터 크기가 같을 때만 현재 모델을 기록합니다.
+   *
+   * @throws EmbeddingModelMismatchError - 다른 모델로 생성된 컬렉션인 경우
+   */
+  async verifyEmbeddingModel(): Promise<void> {
+    if (!this.embeddingModel) {
+      return;
+    }
+
+    // 컬렉션이 없으면 첫 문서 추가 시 현재 모델로 생성됨
+    const { exists } = await this.client.collectionExists(this.collectionName);
+    if (!exists) {
+      return;
+    }
+
+    const info = await this.client.getCollection(this.collectionName);
+    const recorded = info.config.metadata?.embedding_model as
+      | EmbeddingModelInfo
+      | undefined;
+
+    if (recorded) {
+      this.assertSameEmbeddingModel(recorded);
+      return;
+    }
+
+    // 모델 기록이 없는 기존 컬렉션: 벡터 크기로 확인
+    const vectors = info.config.params.vectors as { size?: number } | undefined;
+    if (vectors?.size && vectors.size !== this.vectorSize) {
+      this.assertSameEmbeddingModel({
+        provider: this.embeddingModel.provider,
+        model: 'unknown',
+        dimensions: vectors.size,
+      });
+    }
+
+    await this.client.updateCollection(this.collectionName, {
+      metadata: { embedding_model: { ...this.embeddingModel } },
+    });
+    console.log(
+      `Qdrant 컬렉션 '${this.collectionName}'에 임베딩 모델 정보를 기록했습니다.`,
+    );
+  }
+
   /**
    * 컬렉션이 존재하는지 확인하고 없으면 생성
-   * 
+   *
    * Qdrant 컬렉션이 없으면 자동으로 생성합니다.
-   * 벡터 크기와 거리 측정 방법(코사인 유사도)을 설정합니다.
+   * 벡터 크기와 거리 측정 방법(코사인 유사도)을 설정하고,
+   * metadata.filePath payload 인덱스는 기존 컬렉션에도 매번 확인하여 만듭니다.
    */
   private async ensureCollection(): Promise<void> {
     try {
@@ -270,9 +410,21 @@ export class QdrantVectorStore extends VectorStore {
             size: this.vectorSize, // 벡터 차원 수
             distance: 'Cosine', // 코사인 유사도 사용
           },
+          // 벡터를 생성한 임베딩 모델 기록
+          metadata: this.embeddingModel
+            ? { embedding_model: { ...this.embeddingModel } }
+            : undefined,
         });
         console.log(`Qdrant 컬렉션 '${this.collectionName}'을 생성했습니다.`);
       }
+
+      // 파일 경로 기반 삭제를 위한 payload 인덱스 생성
+      // (이미 있으면 그대로 두므로, 인덱스 없이 만들어진 기존 컬렉션에도 추가됨)
+      await this.client.createPayloadIndex(this.collectionName, {
+        wait: true,
+        field_name: 'metadata.filePath',
+        field_schema: 'keyword',
+      });
     } catch (error) {
       console.error('컬렉션 확인/생성 중 오류:', error);
       throw error;
@@ -281,12 +433,12 @@ export class QdrantVectorStore extends VectorStore {
 
   /**
    * 정적 메서드: 문서로부터 VectorStore 생성
-   * 
+   *
    * @param documents - 초기 문서 배열
    * @param embeddings - 임베딩 모델
    * @param config - Qdrant 설정
    * @returns 생성된 QdrantVectorStore 인스턴스
-   * 
+   *
    * 편의 메서드로, 인스턴스 생성과 문서 추가를 한 번에 수행합니다.
    * 첫 문서 추가 시 사용하면 컬렉션도 자동으로 생성됩니다.
    */
@@ -300,5 +452,3 @@ export class QdrantVectorStore extends VectorStore {
     return instance;
   }
 }
-
-
@@ -32,6 +32,43 @@ export class FileHashUtil {
     return hashSum.digest('hex');
   }
 
+  /**
+   * 청크의 결정적(content-addressed) ID 생성
+   *
+   * @param source - 청크의 원본 경로 (파일 경로 등)
+   * @param chunkIndex - 원본 내 청크 순번
+   * @param text - 청크 텍스트
+   * @returns UUID 형식의 ID 문자열
+   *
+   * 같은 원본, 같은 순번, 같은 내용이면 항상 같은 ID를 반환하므로
+   * 동일한 청크를 다시 저장하면 중복 대신 덮어쓰기가 됩니다.
+   * MD5 해시를 UUID v3(이름 기반) 형식으로 변환합니다.
+   */
+  static calculateChunkId(
+    source: string,
+    chunkIndex: number,
+    text: string,
+  ): string {
+    const contentHash = this.calculateTextHash(text);
+    const hash = this.calculateTextHash(
+      `${source}:${chunkIndex}:${contentHash}`,
+    );
+
+    // 버전(3)과 variant(RFC 4122) 비트 설정
+    const version = '3' + hash.substring(13, 16);
+    const variant =
+      ((parseInt(hash[16], 16) & 0x3) | 0x8).toString(16) +
+      hash.substring(17, 20);
+
+    return [
+      hash.substring(0, 8),
+      hash.substring(8, 12),
+      version,
+      variant,
+      hash.substring(20, 32),
+    ].join('-');
+  }
+
   /**
    * 파일의 수정 시간(mtime) 가져오기
    *
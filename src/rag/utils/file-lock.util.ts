@@ -0,0 +1,213 @@
+import { randomUUID } from 'crypto';
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+
+/** 잠금을 다시 시도하기 전 대기 시간 (밀리초) */
+const LOCK_RETRY_MS = 20;
+
+/**
+ * 잠금 파일 내용
+ */
+interface FileLockOwner {
+  /** 잠금을 가진 프로세스 ID */
+  pid: number;
+  /** 잠금을 가진 프로세스의 호스트 이름 */
+  hostname: string;
+  /** 잠금 시간 (ISO 8601) */
+  createdAt: string;
+  /** 잠금마다 새로 만드는 토큰 (다른 프로세스의 잠금을 지우지 않도록 확인) */
+  token: string;
+}
+
+/**
+ * 파일 잠금 옵션
+ */
+export interface FileLockOptions {
+  /** 오류 메시지에 표시할 대상 이름 (예: 인덱싱 히스토리) */
+  description: string;
+  /** 잠금 최대 대기 시간 (밀리초) */
+  lockTimeoutMs: number;
+  /** 이보다 오래된 잠금은 중단된 프로세스가 남긴 것으로 보고 제거 (밀리초) */
+  staleLockMs: number;
+}
+
+/**
+ * 파일 잠금 유틸리티
+ *
+ * 서버와 CLI 스크립트처럼 여러 프로세스가 같은 파일을 고칠 때 사용합니다.
+ * 잠금 파일({filePath}.lock)을 만든 동안 파일을 다시 읽어 변경을 적용하고
+ * 임시 파일에 쓴 뒤 이름을 바꾸면(writeFileAtomic) 다른 프로세스의 변경을 덮어쓰지 않고
+ * 쓰는 도중 종료되어도 파일이 깨지지 않습니다.
+ */
+export class FileLockUtil {
+  /**
+   * 잠금 파일을 만든 동안 실행
+   *
+   * 잠금은 비동기로 기다리므로 기다리는 동안에도 서버의 다른 요청은 계속 처리됩니다.
+   *
+   * @param lockPath - 잠금 파일 경로
+   * @param options - 대상 이름과 잠금 대기 설정
+   * @param action - 잠금을 잡은 동안 실행할 작업
+   * @returns 작업 결과
+   * @throws Error - lockTimeoutMs 안에 잠금을 얻지 못한 경우
+   */
+  static async withLock<T>(
+    lockPath: string,
+    options: FileLockOptions,
+    action: () => T,
+  ): Promise<T> {
+    fs.mkdirSync(path.dirname(lockPath), { recursive: true });
+    const deadline = Date.now() + options.lockTimeoutMs;
+    const owner: FileLockOwner = {
+      pid: process.pid,
+      hostname: os.hostname(),
+      createdAt: new Date().toISOString(),
+      token: randomUUID(),
+    };
+    const content = JSON.stringify(owner);
+
+    for (;;) {
+      try {
+        fs.writeFileSync(lockPath, content, { flag: 'wx' });
+        break;
+      } catch (error) {
+        if ((error as NodeJS.ErrnoException).code !== 'EEXIST') {
+          throw error;
+        }
+        if (FileLockUtil.removeStaleLock(lockPath, options.staleLockMs)) {
+          continue;
+        }
+        if (Date.now() >= deadline) {
+          throw new Error(
+            `${options.description} 잠금을 얻지 못했습니다: ${lockPath} (다른 인덱서가 실행 중인지 확인하세요)`,
+          );
+        }
+        await new Promise((resolve) => setTimeout(resolve, LOCK_RETRY_MS));
+      }
+    }
+
+    try {
+      return action();
+    } finally {
+      // 오래 걸려 다른 프로세스가 가져간 잠금은 지우지 않음
+      FileLockUtil.removeLockIfUnchanged(lockPath, content);
+    }
+  }
+
+  /**
+   * 임시 파일에 쓰고 디스크에 반영(fsync)한 뒤 교체
+   *
+   * @param filePath - 파일 경로
+   * @param content - 파일 내용
+   */
+  static writeFileAtomic(filePath: string, content: string): void {
+    const tempPath = `${filePath}.${process.pid}.tmp`;
+
+    const fd = fs.openSync(tempPath, 'w');
+    try {
+      fs.writeSync(fd, content);
+      fs.fsyncSync(fd);
+    } finally {
+      fs.closeSync(fd);
+    }
+    fs.renameSync(tempPath, filePath);
+  }
+
+  /**
+   * 중단된 프로세스가 남긴 잠금 제거
+   *
+   * @returns 잠금을 제거했거나 잠금이 바뀌었으면 true (바로 다시 시도)
+   */
+  private static removeStaleLock(
+    lockPath: string,
+    staleLockMs: number,
+  ): boolean {
+    let stat: fs.Stats;
+    let content: string;
+    try {
+      stat = fs.statSync(lockPath);
+      content = fs.readFileSync(lockPath, 'utf-8');
+    } catch (error) {
+      if ((error as NodeJS.ErrnoException).code === 'ENOENT') {
+        return true;
+      }
+      throw error;
+    }
+
+    let owner: Partial<FileLockOwner> = {};
+    try {
+      owner = JSON.parse(content) as FileLockOwner;
+    } catch {
+      // 쓰는 중인 잠금 파일은 만든 시간으로만 판단
+    }
+
+    const ownerExited =
+      owner.hostname === os.hostname() &&
+      typeof owner.pid === 'number' &&
+      !FileLockUtil.isProcessAlive(owner.pid);
+    const expired = Date.now() - stat.mtimeMs > staleLockMs;
+    if (!ownerExited && !expired) {
+      return false;
+    }
+
+    // 확인하는 사이 다른 대기자가 새 잠금을 만들었을 수 있으므로 확인한 잠금일 때만 제거
+    FileLockUtil.removeLockIfUnchanged(lockPath, content);
+    return true;
+  }
+
+  /**
+   * 잠금 파일의 내용이 그대로일 때만 제거
+   *
+   * 잠금 파일을 고유한 이름으로 옮긴 뒤(rename은 원자적) 내용을 확인하고,
+   * 다른 잠금이면 원래 이름으로 되돌립니다.
+   * (그 사이 새 잠금이 생겼으면 link가 실패하므로 덮어쓰지 않음)
+   *
+   * @param lockPath - 잠금 파일 경로
+   * @param expected - 제거할 잠금 파일 내용
+   * @returns 제거했으면 true
+   */
+  private static removeLockIfUnchanged(
+    lockPath: string,
+    expected: string,
+  ): boolean {
+    const claimedPath = `${lockPath}.${randomUUID()}`;
+    try {
+      fs.renameSync(lockPath, claimedPath);
+    } catch (error) {
+      if ((error as NodeJS.ErrnoException).code === 'ENOENT') {
+        return false;
+      }
+      throw error;
+    }
+
+    try {
+      if (fs.readFileSync(claimedPath, 'utf-8') === expected) {
+        return true;
+      }
+
+      try {
+        fs.linkSync(claimedPath, lockPath);
+      } catch (error) {
+        if ((error as NodeJS.ErrnoException).code !== 'EEXIST') {
+          throw error;
+        }
+      }
+      return false;
+    } finally {
+      fs.rmSync(claimedPath, { force: true });
+    }
+  }
+
+  /**
+   * 프로세스가 실행 중인지 확인
+   */
+  private static isProcessAlive(pid: number): boolean {
+    try {
+      process.kill(pid, 0);
+      return true;
+    } catch (error) {
+      return (error as NodeJS.ErrnoException).code === 'EPERM';
+    }
+  }
+}
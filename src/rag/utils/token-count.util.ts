@@ -0,0 +1,60 @@
+import { Logger } from '@nestjs/common';
+import { getEncoding } from '@langchain/core/utils/tiktoken';
+
+/** 토큰 수 계산에 사용하는 인코딩 (OpenAI 임베딩/채팅 모델 공통) */
+const ENCODING_NAME = 'cl100k_base';
+
+/**
+ * 토큰 수 계산 유틸리티
+ *
+ * tiktoken 인코딩(cl100k_base)으로 실제 토큰 수를 계산합니다.
+ * 인코딩 데이터는 처음 사용할 때 내려받으며,
+ * 내려받을 수 없는 환경(오프라인)에서는 문자 종류별 추정치를 사용합니다.
+ */
+export class TokenCountUtil {
+  private static readonly logger = new Logger(TokenCountUtil.name);
+
+  /** 인코딩 로드 결과 (실패하면 null) */
+  private static encoding: ReturnType<typeof getEncoding> | null = null;
+
+  /** 인코딩 로드 실패 여부 (한 번 실패하면 추정치만 사용) */
+  private static encodingUnavailable = false;
+
+  /**
+   * 텍스트의 토큰 수 계산
+   *
+   * @param text - 텍스트
+   * @returns 토큰 수 (인코딩을 사용할 수 없으면 추정치)
+   */
+  static async countTokens(text: string): Promise<number> {
+    if (!TokenCountUtil.encodingUnavailable) {
+      try {
+        TokenCountUtil.encoding ??= getEncoding(ENCODING_NAME);
+        const encoding = await TokenCountUtil.encoding;
+        return encoding.encode(text).length;
+      } catch (error) {
+        TokenCountUtil.encodingUnavailable = true;
+        TokenCountUtil.logger.warn(
+          `토큰 인코딩 로드 실패, 추정치를 사용합니다: ${error.message}`,
+        );
+      }
+    }
+
+    return TokenCountUtil.estimateTokens(text);
+  }
+
+  /**
+   * 텍스트의 토큰 수 추정
+   *
+   * @param text - 텍스트
+   * @returns 추정 토큰 수
+   *
+   * 한글/한자는 글자당 1토큰, 그 외 문자는 4글자당 1토큰으로 계산합니다.
+   */
+  static estimateTokens(text: string): number {
+    const cjkCount = (text.match(/[ㄱ-ㆎ가-힣一-鿿]/g) ?? []).length;
+    const otherCount = text.replace(/\s+/g, ' ').length - cjkCount;
+
+    return cjkCount + Math.ceil(Math.max(otherCount, 0) / 4);
+  }
+}